@@ -0,0 +1,211 @@
+import { createHash } from "node:crypto";
+import { appendFile, mkdir, readFile, rename, rm, stat } from "node:fs/promises";
+import { dirname } from "node:path";
+import type {
+  AuditConfig,
+  ToolResult,
+  UnsignedTransaction,
+} from "../core/types.js";
+import { getErrorCode } from "../core/errors.js";
+import { findTransactions } from "../policy/tx-policy.js";
+
+/** One line of the audit log */
+export interface AuditEntry {
+  timestamp: string;
+  /** Tenant that made the call, on authenticated transports */
+  tenant?: string;
+  tool: string;
+  /** Tool input with secrets redacted and long values shortened */
+  input: unknown;
+  durationMs: number;
+  status: "ok" | "error";
+  /** ErrorEnvelope code of a failed call */
+  errorCode?: string;
+  /** Transactions the call returned, identified by a hash of their content */
+  transactions?: Array<{ chainId: string; description: string; hash: string }>;
+}
+
+export interface AuditQuery {
+  tenant?: string;
+  tool?: string;
+  status?: AuditEntry["status"];
+  /** ISO timestamp; only entries at or after it */
+  since?: string;
+  /** Case-insensitive text the entry's input must contain, e.g. an address */
+  inputContains?: string;
+  limit?: number;
+}
+
+// Input fields never written to the log
+const SECRET_KEY = /api.?key|secret|password|private|mnemonic|seed|auth/i;
+const MAX_STRING_LENGTH = 512;
+
+/**
+ * Appends a JSONL record of every tool call to `config.path` when set.
+ * The file is rotated to `<path>.1`, `<path>.2`, ... once it would grow
+ * past `maxFileBytes`, keeping `maxFiles` rotated files.
+ */
+export class AuditLog {
+  /** Writes run one at a time so lines and rotations don't interleave */
+  private writes: Promise<void> = Promise.resolve();
+  private size: number | undefined;
+
+  constructor(private config: AuditConfig) {}
+
+  get enabled(): boolean {
+    return this.config.path !== undefined;
+  }
+
+  /** Record a finished tool call. Write failures are reported, never thrown. */
+  record(
+    tool: string,
+    input: unknown,
+    result: ToolResult,
+    durationMs: number,
+    tenant?: string
+  ): Promise<void> {
+    if (!this.enabled) return Promise.resolve();
+    const entry: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      tenant,
+      tool,
+      input: sanitize(input),
+      durationMs: Math.round(durationMs),
+      status: result.isError ? "error" : "ok",
+      errorCode: result.isError ? getErrorCode(result) : undefined,
+      transactions: result.isError ? undefined : transactionHashes(result),
+    };
+    this.writes = this.writes
+      .then(() => this.append(JSON.stringify(entry) + "\n"))
+      .catch((err) => console.error("defi-mcp audit log write failed:", err));
+    return this.writes;
+  }
+
+  /** Matching entries, newest first */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    if (!this.enabled) return [];
+    await this.writes;
+    const limit = query.limit ?? 50;
+    const needle = query.inputContains?.toLowerCase();
+    const matches: AuditEntry[] = [];
+
+    for (const path of this.files()) {
+      const lines = (await readIfExists(path)).split("\n").filter(Boolean);
+      for (const line of lines.reverse()) {
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue;
+        }
+        // Older files only hold older entries
+        if (query.since && entry.timestamp < query.since) return matches;
+        if (query.tenant && entry.tenant !== query.tenant) continue;
+        if (query.tool && entry.tool !== query.tool) continue;
+        if (query.status && entry.status !== query.status) continue;
+        if (needle && !JSON.stringify(entry.input).toLowerCase().includes(needle)) {
+          continue;
+        }
+        matches.push(entry);
+        if (matches.length >= limit) return matches;
+      }
+    }
+    return matches;
+  }
+
+  /** Resolves once pending writes have finished */
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  private async append(line: string): Promise<void> {
+    const path = this.config.path!;
+    if (this.size === undefined) {
+      await mkdir(dirname(path), { recursive: true });
+      this.size = await stat(path).then((s) => s.size, () => 0);
+    }
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.config.maxFileBytes) {
+      await this.rotate();
+    }
+    await appendFile(path, line);
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    const files = this.files();
+    await rm(files[files.length - 1], { force: true });
+    for (let i = files.length - 2; i >= 0; i--) {
+      await rename(files[i], files[i + 1]).catch((err) => {
+        if (err.code !== "ENOENT") throw err;
+      });
+    }
+    this.size = 0;
+  }
+
+  /** The current file followed by rotated ones, newest first */
+  private files(): string[] {
+    const path = this.config.path!;
+    return [
+      path,
+      ...Array.from({ length: this.config.maxFiles }, (_, i) => `${path}.${i + 1}`),
+    ];
+  }
+}
+
+function sanitize(value: unknown, key = ""): unknown {
+  if (SECRET_KEY.test(key)) return "[redacted]";
+  if (typeof value === "string" && value.length > MAX_STRING_LENGTH) {
+    return `${value.slice(0, MAX_STRING_LENGTH)}... (${value.length} chars)`;
+  }
+  if (Array.isArray(value)) return value.map((v) => sanitize(v));
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, sanitize(v, k)])
+    );
+  }
+  return value;
+}
+
+function transactionHashes(result: ToolResult): AuditEntry["transactions"] {
+  let body: unknown;
+  try {
+    body = JSON.parse(result.content[0]?.text ?? "");
+  } catch {
+    return undefined;
+  }
+  const txs = findTransactions(body);
+  if (txs.length === 0) return undefined;
+  return txs.map((tx) => ({
+    chainId: tx.chainId,
+    description: tx.description,
+    hash: hashTransaction(tx),
+  }));
+}
+
+/** sha256 of what gets signed: chain, ecosystem and the raw transaction */
+function hashTransaction(tx: UnsignedTransaction): string {
+  const signed = { chainId: tx.chainId, ecosystem: tx.ecosystem, raw: tx.raw };
+  return createHash("sha256").update(canonicalJson(signed)).digest("hex");
+}
+
+/** JSON with object keys sorted, so equal transactions hash equally */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+async function readIfExists(path: string): Promise<string> {
+  try {
+    return await readFile(path, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return "";
+    throw err;
+  }
+}
@@ -0,0 +1,86 @@
+import { createHash } from "node:crypto";
+import type { AuthConfig, TenantConfig } from "../core/types.js";
+import {
+  QuotaExceededError,
+  ToolNotAllowedError,
+  type DefiMcpError,
+} from "../core/errors.js";
+
+/** Span of the per-minute call quota */
+const QUOTA_WINDOW_MS = 60_000;
+
+/**
+ * API-key authentication and per-tenant limits for the networked
+ * transports. Keys are held only as sha256 digests. Quotas count tool
+ * calls over a rolling minute, in memory, shared by all of a tenant's
+ * sessions and REST calls.
+ */
+export class TenantAuth {
+  private tenantsByKey = new Map<string, TenantConfig>();
+  private calls = new Map<string, number[]>();
+
+  constructor(config: AuthConfig) {
+    for (const tenant of config.tenants) {
+      for (const key of tenant.keys) {
+        this.tenantsByKey.set(digest(key), tenant);
+      }
+    }
+  }
+
+  /** Whether networked requests must present a tenant's key */
+  get enabled(): boolean {
+    return this.tenantsByKey.size > 0;
+  }
+
+  /** The tenant a bearer token or API key belongs to */
+  authenticate(key: string | undefined): TenantConfig | undefined {
+    return key ? this.tenantsByKey.get(digest(key)) : undefined;
+  }
+
+  /**
+   * Check that a tenant may call a tool now, counting the call against its
+   * quota. Returns the error to fail the call with, if any.
+   */
+  authorize(tenant: TenantConfig, tool: string): DefiMcpError | undefined {
+    if (!isToolAllowed(tenant, tool)) {
+      return new ToolNotAllowedError(tool, tenant.id);
+    }
+    if (tenant.callsPerMinute === undefined) return undefined;
+
+    const now = Date.now();
+    const recent = (this.calls.get(tenant.id) ?? []).filter(
+      (at) => at > now - QUOTA_WINDOW_MS
+    );
+    this.calls.set(tenant.id, recent);
+    if (recent.length >= tenant.callsPerMinute) {
+      return new QuotaExceededError(
+        tenant.id,
+        tenant.callsPerMinute,
+        recent[0] + QUOTA_WINDOW_MS - now
+      );
+    }
+    recent.push(now);
+    return undefined;
+  }
+}
+
+/** Whether a tool is on the tenant's allowlist; anything goes without a tenant */
+export function isToolAllowed(
+  tenant: TenantConfig | undefined,
+  tool: string
+): boolean {
+  if (!tenant?.tools) return true;
+  return tenant.tools.some((pattern) => globToRegExp(pattern).test(tool));
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+function digest(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
@@ -0,0 +1,60 @@
+import type { AppConfig } from "./core/types.js";
+import { Registry } from "./core/registry.js";
+import {
+  EvmChainAdapter,
+  SolanaChainAdapter,
+  CosmosChainAdapter,
+  selectChains,
+  registerChain,
+  getChains,
+} from "./chains/index.js";
+import { registerComponents } from "./plugins/builtin.js";
+import { loadExtensions } from "./plugins/external.js";
+
+/**
+ * Build a Registry with the chain adapters, plugins, scanners and yield
+ * sources enabled in config. Shared by the MCP server and the CLI so both
+ * serve exactly the same tools.
+ */
+export async function createRegistry(config: AppConfig): Promise<Registry> {
+  // 1. Create registry
+  const registry = new Registry(config);
+
+  // 2. Register chain adapters, including EVM chains defined in config
+  for (const chain of config.evmChains) {
+    registerChain(chain);
+  }
+  const rpcHealth = registry.getRpcHealth();
+  const fetchFn = registry.getFetch();
+  registry.registerChainAdapter(
+    new EvmChainAdapter(
+      selectChains(getChains("evm"), config.chains),
+      config.rpcUrls,
+      rpcHealth,
+      fetchFn
+    )
+  );
+  registry.registerChainAdapter(
+    new SolanaChainAdapter(
+      selectChains(getChains("solana"), config.chains),
+      config.rpcUrls,
+      rpcHealth,
+      fetchFn
+    )
+  );
+  registry.registerChainAdapter(
+    new CosmosChainAdapter(
+      selectChains(getChains("cosmos"), config.chains),
+      config.rpcUrls,
+      rpcHealth,
+      fetchFn
+    )
+  );
+
+  // 3. Register the plugins, scanners and yield sources enabled in config,
+  //    built-in and from extension packages
+  const extensions = await loadExtensions(config.extensions, config);
+  await registerComponents(registry, config, extensions);
+
+  return registry;
+}
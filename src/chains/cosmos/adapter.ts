@@ -9,6 +9,13 @@ import type {
 } from "../../core/types.js";
 import { formatTokenAmount } from "../../core/utils.js";
 import { COSMOS_CHAINS } from "./chains.js";
+import {
+  withFailover,
+  isRateLimitError,
+  RpcHealthTracker,
+} from "../../core/rpc-health.js";
+import type { FetchFn } from "../../core/network.js";
+import { connectCometWithFetch, RpcEndpointError } from "./fetch-rpc-client.js";
 
 /** Well-known Cosmos denoms for quick resolution */
 const KNOWN_TOKENS: Record<string, Record<string, TokenInfo>> = {
@@ -32,11 +39,14 @@ const KNOWN_TOKENS: Record<string, Record<string, TokenInfo>> = {
 
 export class CosmosChainAdapter implements ChainAdapter {
   readonly ecosystem: ChainEcosystem = "cosmos";
-  private clients = new Map<string, StargateClient>();
+  /** Connected clients keyed by endpoint URL */
+  private clients = new Map<string, Promise<StargateClient>>();
 
   constructor(
     private chains: ChainInfo[],
-    private rpcUrls: Record<string, string>
+    private rpcUrls: Record<string, string[]>,
+    private health = new RpcHealthTracker(),
+    private fetchFn: FetchFn = fetch
   ) {}
 
   getSupportedChains(): ChainInfo[] {
@@ -56,14 +66,39 @@ export class CosmosChainAdapter implements ChainAdapter {
     }
   }
 
-  private async getClient(chainId: string): Promise<StargateClient> {
-    if (!this.clients.has(chainId)) {
-      const chain = this.getChainOrThrow(chainId);
-      const rpcUrl = this.rpcUrls[chainId] || chain.rpcUrl;
-      const client = await StargateClient.connect(rpcUrl);
-      this.clients.set(chainId, client);
+  private connect(rpcUrl: string): Promise<StargateClient> {
+    let client = this.clients.get(rpcUrl);
+    if (!client) {
+      client = connectCometWithFetch(rpcUrl, this.fetchFn).then((comet) =>
+        StargateClient.create(comet)
+      );
+      // Don't cache failed connections so the endpoint is retried later
+      client.catch(() => this.clients.delete(rpcUrl));
+      this.clients.set(rpcUrl, client);
     }
-    return this.clients.get(chainId)!;
+    return client;
+  }
+
+  /**
+   * Run a query against the healthiest endpoint for a chain, failing over
+   * to the next one on network errors, timeouts, 5xx responses and rate
+   * limits. Anything else, such as a bad address or a query the chain
+   * rejects, is rethrown without counting against the endpoint.
+   */
+  private withClient<T>(
+    chainId: string,
+    fn: (client: StargateClient) => Promise<T>
+  ): Promise<T> {
+    const chain = this.getChainOrThrow(chainId);
+    const urls = this.rpcUrls[chainId]?.length
+      ? this.rpcUrls[chainId]
+      : [chain.rpcUrl];
+    return withFailover(
+      urls,
+      this.health,
+      async (url) => fn(await this.connect(url)),
+      isEndpointFailure
+    );
   }
 
   private getChainOrThrow(chainId: string): ChainInfo {
@@ -76,11 +111,9 @@ export class CosmosChainAdapter implements ChainAdapter {
     chainId: string,
     address: string
   ): Promise<TokenBalance> {
-    const client = await this.getClient(chainId);
     const chain = this.getChainOrThrow(chainId);
-    const balance = await client.getBalance(
-      address,
-      chain.nativeToken.address
+    const balance = await this.withClient(chainId, (client) =>
+      client.getBalance(address, chain.nativeToken.address)
     );
     return {
       token: chain.nativeToken,
@@ -104,8 +137,9 @@ export class CosmosChainAdapter implements ChainAdapter {
       return this.getNativeBalance(chainId, address);
     }
 
-    const client = await this.getClient(chainId);
-    const balance = await client.getBalance(address, denom);
+    const balance = await this.withClient(chainId, (client) =>
+      client.getBalance(address, denom)
+    );
 
     // Try to resolve token metadata
     const token = await this.resolveToken(chainId, denom);
@@ -165,4 +199,16 @@ export class CosmosChainAdapter implements ChainAdapter {
 
     return undefined;
   }
+
+  getLatestBlock(chainId: string): Promise<number> {
+    return this.withClient(chainId, (client) => client.getHeight());
+  }
+
+  getKnownTokens(chainId: string): TokenInfo[] {
+    return Object.values(KNOWN_TOKENS[chainId] ?? {});
+  }
+}
+
+function isEndpointFailure(error: unknown): boolean {
+  return error instanceof RpcEndpointError || isRateLimitError(error);
 }
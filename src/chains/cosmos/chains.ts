@@ -16,6 +16,7 @@ export const COSMOS_CHAINS: ChainInfo[] = [
     },
     rpcUrl: "https://rpc.osmosis.zone",
     explorerUrl: "https://www.mintscan.io/osmosis",
+    coingeckoPlatform: "osmosis",
   },
   {
     id: "cosmoshub-4",
@@ -32,5 +33,6 @@ export const COSMOS_CHAINS: ChainInfo[] = [
     },
     rpcUrl: "https://rpc.cosmos.network",
     explorerUrl: "https://www.mintscan.io/cosmos",
+    coingeckoPlatform: "cosmos",
   },
 ];
@@ -0,0 +1,87 @@
+import {
+  isJsonRpcErrorResponse,
+  parseJsonRpcResponse,
+  type JsonRpcRequest,
+  type JsonRpcSuccessResponse,
+} from "@cosmjs/json-rpc";
+import {
+  Comet38Client,
+  Tendermint34Client,
+  Tendermint37Client,
+  type CometClient,
+  type RpcClient,
+} from "@cosmjs/tendermint-rpc";
+import type { FetchFn } from "../../core/network.js";
+
+/**
+ * The endpoint itself failed: the request didn't complete, or it answered
+ * with a 429 or 5xx. Other errors come from the query and would fail the
+ * same way on any endpoint.
+ */
+export class RpcEndpointError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = "RpcEndpointError";
+  }
+}
+
+/**
+ * cosmjs RPC client that sends requests through a given fetch instead of
+ * its bundled axios/fetch, so Cosmos traffic can be recorded and replayed
+ * like every other network call.
+ */
+export class FetchRpcClient implements RpcClient {
+  constructor(
+    private url: string,
+    private fetchFn: FetchFn
+  ) {}
+
+  async execute(request: JsonRpcRequest): Promise<JsonRpcSuccessResponse> {
+    let res: Response;
+    try {
+      res = await this.fetchFn(this.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new RpcEndpointError(`Request failed: ${message}`, undefined, {
+        cause: err,
+      });
+    }
+    if (!res.ok) {
+      const message = `Bad status on response: ${res.status}`;
+      if (res.status === 429 || res.status >= 500) {
+        throw new RpcEndpointError(message, res.status);
+      }
+      throw new Error(message);
+    }
+    const response = parseJsonRpcResponse(await res.json());
+    if (isJsonRpcErrorResponse(response)) {
+      throw new Error(JSON.stringify(response.error));
+    }
+    return response;
+  }
+
+  disconnect(): void {
+    // Stateless HTTP, nothing to close
+  }
+}
+
+/** Same version detection as cosmjs' connectComet, over FetchRpcClient */
+export async function connectCometWithFetch(
+  url: string,
+  fetchFn: FetchFn
+): Promise<CometClient> {
+  const rpcClient = new FetchRpcClient(url, fetchFn);
+  const tm37Client = await Tendermint37Client.create(rpcClient);
+  const version = (await tm37Client.status()).nodeInfo.version;
+  if (version.startsWith("0.37.")) return tm37Client;
+  if (version.startsWith("0.38.")) return Comet38Client.create(rpcClient);
+  return Tendermint34Client.create(rpcClient);
+}
@@ -1,13 +1,10 @@
 import {
   createPublicClient,
-  http,
   getAddress,
   isAddress,
   formatUnits,
   erc20Abi,
   type PublicClient,
-  type HttpTransport,
-  type Chain,
 } from "viem";
 import type {
   ChainAdapter,
@@ -19,19 +16,32 @@ import type {
 import { formatTokenAmount } from "../../core/utils.js";
 import { NATIVE_TOKEN_ADDRESS, EVM_CHAINS } from "./chains.js";
 import { KNOWN_TOKENS } from "./known-tokens.js";
+import { toViemChain } from "./viem-chain.js";
+import { failoverTransport } from "./failover-transport.js";
+import { RpcHealthTracker } from "../../core/rpc-health.js";
+import type { FetchFn } from "../../core/network.js";
 
 export class EvmChainAdapter implements ChainAdapter {
   readonly ecosystem: ChainEcosystem = "evm";
-  private clients = new Map<string, PublicClient<HttpTransport, Chain | undefined>>();
+  private clients = new Map<string, PublicClient>();
 
   constructor(
     private chains: ChainInfo[],
-    rpcUrls: Record<string, string>
+    rpcUrls: Record<string, string[]>,
+    health = new RpcHealthTracker(),
+    fetchFn: FetchFn = fetch
   ) {
+    // One long-lived client per chain, shared by every plugin via
+    // PluginContext.getEvmClient. JSON-RPC batching and multicall batching
+    // collapse the many concurrent reads of a wallet scan into few requests.
     for (const chain of chains) {
-      const rpcUrl = rpcUrls[chain.id] || chain.rpcUrl;
-      const client = createPublicClient({ transport: http(rpcUrl) });
-      this.clients.set(chain.id, client);
+      const urls = rpcUrls[chain.id]?.length ? rpcUrls[chain.id] : [chain.rpcUrl];
+      const client = createPublicClient({
+        chain: toViemChain(chain, urls[0]),
+        transport: failoverTransport(urls, health, fetchFn),
+        batch: { multicall: true },
+      });
+      this.clients.set(chain.id, client as PublicClient);
     }
   }
 
@@ -47,7 +57,8 @@ export class EvmChainAdapter implements ChainAdapter {
     return isAddress(address);
   }
 
-  private getClient(chainId: string) {
+  /** The pooled viem client for a chain */
+  getClient(chainId: string): PublicClient {
     const client = this.clients.get(chainId);
     if (!client) throw new Error(`No client for chain "${chainId}"`);
     return client;
@@ -194,4 +205,13 @@ export class EvmChainAdapter implements ChainAdapter {
 
     return undefined;
   }
+
+  async getLatestBlock(chainId: string): Promise<number> {
+    const block = await this.getClient(chainId).getBlockNumber({ cacheTime: 0 });
+    return Number(block);
+  }
+
+  getKnownTokens(chainId: string): TokenInfo[] {
+    return Object.values(KNOWN_TOKENS[chainId] ?? {});
+  }
 }
@@ -20,6 +20,7 @@ export const EVM_CHAINS: ChainInfo[] = [
     },
     rpcUrl: "https://eth.llamarpc.com",
     explorerUrl: "https://etherscan.io",
+    coingeckoPlatform: "ethereum",
   },
   {
     id: "base",
@@ -36,6 +37,7 @@ export const EVM_CHAINS: ChainInfo[] = [
     },
     rpcUrl: "https://mainnet.base.org",
     explorerUrl: "https://basescan.org",
+    coingeckoPlatform: "base",
   },
   {
     id: "arbitrum",
@@ -52,6 +54,7 @@ export const EVM_CHAINS: ChainInfo[] = [
     },
     rpcUrl: "https://arb1.arbitrum.io/rpc",
     explorerUrl: "https://arbiscan.io",
+    coingeckoPlatform: "arbitrum-one",
   },
   {
     id: "polygon",
@@ -68,6 +71,7 @@ export const EVM_CHAINS: ChainInfo[] = [
     },
     rpcUrl: "https://polygon-rpc.com",
     explorerUrl: "https://polygonscan.com",
+    coingeckoPlatform: "polygon-pos",
   },
   {
     id: "optimism",
@@ -84,6 +88,7 @@ export const EVM_CHAINS: ChainInfo[] = [
     },
     rpcUrl: "https://mainnet.optimism.io",
     explorerUrl: "https://optimistic.etherscan.io",
+    coingeckoPlatform: "optimistic-ethereum",
   },
   {
     id: "avalanche",
@@ -100,6 +105,7 @@ export const EVM_CHAINS: ChainInfo[] = [
     },
     rpcUrl: "https://api.avax.network/ext/bc/C/rpc",
     explorerUrl: "https://snowtrace.io",
+    coingeckoPlatform: "avalanche",
   },
   {
     id: "bsc",
@@ -116,11 +122,6 @@ export const EVM_CHAINS: ChainInfo[] = [
     },
     rpcUrl: "https://bsc-dataseed.binance.org",
     explorerUrl: "https://bscscan.com",
+    coingeckoPlatform: "binance-smart-chain",
   },
 ];
-
-/** Map our chain IDs to numeric EVM chain IDs */
-export const CHAIN_ID_MAP: Record<string, number> = {};
-for (const chain of EVM_CHAINS) {
-  CHAIN_ID_MAP[chain.id] = chain.nativeChainId as number;
-}
@@ -0,0 +1,55 @@
+import {
+  custom,
+  http,
+  HttpRequestError,
+  TimeoutError,
+  type EIP1193RequestFn,
+  type Transport,
+} from "viem";
+import {
+  isRateLimitError,
+  withFailover,
+  type RpcHealthTracker,
+} from "../../core/rpc-health.js";
+import type { FetchFn } from "../../core/network.js";
+
+/**
+ * A viem transport that sends each request to the healthiest of several
+ * HTTP endpoints, falling back down the list on network errors, timeouts
+ * and rate limits. JSON-RPC errors such as reverts are returned as-is.
+ */
+export function failoverTransport(
+  urls: string[],
+  health: RpcHealthTracker,
+  fetchFn: FetchFn = fetch
+): Transport {
+  return (params) => {
+    const endpoints = new Map(
+      urls.map((url) => [
+        url,
+        http(url, { batch: true, retryCount: 0, fetchFn })({ ...params, retryCount: 0 }),
+      ])
+    );
+
+    const request = ((args) =>
+      withFailover(
+        urls,
+        health,
+        (url) => endpoints.get(url)!.request(args),
+        isEndpointFailure
+      )) as EIP1193RequestFn;
+
+    return custom(
+      { request },
+      { key: "failover", name: "Failover HTTP", retryCount: 0 }
+    )(params);
+  };
+}
+
+function isEndpointFailure(error: unknown): boolean {
+  return (
+    error instanceof HttpRequestError ||
+    error instanceof TimeoutError ||
+    isRateLimitError(error)
+  );
+}
@@ -0,0 +1,35 @@
+import { defineChain, type Chain } from "viem";
+import * as viemChains from "viem/chains";
+import type { ChainInfo } from "../../core/types.js";
+
+/** Multicall3 is deployed at the same address on every major EVM chain */
+const MULTICALL3_ADDRESS = "0xcA11bde05779b3379Ac99b1fe3e5e04d5E8A2E4c";
+
+/**
+ * Build a viem Chain for one of our EVM chains so clients get multicall3
+ * (and, on mainnet, ENS) contract addresses. Uses viem's own definition
+ * when it knows the chain ID.
+ */
+export function toViemChain(chain: ChainInfo, rpcUrl: string): Chain {
+  const known = Object.values(viemChains).find(
+    (c) => (c as Chain).id === chain.nativeChainId
+  ) as Chain | undefined;
+  if (known) return known;
+
+  return defineChain({
+    id: chain.nativeChainId as number,
+    name: chain.name,
+    nativeCurrency: {
+      name: chain.nativeToken.name,
+      symbol: chain.nativeToken.symbol,
+      decimals: chain.nativeToken.decimals,
+    },
+    rpcUrls: { default: { http: [rpcUrl] } },
+    blockExplorers: chain.explorerUrl
+      ? { default: { name: chain.name, url: chain.explorerUrl } }
+      : undefined,
+    contracts: {
+      multicall3: { address: MULTICALL3_ADDRESS },
+    },
+  });
+}
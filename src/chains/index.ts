@@ -4,3 +4,11 @@ export { SolanaChainAdapter } from "./solana/adapter.js";
 export { SOLANA_CHAINS } from "./solana/chains.js";
 export { CosmosChainAdapter } from "./cosmos/adapter.js";
 export { COSMOS_CHAINS } from "./cosmos/chains.js";
+export { selectChains } from "./selection.js";
+export {
+  registerChain,
+  getChain,
+  getChains,
+  getEvmChainIds,
+  getEvmChainId,
+} from "./registry.js";
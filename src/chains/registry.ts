@@ -0,0 +1,56 @@
+import type { ChainEcosystem, ChainInfo } from "../core/types.js";
+import { EVM_CHAINS } from "./evm/chains.js";
+import { SOLANA_CHAINS } from "./solana/chains.js";
+import { COSMOS_CHAINS } from "./cosmos/chains.js";
+
+/**
+ * Every chain the server knows about: the built-in lists plus EVM chains
+ * defined in config, which are added at startup before chain adapters and
+ * plugins are created. Numeric chain IDs for upstream APIs are looked up
+ * here, so a chain added in config needs no per-plugin changes.
+ */
+const chains = new Map<string, ChainInfo>(
+  [...EVM_CHAINS, ...SOLANA_CHAINS, ...COSMOS_CHAINS].map((c) => [c.id, c])
+);
+
+/**
+ * Add a chain. Re-registering an identical definition is a no-op, so
+ * several registries in one process can load the same config.
+ */
+export function registerChain(chain: ChainInfo): void {
+  const existing = chains.get(chain.id);
+  if (existing) {
+    if (JSON.stringify(existing) === JSON.stringify(chain)) return;
+    throw new Error(`Chain "${chain.id}" is already defined`);
+  }
+  const clash = [...chains.values()].find(
+    (c) => c.ecosystem === chain.ecosystem && c.nativeChainId === chain.nativeChainId
+  );
+  if (clash) {
+    throw new Error(
+      `Chain "${chain.id}" has the same chain ID (${chain.nativeChainId}) as "${clash.id}"`
+    );
+  }
+  chains.set(chain.id, chain);
+}
+
+export function getChain(chainId: string): ChainInfo | undefined {
+  return chains.get(chainId);
+}
+
+/** Registered chains in registration order, optionally for one ecosystem */
+export function getChains(ecosystem?: ChainEcosystem): ChainInfo[] {
+  const all = [...chains.values()];
+  return ecosystem ? all.filter((c) => c.ecosystem === ecosystem) : all;
+}
+
+/** IDs of all registered EVM chains */
+export function getEvmChainIds(): string[] {
+  return getChains("evm").map((c) => c.id);
+}
+
+/** Numeric EIP-155 chain ID for one of our EVM chain IDs, e.g. "base" -> 8453 */
+export function getEvmChainId(chainId: string): number | undefined {
+  const chain = chains.get(chainId);
+  return chain?.ecosystem === "evm" ? (chain.nativeChainId as number) : undefined;
+}
@@ -0,0 +1,13 @@
+import type { ChainInfo, ChainSelection } from "../core/types.js";
+
+/** Narrow a chain list to the chains enabled in config */
+export function selectChains(
+  chains: ChainInfo[],
+  selection: ChainSelection
+): ChainInfo[] {
+  return chains.filter(
+    (c) =>
+      (!selection.include || selection.include.includes(c.id)) &&
+      !selection.exclude?.includes(c.id)
+  );
+}
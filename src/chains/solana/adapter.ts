@@ -1,8 +1,4 @@
-import {
-  Connection,
-  PublicKey,
-  LAMPORTS_PER_SOL,
-} from "@solana/web3.js";
+import { Connection, PublicKey } from "@solana/web3.js";
 import {
   getAccount,
   getMint,
@@ -17,6 +13,9 @@ import type {
 } from "../../core/types.js";
 import { formatTokenAmount } from "../../core/utils.js";
 import { NATIVE_SOL_MINT, SOLANA_CHAINS } from "./chains.js";
+import { createFailoverFetch } from "./failover-fetch.js";
+import { RpcHealthTracker } from "../../core/rpc-health.js";
+import type { FetchFn } from "../../core/network.js";
 
 /** Well-known Solana tokens for quick resolution */
 const KNOWN_TOKENS: Record<string, TokenInfo> = {
@@ -34,11 +33,19 @@ export class SolanaChainAdapter implements ChainAdapter {
 
   constructor(
     private chains: ChainInfo[],
-    rpcUrls: Record<string, string>
+    rpcUrls: Record<string, string[]>,
+    health = new RpcHealthTracker(),
+    fetchFn: FetchFn = fetch
   ) {
     for (const chain of chains) {
-      const rpcUrl = rpcUrls[chain.id] || chain.rpcUrl;
-      this.connections.set(chain.id, new Connection(rpcUrl, "confirmed"));
+      const urls = rpcUrls[chain.id]?.length ? rpcUrls[chain.id] : [chain.rpcUrl];
+      // Failover happens in fetch, so Connection must not back off on 429 itself
+      const connection = new Connection(urls[0], {
+        commitment: "confirmed",
+        fetch: createFailoverFetch(urls, health, fetchFn),
+        disableRetryOnRateLimit: true,
+      });
+      this.connections.set(chain.id, connection);
     }
   }
 
@@ -59,7 +66,8 @@ export class SolanaChainAdapter implements ChainAdapter {
     }
   }
 
-  private getConnection(chainId: string): Connection {
+  /** The pooled Connection for a chain */
+  getConnection(chainId: string): Connection {
     const conn = this.connections.get(chainId);
     if (!conn) throw new Error(`No connection for chain "${chainId}"`);
     return conn;
@@ -82,7 +90,10 @@ export class SolanaChainAdapter implements ChainAdapter {
     return {
       token: chain.nativeToken,
       balanceRaw: lamports.toString(),
-      balanceFormatted: (lamports / LAMPORTS_PER_SOL).toString(),
+      balanceFormatted: formatTokenAmount(
+        lamports.toString(),
+        chain.nativeToken.decimals
+      ),
     };
   }
 
@@ -196,4 +207,13 @@ export class SolanaChainAdapter implements ChainAdapter {
       return undefined;
     }
   }
+
+  getLatestBlock(chainId: string): Promise<number> {
+    return this.getConnection(chainId).getSlot();
+  }
+
+  getKnownTokens(chainId: string): TokenInfo[] {
+    // The known mints are mainnet ones
+    return Object.values(KNOWN_TOKENS).filter((t) => t.chainId === chainId);
+  }
 }
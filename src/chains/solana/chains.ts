@@ -18,5 +18,6 @@ export const SOLANA_CHAINS: ChainInfo[] = [
     },
     rpcUrl: "https://api.mainnet-beta.solana.com",
     explorerUrl: "https://solscan.io",
+    coingeckoPlatform: "solana",
   },
 ];
@@ -0,0 +1,40 @@
+import type { FetchFn as SolanaFetchFn } from "@solana/web3.js";
+import { withFailover, type RpcHealthTracker } from "../../core/rpc-health.js";
+import type { FetchFn } from "../../core/network.js";
+
+class EndpointResponseError extends Error {
+  readonly status: number;
+
+  constructor(readonly response: Response) {
+    super(`RPC endpoint responded with HTTP ${response.status}`);
+    this.status = response.status;
+  }
+}
+
+/**
+ * A fetch implementation for Solana's Connection that ignores the URL it is
+ * given and sends the JSON-RPC request to the healthiest configured
+ * endpoint, moving on when one is unreachable, erroring or rate limited.
+ */
+export function createFailoverFetch(
+  urls: string[],
+  health: RpcHealthTracker,
+  fetchFn: FetchFn = fetch
+): SolanaFetchFn {
+  return (async (_input: unknown, init?: RequestInit) => {
+    try {
+      return await withFailover(urls, health, async (url) => {
+        const response = await fetchFn(url, init);
+        if (response.status === 429 || response.status >= 500) {
+          throw new EndpointResponseError(response);
+        }
+        return response;
+      });
+    } catch (err) {
+      // Hand the last HTTP error back to Connection so it can report it;
+      // rate limiting arrives as an UpstreamRateLimitError naming the host
+      if (err instanceof EndpointResponseError) return err.response;
+      throw err;
+    }
+  }) as SolanaFetchFn;
+}
@@ -0,0 +1,178 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { parseArgs } from "node:util";
+import { loadConfig } from "../config.js";
+import { createRegistry } from "../bootstrap.js";
+import type { Registry } from "../core/registry.js";
+import { executeTool, getExposedTools } from "../tools/register.js";
+import { formatTable } from "./table.js";
+
+const USAGE = `Usage:
+  defi-mcp-cli list-tools [--output json|table]
+  defi-mcp-cli call <tool> [--input '<json>'] [--output json|table]
+
+Runs the server's tools in-process, without an MCP client. Configuration
+is read from the environment and config file exactly as the server does.
+
+Options:
+  --input   Tool arguments as a JSON object (default: {})
+  --output  json (default) or table
+  --help    Show this help
+`;
+
+/** Exit codes: 0 success, 1 the tool failed, 2 bad usage or input */
+type ExitCode = 0 | 1 | 2;
+
+type OutputFormat = "json" | "table";
+
+async function main(): Promise<ExitCode> {
+  let args;
+  try {
+    args = parseArgs({
+      allowPositionals: true,
+      options: {
+        input: { type: "string" },
+        output: { type: "string", default: "json" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    return usageError((err as Error).message);
+  }
+  const { positionals, values } = args;
+  const [command, toolName = "", ...extra] = positionals;
+
+  if (values.help) {
+    await write(process.stdout, USAGE);
+    return 0;
+  }
+  const output = values.output;
+  if (output !== "json" && output !== "table") {
+    return usageError(`--output must be "json" or "table", got "${output}"`);
+  }
+  if (command !== "list-tools" && command !== "call") {
+    return usageError(command ? `Unknown command "${command}"` : "Missing command");
+  }
+  if (command === "call" && !toolName) {
+    return usageError("Missing tool name, e.g. defi-mcp-cli call defi_get_chains");
+  }
+  if (extra.length > 0 || (command === "list-tools" && toolName)) {
+    return usageError(`Unexpected argument "${extra[0] ?? toolName}"`);
+  }
+
+  let input: unknown = {};
+  if (values.input !== undefined) {
+    try {
+      input = JSON.parse(values.input);
+    } catch (err) {
+      return usageError(`--input is not valid JSON: ${(err as Error).message}`);
+    }
+  }
+
+  const registry = await createRegistry(loadConfig());
+  try {
+    return command === "list-tools"
+      ? await listTools(registry, output)
+      : await callTool(registry, toolName, input, output);
+  } finally {
+    await registry.shutdown();
+  }
+}
+
+async function listTools(
+  registry: Registry,
+  output: OutputFormat
+): Promise<ExitCode> {
+  const toolsets = new Map<string, string>();
+  for (const plugin of registry.getPlugins()) {
+    for (const tool of plugin.getTools()) toolsets.set(tool.name, plugin.name);
+  }
+  const tools = getExposedTools(registry).map((tool) => ({
+    name: tool.name,
+    toolset: toolsets.get(tool.name) ?? "builtin",
+    capabilities: tool.capabilities ?? ["read"],
+    description: tool.description,
+  }));
+
+  if (output === "json") {
+    await write(process.stdout, JSON.stringify(tools, null, 2) + "\n");
+  } else {
+    const rows = tools.map((t) => ({
+      ...t,
+      capabilities: t.capabilities.join(","),
+    }));
+    await write(process.stdout, formatTable(rows));
+  }
+  return 0;
+}
+
+async function callTool(
+  registry: Registry,
+  name: string,
+  input: unknown,
+  output: OutputFormat
+): Promise<ExitCode> {
+  const tool = getExposedTools(registry).find((t) => t.name === name);
+  if (!tool) {
+    return usageError(
+      `Unknown tool "${name}". Run "defi-mcp-cli list-tools" to see the available tools.`
+    );
+  }
+
+  const parsed = await tool.inputSchema.safeParseAsync(input);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(
+      (i) => `  ${i.path.join(".") || "(input)"}: ${i.message}`
+    );
+    return usageError(`Invalid input for ${name}:\n${issues.join("\n")}`);
+  }
+
+  // Ctrl-C cancels the call the same way an MCP client's cancellation does
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+
+  const result = await executeTool(registry, tool, parsed.data, {
+    signal: controller.signal,
+    onProgress: process.stderr.isTTY
+      ? ({ progress, total, message }) =>
+          process.stderr.write(
+            `[${progress}${total ? `/${total}` : ""}] ${message ?? ""}\n`
+          )
+      : undefined,
+  });
+
+  const text = result.content.map((c) => c.text).join("\n");
+  if (result.isError) {
+    await write(process.stderr, text + "\n");
+    return 1;
+  }
+  await write(process.stdout, (output === "table" ? toTable(text) : text) + "\n");
+  return 0;
+}
+
+/** Tool results are JSON text; anything else is printed as it is */
+function toTable(text: string): string {
+  try {
+    return formatTable(JSON.parse(text)).trimEnd();
+  } catch {
+    return text;
+  }
+}
+
+async function usageError(message: string): Promise<ExitCode> {
+  await write(process.stderr, `defi-mcp-cli: ${message}\n\n${USAGE}`);
+  return 2;
+}
+
+/** Resolves once the text is flushed, so exiting doesn't cut off piped output */
+function write(stream: NodeJS.WriteStream, text: string): Promise<void> {
+  return new Promise((resolve) => stream.write(text, () => resolve()));
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error("defi-mcp-cli:", err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+);
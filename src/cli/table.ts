@@ -0,0 +1,69 @@
+/** Longest cell printed before it is cut short */
+const MAX_CELL = 60;
+
+/**
+ * Render a tool's JSON result as plain-text tables. Arrays of objects
+ * become one row per item; objects become key/value rows, with nested
+ * arrays and objects printed as their own titled sections.
+ */
+export function formatTable(value: unknown, title?: string): string {
+  const heading = title ? `${title}\n` : "";
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return `${heading}(none)\n`;
+    if (value.every(isRecord)) {
+      const columns = [...new Set(value.flatMap((row) => Object.keys(row)))];
+      return heading + grid(columns, value.map((row) => columns.map((c) => cell(row[c]))));
+    }
+    return heading + value.map((v) => cell(v)).join("\n") + "\n";
+  }
+
+  if (isRecord(value)) {
+    const scalars = Object.entries(value).filter(([, v]) => !isNested(v));
+    const sections = Object.entries(value).filter(([, v]) => isNested(v));
+    const parts: string[] = [];
+    if (scalars.length > 0) {
+      parts.push(heading + grid(["field", "value"], scalars.map(([k, v]) => [k, cell(v)])));
+    } else if (heading) {
+      parts.push(heading);
+    }
+    for (const [key, nested] of sections) {
+      parts.push(formatTable(nested, title ? `${title}.${key}` : key));
+    }
+    return parts.join("\n");
+  }
+
+  return heading + cell(value) + "\n";
+}
+
+function grid(columns: string[], rows: string[][]): string {
+  const widths = columns.map((c, i) =>
+    Math.max(c.length, ...rows.map((row) => row[i].length))
+  );
+  const line = (cells: string[]) =>
+    cells.map((c, i) => c.padEnd(widths[i])).join("  ").trimEnd();
+  return [
+    line(columns),
+    line(widths.map((w) => "-".repeat(w))),
+    ...rows.map(line),
+  ].join("\n") + "\n";
+}
+
+function cell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  const flat = text.replace(/\s+/g, " ");
+  return flat.length > MAX_CELL ? `${flat.slice(0, MAX_CELL - 1)}…` : flat;
+}
+
+function isNested(value: unknown): boolean {
+  return (
+    isRecord(value) ||
+    (Array.isArray(value) && value.length > 0 && value.some(isRecord))
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
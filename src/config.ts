@@ -1,26 +1,492 @@
-import type { AppConfig } from "./core/types.js";
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, isAbsolute, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { NATIVE_TOKEN_ADDRESS } from "./chains/evm/chains.js";
+import type {
+  AppConfig,
+  ChainInfo,
+  ComponentSettings,
+  PluginSettings,
+  ToolProfile,
+} from "./core/types.js";
+import { BUILTIN_PROFILES } from "./tools/profiles.js";
 
+/** Looked up in the working directory unless DEFI_MCP_CONFIG names a file */
+const CONFIG_FILE_NAMES = [
+  "defi-mcp.config.json",
+  "defi-mcp.config.yaml",
+  "defi-mcp.config.yml",
+];
+
+/** Toolsets advertised up front in lazy tool loading mode */
+const DEFAULT_CORE_TOOLSETS = ["token-info", "balances"];
+
+/** Public endpoints per chain and the env variable that overrides them */
+const DEFAULT_RPC_URLS: Record<string, { env: string; urls: string[] }> = {
+  ethereum: {
+    env: "RPC_ETHEREUM",
+    urls: ["https://eth.llamarpc.com", "https://ethereum-rpc.publicnode.com"],
+  },
+  base: {
+    env: "RPC_BASE",
+    urls: ["https://mainnet.base.org", "https://base-rpc.publicnode.com"],
+  },
+  arbitrum: {
+    env: "RPC_ARBITRUM",
+    urls: ["https://arb1.arbitrum.io/rpc", "https://arbitrum-one-rpc.publicnode.com"],
+  },
+  polygon: {
+    env: "RPC_POLYGON",
+    urls: ["https://polygon-rpc.com", "https://polygon-bor-rpc.publicnode.com"],
+  },
+  optimism: {
+    env: "RPC_OPTIMISM",
+    urls: ["https://mainnet.optimism.io", "https://optimism-rpc.publicnode.com"],
+  },
+  "solana-mainnet": {
+    env: "RPC_SOLANA",
+    urls: ["https://api.mainnet-beta.solana.com"],
+  },
+  "osmosis-1": {
+    env: "RPC_OSMOSIS",
+    urls: ["https://rpc.osmosis.zone", "https://osmosis-rpc.publicnode.com"],
+  },
+  "cosmoshub-4": {
+    env: "RPC_COSMOSHUB",
+    urls: ["https://rpc.cosmos.network", "https://cosmos-rpc.publicnode.com"],
+  },
+};
+
+/** `name: false` is shorthand for `name: { enabled: false }` */
+function toggleable<T extends z.ZodRawShape>(shape: T) {
+  return z.union([
+    z.boolean().transform((enabled) => ({ enabled })),
+    z.object(shape).strict(),
+  ]);
+}
+
+const ApiKeysSchema = z
+  .object({
+    coingecko: z.string().optional(),
+    oneInch: z.string().optional(),
+    zeroX: z.string().optional(),
+  })
+  .strict();
+
+const ConfigFileSchema = z
+  .object({
+    rpcUrls: z.record(z.union([z.string(), z.array(z.string())])).optional(),
+    apiKeys: ApiKeysSchema.optional(),
+    defaultSlippageBps: z.number().int().min(0).max(10_000).optional(),
+    transport: z
+      .object({
+        type: z.enum(["stdio", "http"]).optional(),
+        host: z.string().optional(),
+        port: z.number().int().min(0).max(65_535).optional(),
+        rest: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    network: z
+      .object({
+        mode: z.enum(["live", "record", "replay"]).optional(),
+        fixturesDir: z.string().optional(),
+      })
+      .strict()
+      .optional(),
+    chains: z
+      .object({
+        include: z.array(z.string()).optional(),
+        exclude: z.array(z.string()).optional(),
+      })
+      .strict()
+      .optional(),
+    // Keyed by the chain ID tools use, e.g. "linea"
+    evmChains: z
+      .record(
+        z
+          .object({
+            name: z.string(),
+            chainId: z.number().int().positive(),
+            nativeToken: z
+              .object({
+                symbol: z.string(),
+                name: z.string().optional(),
+                decimals: z.number().int().min(0).default(18),
+                coingeckoId: z.string().optional(),
+              })
+              .strict(),
+            rpcUrls: z.union([z.string(), z.array(z.string()).nonempty()]),
+            explorerUrl: z.string().optional(),
+            coingeckoPlatform: z.string().optional(),
+          })
+          .strict()
+      )
+      .optional(),
+    plugins: z
+      .record(
+        toggleable({
+          enabled: z.boolean().optional(),
+          apiKey: z.string().optional(),
+          defaultChains: z.array(z.string()).optional(),
+          options: z.record(z.unknown()).optional(),
+        })
+      )
+      .optional(),
+    scanners: z
+      .record(toggleable({ enabled: z.boolean().optional() }))
+      .optional(),
+    yieldSources: z
+      .record(toggleable({ enabled: z.boolean().optional() }))
+      .optional(),
+    extensions: z.array(z.string()).optional(),
+    profile: z.string().optional(),
+    // Custom profiles, selectable by name like the built-in ones
+    profiles: z
+      .record(
+        z
+          .object({
+            tags: z.array(z.string()).optional(),
+            excludeCapabilities: z
+              .array(z.enum(["read", "builds-tx", "external-api"]))
+              .optional(),
+          })
+          .strict()
+      )
+      .optional(),
+    toolLoading: z
+      .object({
+        mode: z.enum(["eager", "lazy"]).optional(),
+        coreToolsets: z.array(z.string()).optional(),
+      })
+      .strict()
+      .optional(),
+    audit: z
+      .object({
+        path: z.string().optional(),
+        maxFileMb: z.number().positive().optional(),
+        maxFiles: z.number().int().min(1).optional(),
+      })
+      .strict()
+      .optional(),
+    storage: z
+      .object({
+        type: z.enum(["file", "memory"]).optional(),
+        path: z.string().optional(),
+        maxTableRows: z.number().int().min(1).optional(),
+      })
+      .strict()
+      .optional(),
+    auth: z
+      .object({
+        tenants: z
+          .array(
+            z
+              .object({
+                id: z.string().min(1),
+                keys: z
+                  .array(z.string().min(16, "keys must be at least 16 characters"))
+                  .min(1),
+                tools: z.array(z.string()).optional(),
+                callsPerMinute: z.number().int().min(1).optional(),
+                apiKeys: ApiKeysSchema.optional(),
+              })
+              .strict()
+          )
+          .superRefine((tenants, ctx) => {
+            const ids = new Set<string>();
+            const keys = new Set<string>();
+            tenants.forEach((tenant, i) => {
+              if (ids.has(tenant.id)) {
+                ctx.addIssue({
+                  code: z.ZodIssueCode.custom,
+                  path: [i, "id"],
+                  message: `duplicate tenant id "${tenant.id}"`,
+                });
+              }
+              ids.add(tenant.id);
+              for (const key of tenant.keys) {
+                if (keys.has(key)) {
+                  ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: [i, "keys"],
+                    message: "a key is used by more than one tenant",
+                  });
+                }
+                keys.add(key);
+              }
+            });
+          }),
+        serverKeyFallback: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    txPolicy: z
+      .object({
+        onViolation: z.enum(["block", "warn"]).optional(),
+        maxTxUsd: z.number().positive().optional(),
+        maxDailyUsd: z.number().positive().optional(),
+        allowedContracts: z.array(z.string()).optional(),
+        allowedRecipients: z.array(z.string()).optional(),
+        blockUnlimitedApprovals: z.boolean().optional(),
+        blockFlaggedContracts: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+/**
+ * Environment variables that override a config file setting, with the
+ * setting's path. Values are checked against the config file schema.
+ */
+const ENV_OVERRIDES: Record<
+  string,
+  { path: [string] | [string, string]; type?: "number" | "boolean" }
+> = {
+  COINGECKO_API_KEY: { path: ["apiKeys", "coingecko"] },
+  ONEINCH_API_KEY: { path: ["apiKeys", "oneInch"] },
+  ZEROX_API_KEY: { path: ["apiKeys", "zeroX"] },
+  DEFAULT_SLIPPAGE_BPS: { path: ["defaultSlippageBps"], type: "number" },
+  DEFI_MCP_TRANSPORT: { path: ["transport", "type"] },
+  DEFI_MCP_HTTP_HOST: { path: ["transport", "host"] },
+  DEFI_MCP_HTTP_PORT: { path: ["transport", "port"], type: "number" },
+  DEFI_MCP_REST: { path: ["transport", "rest"], type: "boolean" },
+  DEFI_MCP_NETWORK_MODE: { path: ["network", "mode"] },
+  DEFI_MCP_FIXTURES_DIR: { path: ["network", "fixturesDir"] },
+  DEFI_MCP_AUDIT_LOG: { path: ["audit", "path"] },
+  DEFI_MCP_STATE_PATH: { path: ["storage", "path"] },
+  DEFI_MCP_PROFILE: { path: ["profile"] },
+  DEFI_MCP_TOOL_LOADING: { path: ["toolLoading", "mode"] },
+};
+
+/**
+ * Build the app config from, in order of precedence: environment
+ * variables, the defi-mcp.config.(json|yaml) file, and built-in defaults.
+ */
 export function loadConfig(): AppConfig {
+  const configFile = findConfigFile();
+  const file = configFile ? readConfigFile(configFile) : {};
+
+  const evmChains = Object.entries(file.evmChains ?? {}).map(([id, chain]) =>
+    toChainInfo(id, chain)
+  );
+
+  const rpcUrls: Record<string, string[]> = {};
+  for (const [chainId, urls] of Object.entries(file.rpcUrls ?? {})) {
+    rpcUrls[chainId] = rpcList(Array.isArray(urls) ? urls.join(",") : urls, []);
+  }
+  const defaults: Record<string, { env: string; urls: string[] }> = {
+    ...DEFAULT_RPC_URLS,
+  };
+  for (const [id, chain] of Object.entries(file.evmChains ?? {})) {
+    defaults[id] = {
+      env: `RPC_${id.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}`,
+      urls: rpcList([chain.rpcUrls].flat().join(","), []),
+    };
+  }
+  for (const [chainId, { env, urls }] of Object.entries(defaults)) {
+    rpcUrls[chainId] = rpcList(
+      process.env[env],
+      rpcUrls[chainId]?.length ? rpcUrls[chainId] : urls
+    );
+  }
+
+  const env = readEnvConfig();
   return {
-    rpcUrls: {
-      ethereum: process.env.RPC_ETHEREUM || "https://eth.llamarpc.com",
-      base: process.env.RPC_BASE || "https://mainnet.base.org",
-      arbitrum: process.env.RPC_ARBITRUM || "https://arb1.arbitrum.io/rpc",
-      polygon: process.env.RPC_POLYGON || "https://polygon-rpc.com",
-      optimism: process.env.RPC_OPTIMISM || "https://mainnet.optimism.io",
-      "solana-mainnet":
-        process.env.RPC_SOLANA || "https://api.mainnet-beta.solana.com",
-      "osmosis-1":
-        process.env.RPC_OSMOSIS || "https://rpc.osmosis.zone",
-      "cosmoshub-4":
-        process.env.RPC_COSMOSHUB || "https://rpc.cosmos.network",
-    },
+    rpcUrls,
     apiKeys: {
-      coingecko: process.env.COINGECKO_API_KEY,
+      coingecko: env.apiKeys?.coingecko ?? file.apiKeys?.coingecko,
+      oneInch: env.apiKeys?.oneInch ?? file.apiKeys?.oneInch,
+      zeroX: env.apiKeys?.zeroX ?? file.apiKeys?.zeroX,
+    },
+    defaultSlippageBps: env.defaultSlippageBps ?? file.defaultSlippageBps ?? 50,
+    transport: {
+      type: env.transport?.type ?? file.transport?.type ?? "stdio",
+      host: env.transport?.host ?? file.transport?.host ?? "127.0.0.1",
+      port: env.transport?.port ?? file.transport?.port ?? 3000,
+      rest: env.transport?.rest ?? file.transport?.rest ?? false,
+    },
+    network: {
+      mode: env.network?.mode ?? file.network?.mode ?? "live",
+      fixturesDir:
+        env.network?.fixturesDir ?? file.network?.fixturesDir ?? "fixtures",
+    },
+    chains: file.chains ?? {},
+    evmChains,
+    plugins: (file.plugins ?? {}) as Record<string, PluginSettings>,
+    scanners: (file.scanners ?? {}) as Record<string, ComponentSettings>,
+    yieldSources: (file.yieldSources ?? {}) as Record<string, ComponentSettings>,
+    extensions: process.env.DEFI_MCP_EXTENSIONS
+      ? extensionList(process.env.DEFI_MCP_EXTENSIONS.split(","), process.cwd())
+      : extensionList(
+          file.extensions ?? [],
+          configFile ? dirname(configFile) : process.cwd()
+        ),
+    txPolicy: file.txPolicy ?? {},
+    audit: {
+      path: env.audit?.path ?? file.audit?.path,
+      maxFileBytes: (file.audit?.maxFileMb ?? 10) * 1024 * 1024,
+      maxFiles: file.audit?.maxFiles ?? 5,
     },
-    defaultSlippageBps: parseInt(
-      process.env.DEFAULT_SLIPPAGE_BPS || "50",
-      10
+    auth: {
+      tenants: file.auth?.tenants ?? [],
+      serverKeyFallback: file.auth?.serverKeyFallback ?? true,
+    },
+    storage: {
+      type: file.storage?.type ?? "file",
+      path: env.storage?.path ?? file.storage?.path,
+      maxTableRows: file.storage?.maxTableRows ?? 10_000,
+    },
+    profile: resolveProfile(
+      env.profile ?? file.profile ?? "full",
+      file.profiles ?? {}
     ),
+    toolLoading: {
+      mode: env.toolLoading?.mode ?? file.toolLoading?.mode ?? "eager",
+      coreToolsets: file.toolLoading?.coreToolsets ?? DEFAULT_CORE_TOOLSETS,
+    },
+    configFile,
   };
 }
+
+function toChainInfo(
+  id: string,
+  chain: NonNullable<ConfigFile["evmChains"]>[string]
+): ChainInfo {
+  return {
+    id,
+    name: chain.name,
+    ecosystem: "evm",
+    nativeChainId: chain.chainId,
+    nativeToken: {
+      symbol: chain.nativeToken.symbol,
+      name: chain.nativeToken.name ?? chain.nativeToken.symbol,
+      decimals: chain.nativeToken.decimals,
+      address: NATIVE_TOKEN_ADDRESS,
+      chainId: id,
+      coingeckoId: chain.nativeToken.coingeckoId,
+    },
+    rpcUrl: [chain.rpcUrls].flat()[0],
+    explorerUrl: chain.explorerUrl,
+    coingeckoPlatform: chain.coingeckoPlatform,
+  };
+}
+
+function resolveProfile(
+  name: string,
+  custom: NonNullable<ConfigFile["profiles"]>
+): ToolProfile {
+  const profiles = { ...BUILTIN_PROFILES, ...custom };
+  const profile = profiles[name];
+  if (!profile) {
+    throw new Error(
+      `Unknown profile "${name}". Known: ${Object.keys(profiles).join(", ")}`
+    );
+  }
+  return { name, ...profile };
+}
+
+function findConfigFile(): string | undefined {
+  const explicit = process.env.DEFI_MCP_CONFIG;
+  if (explicit) {
+    const path = resolve(explicit);
+    if (!existsSync(path)) {
+      throw new Error(`Config file ${path} (from DEFI_MCP_CONFIG) does not exist`);
+    }
+    return path;
+  }
+  return CONFIG_FILE_NAMES.map((name) => resolve(name)).find((path) =>
+    existsSync(path)
+  );
+}
+
+function readConfigFile(path: string): ConfigFile {
+  const text = readFileSync(path, "utf8");
+  let raw: unknown;
+  try {
+    raw = path.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Could not parse config file ${path}: ${message}`);
+  }
+
+  const parsed = ConfigFileSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("; ");
+    throw new Error(`Invalid config file ${path}: ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * The settings set through ENV_OVERRIDES, validated like the config file.
+ * Empty variables are ignored.
+ */
+function readEnvConfig(): ConfigFile {
+  const raw: Record<string, unknown> = {};
+  for (const [name, { path, type }] of Object.entries(ENV_OVERRIDES)) {
+    const value = process.env[name];
+    if (!value) continue;
+    const [key, field] = path;
+    raw[key] =
+      field === undefined
+        ? envValue(value, type)
+        : { ...(raw[key] as object), [field]: envValue(value, type) };
+  }
+
+  const parsed = ConfigFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((i) => `${envVarFor(i.path) ?? i.path.join(".")}: ${i.message}`)
+      .join("; ");
+    throw new Error(`Invalid environment variables: ${issues}`);
+  }
+  return parsed.data;
+}
+
+/** Numbers and booleans from their text; anything unparseable is left for the schema to reject */
+function envValue(value: string, type?: "number" | "boolean"): unknown {
+  if (type === "number") return value.trim() === "" ? value : Number(value);
+  if (type === "boolean") {
+    return value === "true" ? true : value === "false" ? false : value;
+  }
+  return value;
+}
+
+function envVarFor(path: (string | number)[]): string | undefined {
+  return Object.entries(ENV_OVERRIDES).find(
+    ([, override]) => override.path.join(".") === path.join(".")
+  )?.[0];
+}
+
+/**
+ * Parse a comma-separated list of RPC endpoints, tried in order.
+ * Falls back to the defaults when the variable is unset.
+ */
+function rpcList(value: string | undefined, defaults: string[]): string[] {
+  const urls = (value ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+  return urls.length > 0 ? urls : defaults;
+}
+
+/**
+ * Trim extension specs and make directory paths absolute. Relative paths
+ * are resolved against `baseDir`: the config file's directory for entries
+ * from the file, the working directory for DEFI_MCP_EXTENSIONS.
+ */
+function extensionList(specs: string[], baseDir: string): string[] {
+  return specs
+    .map((spec) => spec.trim())
+    .filter(Boolean)
+    .map((spec) =>
+      spec.startsWith(".") || isAbsolute(spec) ? resolve(baseDir, spec) : spec
+    );
+}
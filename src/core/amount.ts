@@ -0,0 +1,261 @@
+import { InvalidAmountError } from "./errors.js";
+
+/**
+ * How a value is rounded when digits have to be dropped:
+ *   down       toward zero (truncate)
+ *   up         away from zero
+ *   floor      toward -infinity
+ *   ceil       toward +infinity
+ *   half-up    to nearest, ties away from zero
+ *   half-even  to nearest, ties to the even digit (banker's rounding)
+ */
+export type RoundingMode =
+  | "down"
+  | "up"
+  | "floor"
+  | "ceil"
+  | "half-up"
+  | "half-even";
+
+export type DecimalInput = Decimal | string | number | bigint;
+
+// Plain or scientific notation: "12", "-0.5", ".25", "1e-6", "2.5E+3"
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+/** Exponents past this are rejected rather than building huge bigints */
+const MAX_EXPONENT = 1000;
+
+/**
+ * An exact decimal number: a bigint count of units of 10^-scale. Token
+ * amounts, prices and USD values are parsed into it so that large
+ * balances and 18-decimal tokens keep every digit. Operations that can't
+ * be exact, division and rounding, take an explicit RoundingMode.
+ */
+export class Decimal {
+  static readonly ZERO = new Decimal(0n, 0);
+
+  private constructor(
+    /** The value times 10^scale */
+    readonly units: bigint,
+    readonly scale: number
+  ) {}
+
+  /**
+   * Parse a decimal string in plain or scientific notation, a finite
+   * number, or a bigint. Anything else is an InvalidAmountError.
+   */
+  static from(value: DecimalInput): Decimal {
+    if (value instanceof Decimal) return value;
+    if (typeof value === "bigint") return new Decimal(value, 0);
+    if (typeof value === "number" && !Number.isFinite(value)) {
+      throw new InvalidAmountError(String(value), "not a finite number");
+    }
+    // String(number) is the shortest exact decimal form, e.g. 0.1 -> "0.1"
+    const text = String(value).trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match || (!match[2] && !match[3])) {
+      throw new InvalidAmountError(text, "not a decimal number");
+    }
+    const [, sign, int = "", frac = "", exp = "0"] = match;
+    const exponent = Number(exp);
+    if (Math.abs(exponent) > MAX_EXPONENT) {
+      throw new InvalidAmountError(text, "exponent out of range");
+    }
+    const units = BigInt((int + frac) || "0") * (sign === "-" ? -1n : 1n);
+    const scale = frac.length - exponent;
+    return scale >= 0
+      ? Decimal.normalized(units, scale)
+      : new Decimal(units * 10n ** BigInt(-scale), 0);
+  }
+
+  /** Like from, but undefined for anything that isn't a decimal, e.g. API fields */
+  static tryFrom(value: unknown): Decimal | undefined {
+    if (
+      typeof value !== "string" &&
+      typeof value !== "number" &&
+      typeof value !== "bigint" &&
+      !(value instanceof Decimal)
+    ) {
+      return undefined;
+    }
+    try {
+      return Decimal.from(value);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** A raw on-chain amount, e.g. wei or lamports, with the token's decimals */
+  static fromUnits(raw: bigint | string, decimals: number): Decimal {
+    if (typeof raw === "string" && !/^-?\d+$/.test(raw.trim())) {
+      throw new InvalidAmountError(raw, "not an integer amount of base units");
+    }
+    return Decimal.normalized(BigInt(raw), decimals);
+  }
+
+  /**
+   * The value in base units of a token with `decimals` decimals. Digits
+   * beyond `decimals` are an InvalidAmountError unless a rounding mode
+   * says how to drop them.
+   */
+  toUnits(decimals: number, rounding?: RoundingMode): bigint {
+    if (this.scale > decimals && !rounding) {
+      throw new InvalidAmountError(
+        this.toString(),
+        `more than ${decimals} decimal places`
+      );
+    }
+    return this.round(decimals, rounding ?? "down").rescale(decimals);
+  }
+
+  /** Round to at most `places` decimal places */
+  round(places: number, rounding: RoundingMode): Decimal {
+    if (this.scale <= places) return this;
+    const divisor = 10n ** BigInt(this.scale - places);
+    return Decimal.normalized(divRound(this.units, divisor, rounding), places);
+  }
+
+  plus(other: DecimalInput): Decimal {
+    const b = Decimal.from(other);
+    const scale = Math.max(this.scale, b.scale);
+    return Decimal.normalized(this.rescale(scale) + b.rescale(scale), scale);
+  }
+
+  minus(other: DecimalInput): Decimal {
+    return this.plus(Decimal.from(other).neg());
+  }
+
+  times(other: DecimalInput): Decimal {
+    const b = Decimal.from(other);
+    return Decimal.normalized(this.units * b.units, this.scale + b.scale);
+  }
+
+  /** The quotient to `places` decimal places */
+  div(other: DecimalInput, places: number, rounding: RoundingMode): Decimal {
+    const b = Decimal.from(other);
+    if (b.units === 0n) {
+      throw new InvalidAmountError(this.toString(), "division by zero");
+    }
+    // this / b = (this.units * 10^(places + b.scale)) / (b.units * 10^this.scale) * 10^-places
+    const n = this.units * 10n ** BigInt(places + b.scale);
+    const d = b.units * 10n ** BigInt(this.scale);
+    return Decimal.normalized(divRound(n, d, rounding), places);
+  }
+
+  neg(): Decimal {
+    return new Decimal(-this.units, this.scale);
+  }
+
+  abs(): Decimal {
+    return this.units < 0n ? this.neg() : this;
+  }
+
+  cmp(other: DecimalInput): -1 | 0 | 1 {
+    const b = Decimal.from(other);
+    const scale = Math.max(this.scale, b.scale);
+    const x = this.rescale(scale);
+    const y = b.rescale(scale);
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+
+  eq(other: DecimalInput): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  lt(other: DecimalInput): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  lte(other: DecimalInput): boolean {
+    return this.cmp(other) <= 0;
+  }
+
+  gt(other: DecimalInput): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  gte(other: DecimalInput): boolean {
+    return this.cmp(other) >= 0;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  /** Plain notation with no trailing zeros, e.g. "1234.5" */
+  toString(): string {
+    const negative = this.units < 0n;
+    const digits = (negative ? -this.units : this.units).toString();
+    if (this.scale === 0) return negative ? `-${digits}` : digits;
+    const padded = digits.padStart(this.scale + 1, "0");
+    const text = `${padded.slice(0, -this.scale)}.${padded.slice(-this.scale)}`;
+    return negative ? `-${text}` : text;
+  }
+
+  /** Exactly `places` decimal places, e.g. toFixed(2) for USD */
+  toFixed(places: number, rounding: RoundingMode = "half-up"): string {
+    const rounded = this.round(places, rounding);
+    const units = rounded.rescale(places);
+    const negative = units < 0n;
+    const text = (negative ? -units : units).toString().padStart(places + 1, "0");
+    const fixed =
+      places > 0 ? `${text.slice(0, -places)}.${text.slice(-places)}` : text;
+    return negative ? `-${fixed}` : fixed;
+  }
+
+  /** Nearest float, for ratios and percentages where precision doesn't matter */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  /** Drop trailing zero digits so equal values have one representation */
+  private static normalized(units: bigint, scale: number): Decimal {
+    while (scale > 0 && units % 10n === 0n) {
+      units /= 10n;
+      scale--;
+    }
+    return new Decimal(units, scale);
+  }
+
+  /** units at a scale at least as large as this.scale */
+  private rescale(scale: number): bigint {
+    return this.units * 10n ** BigInt(scale - this.scale);
+  }
+}
+
+/** n / d rounded to an integer */
+function divRound(n: bigint, d: bigint, rounding: RoundingMode): bigint {
+  if (d < 0n) {
+    n = -n;
+    d = -d;
+  }
+  const q = n / d;
+  const r = n % d;
+  if (r === 0n) return q;
+  const negative = n < 0n;
+  const away = negative ? q - 1n : q + 1n;
+  const twice = (r < 0n ? -r : r) * 2n;
+  switch (rounding) {
+    case "down":
+      return q;
+    case "up":
+      return away;
+    case "floor":
+      return negative ? away : q;
+    case "ceil":
+      return negative ? q : away;
+    case "half-up":
+      return twice >= d ? away : q;
+    case "half-even":
+      if (twice !== d) return twice > d ? away : q;
+      return q % 2n === 0n ? q : away;
+  }
+}
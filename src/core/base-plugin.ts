@@ -5,6 +5,7 @@ import type {
   ToolResult,
   ChainInfo,
 } from "./types.js";
+import { errorResult } from "./errors.js";
 
 /**
  * Optional base class for plugins. Stores context during initialize()
@@ -23,19 +24,23 @@ export abstract class BasePlugin implements DefiPlugin {
 
   abstract getTools(): ToolDefinition[];
 
-  /** Helper: create a success ToolResult from an object */
+  /**
+   * Helper: create a success ToolResult from an object. Objects are also
+   * returned as structuredContent for tools that declare an outputSchema.
+   */
   protected jsonResult(data: unknown): ToolResult {
     return {
       content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+      structuredContent:
+        typeof data === "object" && data !== null && !Array.isArray(data)
+          ? (data as Record<string, unknown>)
+          : undefined,
     };
   }
 
-  /** Helper: create an error ToolResult */
-  protected errorResult(message: string): ToolResult {
-    return {
-      content: [{ type: "text", text: message }],
-      isError: true,
-    };
+  /** Helper: create an error ToolResult carrying an error envelope */
+  protected errorResult(error: unknown, context?: string): ToolResult {
+    return errorResult(error, context);
   }
 
   /** Helper: get all chains valid for an address */
@@ -1,11 +1,46 @@
+import type { ToolResult } from "./types.js";
+import { isRateLimitError } from "./rpc-health.js";
+
+export interface DefiMcpErrorOptions {
+  /** Whether the same call may succeed if retried later */
+  retryable?: boolean;
+  /** A tool the caller can use to recover, e.g. to look up valid inputs */
+  suggestedTool?: string;
+}
+
+/** The JSON body of every tool error result */
+export interface ErrorEnvelope {
+  code: string;
+  message: string;
+  retryable: boolean;
+  details?: Record<string, unknown>;
+  suggestedTool?: string;
+}
+
 export class DefiMcpError extends Error {
+  readonly retryable: boolean;
+  readonly suggestedTool?: string;
+
   constructor(
     message: string,
     public readonly code: string,
-    public readonly details?: Record<string, unknown>
+    public readonly details?: Record<string, unknown>,
+    options: DefiMcpErrorOptions = {}
   ) {
     super(message);
     this.name = "DefiMcpError";
+    this.retryable = options.retryable ?? false;
+    this.suggestedTool = options.suggestedTool;
+  }
+
+  toEnvelope(): ErrorEnvelope {
+    return {
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable,
+      details: this.details,
+      suggestedTool: this.suggestedTool,
+    };
   }
 }
 
@@ -14,7 +49,18 @@ export class ChainNotSupportedError extends DefiMcpError {
     super(
       `Chain "${chainId}" is not supported`,
       "CHAIN_NOT_SUPPORTED",
-      { chainId }
+      { chainId },
+      { suggestedTool: "defi_get_chains" }
+    );
+  }
+}
+
+export class UnsupportedChainForToolError extends DefiMcpError {
+  constructor(feature: string, chainId: string, supportedChains: string[]) {
+    super(
+      `${feature} is not available on "${chainId}". Supported: ${supportedChains.join(", ")}`,
+      "CHAIN_NOT_SUPPORTED_FOR_TOOL",
+      { feature, chainId, supportedChains }
     );
   }
 }
@@ -24,7 +70,8 @@ export class TokenNotFoundError extends DefiMcpError {
     super(
       `Token "${token}" not found on chain "${chainId}"`,
       "TOKEN_NOT_FOUND",
-      { token, chainId }
+      { token, chainId },
+      { suggestedTool: "defi_token_search" }
     );
   }
 }
@@ -48,3 +95,155 @@ export class InvalidAddressError extends DefiMcpError {
     );
   }
 }
+
+export class InvalidAmountError extends DefiMcpError {
+  constructor(amount: string, reason: string) {
+    super(`Invalid amount "${amount}": ${reason}`, "INVALID_AMOUNT", {
+      amount,
+      reason,
+    });
+  }
+}
+
+export class InsufficientLiquidityError extends DefiMcpError {
+  constructor(aggregator: string, message: string) {
+    super(
+      `${aggregator}: insufficient liquidity: ${message}`,
+      "INSUFFICIENT_LIQUIDITY",
+      { aggregator },
+      { suggestedTool: "defi_multi_quote" }
+    );
+  }
+}
+
+export class HttpTimeoutError extends DefiMcpError {
+  constructor(host: string, timeoutMs: number) {
+    super(
+      `Request to ${host} timed out after ${timeoutMs}ms`,
+      "HTTP_TIMEOUT",
+      { host, timeoutMs },
+      { retryable: true }
+    );
+  }
+}
+
+export class RpcTimeoutError extends DefiMcpError {
+  constructor(message: string) {
+    super(`RPC request timed out: ${message}`, "RPC_TIMEOUT", undefined, {
+      retryable: true,
+    });
+  }
+}
+
+export class UpstreamRateLimitError extends DefiMcpError {
+  constructor(upstream: string, retryAfterMs?: number) {
+    super(
+      `${upstream} is rate limiting requests${retryAfterMs === undefined ? "" : `; retry after ${Math.ceil(retryAfterMs / 1000)}s`}`,
+      "UPSTREAM_RATE_LIMITED",
+      { upstream, retryAfterMs },
+      { retryable: true }
+    );
+  }
+}
+
+export class TxPolicyViolationError extends DefiMcpError {
+  constructor(description: string, violations: string[]) {
+    super(
+      `Transaction blocked by policy (${description}): ${violations.join("; ")}`,
+      "TX_POLICY_VIOLATION",
+      { description, violations }
+    );
+  }
+}
+
+export class ToolNotAllowedError extends DefiMcpError {
+  constructor(tool: string, tenant: string) {
+    super(`Tool ${tool} is not allowed for tenant "${tenant}"`, "TOOL_NOT_ALLOWED", {
+      tool,
+      tenant,
+    });
+  }
+}
+
+export class QuotaExceededError extends DefiMcpError {
+  constructor(tenant: string, callsPerMinute: number, retryAfterMs: number) {
+    super(
+      `Tenant "${tenant}" has used its ${callsPerMinute} tool calls per minute; retry after ${Math.ceil(retryAfterMs / 1000)}s`,
+      "QUOTA_EXCEEDED",
+      { tenant, callsPerMinute, retryAfterMs },
+      { retryable: true }
+    );
+  }
+}
+
+export class CancelledError extends DefiMcpError {
+  constructor() {
+    super("The tool call was cancelled", "CANCELLED");
+  }
+}
+
+export class FixtureNotFoundError extends DefiMcpError {
+  constructor(request: string, fixturesDir: string) {
+    super(
+      `No recorded fixture for ${request} in ${fixturesDir}. Re-record with DEFI_MCP_NETWORK_MODE=record`,
+      "FIXTURE_NOT_FOUND",
+      { request, fixturesDir }
+    );
+  }
+}
+
+/**
+ * Classify anything a tool handler throws. A DefiMcpError wrapped by a
+ * client library (viem wraps transport errors) is unwrapped. Timeouts
+ * and rate limiting surfaced by client libraries (viem, web3.js) become
+ * their typed equivalents, and aborts from a cancelled call become
+ * CANCELLED; anything else unrecognised is TOOL_ERROR.
+ */
+export function toDefiMcpError(error: unknown): DefiMcpError {
+  for (let e: unknown = error; e instanceof Error; e = e.cause) {
+    if (e instanceof DefiMcpError) return e;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (isRateLimitError(error)) {
+    // Only the message says so, which doesn't name who is rate limiting
+    return new UpstreamRateLimitError("An upstream service");
+  }
+  for (let e: unknown = error; e instanceof Error; e = e.cause) {
+    if (e.name === "TimeoutError") {
+      const short = (e as { shortMessage?: string }).shortMessage;
+      return new RpcTimeoutError(short ?? e.message);
+    }
+    if (e.name === "AbortError") return new CancelledError();
+  }
+  return new DefiMcpError(message, "TOOL_ERROR");
+}
+
+/**
+ * A tool error result carrying an ErrorEnvelope as JSON, so agents can
+ * branch on `code` and `retryable` instead of parsing the message. A
+ * string is treated as a TOOL_ERROR message; `context` is prefixed to the
+ * message, e.g. errorResult(err, "Simulation failed").
+ */
+export function errorResult(error: unknown, context?: string): ToolResult {
+  const envelope =
+    typeof error === "string"
+      ? new DefiMcpError(error, "TOOL_ERROR").toEnvelope()
+      : toDefiMcpError(error).toEnvelope();
+  if (context) envelope.message = `${context}: ${envelope.message}`;
+  return {
+    content: [
+      { type: "text", text: JSON.stringify({ error: envelope }, null, 2) },
+    ],
+    isError: true,
+  };
+}
+
+/** The ErrorEnvelope code of an error result, if it carries one */
+export function getErrorCode(result: ToolResult): string | undefined {
+  try {
+    const code = JSON.parse(result.content[0]?.text ?? "")?.error?.code;
+    return typeof code === "string" ? code : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,421 @@
+import { FixtureNotFoundError, HttpTimeoutError } from "./errors.js";
+import type { FetchFn } from "./network.js";
+
+export interface HttpHostPolicy {
+  /** Cache successful responses for this long; 0 disables caching */
+  cacheTtlMs: number;
+  /** Maximum in-flight requests to the host */
+  maxConcurrent: number;
+  /** Deadline for the whole request, including retries */
+  timeoutMs: number;
+  /** Extra attempts after a 429, 5xx or network error */
+  retries: number;
+}
+
+/** fetch() options plus per-request overrides of the host policy */
+export interface HttpRequestInit extends RequestInit {
+  cacheTtlMs?: number;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export interface HttpHostStats {
+  host: string;
+  requests: number;
+  cacheHits: number;
+  errors: number;
+  rateLimited: number;
+  timeouts: number;
+  avgLatencyMs?: number;
+}
+
+const DEFAULT_POLICY: HttpHostPolicy = {
+  cacheTtlMs: 0,
+  maxConcurrent: 8,
+  timeoutMs: 15_000,
+  retries: 2,
+};
+
+/**
+ * Per-host policies for the third-party APIs plugins call. A key matches
+ * the exact host or any subdomain of it. Quote and transaction-building
+ * APIs are never cached.
+ */
+export const DEFAULT_HOST_POLICIES: Record<string, Partial<HttpHostPolicy>> = {
+  "api.coingecko.com": { cacheTtlMs: 60_000, maxConcurrent: 2 },
+  "llama.fi": { cacheTtlMs: 300_000 },
+  "api.dexscreener.com": { cacheTtlMs: 30_000 },
+  "api.gopluslabs.io": { cacheTtlMs: 300_000, maxConcurrent: 4 },
+  "api.thegraph.com": { cacheTtlMs: 60_000 },
+  "subgraph.satsuma-prod.com": { cacheTtlMs: 60_000 },
+  "hub.snapshot.org": { cacheTtlMs: 60_000 },
+  "blue-api.morpho.org": { cacheTtlMs: 120_000 },
+  "api-v2.pendle.finance": { cacheTtlMs: 300_000 },
+  "api-v3.balancer.fi": { cacheTtlMs: 300_000 },
+  "api.curve.fi": { cacheTtlMs: 300_000 },
+  "ydaemon.yearn.fi": { cacheTtlMs: 300_000 },
+  "eth-api.lido.fi": { cacheTtlMs: 600_000 },
+  "rocketpool.net": { cacheTtlMs: 600_000 },
+  "api.eigenexplorer.com": { cacheTtlMs: 300_000 },
+  "gmxinfra.io": { cacheTtlMs: 15_000 },
+  "polymarket.com": { cacheTtlMs: 30_000 },
+  "safe.global": { cacheTtlMs: 15_000 },
+  "li.quest": { timeoutMs: 20_000 },
+  "lite-api.jup.ag": {},
+  "api.skip.build": { timeoutMs: 20_000 },
+  "api.0x.org": {},
+  "apiv5.paraswap.io": {},
+  "api.1inch.dev": { maxConcurrent: 1 },
+};
+
+const MAX_CACHE_ENTRIES = 500;
+const BASE_BACKOFF_MS = 500;
+const MAX_RETRY_AFTER_MS = 10_000;
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+interface CachedResponse {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: ArrayBuffer;
+}
+
+interface HostState {
+  active: number;
+  queue: Array<() => void>;
+  stats: HttpHostStats;
+}
+
+/**
+ * Shared HTTP client for third-party APIs, exposed to plugins as
+ * `context.http`. A drop-in for fetch() that adds per-host response
+ * caching, 429-aware retries with backoff, a deadline per request and a
+ * cap on concurrent requests per host.
+ *
+ * Non-2xx responses are returned, not thrown, exactly like fetch(), so
+ * callers keep their existing `res.ok` checks.
+ */
+export class HttpClient {
+  private cache = new Map<string, { expiresAt: number; response: CachedResponse }>();
+  private inFlight = new Map<string, Promise<CachedResponse>>();
+  private hosts = new Map<string, HostState>();
+
+  constructor(
+    private policies: Record<string, Partial<HttpHostPolicy>> = DEFAULT_HOST_POLICIES,
+    private fetchFn: FetchFn = fetch
+  ) {}
+
+  async fetch(input: string | URL, init: HttpRequestInit = {}): Promise<Response> {
+    const url = new URL(input);
+    const { cacheTtlMs, timeoutMs, retries, ...requestInit } = init;
+    const policy = {
+      ...this.getPolicy(url.host),
+      ...definedOnly({ cacheTtlMs, timeoutMs, retries }),
+    };
+    const method = (requestInit.method ?? "GET").toUpperCase();
+    const host = this.getHost(url.host);
+    host.stats.requests++;
+
+    const cacheable =
+      policy.cacheTtlMs > 0 &&
+      (requestInit.body === undefined || typeof requestInit.body === "string");
+    if (!cacheable) {
+      return toResponse(await this.send(url, method, requestInit, policy, host));
+    }
+
+    const key = `${method} ${url} ${requestInit.body ?? ""}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      host.stats.cacheHits++;
+      return toResponse(cached.response);
+    }
+
+    // Concurrent identical requests share one upstream call. It is sent
+    // without the caller's signal so one caller cancelling doesn't fail
+    // the others; each caller stops waiting on its own signal instead.
+    let pending = this.inFlight.get(key);
+    if (pending) {
+      host.stats.cacheHits++;
+    } else {
+      const { signal: _, ...sharedInit } = requestInit;
+      const request = this.send(url, method, sharedInit, policy, host);
+      pending = request;
+      this.inFlight.set(key, request);
+      request
+        .then(
+          (response) => {
+            if (response.status >= 200 && response.status < 300) {
+              this.store(key, response, policy.cacheTtlMs);
+            }
+          },
+          () => {}
+        )
+        .finally(() => {
+          // A newer request for the same key may have taken its place
+          if (this.inFlight.get(key) === request) this.inFlight.delete(key);
+        });
+    }
+    return toResponse(await untilAborted(pending, requestInit.signal));
+  }
+
+  getStats(): HttpHostStats[] {
+    return [...this.hosts.values()].map((h) => ({
+      ...h.stats,
+      avgLatencyMs:
+        h.stats.avgLatencyMs === undefined
+          ? undefined
+          : Math.round(h.stats.avgLatencyMs),
+    }));
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async send(
+    url: URL,
+    method: string,
+    init: RequestInit,
+    policy: HttpHostPolicy,
+    host: HostState
+  ): Promise<CachedResponse> {
+    const deadline = Date.now() + policy.timeoutMs;
+    // Only idempotent requests are retried after a server or network error;
+    // a 429 means the request was not processed, so it is always retried.
+    const idempotent = method === "GET" || method === "HEAD";
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < policy.retries;
+
+      // Waiting for a slot counts against the deadline too
+      const acquired = await this.acquire(host, deadline, init.signal);
+      const remaining = deadline - Date.now();
+      if (!acquired || remaining <= 0) {
+        if (acquired) this.release(host);
+        host.stats.timeouts++;
+        throw new HttpTimeoutError(url.host, policy.timeoutMs);
+      }
+      const started = Date.now();
+      let response: CachedResponse;
+      try {
+        response = await fetchOnce(this.fetchFn, url, init, remaining);
+        recordLatency(host.stats, Date.now() - started);
+      } catch (err) {
+        // Free the slot before any backoff so waiters aren't held up
+        this.release(host);
+        if (isTimeout(err) && !init.signal?.aborted) {
+          host.stats.timeouts++;
+          throw new HttpTimeoutError(url.host, policy.timeoutMs);
+        }
+        host.stats.errors++;
+        // Retrying cannot conjure up a fixture that was never recorded
+        if (err instanceof FixtureNotFoundError) throw err;
+        if (!canRetry || !idempotent || init.signal?.aborted) throw err;
+        await sleepUntil(backoff(attempt), deadline, init.signal);
+        continue;
+      }
+      this.release(host);
+
+      if (response.status === 429) {
+        host.stats.rateLimited++;
+        const wait = retryAfterMs(response) ?? backoff(attempt);
+        if (!canRetry || Date.now() + wait >= deadline) return response;
+        await sleepUntil(wait, deadline, init.signal);
+        continue;
+      }
+
+      if (response.status >= 500) {
+        host.stats.errors++;
+        if (canRetry && idempotent) {
+          await sleepUntil(backoff(attempt), deadline, init.signal);
+          continue;
+        }
+      }
+
+      return response;
+    }
+  }
+
+  private getPolicy(hostname: string): HttpHostPolicy {
+    const host = hostname.toLowerCase();
+    for (const [pattern, policy] of Object.entries(this.policies)) {
+      if (host === pattern || host.endsWith(`.${pattern}`)) {
+        return { ...DEFAULT_POLICY, ...policy };
+      }
+    }
+    return DEFAULT_POLICY;
+  }
+
+  private getHost(hostname: string): HostState {
+    let state = this.hosts.get(hostname);
+    if (!state) {
+      state = {
+        active: 0,
+        queue: [],
+        stats: {
+          host: hostname,
+          requests: 0,
+          cacheHits: 0,
+          errors: 0,
+          rateLimited: 0,
+          timeouts: 0,
+        },
+      };
+      this.hosts.set(hostname, state);
+    }
+    return state;
+  }
+
+  /**
+   * Wait for a request slot on `host`. Resolves false if `deadline` passes
+   * first, and rejects with the abort reason if `signal` aborts.
+   */
+  private acquire(
+    host: HostState,
+    deadline: number,
+    signal?: AbortSignal | null
+  ): Promise<boolean> {
+    signal?.throwIfAborted();
+    const limit = this.getPolicy(host.stats.host).maxConcurrent;
+    if (host.active < limit) {
+      host.active++;
+      return Promise.resolve(true);
+    }
+    return new Promise<boolean>((resolve, reject) => {
+      const grant = () => {
+        cleanup();
+        resolve(true);
+      };
+      const leave = (settle: () => void) => {
+        const index = host.queue.indexOf(grant);
+        if (index !== -1) host.queue.splice(index, 1);
+        cleanup();
+        settle();
+      };
+      const onAbort = () => leave(() => reject(signal?.reason));
+      const timer = setTimeout(
+        () => leave(() => resolve(false)),
+        Math.max(0, deadline - Date.now())
+      );
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      host.queue.push(grant);
+    });
+  }
+
+  private release(host: HostState): void {
+    const next = host.queue.shift();
+    // Hand the slot straight to the next waiter
+    if (next) next();
+    else host.active--;
+  }
+
+  private store(key: string, response: CachedResponse, ttlMs: number): void {
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+    this.cache.set(key, { expiresAt: Date.now() + ttlMs, response });
+  }
+}
+
+async function fetchOnce(
+  fetchFn: FetchFn,
+  url: URL,
+  init: RequestInit,
+  timeoutMs: number
+): Promise<CachedResponse> {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const signal = init.signal ? AbortSignal.any([init.signal, timeout]) : timeout;
+  const res = await fetchFn(url, { ...init, signal });
+  return {
+    status: res.status,
+    statusText: res.statusText,
+    headers: [...res.headers.entries()],
+    body: await res.arrayBuffer(),
+  };
+}
+
+function toResponse(cached: CachedResponse): Response {
+  return new Response(
+    NULL_BODY_STATUSES.has(cached.status) ? null : cached.body.slice(0),
+    {
+      status: cached.status,
+      statusText: cached.statusText,
+      headers: cached.headers,
+    }
+  );
+}
+
+function recordLatency(stats: HttpHostStats, latencyMs: number): void {
+  stats.avgLatencyMs =
+    stats.avgLatencyMs === undefined
+      ? latencyMs
+      : stats.avgLatencyMs * 0.8 + latencyMs * 0.2;
+}
+
+function retryAfterMs(response: CachedResponse): number | undefined {
+  const header = response.headers.find(
+    ([name]) => name.toLowerCase() === "retry-after"
+  )?.[1];
+  if (!header) return undefined;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds)
+    ? seconds * 1000
+    : new Date(header).getTime() - Date.now();
+  return Number.isFinite(ms) ? Math.min(Math.max(ms, 0), MAX_RETRY_AFTER_MS) : undefined;
+}
+
+function backoff(attempt: number): number {
+  return BASE_BACKOFF_MS * 2 ** attempt * (0.75 + Math.random() * 0.5);
+}
+
+/** Wait `ms`, but not past `deadline`; rejects with the abort reason if `signal` aborts */
+function sleepUntil(
+  ms: number,
+  deadline: number,
+  signal?: AbortSignal | null
+): Promise<void> {
+  const wait = Math.max(0, Math.min(ms, deadline - Date.now()));
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, wait);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** `promise`, or a rejection with the abort reason if `signal` aborts first */
+function untilAborted<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal | null
+): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() =>
+      signal.removeEventListener("abort", onAbort)
+    );
+  });
+}
+
+function isTimeout(err: unknown): boolean {
+  return err instanceof Error && err.name === "TimeoutError";
+}
+
+function definedOnly<T extends Record<string, unknown>>(obj: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
@@ -0,0 +1,307 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { FixtureNotFoundError } from "./errors.js";
+import type { NetworkConfig } from "./types.js";
+
+export type FetchFn = (
+  input: string | URL | Request,
+  init?: RequestInit
+) => Promise<Response>;
+
+interface JsonRpcCall {
+  jsonrpc: string;
+  id?: string | number | null;
+  method: string;
+  params?: unknown;
+}
+
+interface HttpFixture {
+  key: string;
+  request: { method: string; url: string; body?: string };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+interface RpcFixture {
+  key: string;
+  request: { url: string; method: string; params: unknown };
+  response: { result?: unknown; error?: unknown };
+}
+
+/** Response headers kept in fixtures; the rest vary between runs */
+const RECORDED_HEADERS = ["content-type", "retry-after"];
+const SECRET_PARAM = /key|token|secret|auth|sig/i;
+/** Path segments this long in a configured RPC URL are taken to be API keys */
+const MIN_SECRET_SEGMENT_LENGTH = 16;
+
+/**
+ * The fetch every outbound request goes through: chain adapters' JSON-RPC
+ * transports, the Cosmos RPC client and the plugin HTTP client.
+ *
+ * - `live` is plain fetch().
+ * - `record` calls the network and writes each exchange to the fixtures
+ *   directory.
+ * - `replay` answers from the fixtures directory and never touches the
+ *   network, failing with FixtureNotFoundError for unrecorded requests.
+ *
+ * JSON-RPC requests are stored per call, keyed by method and params, with
+ * request ids stripped. Replay is therefore unaffected by id counters and
+ * by how a client happens to batch its calls.
+ *
+ * API keys are kept out of fixtures: query parameters named like secrets,
+ * and long path segments of the configured `rpcUrls` (as in Alchemy's
+ * `/v2/<key>` or Infura's `/v3/<key>`), are recorded as REDACTED.
+ */
+export function createNetworkFetch(
+  config: NetworkConfig,
+  rpcUrls: Record<string, string[]> = {}
+): FetchFn {
+  const store = new FixtureStore(config.fixturesDir);
+  const secrets = secretPathSegments(rpcUrls);
+  switch (config.mode) {
+    case "live":
+      return (input, init) => fetch(input, init);
+    case "record":
+      return (input, init) => record(store, secrets, input, init);
+    case "replay":
+      return (input, init) => replay(store, secrets, input, init);
+    default:
+      throw new Error(`Unknown network mode: ${config.mode}`);
+  }
+}
+
+async function record(
+  store: FixtureStore,
+  secrets: Set<string>,
+  input: string | URL | Request,
+  init?: RequestInit
+): Promise<Response> {
+  const request = await describeRequest(input, init, secrets);
+  const response = await fetch(input, init);
+  const body = await response.text();
+  const calls = parseJsonRpc(request.body);
+
+  if (calls) {
+    // Only successful round trips are worth replaying; a 429 or 5xx from
+    // one endpoint is recorded implicitly by failover moving to the next
+    const replies = response.ok ? parseJsonRpcReplies(body) : undefined;
+    for (const call of calls) {
+      const reply = replies?.get(String(call.id));
+      if (!reply) continue;
+      const key = rpcKey(request.url, call);
+      await store.write(request.url, key, {
+        key,
+        request: { url: request.url, method: call.method, params: call.params ?? [] },
+        response: "error" in reply ? { error: reply.error } : { result: reply.result },
+      } satisfies RpcFixture);
+    }
+  } else {
+    const key = httpKey(request.method, request.url, request.body);
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+    await store.write(request.url, key, {
+      key,
+      request,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body,
+      },
+    } satisfies HttpFixture);
+  }
+
+  // The body has already been decoded, so its original encoding no longer applies
+  const headers = new Headers(response.headers);
+  headers.delete("content-encoding");
+  headers.delete("content-length");
+  return new Response(nullBodyStatus(response.status) ? null : body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+async function replay(
+  store: FixtureStore,
+  secrets: Set<string>,
+  input: string | URL | Request,
+  init?: RequestInit
+): Promise<Response> {
+  const request = await describeRequest(input, init, secrets);
+  const calls = parseJsonRpc(request.body);
+
+  if (calls) {
+    const replies = [];
+    for (const call of calls) {
+      const key = rpcKey(request.url, call);
+      const fixture = await store.read<RpcFixture>(request.url, key);
+      if (!fixture) throw store.notFound(`${call.method} on ${request.url}`);
+      replies.push({ jsonrpc: "2.0", id: call.id ?? null, ...fixture.response });
+    }
+    const batched = request.body!.trimStart().startsWith("[");
+    return new Response(JSON.stringify(batched ? replies : replies[0]), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    });
+  }
+
+  const key = httpKey(request.method, request.url, request.body);
+  const fixture = await store.read<HttpFixture>(request.url, key);
+  if (!fixture) throw store.notFound(`${request.method} ${request.url}`);
+  const { status, statusText, headers, body } = fixture.response;
+  return new Response(nullBodyStatus(status) ? null : body, {
+    status,
+    statusText,
+    headers,
+  });
+}
+
+class FixtureStore {
+  constructor(private dir: string) {}
+
+  async read<T>(url: string, key: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await readFile(this.path(url, key), "utf8")) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  async write(url: string, key: string, fixture: HttpFixture | RpcFixture): Promise<void> {
+    const path = this.path(url, key);
+    await mkdir(join(path, ".."), { recursive: true });
+    await writeFile(path, JSON.stringify(fixture, null, 2) + "\n");
+  }
+
+  notFound(request: string): FixtureNotFoundError {
+    return new FixtureNotFoundError(request, this.dir);
+  }
+
+  /** One file per exchange, grouped by host: <dir>/<host>/<hash>.json */
+  private path(url: string, key: string): string {
+    const host = new URL(url).host.replace(/[^a-zA-Z0-9.-]/g, "_");
+    const hash = createHash("sha256").update(key).digest("hex").slice(0, 16);
+    return join(this.dir, host, `${hash}.json`);
+  }
+}
+
+async function describeRequest(
+  input: string | URL | Request,
+  init: RequestInit | undefined,
+  secrets: Set<string>
+): Promise<{ method: string; url: string; body?: string }> {
+  if (input instanceof Request) {
+    const body = await input.clone().text();
+    return {
+      method: input.method.toUpperCase(),
+      url: redactUrl(input.url, secrets),
+      body: body || undefined,
+    };
+  }
+  if (init?.body !== undefined && init.body !== null && typeof init.body !== "string") {
+    throw new Error("Only string request bodies can be recorded or replayed");
+  }
+  return {
+    method: (init?.method ?? "GET").toUpperCase(),
+    url: redactUrl(String(input), secrets),
+    body: init?.body ?? undefined,
+  };
+}
+
+/** Keep API keys in query strings and RPC paths out of fixture names and files */
+function redactUrl(raw: string, secrets: Set<string>): string {
+  const url = new URL(raw);
+  for (const name of [...url.searchParams.keys()]) {
+    if (SECRET_PARAM.test(name)) url.searchParams.set(name, "REDACTED");
+  }
+  if (secrets.size > 0) {
+    url.pathname = url.pathname
+      .split("/")
+      .map((segment) => (secrets.has(segment) ? "REDACTED" : segment))
+      .join("/");
+  }
+  return url.toString();
+}
+
+function secretPathSegments(rpcUrls: Record<string, string[]>): Set<string> {
+  const secrets = new Set<string>();
+  for (const raw of Object.values(rpcUrls).flat()) {
+    let url: URL;
+    try {
+      url = new URL(raw);
+    } catch {
+      continue;
+    }
+    for (const segment of url.pathname.split("/")) {
+      if (segment.length >= MIN_SECRET_SEGMENT_LENGTH) secrets.add(segment);
+    }
+  }
+  return secrets;
+}
+
+function parseJsonRpc(body: string | undefined): JsonRpcCall[] | undefined {
+  if (!body) return undefined;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+  const calls = Array.isArray(parsed) ? parsed : [parsed];
+  return calls.length > 0 && calls.every(isJsonRpcCall) ? calls : undefined;
+}
+
+function parseJsonRpcReplies(
+  body: string
+): Map<string, { result?: unknown; error?: unknown }> | undefined {
+  try {
+    const parsed = JSON.parse(body);
+    const replies = Array.isArray(parsed) ? parsed : [parsed];
+    return new Map(replies.map((r) => [String(r.id), r]));
+  } catch {
+    return undefined;
+  }
+}
+
+function isJsonRpcCall(value: unknown): value is JsonRpcCall {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "jsonrpc" in value &&
+    typeof (value as { method?: unknown }).method === "string"
+  );
+}
+
+function rpcKey(url: string, call: JsonRpcCall): string {
+  return `rpc ${url} ${call.method} ${stableStringify(call.params ?? [])}`;
+}
+
+function httpKey(method: string, url: string, body?: string): string {
+  return `${method} ${url} ${body ?? ""}`;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function nullBodyStatus(status: number): boolean {
+  return status === 101 || status === 204 || status === 205 || status === 304;
+}
@@ -7,9 +7,22 @@ import type {
   ToolDefinition,
   AppConfig,
 } from "./types.js";
+import type { PublicClient } from "viem";
+import type { Connection } from "@solana/web3.js";
+import type { EvmChainAdapter } from "../chains/evm/adapter.js";
+import type { SolanaChainAdapter } from "../chains/solana/adapter.js";
 import type { ProtocolScanner } from "./scanner-types.js";
 import type { YieldSource } from "./yield-types.js";
+import type { StateStore } from "./storage-types.js";
 import { ChainNotSupportedError } from "./errors.js";
+import { RpcHealthTracker } from "./rpc-health.js";
+import { ToolCallStats } from "./tool-stats.js";
+import { DEFAULT_HOST_POLICIES, HttpClient } from "./http-client.js";
+import { createNetworkFetch, type FetchFn } from "./network.js";
+import { TxPolicyEngine } from "../policy/tx-policy.js";
+import { AuditLog } from "../audit/audit-log.js";
+import { TenantAuth } from "../auth/tenants.js";
+import { createStateStore } from "../storage/state-store.js";
 
 export class Registry {
   private chainAdapters = new Map<ChainEcosystem, ChainAdapter>();
@@ -18,20 +31,48 @@ export class Registry {
   private scanners: ProtocolScanner[] = [];
   private yieldSources: YieldSource[] = [];
   private pluginContext: PluginContext;
+  private rpcHealth = new RpcHealthTracker();
+  private toolStats = new ToolCallStats();
+  private auth: TenantAuth;
+  private fetchFn: FetchFn;
+  private http: HttpClient;
 
   constructor(private config: AppConfig) {
+    this.fetchFn = createNetworkFetch(config.network, config.rpcUrls);
+    this.http = new HttpClient(DEFAULT_HOST_POLICIES, this.fetchFn);
+    this.auth = new TenantAuth(config.auth);
     this.pluginContext = {
       getChainAdapter: (eco) => this.getChainAdapter(eco),
       getChainAdapterForChain: (chainId) => this.getChainAdapterForChain(chainId),
       getAllChains: () => this.getSupportedChains(),
+      getEvmClient: (chainId) => this.getEvmClient(chainId),
+      getSolanaConnection: (chainId) => this.getSolanaConnection(chainId),
+      http: this.http,
       config: this.config,
       getScanners: () => this.scanners,
       getYieldSources: () => this.yieldSources,
+      txPolicy: new TxPolicyEngine(config.txPolicy),
+      audit: new AuditLog(config.audit),
+      apiKeys: config.apiKeys,
+      storage: createStateStore(config.storage),
     };
   }
 
   // ---- Chain Adapters ----
 
+  /** Endpoint health shared by all chain adapters for RPC failover */
+  getRpcHealth(): RpcHealthTracker {
+    return this.rpcHealth;
+  }
+
+  /**
+   * The fetch chain adapters must use for RPC traffic so that it is
+   * captured or replayed according to the configured network mode
+   */
+  getFetch(): FetchFn {
+    return this.fetchFn;
+  }
+
   registerChainAdapter(adapter: ChainAdapter): void {
     this.chainAdapters.set(adapter.ecosystem, adapter);
     for (const chain of adapter.getSupportedChains()) {
@@ -59,6 +100,18 @@ export class Registry {
     return chains;
   }
 
+  getEvmClient(chainId: string): PublicClient {
+    const adapter = this.getChainAdapterForChain(chainId);
+    if (adapter.ecosystem !== "evm") throw new ChainNotSupportedError(chainId);
+    return (adapter as EvmChainAdapter).getClient(chainId);
+  }
+
+  getSolanaConnection(chainId: string): Connection {
+    const adapter = this.getChainAdapterForChain(chainId);
+    if (adapter.ecosystem !== "solana") throw new ChainNotSupportedError(chainId);
+    return (adapter as SolanaChainAdapter).getConnection(chainId);
+  }
+
   // ---- Scanners & Yield Sources ----
 
   registerScanner(scanner: ProtocolScanner): void {
@@ -69,6 +122,16 @@ export class Registry {
     this.yieldSources.push(source);
   }
 
+  // ---- Storage ----
+
+  /** Replace the configured state store, e.g. with an extension's */
+  useStorage(storage: StateStore): void {
+    if (this.plugins.size > 0) {
+      throw new Error("Storage must be set before any plugin is registered");
+    }
+    this.pluginContext.storage = storage;
+  }
+
   // ---- Plugins ----
 
   async registerPlugin(plugin: DefiPlugin): Promise<void> {
@@ -102,6 +165,11 @@ export class Registry {
     this.plugins.set(plugin.name, plugin);
   }
 
+  /** Registered plugins in registration order */
+  getPlugins(): DefiPlugin[] {
+    return [...this.plugins.values()];
+  }
+
   getAllTools(): ToolDefinition[] {
     const tools: ToolDefinition[] = [];
     for (const plugin of this.plugins.values()) {
@@ -114,9 +182,21 @@ export class Registry {
     return this.pluginContext;
   }
 
+  /** Call and error counts of tools called through the MCP server */
+  getToolStats(): ToolCallStats {
+    return this.toolStats;
+  }
+
+  /** Tenant keys, tool allowlists and quotas for networked transports */
+  getAuth(): TenantAuth {
+    return this.auth;
+  }
+
   async shutdown(): Promise<void> {
     for (const plugin of this.plugins.values()) {
       await plugin.shutdown?.();
     }
+    await this.pluginContext.audit.flush();
+    await this.pluginContext.storage.flush();
   }
 }
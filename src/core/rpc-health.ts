@@ -0,0 +1,194 @@
+import { UpstreamRateLimitError } from "./errors.js";
+
+export interface RpcEndpointStats {
+  url: string;
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  /** Exponentially weighted average latency of successful requests */
+  avgLatencyMs?: number;
+  /** Exponentially weighted failure rate, 0..1 */
+  errorRate: number;
+  lastError?: string;
+  /** ISO timestamp until which the endpoint is skipped */
+  cooldownUntil?: string;
+}
+
+export interface RpcHealthOptions {
+  /** How long a rate-limited endpoint is avoided */
+  rateLimitCooldownMs: number;
+  /** How long an endpoint is avoided after repeated failures */
+  failureCooldownMs: number;
+  /** Consecutive failures before the failure cooldown applies */
+  maxConsecutiveFailures: number;
+}
+
+const DEFAULT_OPTIONS: RpcHealthOptions = {
+  rateLimitCooldownMs: 60_000,
+  failureCooldownMs: 15_000,
+  maxConsecutiveFailures: 3,
+};
+
+/** Weight of the newest sample in the moving averages */
+const EWMA_ALPHA = 0.2;
+
+interface EndpointState {
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  consecutiveFailures: number;
+  avgLatencyMs?: number;
+  errorRate: number;
+  lastError?: string;
+  cooldownUntil: number;
+}
+
+/**
+ * Tracks latency and error rates per RPC endpoint and decides the order in
+ * which a chain's endpoints should be tried. Shared by the EVM, Solana and
+ * Cosmos adapters so every ecosystem fails over the same way.
+ */
+export class RpcHealthTracker {
+  private endpoints = new Map<string, EndpointState>();
+  private options: RpcHealthOptions;
+
+  constructor(options: Partial<RpcHealthOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Order endpoints for the next request. Endpoints in cooldown go last (so
+   * a request is still attempted when every endpoint is cooling down);
+   * the rest keep their configured order unless one is clearly less
+   * reliable than another.
+   */
+  rank(urls: string[]): string[] {
+    const now = Date.now();
+    const scored = urls.map((url, index) => {
+      const state = this.endpoints.get(url);
+      const coolingDown = state ? state.cooldownUntil > now : false;
+      // Bucket the error rate so small differences don't reshuffle the order
+      const unreliability = state ? Math.round(state.errorRate * 4) : 0;
+      return { url, index, coolingDown, unreliability };
+    });
+
+    scored.sort(
+      (a, b) =>
+        Number(a.coolingDown) - Number(b.coolingDown) ||
+        a.unreliability - b.unreliability ||
+        a.index - b.index
+    );
+    return scored.map((s) => s.url);
+  }
+
+  recordSuccess(url: string, latencyMs: number): void {
+    const state = this.getState(url);
+    state.requests++;
+    state.consecutiveFailures = 0;
+    state.errorRate = state.errorRate * (1 - EWMA_ALPHA);
+    state.avgLatencyMs =
+      state.avgLatencyMs === undefined
+        ? latencyMs
+        : state.avgLatencyMs * (1 - EWMA_ALPHA) + latencyMs * EWMA_ALPHA;
+  }
+
+  recordFailure(url: string, error: unknown): void {
+    const state = this.getState(url);
+    state.requests++;
+    state.failures++;
+    state.consecutiveFailures++;
+    state.errorRate = state.errorRate * (1 - EWMA_ALPHA) + EWMA_ALPHA;
+    const message = error instanceof Error ? error.message : String(error);
+    state.lastError = message.split("\n")[0];
+
+    if (isRateLimitError(error)) {
+      state.rateLimited++;
+      state.cooldownUntil = Date.now() + this.options.rateLimitCooldownMs;
+    } else if (
+      state.consecutiveFailures >= this.options.maxConsecutiveFailures
+    ) {
+      state.cooldownUntil = Date.now() + this.options.failureCooldownMs;
+    }
+  }
+
+  getStats(): RpcEndpointStats[] {
+    const now = Date.now();
+    return [...this.endpoints.entries()].map(([url, state]) => ({
+      url,
+      requests: state.requests,
+      failures: state.failures,
+      rateLimited: state.rateLimited,
+      avgLatencyMs:
+        state.avgLatencyMs === undefined
+          ? undefined
+          : Math.round(state.avgLatencyMs),
+      errorRate: Number(state.errorRate.toFixed(3)),
+      lastError: state.lastError,
+      cooldownUntil:
+        state.cooldownUntil > now
+          ? new Date(state.cooldownUntil).toISOString()
+          : undefined,
+    }));
+  }
+
+  private getState(url: string): EndpointState {
+    let state = this.endpoints.get(url);
+    if (!state) {
+      state = {
+        requests: 0,
+        failures: 0,
+        rateLimited: 0,
+        consecutiveFailures: 0,
+        errorRate: 0,
+        cooldownUntil: 0,
+      };
+      this.endpoints.set(url, state);
+    }
+    return state;
+  }
+}
+
+/**
+ * Run `fn` against each endpoint in ranked order until one succeeds.
+ * `isEndpointFailure` decides whether an error is the endpoint's fault
+ * (try the next one) or a deterministic result such as a revert (rethrow).
+ * When the last endpoint tried was rate limiting, the error thrown is an
+ * UpstreamRateLimitError naming its host.
+ */
+export async function withFailover<T>(
+  urls: string[],
+  health: RpcHealthTracker,
+  fn: (url: string) => Promise<T>,
+  isEndpointFailure: (error: unknown) => boolean = () => true
+): Promise<T> {
+  let lastError: unknown = new Error("No RPC endpoints configured");
+  let lastUrl: string | undefined;
+  for (const url of health.rank(urls)) {
+    const started = Date.now();
+    try {
+      const result = await fn(url);
+      health.recordSuccess(url, Date.now() - started);
+      return result;
+    } catch (err) {
+      if (!isEndpointFailure(err)) {
+        health.recordSuccess(url, Date.now() - started);
+        throw err;
+      }
+      health.recordFailure(url, err);
+      lastError = err;
+      lastUrl = url;
+    }
+  }
+  if (lastUrl && isRateLimitError(lastError)) {
+    throw new UpstreamRateLimitError(new URL(lastUrl).host);
+  }
+  throw lastError;
+}
+
+/** Best-effort detection of provider rate limiting across client libraries */
+export function isRateLimitError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const e = error as { status?: number; code?: number; message?: string };
+  if (e.status === 429 || e.code === 429 || e.code === -32005) return true;
+  return /rate.?limit|too many requests|\b429\b/i.test(e.message ?? "");
+}
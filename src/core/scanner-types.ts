@@ -33,7 +33,7 @@ export interface PositionAsset {
  *
  * Usage:
  *   1. Create a class implementing ProtocolScanner
- *   2. Call registry.registerScanner(new MyScanner()) in src/index.ts
+ *   2. Add it to BUILTIN_SCANNERS in src/plugins/builtin.ts
  *   3. The wallet scan tool auto-discovers it
  */
 export interface ProtocolScanner {
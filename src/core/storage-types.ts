@@ -0,0 +1,43 @@
+/**
+ * Persistent state for plugins, kept across restarts: a key-value store
+ * and append-only tables per namespace. The server uses a JSON file by
+ * default; an extension can supply another backend.
+ */
+export interface StateStore {
+  /** The keys and tables of one owner, by convention a plugin's name */
+  namespace(name: string): StateNamespace;
+  /** Persist pending writes. Called on shutdown. */
+  flush(): Promise<void>;
+}
+
+export interface StateNamespace {
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  /** Store a JSON-serialisable value, replacing any previous one */
+  set(key: string, value: unknown): Promise<void>;
+  /** Whether the key existed */
+  delete(key: string): Promise<boolean>;
+  /** Keys in the namespace, optionally only those starting with `prefix` */
+  keys(prefix?: string): Promise<string[]>;
+  /**
+   * Append a JSON-serialisable row to a table, stamped with the current
+   * time. Stores may drop the oldest rows of a table past a size limit.
+   */
+  append(table: string, row: unknown): Promise<void>;
+  /** Rows of a table, oldest first */
+  rows<T = unknown>(table: string, query?: RowQuery<T>): Promise<Array<TableRow<T>>>;
+}
+
+export interface TableRow<T = unknown> {
+  /** ISO timestamp of the append */
+  at: string;
+  data: T;
+}
+
+export interface RowQuery<T = unknown> {
+  /** ISO timestamp; only rows appended at or after it */
+  since?: string;
+  /** Only rows whose data matches */
+  where?: (data: T) => boolean;
+  /** Only the newest `limit` of the matching rows */
+  limit?: number;
+}
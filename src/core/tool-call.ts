@@ -0,0 +1,110 @@
+import type {
+  ApiKeys,
+  PluginContext,
+  SessionContext,
+  TenantConfig,
+  ToolCallContext,
+} from "./types.js";
+
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface ToolCallOptions {
+  /** Aborted when the caller cancels; never aborted when omitted */
+  signal?: AbortSignal;
+  /** Receives progress reports; progress is dropped when omitted */
+  onProgress?: (update: ProgressUpdate) => void;
+  /** The authenticated caller, whose API keys take precedence over the server's */
+  tenant?: TenantConfig;
+  /** Context of the MCP session making the call */
+  session?: SessionContext;
+}
+
+/** The context one tool call's handler receives */
+export function createToolCallContext(
+  context: PluginContext,
+  options: ToolCallOptions = {}
+): ToolCallContext {
+  let last = -Infinity;
+  const tenantApiKeys = options.tenant && definedOnly(options.tenant.apiKeys);
+  const serverApiKeys =
+    !options.tenant || context.config.auth.serverKeyFallback ? context.apiKeys : {};
+  return {
+    ...context,
+    apiKeys: { ...serverApiKeys, ...tenantApiKeys },
+    tenantId: options.tenant?.id,
+    tenantApiKeys,
+    session: options.session ?? {},
+    signal: options.signal ?? new AbortController().signal,
+    reportProgress: (progress, total, message) => {
+      // MCP requires progress to increase with every notification
+      if (!options.onProgress || progress <= last) return;
+      last = progress;
+      options.onProgress({ progress, total, message });
+    },
+  };
+}
+
+/**
+ * The key to call `service` with. A tenant's own key wins; otherwise a
+ * server key is used, `pluginKey` (from `plugins.<name>.apiKey`) before
+ * the server's `apiKeys`, unless tenants may not fall back to server keys.
+ */
+export function apiKeyFor(
+  context: ToolCallContext,
+  service: keyof ApiKeys,
+  pluginKey?: string
+): string | undefined {
+  const own = context.tenantApiKeys?.[service];
+  if (own !== undefined) return own;
+  if (context.tenantId !== undefined && !context.config.auth.serverKeyFallback) {
+    return undefined;
+  }
+  return pluginKey ?? context.apiKeys[service];
+}
+
+/**
+ * Tracks a fan-out of `total` parallel units, such as one per chain. Each
+ * wrapped unit reports progress when it settles, and rejects as soon as
+ * the call is cancelled so the handler stops waiting on work it cannot
+ * abort, such as RPC reads. Check the signal once the units have settled
+ * so a cancelled call doesn't return partial results.
+ *
+ *   const track = fanOut(context, chains.length);
+ *   const results = await Promise.allSettled(
+ *     chains.map((chain) => track(scanChain(chain), chain.name))
+ *   );
+ *   context.signal.throwIfAborted();
+ */
+export function fanOut(
+  context: ToolCallContext,
+  total: number
+): <T>(unit: Promise<T>, label?: string) => Promise<T> {
+  let completed = 0;
+  return (unit, label) =>
+    untilAborted(unit, context.signal).finally(() => {
+      if (!context.signal.aborted) {
+        context.reportProgress(++completed, total, label);
+      }
+    });
+}
+
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() =>
+      signal.removeEventListener("abort", onAbort)
+    );
+  });
+}
+
+function definedOnly<T extends object>(obj: T | undefined): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(obj ?? {}).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
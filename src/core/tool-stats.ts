@@ -0,0 +1,81 @@
+import { getErrorCode } from "./errors.js";
+import type { ToolResult } from "./types.js";
+
+export interface ToolCallCounts {
+  tool: string;
+  calls: number;
+  errors: number;
+  /** Errors within the recent window, by ErrorEnvelope code */
+  recentErrors: Record<string, number>;
+  lastError?: { timestamp: string; code: string };
+}
+
+/** How far back recentErrors looks */
+const RECENT_WINDOW_MS = 60 * 60_000;
+/** Errors remembered per tool for the recent window */
+const MAX_RECENT_ERRORS = 100;
+
+interface ToolState {
+  calls: number;
+  errors: number;
+  recent: Array<{ at: number; code: string }>;
+}
+
+/**
+ * Counts calls and errors per tool since startup so operators can see
+ * which tools are failing. Counts are kept per tenant, so a tenant only
+ * sees its own calls; calls without a tenant share one set of counts.
+ * Kept in memory, independent of the audit log.
+ */
+export class ToolCallStats {
+  private tenants = new Map<string, Map<string, ToolState>>();
+
+  record(tool: string, result: ToolResult, tenantId?: string): void {
+    let tools = this.tenants.get(tenantId ?? "");
+    if (!tools) {
+      tools = new Map();
+      this.tenants.set(tenantId ?? "", tools);
+    }
+    let state = tools.get(tool);
+    if (!state) {
+      state = { calls: 0, errors: 0, recent: [] };
+      tools.set(tool, state);
+    }
+    state.calls++;
+    if (!result.isError) return;
+    state.errors++;
+    state.recent.push({ at: Date.now(), code: getErrorCode(result) ?? "TOOL_ERROR" });
+    if (state.recent.length > MAX_RECENT_ERRORS) state.recent.shift();
+  }
+
+  /** Tools `tenantId` (or calls without a tenant) has called, most recent errors first */
+  getStats(tenantId?: string): ToolCallCounts[] {
+    const since = Date.now() - RECENT_WINDOW_MS;
+    return [...(this.tenants.get(tenantId ?? "") ?? new Map<string, ToolState>()).entries()]
+      .map(([tool, state]) => {
+        const recentErrors: Record<string, number> = {};
+        for (const { at, code } of state.recent) {
+          if (at >= since) recentErrors[code] = (recentErrors[code] ?? 0) + 1;
+        }
+        const last = state.recent[state.recent.length - 1];
+        return {
+          tool,
+          calls: state.calls,
+          errors: state.errors,
+          recentErrors,
+          lastError: last && {
+            timestamp: new Date(last.at).toISOString(),
+            code: last.code,
+          },
+        };
+      })
+      .sort(
+        (a, b) =>
+          recentCount(b) - recentCount(a) || b.errors - a.errors || b.calls - a.calls
+      );
+  }
+}
+
+function recentCount(counts: ToolCallCounts): number {
+  return Object.values(counts.recentErrors).reduce((sum, n) => sum + n, 0);
+}
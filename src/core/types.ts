@@ -1,6 +1,12 @@
 import type { z } from "zod";
+import type { PublicClient } from "viem";
+import type { Connection } from "@solana/web3.js";
 import type { ProtocolScanner } from "./scanner-types.js";
 import type { YieldSource } from "./yield-types.js";
+import type { StateStore } from "./storage-types.js";
+import type { HttpClient } from "./http-client.js";
+import type { TxPolicyEngine } from "../policy/tx-policy.js";
+import type { AuditLog } from "../audit/audit-log.js";
 
 // ============================================================
 // Chain Types
@@ -16,6 +22,8 @@ export interface ChainInfo {
   nativeToken: TokenInfo;
   rpcUrl: string;
   explorerUrl?: string;
+  /** CoinGecko asset platform ID, for contract-address price lookups */
+  coingeckoPlatform?: string;
 }
 
 // ============================================================
@@ -46,6 +54,8 @@ export interface TokenPrice {
   priceChange24h?: number;
   marketCap?: number;
   volume24h?: number;
+  /** Price in the requested currency, when that isn't USD */
+  displayPrice?: { currency: string; price: number };
   lastUpdated: string;
 }
 
@@ -60,6 +70,21 @@ export interface UnsignedTransaction {
   raw: Record<string, unknown>;
   description: string;
   estimatedGas?: string;
+  /**
+   * Tokens the transaction spends from the sender, in base units, when
+   * that can't be read from `raw` (e.g. aggregator swap calldata). Used to
+   * value the transaction for the transaction policy.
+   */
+  outflows?: TokenAmount[];
+  /** Set by the transaction policy when a rule was broken in warn mode */
+  policyWarnings?: string[];
+}
+
+export interface TokenAmount {
+  /** Token address, or the native token address for the chain's native asset */
+  token: string;
+  /** Amount in base units */
+  amount: string;
 }
 
 // ============================================================
@@ -113,21 +138,77 @@ export interface ChainAdapter {
     chainId: string,
     symbolOrAddress: string
   ): Promise<TokenInfo | undefined>;
+  /** Well-known tokens resolvable by symbol, not including the native token */
+  getKnownTokens(chainId: string): TokenInfo[];
+  /** Latest block height (the slot on Solana), read from the chain's RPC */
+  getLatestBlock(chainId: string): Promise<number>;
 }
 
 // ============================================================
 // Plugin Interface
 // ============================================================
 
+/**
+ * What a tool does, used to pick the tools a profile exposes.
+ *   read         - returns data without building transactions
+ *   builds-tx    - returns unsigned transactions for the caller to sign
+ *   external-api - calls third-party HTTP APIs, not just chain RPC
+ */
+export type ToolCapability = "read" | "builds-tx" | "external-api";
+
 export interface ToolDefinition {
   name: string;
   description: string;
+  /** Defaults to ["read"] */
+  capabilities?: ToolCapability[];
   inputSchema: z.ZodType<unknown>;
-  handler: (input: unknown, context: PluginContext) => Promise<ToolResult>;
+  /**
+   * Shape of `structuredContent` on success. Tools that declare one must
+   * return structuredContent, and it is validated before reaching clients.
+   */
+  outputSchema?: z.ZodObject<z.ZodRawShape>;
+  /**
+   * Required input fields an MCP session may omit, filled from its
+   * context (defi_set_context). `chainId`, `userAddress` and
+   * `ownerAddress` are filled without being listed here.
+   */
+  sessionDefaults?: Record<string, SessionDefault>;
+  handler: (input: unknown, context: ToolCallContext) => Promise<ToolResult>;
+}
+
+/** Which session value fills an omitted input field */
+export type SessionDefault = "wallet" | "chain";
+
+/** Preferences an MCP session sets with defi_set_context */
+export interface SessionContext {
+  /** Wallets in order of preference; a wallet field gets the first valid on the chain */
+  wallets?: string[];
+  chainId?: string;
+  slippageBps?: number;
+  riskTolerance?: "low" | "medium" | "high";
+  /** CoinGecko currency code prices are shown in, e.g. "eur" */
+  displayCurrency?: string;
+}
+
+/**
+ * Read-only reference data served as an MCP resource. `uri` is either a
+ * fixed URI such as defi://chains or a URI template such as
+ * defi://protocols/aave-v3/{chainId}.
+ */
+export interface ResourceDefinition {
+  name: string;
+  uri: string;
+  description: string;
+  /** For URI templates: the values each variable can take */
+  variables?: Record<string, () => string[]>;
+  /** JSON content for the given template variables; undefined if there is none */
+  read(variables: Record<string, string>): unknown;
 }
 
 export interface ToolResult {
   content: Array<{ type: "text"; text: string }>;
+  /** Machine-readable result; `content` carries the same data as JSON text */
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
@@ -135,9 +216,52 @@ export interface PluginContext {
   getChainAdapter(ecosystem: ChainEcosystem): ChainAdapter;
   getChainAdapterForChain(chainId: string): ChainAdapter;
   getAllChains(): ChainInfo[];
+  /** Shared, batching viem client for an EVM chain. Prefer this over creating clients per call. */
+  getEvmClient(chainId: string): PublicClient;
+  /** Shared Solana Connection for a Solana chain */
+  getSolanaConnection(chainId: string): Connection;
+  /** Shared client for third-party HTTP APIs (caching, retries, timeouts, rate limits) */
+  http: HttpClient;
   config: AppConfig;
   getScanners(): ProtocolScanner[];
   getYieldSources(): YieldSource[];
+  /** Policy applied to transactions returned by tools */
+  txPolicy: TxPolicyEngine;
+  /** Record of tool calls; a no-op unless an audit log path is configured */
+  audit: AuditLog;
+  /**
+   * Upstream API keys. During a tool call these are the calling tenant's
+   * keys, over the server's when `auth.serverKeyFallback` allows, so read
+   * them from the context the handler receives rather than one saved at
+   * initialize().
+   */
+  apiKeys: ApiKeys;
+  /**
+   * State kept across restarts. Use the plugin's name as the namespace:
+   * `context.storage.namespace(this.name)`.
+   */
+  storage: StateStore;
+}
+
+/** The PluginContext plus what belongs to a single tool call */
+export interface ToolCallContext extends PluginContext {
+  /** Aborted when the client cancels the call */
+  signal: AbortSignal;
+  /**
+   * Report progress to the client, e.g. per chain of a fan-out. Reports
+   * that don't increase `progress` are dropped, as are all reports when
+   * the client didn't ask for progress.
+   */
+  reportProgress(progress: number, total?: number, message?: string): void;
+  /** The authenticated tenant making the call, on networked transports */
+  tenantId?: string;
+  /** The tenant's own upstream keys; read keys through apiKeyFor() */
+  tenantApiKeys?: ApiKeys;
+  /**
+   * The MCP session's context, for handlers to fall back to when an
+   * optional field is omitted. Empty outside MCP sessions.
+   */
+  session: SessionContext;
 }
 
 export interface PluginMetadata {
@@ -155,6 +279,8 @@ export interface DefiPlugin {
 
   initialize(context: PluginContext): Promise<void>;
   getTools(): ToolDefinition[];
+  /** Reference data such as contract address books, served as MCP resources */
+  getResources?(): ResourceDefinition[];
   shutdown?(): Promise<void>;
 }
 
@@ -162,10 +288,163 @@ export interface DefiPlugin {
 // Configuration
 // ============================================================
 
+export type TransportType = "stdio" | "http";
+
+export interface TransportConfig {
+  type: TransportType;
+  /** Interface to bind the HTTP transport to */
+  host: string;
+  /** Port for the HTTP transport */
+  port: number;
+  /** Also serve every tool as a REST endpoint on the HTTP transport */
+  rest: boolean;
+}
+
+export type NetworkMode = "live" | "record" | "replay";
+
+export interface NetworkConfig {
+  /** live: real network; record: real network, saved to fixtures; replay: fixtures only */
+  mode: NetworkMode;
+  /** Directory fixtures are written to and replayed from */
+  fixturesDir: string;
+}
+
+/** Settings for one plugin, keyed by plugin name in AppConfig.plugins */
+export interface PluginSettings {
+  /** Set to false to leave the plugin out */
+  enabled?: boolean;
+  /** API key for the upstream service the plugin calls */
+  apiKey?: string;
+  /** Chains a multi-chain tool covers when the caller doesn't name any */
+  defaultChains?: string[];
+  /** Plugin-specific settings */
+  options?: Record<string, unknown>;
+}
+
+export interface ComponentSettings {
+  /** Set to false to leave the scanner or yield source out */
+  enabled?: boolean;
+}
+
+export interface ChainSelection {
+  /** Only serve these chain IDs */
+  include?: string[];
+  /** Serve every chain except these */
+  exclude?: string[];
+}
+
+/**
+ * Rules checked against every UnsignedTransaction a tool returns. Every
+ * rule is off unless set.
+ */
+export interface TxPolicyConfig {
+  /** Reject the tool call (default) or return the transaction with warnings */
+  onViolation?: "block" | "warn";
+  /** Maximum USD value of a single transaction */
+  maxTxUsd?: number;
+  /** Maximum USD value of all transactions built per UTC day */
+  maxDailyUsd?: number;
+  /** Contracts EVM transactions may call or approve; any when unset */
+  allowedContracts?: string[];
+  /** Addresses native and ERC-20 transfers may send to; any when unset */
+  allowedRecipients?: string[];
+  /** Reject approvals of effectively unlimited amounts */
+  blockUnlimitedApprovals?: boolean;
+  /** Reject transactions touching addresses GoPlus flags as malicious */
+  blockFlaggedContracts?: boolean;
+}
+
+/** Keys for paid or rate-limited upstream APIs */
+export interface ApiKeys {
+  coingecko?: string;
+  oneInch?: string;
+  zeroX?: string;
+}
+
+/** A client of a networked deployment, identified by its API keys */
+export interface TenantConfig {
+  id: string;
+  /** Bearer tokens or API keys that authenticate as this tenant */
+  keys: string[];
+  /** Tools the tenant may call, "*" matching any characters; every exposed tool when unset */
+  tools?: string[];
+  /** Tool calls allowed per rolling minute; unlimited when unset */
+  callsPerMinute?: number;
+  /** Upstream API keys used for this tenant's calls instead of the server's */
+  apiKeys?: ApiKeys;
+}
+
+export interface AuthConfig {
+  /** Requests to networked transports must present a tenant's key when any are set */
+  tenants: TenantConfig[];
+  /**
+   * Whether a tenant's calls may use the server's keys, including
+   * plugin-level ones, for services its own `apiKeys` don't set
+   */
+  serverKeyFallback: boolean;
+}
+
+export interface AuditConfig {
+  /** JSONL file tool calls are appended to; auditing is off when unset */
+  path?: string;
+  /** Size at which the file is rotated */
+  maxFileBytes: number;
+  /** Rotated files kept next to the current one */
+  maxFiles: number;
+}
+
+export interface StorageConfig {
+  /** "file" keeps state in a JSON file; "memory" loses it on restart */
+  type: "file" | "memory";
+  /** State file; `~/.defi-mcp/state.json` when unset */
+  path?: string;
+  /** Rows kept per table before the oldest are dropped */
+  maxTableRows: number;
+}
+
+/** A named selection of the tools the server exposes */
+export interface ToolProfile {
+  name: string;
+  /** Only tools of plugins tagged with one of these; every plugin when unset */
+  tags?: string[];
+  /** Leave out tools with any of these capabilities */
+  excludeCapabilities?: ToolCapability[];
+}
+
+/**
+ * "eager" advertises every tool at startup; "lazy" advertises only the
+ * core toolsets and the discovery tools until more are enabled
+ */
+export interface ToolLoadingConfig {
+  mode: "eager" | "lazy";
+  /** Toolsets (plugin names) advertised from the start in lazy mode */
+  coreToolsets: string[];
+}
+
 export interface AppConfig {
-  rpcUrls: Record<string, string>;
-  apiKeys: {
-    coingecko?: string;
-  };
+  /** Ordered RPC endpoints per chain; later entries are failover targets */
+  rpcUrls: Record<string, string[]>;
+  /** Server-wide upstream API keys; a tenant's own keys take precedence */
+  apiKeys: ApiKeys;
   defaultSlippageBps: number;
+  transport: TransportConfig;
+  network: NetworkConfig;
+  chains: ChainSelection;
+  /** EVM chains defined in config, served alongside the built-in ones */
+  evmChains: ChainInfo[];
+  plugins: Record<string, PluginSettings>;
+  scanners: Record<string, ComponentSettings>;
+  yieldSources: Record<string, ComponentSettings>;
+  /** npm package names or absolute directory paths of extensions to load */
+  extensions: string[];
+  txPolicy: TxPolicyConfig;
+  audit: AuditConfig;
+  auth: AuthConfig;
+  /** Backend of PluginContext.storage, unless an extension supplies one */
+  storage: StorageConfig;
+  /** Tools to expose; the "full" profile exposes all of them */
+  profile: ToolProfile;
+  toolLoading: ToolLoadingConfig;
+  /** Config file the settings were read from, if any */
+  configFile?: string;
 }
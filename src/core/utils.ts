@@ -1,23 +1,26 @@
+import { Decimal, type RoundingMode } from "./amount.js";
+import { InvalidAmountError } from "./errors.js";
+
 /** Format a raw token amount (bigint string) to a human-readable decimal string */
 export function formatTokenAmount(raw: string, decimals: number): string {
-  if (decimals === 0) return raw;
-
-  const isNegative = raw.startsWith("-");
-  const abs = isNegative ? raw.slice(1) : raw;
-  const padded = abs.padStart(decimals + 1, "0");
-  const intPart = padded.slice(0, padded.length - decimals);
-  const fracPart = padded.slice(padded.length - decimals).replace(/0+$/, "");
-
-  const formatted = fracPart ? `${intPart}.${fracPart}` : intPart;
-  return isNegative ? `-${formatted}` : formatted;
+  return Decimal.fromUnits(raw, decimals).toString();
 }
 
-/** Convert a human-readable decimal amount to raw smallest-unit string */
-export function parseTokenAmount(amount: string, decimals: number): string {
-  const [intPart, fracPart = ""] = amount.split(".");
-  const paddedFrac = fracPart.padEnd(decimals, "0").slice(0, decimals);
-  const raw = intPart + paddedFrac;
-  return raw.replace(/^0+/, "") || "0";
+/**
+ * Convert a human-readable decimal amount, such as "1.5" or "2e-6", to a
+ * raw smallest-unit string. Negative amounts and, unless a rounding mode
+ * is given, more decimals than the token has are an InvalidAmountError.
+ */
+export function parseTokenAmount(
+  amount: string,
+  decimals: number,
+  rounding?: RoundingMode
+): string {
+  const value = Decimal.from(amount);
+  if (value.isNegative()) {
+    throw new InvalidAmountError(amount, "must not be negative");
+  }
+  return value.toUnits(decimals, rounding).toString();
 }
 
 /** Truncate an address for display: 0x1234...abcd */
@@ -26,7 +29,8 @@ export function truncateAddress(address: string): string {
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
 }
 
-/** Format a USD value to a clean string */
-export function formatUsd(value: number): string {
-  return `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+/** Format a USD value to a clean string, e.g. "$1,234.50" */
+export function formatUsd(value: Decimal | number): string {
+  const [int, frac] = Decimal.from(value).toFixed(2).split(".");
+  return `$${int.replace(/\B(?=(\d{3})+(?!\d))/g, ",")}.${frac}`;
 }
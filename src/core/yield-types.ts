@@ -21,7 +21,7 @@ export interface YieldOpportunity {
  *
  * Usage:
  *   1. Create a class implementing YieldSource
- *   2. Call registry.registerYieldSource(new MySource()) in src/index.ts
+ *   2. Add it to BUILTIN_YIELD_SOURCES in src/plugins/builtin.ts
  *   3. The yield finder tool auto-discovers it
  */
 export interface YieldSource {
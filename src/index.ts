@@ -1,192 +1,26 @@
+#!/usr/bin/env node
 import "dotenv/config";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { loadConfig } from "./config.js";
-import { Registry } from "./core/registry.js";
-import {
-  EvmChainAdapter,
-  EVM_CHAINS,
-  SolanaChainAdapter,
-  SOLANA_CHAINS,
-  CosmosChainAdapter,
-  COSMOS_CHAINS,
-} from "./chains/index.js";
-import {
-  TokenInfoPlugin,
-  BalancesPlugin,
-  SwapPlugin,
-  LiFiAggregator,
-  JupiterAggregator,
-  SkipGoAggregator,
-  ZeroXAggregator,
-  ParaSwapAggregator,
-  PolymarketPlugin,
-  GasPricePlugin,
-  PortfolioPlugin,
-  TxStatusPlugin,
-  ApprovePlugin,
-  BridgePlugin,
-  EnsPlugin,
-  LendingPlugin,
-  CompoundV3Plugin,
-  LidoPlugin,
-  DefiLlamaPlugin,
-  TransfersPlugin,
-  SnapshotPlugin,
-  YearnPlugin,
-  RocketPoolPlugin,
-  SDaiPlugin,
-  CurvePlugin,
-  SecurityPlugin,
-  NftPlugin,
-  SafePlugin,
-  PendlePlugin,
-  MorphoPlugin,
-  EigenLayerPlugin,
-  BalancerPlugin,
-  UniswapV3Plugin,
-  GmxPlugin,
-  WethPlugin,
-  CoinGeckoPlugin,
-  ContractReaderPlugin,
-  OneInchAggregator,
-  AaveExtendedPlugin,
-  TokenListsPlugin,
-  ChainlinkPlugin,
-  Permit2Plugin,
-  TxToolsPlugin,
-  DexScreenerPlugin,
-  SimulationPlugin,
-  RiskPlugin,
-  HealthMonitorPlugin,
-  ILCalculatorPlugin,
-  GasOptimizerPlugin,
-  DegenPlugin,
-  LeveragePlugin,
-  WalletIntelligencePlugin,
-  YieldFinderPlugin,
-} from "./plugins/index.js";
-import { registerAllTools } from "./tools/register.js";
-
-// Scanners & Yield Sources
-import { NativeBalanceScanner } from "./plugins/wallet-intelligence/scanners/native-scanner.js";
-import { Erc20Scanner } from "./plugins/wallet-intelligence/scanners/erc20-scanner.js";
-import { AaveV3Scanner } from "./plugins/wallet-intelligence/scanners/aave-scanner.js";
-import { UniswapV3LPScanner } from "./plugins/wallet-intelligence/scanners/uniswap-v3-scanner.js";
-import { AaveYieldSource } from "./plugins/yield-finder/sources/aave-yield-source.js";
-import { CompoundV3YieldSource } from "./plugins/yield-finder/sources/compound-v3-yield-source.js";
-import { LidoYieldSource } from "./plugins/yield-finder/sources/lido-yield-source.js";
-import { CompoundV3Scanner } from "./plugins/wallet-intelligence/scanners/compound-v3-scanner.js";
-import { LidoScanner } from "./plugins/wallet-intelligence/scanners/lido-scanner.js";
-import { PolymarketScanner } from "./plugins/wallet-intelligence/scanners/polymarket-scanner.js";
+import { createRegistry } from "./bootstrap.js";
+import { startStdioTransport } from "./transports/stdio.js";
+import { startHttpTransport } from "./transports/http.js";
 
 async function main() {
   const config = loadConfig();
 
-  // 1. Create registry
-  const registry = new Registry(config);
-
-  // 2. Register chain adapters
-  registry.registerChainAdapter(
-    new EvmChainAdapter(EVM_CHAINS, config.rpcUrls)
-  );
-  registry.registerChainAdapter(
-    new SolanaChainAdapter(SOLANA_CHAINS, config.rpcUrls)
-  );
-  registry.registerChainAdapter(
-    new CosmosChainAdapter(COSMOS_CHAINS, config.rpcUrls)
-  );
-
-  // 3. Register plugins
-  await registry.registerPlugin(
-    new TokenInfoPlugin(config.apiKeys.coingecko)
-  );
-  await registry.registerPlugin(new BalancesPlugin());
-  await registry.registerPlugin(
-    new SwapPlugin([
-      new LiFiAggregator(),
-      new JupiterAggregator(),
-      new SkipGoAggregator(),
-      new ZeroXAggregator(),
-      new ParaSwapAggregator(),
-      new OneInchAggregator(),
-    ])
-  );
-  await registry.registerPlugin(new GasPricePlugin());
-  await registry.registerPlugin(new PortfolioPlugin());
-  await registry.registerPlugin(new TxStatusPlugin());
-  await registry.registerPlugin(new ApprovePlugin());
-  await registry.registerPlugin(new BridgePlugin());
-  await registry.registerPlugin(new EnsPlugin());
-  await registry.registerPlugin(new LendingPlugin());
-  await registry.registerPlugin(new PolymarketPlugin());
-  await registry.registerPlugin(new CompoundV3Plugin());
-  await registry.registerPlugin(new LidoPlugin());
-  await registry.registerPlugin(new DefiLlamaPlugin());
-  await registry.registerPlugin(new TransfersPlugin());
-  await registry.registerPlugin(new SnapshotPlugin());
-  await registry.registerPlugin(new YearnPlugin());
-  await registry.registerPlugin(new RocketPoolPlugin());
-  await registry.registerPlugin(new SDaiPlugin());
-  await registry.registerPlugin(new CurvePlugin());
-  await registry.registerPlugin(new SecurityPlugin());
-  await registry.registerPlugin(new NftPlugin());
-  await registry.registerPlugin(new SafePlugin());
-  await registry.registerPlugin(new PendlePlugin());
-  await registry.registerPlugin(new MorphoPlugin());
-  await registry.registerPlugin(new EigenLayerPlugin());
-  await registry.registerPlugin(new BalancerPlugin());
-  await registry.registerPlugin(new UniswapV3Plugin());
-  await registry.registerPlugin(new GmxPlugin());
-  await registry.registerPlugin(new WethPlugin());
-  await registry.registerPlugin(new CoinGeckoPlugin());
-  await registry.registerPlugin(new ContractReaderPlugin());
-  await registry.registerPlugin(new AaveExtendedPlugin());
-  await registry.registerPlugin(new TokenListsPlugin());
-  await registry.registerPlugin(new ChainlinkPlugin());
-  await registry.registerPlugin(new Permit2Plugin());
-  await registry.registerPlugin(new TxToolsPlugin());
-  await registry.registerPlugin(new DexScreenerPlugin());
-
-  // 3a2. Register AI safety & intelligence plugins
-  await registry.registerPlugin(new SimulationPlugin());
-  await registry.registerPlugin(new RiskPlugin());
-  await registry.registerPlugin(new HealthMonitorPlugin());
-  await registry.registerPlugin(new ILCalculatorPlugin());
-  await registry.registerPlugin(new GasOptimizerPlugin());
-  await registry.registerPlugin(new DegenPlugin());
-  await registry.registerPlugin(new LeveragePlugin());
-
-  // 3b. Register protocol scanners (for wallet intelligence)
-  registry.registerScanner(new NativeBalanceScanner());
-  registry.registerScanner(new Erc20Scanner());
-  registry.registerScanner(new AaveV3Scanner());
-  registry.registerScanner(new UniswapV3LPScanner());
-  registry.registerScanner(new CompoundV3Scanner());
-  registry.registerScanner(new LidoScanner());
-  registry.registerScanner(new PolymarketScanner());
-
-  // 3c. Register yield sources (for intent engine)
-  registry.registerYieldSource(new AaveYieldSource());
-  registry.registerYieldSource(new CompoundV3YieldSource());
-  registry.registerYieldSource(new LidoYieldSource());
-
-  // 3d. Register intelligence plugins
-  await registry.registerPlugin(new WalletIntelligencePlugin());
-  await registry.registerPlugin(new YieldFinderPlugin());
-
-  // 4. Create MCP server
-  const server = new McpServer({
-    name: "defi-mcp",
-    version: "1.0.0",
-  });
-
-  // 5. Register all tools onto the MCP server
-  registerAllTools(server, registry);
-
-  // 6. Start stdio transport
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  // Chain adapters, plugins, scanners and yield sources
+  const registry = await createRegistry(config);
+
+  // Start the configured transport. Every MCP session shares this registry.
+  if (config.transport.type === "http") {
+    await startHttpTransport(registry, config.transport);
+  } else if (config.transport.type === "stdio") {
+    await startStdioTransport(registry);
+  } else {
+    throw new Error(
+      `Unknown transport "${config.transport.type}". Use "stdio" or "http".`
+    );
+  }
 
   // Graceful shutdown
   process.on("SIGINT", async () => {
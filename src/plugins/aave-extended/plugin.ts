@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { createPublicClient, http, getAddress, formatUnits } from "viem";
+import { getAddress } from "viem";
 import type {
   DefiPlugin,
   PluginContext,
@@ -7,6 +7,9 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema } from "../../tools/schemas.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
+import { Decimal } from "../../core/amount.js";
+import { formatUsd } from "../../core/utils.js";
 
 // Aave V3 Pool addresses
 const AAVE_V3_POOL: Record<string, string> = {
@@ -32,14 +35,14 @@ const SUPPORTED = Object.keys(AAVE_V3_POOL);
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class AaveExtendedPlugin implements DefiPlugin {
   readonly name = "aave-extended";
   readonly description = "Aave V3 extended: flash loan info, reserve data, and health factor simulation";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["lending"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -54,6 +57,7 @@ export class AaveExtendedPlugin implements DefiPlugin {
   private flashLoanInfoTool(): ToolDefinition {
     return {
       name: "defi_aave_flash_loan_info",
+      capabilities: ["read", "external-api"],
       description: `Get Aave V3 flash loan information: available liquidity per asset, premium rates, and whether flash loans are enabled. Supported chains: ${SUPPORTED.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
@@ -61,10 +65,10 @@ export class AaveExtendedPlugin implements DefiPlugin {
       handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId } = input as { chainId: string };
-          if (!AAVE_V3_POOL[chainId]) return errorResult(`Aave V3 not available on "${chainId}". Supported: ${SUPPORTED.join(", ")}`);
+          if (!AAVE_V3_POOL[chainId]) return errorResult(new UnsupportedChainForToolError("Aave V3", chainId, SUPPORTED));
 
           // Use Aave subgraph for reserve data
-          const res = await fetch("https://api.thegraph.com/subgraphs/name/aave/protocol-v3", {
+          const res = await context.http.fetch("https://api.thegraph.com/subgraphs/name/aave/protocol-v3", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
@@ -91,11 +95,11 @@ export class AaveExtendedPlugin implements DefiPlugin {
             .map((r: any) => ({
               symbol: r.symbol,
               address: r.underlyingAsset,
-              availableLiquidity: `${Number(formatUnits(BigInt(r.availableLiquidity), r.decimals)).toFixed(2)} ${r.symbol}`,
+              availableLiquidity: `${Decimal.fromUnits(r.availableLiquidity, r.decimals).toFixed(2)} ${r.symbol}`,
               flashLoanEnabled: r.flashLoanEnabled,
               flashLoanPremium: "0.05%",
-              supplyApy: `${(Number(r.liquidityRate) / 1e25).toFixed(2)}%`,
-              borrowApy: `${(Number(r.variableBorrowRate) / 1e25).toFixed(2)}%`,
+              supplyApy: `${Decimal.fromUnits(r.liquidityRate, 25).toFixed(2)}%`,
+              borrowApy: `${Decimal.fromUnits(r.variableBorrowRate, 25).toFixed(2)}%`,
             }));
 
           return jsonResult({
@@ -107,7 +111,7 @@ export class AaveExtendedPlugin implements DefiPlugin {
             reserves,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch flash loan info: ${e.message}`);
+          return errorResult(e, "Failed to fetch flash loan info");
         }
       },
     };
@@ -116,17 +120,18 @@ export class AaveExtendedPlugin implements DefiPlugin {
   private reserveDataTool(): ToolDefinition {
     return {
       name: "defi_aave_reserves",
+      capabilities: ["read", "external-api"],
       description: `Get detailed Aave V3 reserve data for all assets: supply/borrow APY, utilization, caps, and risk parameters. Supported chains: ${SUPPORTED.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
         limit: z.number().int().min(1).max(50).optional().describe("Number of reserves (default 20)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, limit = 20 } = input as { chainId: string; limit?: number };
-          if (!AAVE_V3_POOL[chainId]) return errorResult(`Aave V3 not available on "${chainId}"`);
+          if (!AAVE_V3_POOL[chainId]) return errorResult(new UnsupportedChainForToolError("Aave V3", chainId, SUPPORTED));
 
-          const res = await fetch("https://api.thegraph.com/subgraphs/name/aave/protocol-v3", {
+          const res = await context.http.fetch("https://api.thegraph.com/subgraphs/name/aave/protocol-v3", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
@@ -157,32 +162,34 @@ export class AaveExtendedPlugin implements DefiPlugin {
           const data = await res.json();
 
           const reserves = (data.data?.reserves || []).map((r: any) => {
-            const totalLiq = Number(formatUnits(BigInt(r.totalLiquidity), r.decimals));
-            const availLiq = Number(formatUnits(BigInt(r.availableLiquidity), r.decimals));
-            const totalBorrow = Number(formatUnits(BigInt(r.totalCurrentVariableDebt), r.decimals));
-            const utilization = totalLiq > 0 ? ((totalLiq - availLiq) / totalLiq * 100) : 0;
+            const totalLiq = Decimal.fromUnits(r.totalLiquidity, r.decimals);
+            const availLiq = Decimal.fromUnits(r.availableLiquidity, r.decimals);
+            const totalBorrow = Decimal.fromUnits(r.totalCurrentVariableDebt, r.decimals);
+            const utilization = totalLiq.gt(0)
+              ? totalLiq.minus(availLiq).times(100).div(totalLiq, 4, "half-even").toNumber()
+              : 0;
 
             return {
               symbol: r.symbol,
               name: r.name,
               address: r.underlyingAsset,
-              supplyApy: `${(Number(r.liquidityRate) / 1e25).toFixed(2)}%`,
-              borrowApy: `${(Number(r.variableBorrowRate) / 1e25).toFixed(2)}%`,
+              supplyApy: `${Decimal.fromUnits(r.liquidityRate, 25).toFixed(2)}%`,
+              borrowApy: `${Decimal.fromUnits(r.variableBorrowRate, 25).toFixed(2)}%`,
               totalSupply: `${totalLiq.toFixed(0)} ${r.symbol}`,
               totalBorrowed: `${totalBorrow.toFixed(0)} ${r.symbol}`,
               utilization: `${utilization.toFixed(1)}%`,
               collateralEnabled: r.usageAsCollateralEnabled,
               borrowEnabled: r.borrowingEnabled,
-              ltv: `${Number(r.baseLTVasCollateral) / 100}%`,
-              liquidationThreshold: `${Number(r.reserveLiquidationThreshold) / 100}%`,
-              liquidationBonus: `${Number(r.reserveLiquidationBonus) / 100 - 100}%`,
+              ltv: `${Decimal.fromUnits(r.baseLTVasCollateral, 2)}%`,
+              liquidationThreshold: `${Decimal.fromUnits(r.reserveLiquidationThreshold, 2)}%`,
+              liquidationBonus: `${Decimal.fromUnits(r.reserveLiquidationBonus, 2).minus(100)}%`,
               status: r.isFrozen ? "frozen" : r.isActive ? "active" : "inactive",
             };
           });
 
           return jsonResult({ chain: chainId, protocol: "Aave V3", reserveCount: reserves.length, reserves });
         } catch (e: any) {
-          return errorResult(`Failed to fetch reserve data: ${e.message}`);
+          return errorResult(e, "Failed to fetch reserve data");
         }
       },
     };
@@ -200,14 +207,13 @@ export class AaveExtendedPlugin implements DefiPlugin {
         try {
           const { chainId, userAddress } = input as { chainId: string; userAddress: string };
           const poolAddr = AAVE_V3_POOL[chainId];
-          if (!poolAddr) return errorResult(`Aave V3 not available on "${chainId}"`);
+          if (!poolAddr) return errorResult(new UnsupportedChainForToolError("Aave V3", chainId, SUPPORTED));
 
           const adapter = context.getChainAdapterForChain(chainId);
           const chain = adapter.getChain(chainId);
           if (!chain) return errorResult(`Chain "${chainId}" not found`);
 
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
 
           const getUserAccountDataAbi = [{
             name: "getUserAccountData",
@@ -234,35 +240,36 @@ export class AaveExtendedPlugin implements DefiPlugin {
           const [totalCollateral, totalDebt, availableBorrows, liqThreshold, ltv, healthFactor] = result;
 
           // Values are in base currency units (USD with 8 decimals)
-          const collateralUsd = Number(totalCollateral) / 1e8;
-          const debtUsd = Number(totalDebt) / 1e8;
-          const borrowableUsd = Number(availableBorrows) / 1e8;
-          const hf = Number(healthFactor) / 1e18;
+          const collateralUsd = Decimal.fromUnits(totalCollateral, 8);
+          const debtUsd = Decimal.fromUnits(totalDebt, 8);
+          const borrowableUsd = Decimal.fromUnits(availableBorrows, 8);
+          const hf = Decimal.fromUnits(healthFactor, 18);
 
           let riskLevel: string;
-          if (debtUsd === 0) riskLevel = "no debt";
-          else if (hf > 2) riskLevel = "safe";
-          else if (hf > 1.5) riskLevel = "moderate";
-          else if (hf > 1.1) riskLevel = "at risk";
+          if (debtUsd.isZero()) riskLevel = "no debt";
+          else if (hf.gt(2)) riskLevel = "safe";
+          else if (hf.gt("1.5")) riskLevel = "moderate";
+          else if (hf.gt("1.1")) riskLevel = "at risk";
           else riskLevel = "DANGER - near liquidation";
 
           return jsonResult({
             chain: chainId,
             protocol: "Aave V3",
             user: userAddress,
-            healthFactor: debtUsd === 0 ? "∞ (no debt)" : hf.toFixed(4),
+            healthFactor: debtUsd.isZero() ? "∞ (no debt)" : hf.toFixed(4),
             riskLevel,
-            totalCollateral: `$${collateralUsd.toFixed(2)}`,
-            totalDebt: `$${debtUsd.toFixed(2)}`,
-            availableBorrows: `$${borrowableUsd.toFixed(2)}`,
-            ltv: `${Number(ltv) / 100}%`,
-            liquidationThreshold: `${Number(liqThreshold) / 100}%`,
-            note: hf < 1.1 && debtUsd > 0
+            totalCollateral: formatUsd(collateralUsd),
+            totalDebt: formatUsd(debtUsd),
+            availableBorrows: formatUsd(borrowableUsd),
+            // Basis points
+            ltv: `${Decimal.fromUnits(ltv, 2)}%`,
+            liquidationThreshold: `${Decimal.fromUnits(liqThreshold, 2)}%`,
+            note: hf.lt("1.1") && !debtUsd.isZero()
               ? "WARNING: Position is at high risk of liquidation. Consider repaying debt or adding collateral."
               : undefined,
           });
         } catch (e: any) {
-          return errorResult(`Failed to check health factor: ${e.message}`);
+          return errorResult(e, "Failed to check health factor");
         }
       },
     };
@@ -36,6 +36,9 @@ export class ApprovePlugin implements DefiPlugin {
   readonly name = "approve";
   readonly description = "ERC20 token approval management";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["trading", "wallet"],
+  };
 
   async initialize(_context: PluginContext): Promise<void> {}
 
@@ -44,6 +47,7 @@ export class ApprovePlugin implements DefiPlugin {
       this.revokeTool(),
       {
         name: "defi_token_approve",
+        capabilities: ["builds-tx"],
         description:
           "Build an unsigned ERC20 approve transaction. Required before swapping tokens on EVM chains. Returns an unsigned transaction to approve a spender to spend tokens on your behalf.",
         inputSchema: z.object({
@@ -154,9 +158,7 @@ export class ApprovePlugin implements DefiPlugin {
             };
           }
 
-          const { createPublicClient, http } = await import("viem");
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
 
           const allowance = await client.readContract({
             address: getAddress(tokenAddress),
@@ -199,6 +201,7 @@ export class ApprovePlugin implements DefiPlugin {
   private revokeTool(): ToolDefinition {
     return {
       name: "defi_revoke_approval_tx",
+      capabilities: ["builds-tx"],
       description:
         "Build an unsigned transaction to revoke (set to 0) a token approval. Use this to remove a spender's access to your tokens.",
       inputSchema: z.object({
@@ -6,6 +6,7 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema } from "../../tools/schemas.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
 
 const BALANCER_API = "https://api-v3.balancer.fi";
 
@@ -21,14 +22,14 @@ const CHAIN_MAP: Record<string, string> = {
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class BalancerPlugin implements DefiPlugin {
   readonly name = "balancer";
   readonly description = "Balancer V2/V3: pool data, TVL, APR, and token composition";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["market-data"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -39,16 +40,17 @@ export class BalancerPlugin implements DefiPlugin {
   private poolsTool(): ToolDefinition {
     return {
       name: "defi_balancer_pools",
+      capabilities: ["read", "external-api"],
       description: `List Balancer pools with TVL, APR, volume, and token composition. Supported chains: ${Object.keys(CHAIN_MAP).join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
         limit: z.number().int().min(1).max(50).optional().describe("Number of results (default 20)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, limit = 20 } = input as { chainId: string; limit?: number };
           const chain = CHAIN_MAP[chainId];
-          if (!chain) return errorResult(`Balancer not available on "${chainId}". Supported: ${Object.keys(CHAIN_MAP).join(", ")}`);
+          if (!chain) return errorResult(new UnsupportedChainForToolError("Balancer", chainId, Object.keys(CHAIN_MAP)));
 
           const query = `
             query {
@@ -80,7 +82,7 @@ export class BalancerPlugin implements DefiPlugin {
             }
           `;
 
-          const res = await fetch(BALANCER_API, {
+          const res = await context.http.fetch(BALANCER_API, {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({ query }),
@@ -109,7 +111,7 @@ export class BalancerPlugin implements DefiPlugin {
 
           return jsonResult({ chain: chainId, count: pools.length, pools });
         } catch (e: any) {
-          return errorResult(`Failed to fetch Balancer pools: ${e.message}`);
+          return errorResult(e, "Failed to fetch Balancer pools");
         }
       },
     };
@@ -4,12 +4,19 @@ import type {
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
-import { GetBalancesInputSchema } from "../../tools/schemas.js";
+import { InvalidAddressError } from "../../core/errors.js";
+import {
+  GetBalancesInputSchema,
+  GetBalancesOutputSchema,
+} from "../../tools/schemas.js";
 
 export class BalancesPlugin implements DefiPlugin {
   readonly name = "balances";
   readonly description = "Wallet balance lookups across chains";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["wallet", "trading"],
+  };
 
   async initialize(_context: PluginContext): Promise<void> {}
 
@@ -19,7 +26,9 @@ export class BalancesPlugin implements DefiPlugin {
         name: "defi_get_balances",
         description:
           "Get token balances for a wallet address on a specific chain. If no token addresses are specified, returns the native token balance (ETH, SOL, ATOM, etc.).",
+        sessionDefaults: { address: "wallet" },
         inputSchema: GetBalancesInputSchema,
+        outputSchema: GetBalancesOutputSchema,
         handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
           const { chainId, address, tokens } = input as {
             chainId: string;
@@ -30,15 +39,7 @@ export class BalancesPlugin implements DefiPlugin {
           const adapter = context.getChainAdapterForChain(chainId);
 
           if (!adapter.isValidAddress(chainId, address)) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Invalid address "${address}" for chain "${chainId}"`,
-                },
-              ],
-              isError: true,
-            };
+            throw new InvalidAddressError(address, chainId);
           }
 
           const balances = [];
@@ -60,13 +61,15 @@ export class BalancesPlugin implements DefiPlugin {
             balances.push(...tokenBalances);
           }
 
+          const result = { chainId, address, balances };
           return {
             content: [
               {
                 type: "text",
-                text: JSON.stringify(balances, null, 2),
+                text: JSON.stringify(result, null, 2),
               },
             ],
+            structuredContent: result,
           };
         },
       },
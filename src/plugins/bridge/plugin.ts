@@ -2,28 +2,22 @@ import { z } from "zod";
 import type {
   DefiPlugin,
   PluginContext,
+  ToolCallContext,
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema, AmountSchema, SlippageSchema } from "../../tools/schemas.js";
+import { getEvmChainId, getEvmChainIds } from "../../chains/registry.js";
 
 const LIFI_API = "https://li.quest/v1";
 
-/** Map chain IDs to Li.Fi numeric chain IDs */
-const CHAIN_ID_MAP: Record<string, number> = {
-  ethereum: 1,
-  polygon: 137,
-  arbitrum: 42161,
-  base: 8453,
-  optimism: 10,
-  avalanche: 43114,
-  bsc: 56,
-};
-
 export class BridgePlugin implements DefiPlugin {
   readonly name = "bridge";
   readonly description = "Cross-chain bridge quotes and transactions via Li.Fi";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["trading"],
+  };
 
   async initialize(_context: PluginContext): Promise<void> {}
 
@@ -31,8 +25,10 @@ export class BridgePlugin implements DefiPlugin {
     return [
       {
         name: "defi_bridge_quote",
+        capabilities: ["builds-tx", "external-api"],
         description:
           "Get a cross-chain bridge quote for moving tokens between different chains. Uses Li.Fi aggregator which finds the best bridge route (Stargate, Across, Hop, etc.).",
+        sessionDefaults: { fromChainId: "chain" },
         inputSchema: z.object({
           fromChainId: ChainIdSchema.describe("Source chain ID"),
           toChainId: ChainIdSchema.describe("Destination chain ID"),
@@ -44,7 +40,7 @@ export class BridgePlugin implements DefiPlugin {
         }),
         handler: async (
           input: unknown,
-          context: PluginContext
+          context: ToolCallContext
         ): Promise<ToolResult> => {
           const {
             fromChainId,
@@ -64,15 +60,15 @@ export class BridgePlugin implements DefiPlugin {
             slippageBps?: number;
           };
 
-          const fromNumeric = CHAIN_ID_MAP[fromChainId];
-          const toNumeric = CHAIN_ID_MAP[toChainId];
+          const fromNumeric = getEvmChainId(fromChainId);
+          const toNumeric = getEvmChainId(toChainId);
 
           if (!fromNumeric || !toNumeric) {
             return {
               content: [
                 {
                   type: "text",
-                  text: `Bridge only supports EVM chains: ${Object.keys(CHAIN_ID_MAP).join(", ")}`,
+                  text: `Bridge only supports EVM chains: ${getEvmChainIds().join(", ")}`,
                 },
               ],
               isError: true,
@@ -102,10 +98,10 @@ export class BridgePlugin implements DefiPlugin {
             toToken: resolvedTo?.address || toToken,
             fromAmount: fromAmountRaw,
             fromAddress: userAddress,
-            slippage: ((slippageBps || 50) / 10000).toString(),
+            slippage: ((slippageBps || context.session.slippageBps || 50) / 10000).toString(),
           });
 
-          const res = await fetch(`${LIFI_API}/quote?${params}`);
+          const res = await context.http.fetch(`${LIFI_API}/quote?${params}`);
           if (!res.ok) {
             const err = await res.text();
             return {
@@ -149,11 +145,23 @@ export class BridgePlugin implements DefiPlugin {
               : undefined,
             transaction: data.transactionRequest
               ? {
-                  to: data.transactionRequest.to,
-                  data: data.transactionRequest.data,
-                  value: data.transactionRequest.value,
-                  gasLimit: data.transactionRequest.gasLimit,
-                  chainId: fromNumeric,
+                  chainId: fromChainId,
+                  ecosystem: "evm",
+                  raw: {
+                    to: data.transactionRequest.to,
+                    data: data.transactionRequest.data,
+                    value: data.transactionRequest.value,
+                    gasLimit: data.transactionRequest.gasLimit,
+                    chainId: fromNumeric,
+                  },
+                  description: `Bridge ${amount} ${data.action.fromToken.symbol} from ${fromChainId} to ${toChainId} via ${data.tool}`,
+                  // Bridge calldata is opaque, so declare what it spends
+                  outflows: [
+                    {
+                      token: resolvedFrom?.address ?? data.action.fromToken.address,
+                      amount: fromAmountRaw,
+                    },
+                  ],
                 }
               : undefined,
           };
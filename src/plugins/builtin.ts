@@ -0,0 +1,303 @@
+import type { Registry } from "../core/registry.js";
+import type {
+  AppConfig,
+  DefiPlugin,
+  PluginSettings,
+} from "../core/types.js";
+import type { ProtocolScanner } from "../core/scanner-types.js";
+import type { YieldSource } from "../core/yield-types.js";
+import type { SwapAggregator } from "./swap/aggregators/types.js";
+import type { DefiExtension, LoadedExtension } from "./external.js";
+import {
+  TokenInfoPlugin,
+  BalancesPlugin,
+  SwapPlugin,
+  LiFiAggregator,
+  JupiterAggregator,
+  SkipGoAggregator,
+  ZeroXAggregator,
+  ParaSwapAggregator,
+  OneInchAggregator,
+  PolymarketPlugin,
+  GasPricePlugin,
+  PortfolioPlugin,
+  TxStatusPlugin,
+  ApprovePlugin,
+  BridgePlugin,
+  EnsPlugin,
+  LendingPlugin,
+  CompoundV3Plugin,
+  LidoPlugin,
+  DefiLlamaPlugin,
+  TransfersPlugin,
+  SnapshotPlugin,
+  YearnPlugin,
+  RocketPoolPlugin,
+  SDaiPlugin,
+  CurvePlugin,
+  SecurityPlugin,
+  NftPlugin,
+  SafePlugin,
+  PendlePlugin,
+  MorphoPlugin,
+  EigenLayerPlugin,
+  BalancerPlugin,
+  UniswapV3Plugin,
+  GmxPlugin,
+  WethPlugin,
+  CoinGeckoPlugin,
+  ContractReaderPlugin,
+  AaveExtendedPlugin,
+  TokenListsPlugin,
+  ChainlinkPlugin,
+  Permit2Plugin,
+  TxToolsPlugin,
+  DexScreenerPlugin,
+  SimulationPlugin,
+  RiskPlugin,
+  HealthMonitorPlugin,
+  ILCalculatorPlugin,
+  GasOptimizerPlugin,
+  DegenPlugin,
+  LeveragePlugin,
+  WalletIntelligencePlugin,
+  YieldFinderPlugin,
+} from "./index.js";
+import { NativeBalanceScanner } from "./wallet-intelligence/scanners/native-scanner.js";
+import { Erc20Scanner } from "./wallet-intelligence/scanners/erc20-scanner.js";
+import { AaveV3Scanner } from "./wallet-intelligence/scanners/aave-scanner.js";
+import { UniswapV3LPScanner } from "./wallet-intelligence/scanners/uniswap-v3-scanner.js";
+import { CompoundV3Scanner } from "./wallet-intelligence/scanners/compound-v3-scanner.js";
+import { LidoScanner } from "./wallet-intelligence/scanners/lido-scanner.js";
+import { PolymarketScanner } from "./wallet-intelligence/scanners/polymarket-scanner.js";
+import { AaveYieldSource } from "./yield-finder/sources/aave-yield-source.js";
+import { CompoundV3YieldSource } from "./yield-finder/sources/compound-v3-yield-source.js";
+import { LidoYieldSource } from "./yield-finder/sources/lido-yield-source.js";
+
+type PluginFactory = (
+  settings: PluginSettings,
+  config: AppConfig,
+  aggregators: Record<string, () => SwapAggregator>
+) => DefiPlugin;
+
+/** Swap aggregators by name, in priority order per chain */
+export const BUILTIN_AGGREGATORS: Record<string, () => SwapAggregator> = {
+  "li.fi": () => new LiFiAggregator(),
+  jupiter: () => new JupiterAggregator(),
+  "skip-go": () => new SkipGoAggregator(),
+  "0x": () => new ZeroXAggregator(),
+  paraswap: () => new ParaSwapAggregator(),
+  "1inch": () => new OneInchAggregator(),
+};
+
+/**
+ * Every built-in plugin keyed by its `name`, in registration order.
+ * A plugin is registered unless config sets `plugins.<name>.enabled`
+ * to false.
+ */
+export const BUILTIN_PLUGINS: Record<string, PluginFactory> = {
+  "token-info": (s) => new TokenInfoPlugin(s.apiKey),
+  balances: () => new BalancesPlugin(),
+  // options.aggregators picks and orders the aggregators to use
+  swap: (s, _config, aggregators) =>
+    new SwapPlugin(
+      ((s.options?.aggregators as string[] | undefined) ??
+        Object.keys(aggregators)).map((name) => {
+        const create = aggregators[name];
+        if (!create) {
+          throw new Error(
+            `Unknown swap aggregator "${name}" in plugins.swap.options.aggregators. Known: ${Object.keys(aggregators).join(", ")}`
+          );
+        }
+        return create();
+      })
+    ),
+  "gas-price": () => new GasPricePlugin(),
+  portfolio: () => new PortfolioPlugin(),
+  "tx-status": () => new TxStatusPlugin(),
+  approve: () => new ApprovePlugin(),
+  bridge: () => new BridgePlugin(),
+  ens: () => new EnsPlugin(),
+  lending: () => new LendingPlugin(),
+  polymarket: () => new PolymarketPlugin(),
+  "compound-v3": () => new CompoundV3Plugin(),
+  lido: () => new LidoPlugin(),
+  defillama: () => new DefiLlamaPlugin(),
+  transfers: () => new TransfersPlugin(),
+  snapshot: () => new SnapshotPlugin(),
+  yearn: () => new YearnPlugin(),
+  "rocket-pool": () => new RocketPoolPlugin(),
+  sdai: () => new SDaiPlugin(),
+  curve: () => new CurvePlugin(),
+  security: () => new SecurityPlugin(),
+  nft: () => new NftPlugin(),
+  safe: () => new SafePlugin(),
+  pendle: () => new PendlePlugin(),
+  morpho: () => new MorphoPlugin(),
+  eigenlayer: () => new EigenLayerPlugin(),
+  balancer: () => new BalancerPlugin(),
+  "uniswap-v3": () => new UniswapV3Plugin(),
+  gmx: () => new GmxPlugin(),
+  weth: () => new WethPlugin(),
+  coingecko: () => new CoinGeckoPlugin(),
+  "contract-reader": () => new ContractReaderPlugin(),
+  "aave-extended": () => new AaveExtendedPlugin(),
+  "token-lists": () => new TokenListsPlugin(),
+  chainlink: () => new ChainlinkPlugin(),
+  permit2: () => new Permit2Plugin(),
+  "tx-tools": () => new TxToolsPlugin(),
+  "dex-screener": () => new DexScreenerPlugin(),
+
+  // AI safety & intelligence
+  simulation: () => new SimulationPlugin(),
+  risk: () => new RiskPlugin(),
+  "health-monitor": () => new HealthMonitorPlugin(),
+  "il-calculator": () => new ILCalculatorPlugin(),
+  "gas-optimizer": () => new GasOptimizerPlugin(),
+  degen: () => new DegenPlugin(),
+  leverage: () => new LeveragePlugin(),
+
+  // Driven by the registered scanners and yield sources
+  "wallet-intelligence": () => new WalletIntelligencePlugin(),
+  "yield-finder": () => new YieldFinderPlugin(),
+};
+
+/**
+ * The built-in plugins that read each optional setting. Setting one on
+ * any other built-in plugin is rejected, since it would do nothing.
+ */
+const PLUGIN_SETTING_READERS: Record<"apiKey" | "defaultChains", string[]> = {
+  apiKey: ["token-info", "coingecko"],
+  defaultChains: ["portfolio", "wallet-intelligence"],
+};
+
+/** Protocol scanners for wallet intelligence, keyed by config name */
+export const BUILTIN_SCANNERS: Record<string, () => ProtocolScanner> = {
+  native: () => new NativeBalanceScanner(),
+  erc20: () => new Erc20Scanner(),
+  "aave-v3": () => new AaveV3Scanner(),
+  "uniswap-v3": () => new UniswapV3LPScanner(),
+  "compound-v3": () => new CompoundV3Scanner(),
+  lido: () => new LidoScanner(),
+  polymarket: () => new PolymarketScanner(),
+};
+
+/** Yield sources for the yield finder, keyed by config name */
+export const BUILTIN_YIELD_SOURCES: Record<string, () => YieldSource> = {
+  "aave-v3": () => new AaveYieldSource(),
+  "compound-v3": () => new CompoundV3YieldSource(),
+  lido: () => new LidoYieldSource(),
+};
+
+/**
+ * Register the built-in plugins, scanners and yield sources, followed by
+ * those from loaded extensions, that the config leaves enabled. Extension
+ * plugins are configured by plugin name and extension scanners and yield
+ * sources by protocolName, alongside the built-ins. Names in the config
+ * that match nothing are rejected so that typos don't silently leave a
+ * component running, as are settings a built-in plugin doesn't read. An extension's storage replaces the configured
+ * state store.
+ */
+export async function registerComponents(
+  registry: Registry,
+  config: AppConfig,
+  extensions: LoadedExtension[] = []
+): Promise<void> {
+  const plugins = withExtensions("plugin", BUILTIN_PLUGINS, extensions, (c) =>
+    (c.plugins ?? []).map((p) => [p.name, () => p])
+  );
+  const scanners = withExtensions("scanner", BUILTIN_SCANNERS, extensions, (c) =>
+    (c.scanners ?? []).map((s) => [s.protocolName, () => s])
+  );
+  const yieldSources = withExtensions(
+    "yield source",
+    BUILTIN_YIELD_SOURCES,
+    extensions,
+    (c) => (c.yieldSources ?? []).map((y) => [y.protocolName, () => y])
+  );
+  const aggregators = withExtensions(
+    "swap aggregator",
+    BUILTIN_AGGREGATORS,
+    extensions,
+    (c) => (c.swapAggregators ?? []).map((a) => [a.name, () => a])
+  );
+
+  const storage = extensions.filter((e) => e.components.storage);
+  if (storage.length > 1) {
+    throw new Error(
+      `Extensions ${storage.map((e) => `"${e.name}"`).join(" and ")} both provide storage; only one may`
+    );
+  }
+  if (storage[0]) registry.useStorage(storage[0].components.storage!);
+
+  assertKnownNames("plugins", config.plugins, plugins);
+  assertReadSettings(config.plugins);
+  assertKnownNames("scanners", config.scanners, scanners);
+  assertKnownNames("yieldSources", config.yieldSources, yieldSources);
+
+  for (const [name, create] of Object.entries(scanners)) {
+    if (config.scanners[name]?.enabled !== false) {
+      registry.registerScanner(create());
+    }
+  }
+  for (const [name, create] of Object.entries(yieldSources)) {
+    if (config.yieldSources[name]?.enabled !== false) {
+      registry.registerYieldSource(create());
+    }
+  }
+  for (const [name, create] of Object.entries(plugins)) {
+    const settings = config.plugins[name] ?? {};
+    if (settings.enabled !== false) {
+      await registry.registerPlugin(create(settings, config, aggregators));
+    }
+  }
+}
+
+/** Add extension components to a built-in table, refusing to shadow names */
+function withExtensions<T>(
+  kind: string,
+  builtins: Record<string, T>,
+  extensions: LoadedExtension[],
+  pick: (components: DefiExtension) => Array<[string, T]>
+): Record<string, T> {
+  const merged = { ...builtins };
+  for (const extension of extensions) {
+    for (const [name, create] of pick(extension.components)) {
+      if (name in merged) {
+        throw new Error(
+          `${kind} "${name}" from extension "${extension.name}" conflicts with an existing ${kind}`
+        );
+      }
+      merged[name] = create;
+    }
+  }
+  return merged;
+}
+
+function assertKnownNames(
+  section: string,
+  configured: Record<string, unknown>,
+  known: Record<string, unknown>
+): void {
+  const unknown = Object.keys(configured).filter((name) => !(name in known));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown ${section} in config: ${unknown.join(", ")}. Known: ${Object.keys(known).join(", ")}`
+    );
+  }
+}
+
+function assertReadSettings(configured: Record<string, PluginSettings>): void {
+  for (const [name, settings] of Object.entries(configured)) {
+    // Extension plugins may read any setting
+    if (!(name in BUILTIN_PLUGINS)) continue;
+    for (const setting of ["apiKey", "defaultChains"] as const) {
+      const readers = PLUGIN_SETTING_READERS[setting];
+      if (settings[setting] !== undefined && !readers.includes(name)) {
+        throw new Error(
+          `plugins.${name}.${setting} has no effect; only ${readers.join(", ")} read ${setting}`
+        );
+      }
+    }
+  }
+}
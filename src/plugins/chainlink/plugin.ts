@@ -1,12 +1,15 @@
 import { z } from "zod";
-import { createPublicClient, http, getAddress, formatUnits } from "viem";
+import { getAddress } from "viem";
 import type {
   DefiPlugin,
   PluginContext,
+  ResourceDefinition,
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema } from "../../tools/schemas.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
+import { Decimal } from "../../core/amount.js";
 
 // Chainlink price feed addresses on Ethereum mainnet
 const PRICE_FEEDS: Record<string, Record<string, { address: string; decimals: number }>> = {
@@ -77,17 +80,30 @@ const SUPPORTED = Object.keys(PRICE_FEEDS);
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class ChainlinkPlugin implements DefiPlugin {
   readonly name = "chainlink";
   readonly description = "Chainlink oracle price feeds: get on-chain prices directly from Chainlink";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["market-data"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
+  getResources(): ResourceDefinition[] {
+    return [
+      {
+        name: "chainlink-price-feeds",
+        uri: "defi://protocols/chainlink/{chainId}",
+        description: "Chainlink price feed addresses and decimals by pair",
+        variables: { chainId: () => Object.keys(PRICE_FEEDS) },
+        read: ({ chainId }) =>
+          PRICE_FEEDS[chainId] && { chainId, feeds: PRICE_FEEDS[chainId] },
+      },
+    ];
+  }
+
   getTools(): ToolDefinition[] {
     return [this.priceFeedTool(), this.allPricesTool()];
   }
@@ -104,7 +120,7 @@ export class ChainlinkPlugin implements DefiPlugin {
         try {
           const { chainId, pair } = input as { chainId: string; pair: string };
           const feeds = PRICE_FEEDS[chainId];
-          if (!feeds) return errorResult(`Chainlink feeds not available on "${chainId}". Supported: ${SUPPORTED.join(", ")}`);
+          if (!feeds) return errorResult(new UnsupportedChainForToolError("Chainlink feeds", chainId, SUPPORTED));
 
           const feed = feeds[pair.toUpperCase()];
           if (!feed) {
@@ -116,8 +132,7 @@ export class ChainlinkPlugin implements DefiPlugin {
           const chain = adapter.getChain(chainId);
           if (!chain) return errorResult(`Chain "${chainId}" not found`);
 
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
 
           const [roundData] = await Promise.all([
             client.readContract({
@@ -128,7 +143,7 @@ export class ChainlinkPlugin implements DefiPlugin {
           ]);
 
           const [roundId, answer, startedAt, updatedAt, answeredInRound] = roundData;
-          const price = Number(formatUnits(answer, feed.decimals));
+          const price = Decimal.fromUnits(answer, feed.decimals);
           const updatedTime = new Date(Number(updatedAt) * 1000).toISOString();
           const staleness = Math.floor(Date.now() / 1000) - Number(updatedAt);
 
@@ -144,7 +159,7 @@ export class ChainlinkPlugin implements DefiPlugin {
             warning: staleness > 3600 ? "Price data may be stale (>1hr since update)" : undefined,
           });
         } catch (e: any) {
-          return errorResult(`Failed to read Chainlink feed: ${e.message}`);
+          return errorResult(e, "Failed to read Chainlink feed");
         }
       },
     };
@@ -161,14 +176,13 @@ export class ChainlinkPlugin implements DefiPlugin {
         try {
           const { chainId } = input as { chainId: string };
           const feeds = PRICE_FEEDS[chainId];
-          if (!feeds) return errorResult(`Chainlink feeds not available on "${chainId}". Supported: ${SUPPORTED.join(", ")}`);
+          if (!feeds) return errorResult(new UnsupportedChainForToolError("Chainlink feeds", chainId, SUPPORTED));
 
           const adapter = context.getChainAdapterForChain(chainId);
           const chain = adapter.getChain(chainId);
           if (!chain) return errorResult(`Chain "${chainId}" not found`);
 
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
 
           const pairs = Object.entries(feeds);
           const results = await Promise.allSettled(
@@ -181,7 +195,7 @@ export class ChainlinkPlugin implements DefiPlugin {
               const [, answer, , updatedAt] = roundData;
               return {
                 pair,
-                price: `$${Number(formatUnits(answer, feed.decimals)).toFixed(feed.decimals > 4 ? 2 : 6)}`,
+                price: `$${Decimal.fromUnits(answer, feed.decimals).toFixed(feed.decimals > 4 ? 2 : 6)}`,
                 updatedAt: new Date(Number(updatedAt) * 1000).toISOString(),
                 feedAddress: feed.address,
               };
@@ -194,7 +208,7 @@ export class ChainlinkPlugin implements DefiPlugin {
 
           return jsonResult({ chain: chainId, source: "Chainlink Oracles", count: prices.length, prices });
         } catch (e: any) {
-          return errorResult(`Failed to fetch Chainlink prices: ${e.message}`);
+          return errorResult(e, "Failed to fetch Chainlink prices");
         }
       },
     };
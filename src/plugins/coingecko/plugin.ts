@@ -2,23 +2,24 @@ import { z } from "zod";
 import type {
   DefiPlugin,
   PluginContext,
+  ToolCallContext,
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
+import type { HttpClient } from "../../core/http-client.js";
+import { errorResult } from "../../core/errors.js";
+import { apiKeyFor } from "../../core/tool-call.js";
 
 const CG_API = "https://api.coingecko.com/api/v3";
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
-async function cgFetch(path: string, apiKey?: string): Promise<any> {
+async function cgFetch(http: HttpClient, path: string, apiKey?: string): Promise<any> {
   const headers: Record<string, string> = { accept: "application/json" };
   if (apiKey) headers["x-cg-demo-api-key"] = apiKey;
-  const res = await fetch(`${CG_API}${path}`, { headers });
+  const res = await http.fetch(`${CG_API}${path}`, { headers });
   if (!res.ok) throw new Error(`CoinGecko API ${res.status}: ${await res.text()}`);
   return res.json();
 }
@@ -27,11 +28,15 @@ export class CoinGeckoPlugin implements DefiPlugin {
   readonly name = "coingecko";
   readonly description = "CoinGecko market intelligence: trending tokens, global data, categories";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["market-data"],
+  };
 
+  /** Plugin-level key; used before the server's apiKeys.coingecko */
   private apiKey?: string;
 
   async initialize(context: PluginContext): Promise<void> {
-    this.apiKey = context.config.apiKeys.coingecko;
+    this.apiKey = context.config.plugins[this.name]?.apiKey;
   }
 
   getTools(): ToolDefinition[] {
@@ -46,11 +51,12 @@ export class CoinGeckoPlugin implements DefiPlugin {
   private trendingTool(): ToolDefinition {
     return {
       name: "defi_trending_tokens",
+      capabilities: ["read", "external-api"],
       description: "Get the top trending tokens on CoinGecko in the last 24 hours. Shows what the crypto market is most interested in right now.",
       inputSchema: z.object({}),
-      handler: async (): Promise<ToolResult> => {
+      handler: async (_input: unknown, context: ToolCallContext): Promise<ToolResult> => {
         try {
-          const data = await cgFetch("/search/trending", this.apiKey);
+          const data = await cgFetch(context.http, "/search/trending", apiKeyFor(context, "coingecko", this.apiKey));
           const coins = (data.coins || []).map((item: any) => {
             const c = item.item;
             return {
@@ -76,7 +82,7 @@ export class CoinGeckoPlugin implements DefiPlugin {
 
           return jsonResult({ trending: { coins, nfts } });
         } catch (e: any) {
-          return errorResult(`Failed to fetch trending: ${e.message}`);
+          return errorResult(e, "Failed to fetch trending");
         }
       },
     };
@@ -85,11 +91,12 @@ export class CoinGeckoPlugin implements DefiPlugin {
   private globalMarketTool(): ToolDefinition {
     return {
       name: "defi_global_market",
+      capabilities: ["read", "external-api"],
       description: "Get global cryptocurrency market statistics: total market cap, 24h volume, BTC/ETH dominance, active cryptocurrencies count, and market cap changes.",
       inputSchema: z.object({}),
-      handler: async (): Promise<ToolResult> => {
+      handler: async (_input: unknown, context: ToolCallContext): Promise<ToolResult> => {
         try {
-          const data = await cgFetch("/global", this.apiKey);
+          const data = await cgFetch(context.http, "/global", apiKeyFor(context, "coingecko", this.apiKey));
           const g = data.data;
           return jsonResult({
             activeCryptocurrencies: g.active_cryptocurrencies,
@@ -104,7 +111,7 @@ export class CoinGeckoPlugin implements DefiPlugin {
               : undefined,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch global market data: ${e.message}`);
+          return errorResult(e, "Failed to fetch global market data");
         }
       },
     };
@@ -113,14 +120,15 @@ export class CoinGeckoPlugin implements DefiPlugin {
   private categoriesTool(): ToolDefinition {
     return {
       name: "defi_token_categories",
+      capabilities: ["read", "external-api"],
       description: "Get cryptocurrency categories (DeFi, Gaming, AI, Layer-1, etc.) with market cap, volume, and 24h change for each category.",
       inputSchema: z.object({
         limit: z.number().int().min(1).max(50).optional().describe("Number of categories (default 20)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: ToolCallContext): Promise<ToolResult> => {
         try {
           const { limit = 20 } = input as { limit?: number };
-          const data = await cgFetch("/coins/categories?order=market_cap_desc", this.apiKey);
+          const data = await cgFetch(context.http, "/coins/categories?order=market_cap_desc", apiKeyFor(context, "coingecko", this.apiKey));
 
           const categories = (data || []).slice(0, limit).map((c: any) => ({
             name: c.name,
@@ -134,7 +142,7 @@ export class CoinGeckoPlugin implements DefiPlugin {
 
           return jsonResult({ categoryCount: categories.length, categories });
         } catch (e: any) {
-          return errorResult(`Failed to fetch categories: ${e.message}`);
+          return errorResult(e, "Failed to fetch categories");
         }
       },
     };
@@ -143,18 +151,19 @@ export class CoinGeckoPlugin implements DefiPlugin {
   private topTokensTool(): ToolDefinition {
     return {
       name: "defi_top_tokens",
+      capabilities: ["read", "external-api"],
       description: "Get top cryptocurrencies by market cap with price, volume, and 24h/7d change. Useful for market overview and portfolio analysis.",
       inputSchema: z.object({
         limit: z.number().int().min(1).max(100).optional().describe("Number of tokens (default 25)"),
         category: z.string().optional().describe('Filter by category ID (e.g. "decentralized-finance-defi", "layer-1", "artificial-intelligence")'),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: ToolCallContext): Promise<ToolResult> => {
         try {
           const { limit = 25, category } = input as { limit?: number; category?: string };
           let path = `/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=${limit}&sparkline=false`;
           if (category) path += `&category=${encodeURIComponent(category)}`;
 
-          const data = await cgFetch(path, this.apiKey);
+          const data = await cgFetch(context.http, path, apiKeyFor(context, "coingecko", this.apiKey));
 
           const tokens = (data || []).map((c: any) => ({
             rank: c.market_cap_rank,
@@ -170,7 +179,7 @@ export class CoinGeckoPlugin implements DefiPlugin {
 
           return jsonResult({ count: tokens.length, tokens });
         } catch (e: any) {
-          return errorResult(`Failed to fetch top tokens: ${e.message}`);
+          return errorResult(e, "Failed to fetch top tokens");
         }
       },
     };
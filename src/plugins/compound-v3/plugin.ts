@@ -1,20 +1,19 @@
 import { z } from "zod";
 import {
-  createPublicClient,
-  http,
   getAddress,
   encodeFunctionData,
-  formatUnits,
   maxUint256,
 } from "viem";
 import type {
   DefiPlugin,
   PluginContext,
+  ResourceDefinition,
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema, AmountSchema } from "../../tools/schemas.js";
 import { parseTokenAmount } from "../../core/utils.js";
+import { Decimal } from "../../core/amount.js";
 import {
   COMPOUND_V3_MARKETS,
   getSupportedCompoundV3Chains,
@@ -28,9 +27,25 @@ export class CompoundV3Plugin implements DefiPlugin {
   readonly description =
     "Compound V3 lending: markets, positions, supply and withdraw";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["lending"],
+  };
 
   async initialize(_context: PluginContext): Promise<void> {}
 
+  getResources(): ResourceDefinition[] {
+    return [
+      {
+        name: "compound-v3-addresses",
+        uri: "defi://protocols/compound-v3/{chainId}",
+        description: "Compound V3 Comet market address and base token",
+        variables: { chainId: getSupportedCompoundV3Chains },
+        read: ({ chainId }) =>
+          COMPOUND_V3_MARKETS[chainId] && { chainId, ...COMPOUND_V3_MARKETS[chainId] },
+      },
+    ];
+  }
+
   getTools(): ToolDefinition[] {
     return [
       this.marketsTool(),
@@ -53,8 +68,7 @@ export class CompoundV3Plugin implements DefiPlugin {
               if (!market) return null;
               const chain = context.getChainAdapterForChain(chainId).getChain(chainId);
               if (!chain) return null;
-              const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-              const client = createPublicClient({ transport: http(rpcUrl) });
+              const client = context.getEvmClient(chainId);
 
               try {
                 const [utilization, totalSupply, totalBorrow] = await Promise.all([
@@ -74,8 +88,8 @@ export class CompoundV3Plugin implements DefiPlugin {
                   comet: market.comet,
                   supplyApy: `${rateToApr(supplyRate).toFixed(2)}%`,
                   borrowApy: `${rateToApr(borrowRate).toFixed(2)}%`,
-                  totalSupply: `${Number(formatUnits(totalSupply, market.baseTokenDecimals)).toFixed(0)} ${market.baseToken}`,
-                  totalBorrow: `${Number(formatUnits(totalBorrow, market.baseTokenDecimals)).toFixed(0)} ${market.baseToken}`,
+                  totalSupply: `${Decimal.fromUnits(totalSupply, market.baseTokenDecimals).toFixed(0)} ${market.baseToken}`,
+                  totalBorrow: `${Decimal.fromUnits(totalBorrow, market.baseTokenDecimals).toFixed(0)} ${market.baseToken}`,
                   utilization: `${(Number(utilization) / 1e18 * 100).toFixed(1)}%`,
                 };
               } catch { return null; }
@@ -109,8 +123,7 @@ export class CompoundV3Plugin implements DefiPlugin {
         const chain = context.getChainAdapterForChain(chainId).getChain(chainId);
         if (!chain) return { content: [{ type: "text", text: `Chain "${chainId}" not found` }], isError: true };
 
-        const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-        const client = createPublicClient({ transport: http(rpcUrl) });
+        const client = context.getEvmClient(chainId);
         const user = getAddress(userAddress);
 
         try {
@@ -132,8 +145,8 @@ export class CompoundV3Plugin implements DefiPlugin {
                 protocol: "Compound V3",
                 user: userAddress,
                 baseToken: market.baseToken,
-                supplyBalance: `${Number(formatUnits(supplyBal, market.baseTokenDecimals)).toFixed(6)} ${market.baseToken}`,
-                borrowBalance: `${Number(formatUnits(borrowBal, market.baseTokenDecimals)).toFixed(6)} ${market.baseToken}`,
+                supplyBalance: `${Decimal.fromUnits(supplyBal, market.baseTokenDecimals).toFixed(6)} ${market.baseToken}`,
+                borrowBalance: `${Decimal.fromUnits(borrowBal, market.baseTokenDecimals).toFixed(6)} ${market.baseToken}`,
                 supplyApy: `${rateToApr(supplyRate).toFixed(2)}%`,
                 borrowApy: `${rateToApr(borrowRate).toFixed(2)}%`,
               }, null, 2),
@@ -149,6 +162,7 @@ export class CompoundV3Plugin implements DefiPlugin {
   private supplyTxTool(): ToolDefinition {
     return {
       name: "defi_compound_supply_tx",
+      capabilities: ["builds-tx"],
       description: `Build an unsigned transaction to supply the base asset into Compound V3. The base asset must be approved for the Comet contract first (use defi_token_approve). Supported chains: ${SUPPORTED.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
@@ -174,6 +188,7 @@ export class CompoundV3Plugin implements DefiPlugin {
   private withdrawTxTool(): ToolDefinition {
     return {
       name: "defi_compound_withdraw_tx",
+      capabilities: ["builds-tx"],
       description: `Build an unsigned transaction to withdraw the base asset from Compound V3. Use amount "max" to withdraw entire balance. Supported chains: ${SUPPORTED.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
@@ -250,6 +265,13 @@ export class CompoundV3Plugin implements DefiPlugin {
                 from: user,
               },
               description,
+              // A supply spends the base token; a max supply's amount isn't known here
+              outflows:
+                action === "withdraw"
+                  ? []
+                  : isMax
+                    ? undefined
+                    : [{ token: market.baseTokenAddress, amount: rawAmount.toString() }],
               note:
                 action === "supply"
                   ? `Make sure ${market.baseToken} is approved for ${market.comet} first (use defi_token_approve with tokenAddress=${market.baseTokenAddress} and spender=${market.comet})`
@@ -1,7 +1,5 @@
 import { z } from "zod";
 import {
-  createPublicClient,
-  http,
   decodeFunctionResult,
   encodeFunctionData,
   parseAbi,
@@ -16,19 +14,21 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema } from "../../tools/schemas.js";
+import { getEvmChainIds } from "../../chains/registry.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class ContractReaderPlugin implements DefiPlugin {
   readonly name = "contract-reader";
   readonly description =
     "Generic smart contract reader: call any view/pure function on any contract";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["infrastructure"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -70,11 +70,12 @@ export class ContractReaderPlugin implements DefiPlugin {
           const adapter = context.getChainAdapterForChain(chainId);
           const chain = adapter.getChain(chainId);
           if (!chain || chain.ecosystem !== "evm") {
-            return errorResult("Contract reads only supported on EVM chains");
+            return errorResult(
+              new UnsupportedChainForToolError("Contract reads", chainId, getEvmChainIds())
+            );
           }
 
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
 
           const abi = parseAbi([functionSignature]);
           const fnName = functionSignature
@@ -109,7 +110,7 @@ export class ContractReaderPlugin implements DefiPlugin {
             result: formatted,
           });
         } catch (e: any) {
-          return errorResult(`Contract read failed: ${e.message}`);
+          return errorResult(e, "Contract read failed");
         }
       },
     };
@@ -153,11 +154,12 @@ export class ContractReaderPlugin implements DefiPlugin {
           const adapter = context.getChainAdapterForChain(chainId);
           const chain = adapter.getChain(chainId);
           if (!chain || chain.ecosystem !== "evm") {
-            return errorResult("Multicall only supported on EVM chains");
+            return errorResult(
+              new UnsupportedChainForToolError("Multicall", chainId, getEvmChainIds())
+            );
           }
 
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
 
           const multicallContracts = calls.map((call) => {
             const abi = parseAbi([call.functionSignature]);
@@ -197,7 +199,7 @@ export class ContractReaderPlugin implements DefiPlugin {
 
           return jsonResult({ chain: chainId, callCount: calls.length, results: formatted });
         } catch (e: any) {
-          return errorResult(`Multicall failed: ${e.message}`);
+          return errorResult(e, "Multicall failed");
         }
       },
     };
@@ -225,11 +227,12 @@ export class ContractReaderPlugin implements DefiPlugin {
           const adapter = context.getChainAdapterForChain(chainId);
           const chain = adapter.getChain(chainId);
           if (!chain || chain.ecosystem !== "evm") {
-            return errorResult("Only supported on EVM chains");
+            return errorResult(
+              new UnsupportedChainForToolError("This tool", chainId, getEvmChainIds())
+            );
           }
 
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
 
           const addr = getAddress(address);
           const [code, balance, nonce] = await Promise.all([
@@ -249,7 +252,7 @@ export class ContractReaderPlugin implements DefiPlugin {
             nonce,
           });
         } catch (e: any) {
-          return errorResult(`Failed to get contract info: ${e.message}`);
+          return errorResult(e, "Failed to get contract info");
         }
       },
     };
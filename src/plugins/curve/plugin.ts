@@ -6,6 +6,7 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema } from "../../tools/schemas.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
 
 const CURVE_API = "https://api.curve.fi/v1";
 
@@ -21,14 +22,14 @@ const CHAIN_MAP: Record<string, string> = {
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class CurvePlugin implements DefiPlugin {
   readonly name = "curve";
   readonly description = "Curve Finance: pool data, APYs, and liquidity across chains";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["market-data"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -39,18 +40,19 @@ export class CurvePlugin implements DefiPlugin {
   private poolsTool(): ToolDefinition {
     return {
       name: "defi_curve_pools",
+      capabilities: ["read", "external-api"],
       description: `List Curve pools with APY, TVL, volume, and token composition. Supported chains: ${Object.keys(CHAIN_MAP).join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
         limit: z.number().int().min(1).max(50).optional().describe("Number of results (default 20)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, limit = 20 } = input as { chainId: string; limit?: number };
           const chain = CHAIN_MAP[chainId];
-          if (!chain) return errorResult(`Curve not available on "${chainId}". Supported: ${Object.keys(CHAIN_MAP).join(", ")}`);
+          if (!chain) return errorResult(new UnsupportedChainForToolError("Curve", chainId, Object.keys(CHAIN_MAP)));
 
-          const res = await fetch(`${CURVE_API}/getPools/all/${chain}`);
+          const res = await context.http.fetch(`${CURVE_API}/getPools/all/${chain}`);
           if (!res.ok) throw new Error(`Curve API ${res.status}`);
           const data = await res.json();
 
@@ -73,7 +75,7 @@ export class CurvePlugin implements DefiPlugin {
 
           return jsonResult({ chain: chainId, count: pools.length, pools });
         } catch (e: any) {
-          return errorResult(`Failed to fetch Curve pools: ${e.message}`);
+          return errorResult(e, "Failed to fetch Curve pools");
         }
       },
     };
@@ -82,18 +84,19 @@ export class CurvePlugin implements DefiPlugin {
   private poolInfoTool(): ToolDefinition {
     return {
       name: "defi_curve_pool_info",
+      capabilities: ["read", "external-api"],
       description: "Get detailed info for a specific Curve pool including tokens, balances, fees, and APY breakdown.",
       inputSchema: z.object({
         chainId: ChainIdSchema,
         poolAddress: z.string().describe("Curve pool contract address"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, poolAddress } = input as { chainId: string; poolAddress: string };
           const chain = CHAIN_MAP[chainId];
-          if (!chain) return errorResult(`Curve not available on "${chainId}"`);
+          if (!chain) return errorResult(new UnsupportedChainForToolError("Curve", chainId, Object.keys(CHAIN_MAP)));
 
-          const res = await fetch(`${CURVE_API}/getPools/all/${chain}`);
+          const res = await context.http.fetch(`${CURVE_API}/getPools/all/${chain}`);
           if (!res.ok) throw new Error(`Curve API ${res.status}`);
           const data = await res.json();
 
@@ -125,7 +128,7 @@ export class CurvePlugin implements DefiPlugin {
             gaugeAddress: pool.gaugeAddress,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch pool info: ${e.message}`);
+          return errorResult(e, "Failed to fetch pool info");
         }
       },
     };
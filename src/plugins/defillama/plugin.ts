@@ -5,6 +5,8 @@ import type {
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
+import type { HttpClient } from "../../core/http-client.js";
+import { errorResult } from "../../core/errors.js";
 
 const LLAMA_API = "https://api.llama.fi";
 const COINS_API = "https://coins.llama.fi";
@@ -14,12 +16,9 @@ function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
 
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
-async function fetchJson(url: string): Promise<any> {
-  const res = await fetch(url);
+async function fetchJson(http: HttpClient, url: string): Promise<any> {
+  const res = await http.fetch(url);
   if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
   return res.json();
 }
@@ -28,6 +27,9 @@ export class DefiLlamaPlugin implements DefiPlugin {
   readonly name = "defillama";
   readonly description = "DeFi protocol analytics via DefiLlama: TVL, volumes, fees, stablecoins, prices";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["market-data", "analytics"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -47,6 +49,7 @@ export class DefiLlamaPlugin implements DefiPlugin {
   private protocolsTool(): ToolDefinition {
     return {
       name: "defi_protocols",
+      capabilities: ["read", "external-api"],
       description:
         "List top DeFi protocols ranked by TVL. Filter by category or chain. Returns name, TVL, chain breakdown, 24h/7d changes.",
       inputSchema: z.object({
@@ -60,12 +63,12 @@ export class DefiLlamaPlugin implements DefiPlugin {
           .describe('Filter by chain (e.g. "Ethereum", "Arbitrum", "Solana")'),
         limit: z.number().int().min(1).max(100).optional().describe("Number of results (default 25)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { category, chain, limit = 25 } = input as {
             category?: string; chain?: string; limit?: number;
           };
-          const data = await fetchJson(`${LLAMA_API}/protocols`);
+          const data = await fetchJson(context.http, `${LLAMA_API}/protocols`);
 
           let protocols = data as any[];
 
@@ -97,7 +100,7 @@ export class DefiLlamaPlugin implements DefiPlugin {
 
           return jsonResult({ count: result.length, protocols: result });
         } catch (e: any) {
-          return errorResult(`Failed to fetch protocols: ${e.message}`);
+          return errorResult(e, "Failed to fetch protocols");
         }
       },
     };
@@ -106,15 +109,16 @@ export class DefiLlamaPlugin implements DefiPlugin {
   private protocolTvlTool(): ToolDefinition {
     return {
       name: "defi_protocol_tvl",
+      capabilities: ["read", "external-api"],
       description:
         "Get detailed TVL breakdown for a specific protocol including per-chain TVL, token breakdown, and recent changes.",
       inputSchema: z.object({
         protocol: z.string().describe('Protocol slug (e.g. "aave", "lido", "uniswap")'),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { protocol } = input as { protocol: string };
-          const data = await fetchJson(`${LLAMA_API}/protocol/${protocol}`);
+          const data = await fetchJson(context.http, `${LLAMA_API}/protocol/${protocol}`);
 
           const result = {
             name: data.name,
@@ -136,7 +140,7 @@ export class DefiLlamaPlugin implements DefiPlugin {
 
           return jsonResult(result);
         } catch (e: any) {
-          return errorResult(`Failed to fetch protocol: ${e.message}`);
+          return errorResult(e, "Failed to fetch protocol");
         }
       },
     };
@@ -145,11 +149,12 @@ export class DefiLlamaPlugin implements DefiPlugin {
   private chainTvlTool(): ToolDefinition {
     return {
       name: "defi_chain_tvl",
+      capabilities: ["read", "external-api"],
       description: "Get TVL ranking of all blockchain networks. Shows current TVL and protocol count per chain.",
       inputSchema: z.object({}),
-      handler: async (): Promise<ToolResult> => {
+      handler: async (_input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
-          const data = await fetchJson(`${LLAMA_API}/v2/chains`);
+          const data = await fetchJson(context.http, `${LLAMA_API}/v2/chains`);
 
           const chains = (data as any[])
             .sort((a, b) => (b.tvl || 0) - (a.tvl || 0))
@@ -162,7 +167,7 @@ export class DefiLlamaPlugin implements DefiPlugin {
 
           return jsonResult({ count: chains.length, chains });
         } catch (e: any) {
-          return errorResult(`Failed to fetch chain TVL: ${e.message}`);
+          return errorResult(e, "Failed to fetch chain TVL");
         }
       },
     };
@@ -171,15 +176,16 @@ export class DefiLlamaPlugin implements DefiPlugin {
   private stablecoinsTool(): ToolDefinition {
     return {
       name: "defi_stablecoins",
+      capabilities: ["read", "external-api"],
       description:
         "List stablecoins with circulating supply, peg type, market cap, and chain distribution.",
       inputSchema: z.object({
         limit: z.number().int().min(1).max(50).optional().describe("Number of results (default 20)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { limit = 20 } = input as { limit?: number };
-          const data = await fetchJson(
+          const data = await fetchJson(context.http, 
             `${STABLECOINS_API}/stablecoins?includePrices=true`
           );
 
@@ -201,7 +207,7 @@ export class DefiLlamaPlugin implements DefiPlugin {
 
           return jsonResult({ count: stables.length, stablecoins: stables });
         } catch (e: any) {
-          return errorResult(`Failed to fetch stablecoins: ${e.message}`);
+          return errorResult(e, "Failed to fetch stablecoins");
         }
       },
     };
@@ -210,6 +216,7 @@ export class DefiLlamaPlugin implements DefiPlugin {
   private dexVolumeTool(): ToolDefinition {
     return {
       name: "defi_dex_volume",
+      capabilities: ["read", "external-api"],
       description:
         "Get DEX trading volumes across protocols and chains. Shows 24h volume, changes, and top DEXes.",
       inputSchema: z.object({
@@ -218,13 +225,13 @@ export class DefiLlamaPlugin implements DefiPlugin {
           .optional()
           .describe('Filter by chain (e.g. "Ethereum", "Solana"). Omit for all chains.'),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chain } = input as { chain?: string };
           const url = chain
             ? `${LLAMA_API}/overview/dexs/${chain}?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true`
             : `${LLAMA_API}/overview/dexs?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true`;
-          const data = await fetchJson(url);
+          const data = await fetchJson(context.http, url);
 
           const protocols = (data.protocols as any[] || [])
             .filter((p) => p.total24h > 0)
@@ -244,7 +251,7 @@ export class DefiLlamaPlugin implements DefiPlugin {
             topDexes: protocols,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch DEX volumes: ${e.message}`);
+          return errorResult(e, "Failed to fetch DEX volumes");
         }
       },
     };
@@ -253,18 +260,19 @@ export class DefiLlamaPlugin implements DefiPlugin {
   private protocolFeesTool(): ToolDefinition {
     return {
       name: "defi_protocol_fees",
+      capabilities: ["read", "external-api"],
       description:
         "Get protocol fees and revenue data across DeFi. Shows daily fees, revenue, and top earning protocols.",
       inputSchema: z.object({
         chain: z.string().optional().describe("Filter by chain. Omit for all."),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chain } = input as { chain?: string };
           const url = chain
             ? `${LLAMA_API}/overview/fees/${chain}?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true`
             : `${LLAMA_API}/overview/fees?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true`;
-          const data = await fetchJson(url);
+          const data = await fetchJson(context.http, url);
 
           const protocols = (data.protocols as any[] || [])
             .filter((p) => p.total24h > 0)
@@ -284,7 +292,7 @@ export class DefiLlamaPlugin implements DefiPlugin {
             topProtocols: protocols,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch fees: ${e.message}`);
+          return errorResult(e, "Failed to fetch fees");
         }
       },
     };
@@ -293,6 +301,7 @@ export class DefiLlamaPlugin implements DefiPlugin {
   private priceChartTool(): ToolDefinition {
     return {
       name: "defi_price_chart",
+      capabilities: ["read", "external-api"],
       description:
         'Get historical price chart data for a token. Uses DefiLlama coins API. Token format: "coingecko:ethereum" or "ethereum:0xAddress".',
       inputSchema: z.object({
@@ -303,7 +312,7 @@ export class DefiLlamaPlugin implements DefiPlugin {
           ),
         period: z.string().optional().describe('Time period: "1d", "7d", "30d", "90d", "1y" (default "30d")'),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { coin, period = "30d" } = input as {
             coin: string; period?: string;
@@ -319,7 +328,7 @@ export class DefiLlamaPlugin implements DefiPlugin {
 
           const p = periodMap[period] || periodMap["30d"];
           const url = `${COINS_API}/chart/${encodeURIComponent(coin)}?span=${p.span}&period=${p.period}`;
-          const data = await fetchJson(url);
+          const data = await fetchJson(context.http, url);
 
           const coins = data.coins?.[coin];
           if (!coins) return errorResult(`No price data found for "${coin}"`);
@@ -338,7 +347,7 @@ export class DefiLlamaPlugin implements DefiPlugin {
             prices,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch price chart: ${e.message}`);
+          return errorResult(e, "Failed to fetch price chart");
         }
       },
     };
@@ -347,6 +356,7 @@ export class DefiLlamaPlugin implements DefiPlugin {
   private historicalPriceTool(): ToolDefinition {
     return {
       name: "defi_historical_price",
+      capabilities: ["read", "external-api"],
       description:
         'Get the price of a token at a specific point in time. Token format: "coingecko:id" or "chainName:0xAddress".',
       inputSchema: z.object({
@@ -357,13 +367,13 @@ export class DefiLlamaPlugin implements DefiPlugin {
           .number()
           .describe("Unix timestamp (seconds) for the price lookup"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { coin, timestamp } = input as {
             coin: string; timestamp: number;
           };
           const url = `${COINS_API}/prices/historical/${timestamp}/${encodeURIComponent(coin)}`;
-          const data = await fetchJson(url);
+          const data = await fetchJson(context.http, url);
 
           const info = data.coins?.[coin];
           if (!info) return errorResult(`No price data found for "${coin}" at timestamp ${timestamp}`);
@@ -377,7 +387,7 @@ export class DefiLlamaPlugin implements DefiPlugin {
             confidence: info.confidence,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch historical price: ${e.message}`);
+          return errorResult(e, "Failed to fetch historical price");
         }
       },
     };
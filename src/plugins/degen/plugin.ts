@@ -2,16 +2,28 @@ import { z } from "zod";
 import type {
   DefiPlugin,
   PluginContext,
+  ToolCallContext,
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema } from "../../tools/schemas.js";
+import { getEvmChainId, getEvmChainIds } from "../../chains/registry.js";
+import { fanOut } from "../../core/tool-call.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
+import { Decimal } from "../../core/amount.js";
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
+
+/** A quote's output amount; zero when missing or malformed */
+function amountOutOf(quote: { amountOut?: unknown }): Decimal {
+  return Decimal.tryFrom(quote.amountOut) ?? Decimal.ZERO;
+}
+
+/** (to - from) / from as a percentage */
+function percentChange(from: Decimal, to: Decimal): number {
+  return to.minus(from).times(100).div(from, 8, "half-even").toNumber();
 }
 
 export class DegenPlugin implements DefiPlugin {
@@ -19,6 +31,9 @@ export class DegenPlugin implements DefiPlugin {
   readonly description =
     "Degen tools: arbitrage detection, whale tracking, new token sniping, copy trading, LP lock checks";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["trading", "market-data"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -37,6 +52,7 @@ export class DegenPlugin implements DefiPlugin {
   private arbFinderTool(): ToolDefinition {
     return {
       name: "defi_arb_finder",
+      capabilities: ["read", "external-api"],
       description:
         "Find arbitrage opportunities for a token across DEXes. Compares prices on different DEXes/pools to identify profitable trades. Shows price difference, estimated profit, and the route.",
       inputSchema: z.object({
@@ -47,7 +63,7 @@ export class DegenPlugin implements DefiPlugin {
           "Specific chain to check (omit for cross-chain arb)"
         ),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { tokenAddress, chainId } = input as {
             tokenAddress: string;
@@ -55,15 +71,15 @@ export class DegenPlugin implements DefiPlugin {
           };
 
           // Get all pairs for this token from DexScreener
-          const res = await fetch(
+          const res = await context.http.fetch(
             `https://api.dexscreener.com/latest/dex/tokens/${tokenAddress}`
           );
           if (!res.ok) throw new Error(`DexScreener ${res.status}`);
           const data = await res.json();
 
-          let pairs = (data.pairs || []).filter(
-            (p: any) => p.priceUsd && parseFloat(p.priceUsd) > 0
-          );
+          let pairs = (data.pairs || [])
+            .map((p: any) => ({ ...p, price: Decimal.tryFrom(p.priceUsd) }))
+            .filter((p: any) => p.price?.gt(0));
 
           if (chainId) {
             pairs = pairs.filter((p: any) => p.chainId === chainId);
@@ -78,24 +94,19 @@ export class DegenPlugin implements DefiPlugin {
           }
 
           // Sort by price
-          pairs.sort(
-            (a: any, b: any) =>
-              parseFloat(a.priceUsd) - parseFloat(b.priceUsd)
-          );
+          pairs.sort((a: any, b: any) => a.price.cmp(b.price));
 
           const cheapest = pairs[0];
           const mostExpensive = pairs[pairs.length - 1];
-          const cheapPrice = parseFloat(cheapest.priceUsd);
-          const expPrice = parseFloat(mostExpensive.priceUsd);
-          const spread = ((expPrice - cheapPrice) / cheapPrice) * 100;
+          const spread = percentChange(cheapest.price, mostExpensive.price);
 
           // Find all meaningful spreads
           const opportunities = [];
           for (let i = 0; i < Math.min(pairs.length, 10); i++) {
             for (let j = i + 1; j < Math.min(pairs.length, 10); j++) {
-              const buyPrice = parseFloat(pairs[i].priceUsd);
-              const sellPrice = parseFloat(pairs[j].priceUsd);
-              const pSpread = ((sellPrice - buyPrice) / buyPrice) * 100;
+              const buyPrice: Decimal = pairs[i].price;
+              const sellPrice: Decimal = pairs[j].price;
+              const pSpread = percentChange(buyPrice, sellPrice);
               if (pSpread > 0.5) {
                 opportunities.push({
                   buy: {
@@ -116,6 +127,7 @@ export class DegenPlugin implements DefiPlugin {
                       ? `$${Number(pairs[j].liquidity.usd).toFixed(0)}`
                       : "unknown",
                   },
+                  spread: pSpread,
                   spreadPercent: `${pSpread.toFixed(2)}%`,
                   profitPer1000: `$${(10 * pSpread).toFixed(2)}`,
                   crossChain:
@@ -125,24 +137,23 @@ export class DegenPlugin implements DefiPlugin {
             }
           }
 
-          opportunities.sort(
-            (a, b) =>
-              parseFloat(b.spreadPercent) - parseFloat(a.spreadPercent)
-          );
+          opportunities.sort((a, b) => b.spread - a.spread);
 
           return jsonResult({
             token: tokenAddress,
             symbol: cheapest.baseToken?.symbol,
             pairsAnalyzed: pairs.length,
             maxSpread: `${spread.toFixed(2)}%`,
-            opportunities: opportunities.slice(0, 10),
+            opportunities: opportunities
+              .slice(0, 10)
+              .map(({ spread: _spread, ...opportunity }) => opportunity),
             note:
               opportunities.length > 0
                 ? "Spreads above 1% may be profitable after gas. Cross-chain arbs need bridge costs factored in."
                 : "No significant arbitrage opportunities found.",
           });
         } catch (e: any) {
-          return errorResult(`Arb finder failed: ${e.message}`);
+          return errorResult(e, "Arb finder failed");
         }
       },
     };
@@ -174,13 +185,14 @@ export class DegenPlugin implements DefiPlugin {
           const adapter = context.getChainAdapterForChain(chainId);
           const chain = adapter.getChain(chainId);
           if (!chain || chain.ecosystem !== "evm") {
-            return errorResult("Whale watch only supported on EVM chains");
+            return errorResult(
+              new UnsupportedChainForToolError("Whale watch", chainId, getEvmChainIds())
+            );
           }
 
-          const { createPublicClient, http, getAddress, formatEther } =
+          const { getAddress, formatEther } =
             await import("viem");
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
 
           // Get recent transactions via block scanning
           const addr = getAddress(walletAddress);
@@ -263,7 +275,7 @@ export class DegenPlugin implements DefiPlugin {
             tip: "Use defi_get_balances to see current token holdings. Cross-reference token addresses with defi_dex_search to identify what they're trading.",
           });
         } catch (e: any) {
-          return errorResult(`Whale watch failed: ${e.message}`);
+          return errorResult(e, "Whale watch failed");
         }
       },
     };
@@ -272,6 +284,7 @@ export class DegenPlugin implements DefiPlugin {
   private newPairsTool(): ToolDefinition {
     return {
       name: "defi_new_pairs",
+      capabilities: ["read", "external-api"],
       description:
         "Find newly created DEX trading pairs. Shows recently launched tokens with initial liquidity, price, and volume. Essential for finding early entry opportunities (and avoiding rugs).",
       inputSchema: z.object({
@@ -286,7 +299,7 @@ export class DegenPlugin implements DefiPlugin {
           .optional()
           .describe("Minimum liquidity in USD (default: 10000)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, minLiquidity = 10000 } = input as {
             chainId?: string;
@@ -300,11 +313,11 @@ export class DegenPlugin implements DefiPlugin {
 
           // Use the token boosts for trending new tokens
           const [boostsRes, pairsRes] = await Promise.allSettled([
-            fetch("https://api.dexscreener.com/token-boosts/latest/v1").then(
+            context.http.fetch("https://api.dexscreener.com/token-boosts/latest/v1").then(
               (r) => r.json()
             ),
             chainId
-              ? fetch(
+              ? context.http.fetch(
                   `https://api.dexscreener.com/latest/dex/pairs/${chainId}`
                 ).then((r) => r.json())
               : Promise.resolve(null),
@@ -318,7 +331,7 @@ export class DegenPlugin implements DefiPlugin {
               if (chainId && t.chainId !== chainId) continue;
               // Get pair data for this token
               try {
-                const pairRes = await fetch(
+                const pairRes = await context.http.fetch(
                   `https://api.dexscreener.com/latest/dex/tokens/${t.tokenAddress}`
                 );
                 if (pairRes.ok) {
@@ -376,7 +389,7 @@ export class DegenPlugin implements DefiPlugin {
               "New tokens are extremely high risk. ALWAYS run defi_pre_trade_check before buying. Most new tokens are scams.",
           });
         } catch (e: any) {
-          return errorResult(`New pairs search failed: ${e.message}`);
+          return errorResult(e, "New pairs search failed");
         }
       },
     };
@@ -428,7 +441,7 @@ export class DegenPlugin implements DefiPlugin {
 
           return jsonResult(result);
         } catch (e: any) {
-          return errorResult(`Copy trade lookup failed: ${e.message}`);
+          return errorResult(e, "Copy trade lookup failed");
         }
       },
     };
@@ -437,13 +450,14 @@ export class DegenPlugin implements DefiPlugin {
   private lpLockCheckTool(): ToolDefinition {
     return {
       name: "defi_lp_lock_check",
+      capabilities: ["read", "external-api"],
       description:
         "Check if a token's liquidity pool has locked LP tokens. Unlocked LP means the deployer can rug pull by removing liquidity. Critical safety check for new tokens.",
       inputSchema: z.object({
         chainId: ChainIdSchema,
         tokenAddress: AddressSchema.describe("Token to check LP lock for"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, tokenAddress } = input as {
             chainId: string;
@@ -451,7 +465,7 @@ export class DegenPlugin implements DefiPlugin {
           };
 
           // Get pair data from DexScreener
-          const res = await fetch(
+          const res = await context.http.fetch(
             `https://api.dexscreener.com/latest/dex/tokens/${tokenAddress}`
           );
           if (!res.ok) throw new Error(`DexScreener ${res.status}`);
@@ -534,7 +548,7 @@ export class DegenPlugin implements DefiPlugin {
             url: topPair.url,
           });
         } catch (e: any) {
-          return errorResult(`LP lock check failed: ${e.message}`);
+          return errorResult(e, "LP lock check failed");
         }
       },
     };
@@ -543,6 +557,7 @@ export class DegenPlugin implements DefiPlugin {
   private multiQuoteTool(): ToolDefinition {
     return {
       name: "defi_multi_quote",
+      capabilities: ["read", "external-api"],
       description:
         "Get swap quotes from ALL available DEX aggregators simultaneously and compare them. Shows which aggregator gives the best price, lowest gas, and best execution. Use this instead of defi_swap_quote when you want the absolute best deal.",
       inputSchema: z.object({
@@ -553,7 +568,7 @@ export class DegenPlugin implements DefiPlugin {
       }),
       handler: async (
         input: unknown,
-        context: PluginContext
+        context: ToolCallContext
       ): Promise<ToolResult> => {
         try {
           const { chainId, srcToken, dstToken, amount } = input as {
@@ -565,10 +580,10 @@ export class DegenPlugin implements DefiPlugin {
 
           // Get the swap plugin's aggregators by attempting quotes from each
           const aggregators = [
-            { name: "Li.Fi", fn: () => this.tryQuote("lifi", chainId, srcToken, dstToken, amount) },
-            { name: "0x", fn: () => this.tryQuote("0x", chainId, srcToken, dstToken, amount) },
-            { name: "ParaSwap", fn: () => this.tryQuote("paraswap", chainId, srcToken, dstToken, amount) },
-            { name: "1inch", fn: () => this.tryQuote("1inch", chainId, srcToken, dstToken, amount) },
+            { name: "Li.Fi", fn: () => this.tryQuote(context, "lifi", chainId, srcToken, dstToken, amount) },
+            { name: "0x", fn: () => this.tryQuote(context, "0x", chainId, srcToken, dstToken, amount) },
+            { name: "ParaSwap", fn: () => this.tryQuote(context, "paraswap", chainId, srcToken, dstToken, amount) },
+            { name: "1inch", fn: () => this.tryQuote(context, "1inch", chainId, srcToken, dstToken, amount) },
           ];
 
           // Jupiter for Solana
@@ -576,16 +591,18 @@ export class DegenPlugin implements DefiPlugin {
             aggregators.length = 0;
             aggregators.push({
               name: "Jupiter",
-              fn: () => this.tryQuote("jupiter", chainId, srcToken, dstToken, amount),
+              fn: () => this.tryQuote(context, "jupiter", chainId, srcToken, dstToken, amount),
             });
           }
 
+          const track = fanOut(context, aggregators.length);
           const results = await Promise.allSettled(
             aggregators.map(async (agg) => {
-              const quote = await agg.fn();
+              const quote = await track(agg.fn(), agg.name);
               return { aggregator: agg.name, ...quote };
             })
           );
+          context.signal.throwIfAborted();
 
           const quotes = results
             .filter(
@@ -593,11 +610,7 @@ export class DegenPlugin implements DefiPlugin {
                 r.status === "fulfilled" && r.value.success
             )
             .map((r) => r.value)
-            .sort(
-              (a, b) =>
-                parseFloat(b.amountOut || "0") -
-                parseFloat(a.amountOut || "0")
-            );
+            .sort((a, b) => amountOutOf(b).cmp(amountOutOf(a)));
 
           const failed = results
             .filter(
@@ -612,13 +625,8 @@ export class DegenPlugin implements DefiPlugin {
           const best = quotes[0];
           const worst = quotes[quotes.length - 1];
           const savings =
-            best && worst && parseFloat(best.amountOut) > 0
-              ? (
-                  ((parseFloat(best.amountOut) -
-                    parseFloat(worst.amountOut)) /
-                    parseFloat(worst.amountOut)) *
-                  100
-                ).toFixed(2)
+            best && worst && amountOutOf(worst).gt(0)
+              ? percentChange(amountOutOf(worst), amountOutOf(best)).toFixed(2)
               : "0";
 
           return jsonResult({
@@ -634,24 +642,21 @@ export class DegenPlugin implements DefiPlugin {
                 : undefined,
           });
         } catch (e: any) {
-          return errorResult(`Multi-quote failed: ${e.message}`);
+          return errorResult(e, "Multi-quote failed");
         }
       },
     };
   }
 
   private async tryQuote(
+    context: ToolCallContext,
     agg: string,
     chainId: string,
     src: string,
     dst: string,
     amount: string
   ): Promise<any> {
-    const chainMap: Record<string, number> = {
-      ethereum: 1, polygon: 137, arbitrum: 42161, base: 8453,
-      optimism: 10, avalanche: 43114, bsc: 56,
-    };
-    const numericId = chainMap[chainId];
+    const numericId = getEvmChainId(chainId);
 
     try {
       if (agg === "lifi") {
@@ -663,7 +668,9 @@ export class DegenPlugin implements DefiPlugin {
           fromAmount: amount,
           fromAddress: "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045",
         });
-        const res = await fetch(`https://li.quest/v1/quote?${params}`);
+        const res = await context.http.fetch(`https://li.quest/v1/quote?${params}`, {
+          signal: context.signal,
+        });
         if (!res.ok) throw new Error(`${res.status}`);
         const data = await res.json();
         return {
@@ -681,8 +688,14 @@ export class DegenPlugin implements DefiPlugin {
           buyToken: dst,
           sellAmount: amount,
         });
-        const res = await fetch(
-          `https://api.0x.org/swap/permit2/quote?${params}`
+        const res = await context.http.fetch(
+          `https://api.0x.org/swap/permit2/quote?${params}`,
+          {
+            headers: context.apiKeys.zeroX
+              ? { "0x-api-key": context.apiKeys.zeroX }
+              : undefined,
+            signal: context.signal,
+          }
         );
         if (!res.ok) throw new Error(`${res.status}`);
         const data = await res.json();
@@ -702,8 +715,9 @@ export class DegenPlugin implements DefiPlugin {
           network: String(numericId),
           side: "SELL",
         });
-        const res = await fetch(
-          `https://apiv5.paraswap.io/prices?${params}`
+        const res = await context.http.fetch(
+          `https://apiv5.paraswap.io/prices?${params}`,
+          { signal: context.signal }
         );
         if (!res.ok) throw new Error(`${res.status}`);
         const data = await res.json();
@@ -722,9 +736,17 @@ export class DegenPlugin implements DefiPlugin {
           amount,
           includeGas: "true",
         });
-        const res = await fetch(
+        const res = await context.http.fetch(
           `https://api.1inch.dev/swap/v6.0/${numericId}/quote?${params}`,
-          { headers: { accept: "application/json" } }
+          {
+            headers: {
+              accept: "application/json",
+              ...(context.apiKeys.oneInch && {
+                Authorization: `Bearer ${context.apiKeys.oneInch}`,
+              }),
+            },
+            signal: context.signal,
+          }
         );
         if (!res.ok) throw new Error(`${res.status}`);
         const data = await res.json();
@@ -743,8 +765,9 @@ export class DegenPlugin implements DefiPlugin {
           amount,
           slippageBps: "50",
         });
-        const res = await fetch(
-          `https://lite-api.jup.ag/swap/v1/quote?${params}`
+        const res = await context.http.fetch(
+          `https://lite-api.jup.ag/swap/v1/quote?${params}`,
+          { signal: context.signal }
         );
         if (!res.ok) throw new Error(`${res.status}`);
         const data = await res.json();
@@ -764,6 +787,7 @@ export class DegenPlugin implements DefiPlugin {
   private topGainersTool(): ToolDefinition {
     return {
       name: "defi_top_gainers",
+      capabilities: ["read", "external-api"],
       description:
         "Get the top gaining and top losing tokens in the last 24 hours. Shows the biggest movers — what degens are aping into and what's dumping.",
       inputSchema: z.object({
@@ -775,17 +799,17 @@ export class DegenPlugin implements DefiPlugin {
           .optional()
           .describe("Number of results (default 20)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { limit = 20 } = input as { limit?: number };
 
-          const res = await fetch(
+          const res = await context.http.fetch(
             `https://api.coingecko.com/api/v3/coins/markets?vs_currency=usd&order=percent_change_24h_desc&per_page=${limit}&sparkline=false&price_change_percentage=1h,24h,7d`
           );
           if (!res.ok) throw new Error(`CoinGecko ${res.status}`);
           const gainers = await res.json();
 
-          const losersRes = await fetch(
+          const losersRes = await context.http.fetch(
             `https://api.coingecko.com/api/v3/coins/markets?vs_currency=usd&order=percent_change_24h_asc&per_page=${limit}&sparkline=false&price_change_percentage=1h,24h,7d`
           );
           if (!losersRes.ok) throw new Error(`CoinGecko ${losersRes.status}`);
@@ -814,7 +838,7 @@ export class DegenPlugin implements DefiPlugin {
             topLosers: format(losers),
           });
         } catch (e: any) {
-          return errorResult(`Top gainers/losers failed: ${e.message}`);
+          return errorResult(e, "Top gainers/losers failed");
         }
       },
     };
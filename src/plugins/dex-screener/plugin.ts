@@ -5,20 +5,21 @@ import type {
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
+import { errorResult } from "../../core/errors.js";
 
 const DEXSCREENER_API = "https://api.dexscreener.com/latest/dex";
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class DexScreenerPlugin implements DefiPlugin {
   readonly name = "dex-screener";
   readonly description = "DexScreener: real-time DEX pair data, new pairs, and token search";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["market-data"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -33,6 +34,7 @@ export class DexScreenerPlugin implements DefiPlugin {
   private searchPairsTool(): ToolDefinition {
     return {
       name: "defi_dex_search",
+      capabilities: ["read", "external-api"],
       description:
         "Search DEX trading pairs across all chains by token name, symbol, or address. Returns real-time price, volume, liquidity, and price changes from DexScreener.",
       inputSchema: z.object({
@@ -40,10 +42,10 @@ export class DexScreenerPlugin implements DefiPlugin {
           .string()
           .describe("Token name, symbol, or address to search"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { query } = input as { query: string };
-          const res = await fetch(`${DEXSCREENER_API}/search?q=${encodeURIComponent(query)}`);
+          const res = await context.http.fetch(`${DEXSCREENER_API}/search?q=${encodeURIComponent(query)}`);
           if (!res.ok) throw new Error(`DexScreener API ${res.status}`);
           const data = await res.json();
 
@@ -75,7 +77,7 @@ export class DexScreenerPlugin implements DefiPlugin {
 
           return jsonResult({ query, resultCount: pairs.length, pairs });
         } catch (e: any) {
-          return errorResult(`DexScreener search failed: ${e.message}`);
+          return errorResult(e, "DexScreener search failed");
         }
       },
     };
@@ -84,15 +86,16 @@ export class DexScreenerPlugin implements DefiPlugin {
   private tokenPairsTool(): ToolDefinition {
     return {
       name: "defi_dex_token_pairs",
+      capabilities: ["read", "external-api"],
       description:
         "Get all DEX trading pairs for a specific token address. Shows price, volume, liquidity across all DEXes and chains where the token trades.",
       inputSchema: z.object({
         tokenAddress: z.string().describe("Token contract address"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { tokenAddress } = input as { tokenAddress: string };
-          const res = await fetch(`${DEXSCREENER_API}/tokens/${tokenAddress}`);
+          const res = await context.http.fetch(`${DEXSCREENER_API}/tokens/${tokenAddress}`);
           if (!res.ok) throw new Error(`DexScreener API ${res.status}`);
           const data = await res.json();
 
@@ -110,7 +113,7 @@ export class DexScreenerPlugin implements DefiPlugin {
 
           return jsonResult({ token: tokenAddress, pairCount: pairs.length, pairs });
         } catch (e: any) {
-          return errorResult(`Failed to fetch token pairs: ${e.message}`);
+          return errorResult(e, "Failed to fetch token pairs");
         }
       },
     };
@@ -119,12 +122,13 @@ export class DexScreenerPlugin implements DefiPlugin {
   private trendingTool(): ToolDefinition {
     return {
       name: "defi_dex_trending",
+      capabilities: ["read", "external-api"],
       description:
         "Get trending/boosted tokens on DexScreener. Shows the most actively traded new tokens across all DEXes.",
       inputSchema: z.object({}),
-      handler: async (): Promise<ToolResult> => {
+      handler: async (_input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
-          const res = await fetch("https://api.dexscreener.com/token-boosts/latest/v1");
+          const res = await context.http.fetch("https://api.dexscreener.com/token-boosts/latest/v1");
           if (!res.ok) throw new Error(`DexScreener API ${res.status}`);
           const data = await res.json();
 
@@ -139,7 +143,7 @@ export class DexScreenerPlugin implements DefiPlugin {
 
           return jsonResult({ count: tokens.length, trending: tokens });
         } catch (e: any) {
-          return errorResult(`Failed to fetch trending tokens: ${e.message}`);
+          return errorResult(e, "Failed to fetch trending tokens");
         }
       },
     };
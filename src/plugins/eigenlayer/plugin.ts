@@ -6,20 +6,21 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { AddressSchema } from "../../tools/schemas.js";
+import { errorResult } from "../../core/errors.js";
 
 const EIGENLAYER_API = "https://api.eigenexplorer.com";
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class EigenLayerPlugin implements DefiPlugin {
   readonly name = "eigenlayer";
   readonly description = "EigenLayer restaking: operators, AVS, and staker info";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["staking"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -30,16 +31,17 @@ export class EigenLayerPlugin implements DefiPlugin {
   private operatorsTool(): ToolDefinition {
     return {
       name: "defi_eigenlayer_operators",
+      capabilities: ["read", "external-api"],
       description:
         "List top EigenLayer operators by TVL. Shows delegated ETH, number of stakers, and AVS count.",
       inputSchema: z.object({
         limit: z.number().int().min(1).max(50).optional().describe("Number of results (default 20)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { limit = 20 } = input as { limit?: number };
 
-          const res = await fetch(
+          const res = await context.http.fetch(
             `${EIGENLAYER_API}/operators?skip=0&take=${limit}&sortByTvl=desc`
           );
           if (!res.ok) throw new Error(`EigenLayer API ${res.status}`);
@@ -55,7 +57,7 @@ export class EigenLayerPlugin implements DefiPlugin {
 
           return jsonResult({ count: operators.length, operators });
         } catch (e: any) {
-          return errorResult(`Failed to fetch EigenLayer operators: ${e.message}`);
+          return errorResult(e, "Failed to fetch EigenLayer operators");
         }
       },
     };
@@ -64,16 +66,18 @@ export class EigenLayerPlugin implements DefiPlugin {
   private stakerTool(): ToolDefinition {
     return {
       name: "defi_eigenlayer_staker",
+      capabilities: ["read", "external-api"],
       description:
         "Get EigenLayer restaking info for a specific address: delegated operator, restaked amount, withdrawal status.",
+      sessionDefaults: { address: "wallet" },
       inputSchema: z.object({
         address: AddressSchema.describe("Staker wallet address"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { address } = input as { address: string };
 
-          const res = await fetch(`${EIGENLAYER_API}/stakers/${address}`);
+          const res = await context.http.fetch(`${EIGENLAYER_API}/stakers/${address}`);
           if (!res.ok) {
             if (res.status === 404) return jsonResult({ address, restaked: false, message: "No EigenLayer positions found" });
             throw new Error(`EigenLayer API ${res.status}`);
@@ -89,7 +93,7 @@ export class EigenLayerPlugin implements DefiPlugin {
             withdrawals: data.withdrawals,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch staker info: ${e.message}`);
+          return errorResult(e, "Failed to fetch staker info");
         }
       },
     };
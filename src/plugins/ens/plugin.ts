@@ -1,6 +1,4 @@
 import { z } from "zod";
-import { createPublicClient, http } from "viem";
-import { mainnet } from "viem/chains";
 import { normalize } from "viem/ens";
 import type {
   DefiPlugin,
@@ -13,6 +11,9 @@ export class EnsPlugin implements DefiPlugin {
   readonly name = "ens";
   readonly description = "ENS name resolution and reverse lookups";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["wallet"],
+  };
 
   async initialize(_context: PluginContext): Promise<void> {}
 
@@ -35,13 +36,7 @@ export class EnsPlugin implements DefiPlugin {
         ): Promise<ToolResult> => {
           const { nameOrAddress } = input as { nameOrAddress: string };
 
-          const rpcUrl =
-            context.config.rpcUrls["ethereum"] ||
-            "https://eth.llamarpc.com";
-          const client = createPublicClient({
-            chain: mainnet,
-            transport: http(rpcUrl),
-          });
+          const client = context.getEvmClient("ethereum");
 
           if (nameOrAddress.startsWith("0x")) {
             // Reverse resolve: address -> name
@@ -0,0 +1,189 @@
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import semver from "semver";
+import type { AppConfig, DefiPlugin } from "../core/types.js";
+import type { ProtocolScanner } from "../core/scanner-types.js";
+import type { YieldSource } from "../core/yield-types.js";
+import type { StateStore } from "../core/storage-types.js";
+import type { SwapAggregator } from "./swap/aggregators/types.js";
+
+/**
+ * Version of the extension API: DefiPlugin, ProtocolScanner, YieldSource,
+ * SwapAggregator and PluginContext. Bump the major version on any change
+ * that breaks existing extensions.
+ */
+export const PLUGIN_API_VERSION = "1.1.0";
+
+/** Components an extension contributes, all optional */
+export interface DefiExtension {
+  plugins?: DefiPlugin[];
+  scanners?: ProtocolScanner[];
+  yieldSources?: YieldSource[];
+  swapAggregators?: SwapAggregator[];
+  /** Backend for PluginContext.storage in place of the configured one */
+  storage?: StateStore;
+}
+
+/**
+ * An extension module's default export: the components themselves, or a
+ * function building them from the server config.
+ */
+export type DefiExtensionExport =
+  | DefiExtension
+  | ((config: AppConfig) => DefiExtension | Promise<DefiExtension>);
+
+/** The `defiMcp` field of an extension's package.json */
+export interface ExtensionManifest {
+  /** semver range of PLUGIN_API_VERSION the extension works with, e.g. "^1.0.0" */
+  apiVersion: string;
+  /** Module to import, relative to the package. Defaults to `main`, then index.js */
+  entry?: string;
+}
+
+export interface LoadedExtension {
+  /** Package name and version from package.json */
+  name: string;
+  version: string;
+  /** Directory the extension was loaded from */
+  path: string;
+  components: DefiExtension;
+}
+
+/**
+ * Load every configured extension, in order. Each entry is an npm package
+ * name, looked up in node_modules from the working directory upwards, or
+ * an absolute path to a directory containing a package.json.
+ */
+export async function loadExtensions(
+  specs: string[],
+  config: AppConfig
+): Promise<LoadedExtension[]> {
+  const loaded: LoadedExtension[] = [];
+  for (const spec of specs) {
+    const extension = await loadExtension(spec, config);
+    if (loaded.some((e) => e.name === extension.name)) {
+      throw new Error(
+        `Extension "${extension.name}" is configured more than once`
+      );
+    }
+    loaded.push(extension);
+  }
+  return loaded;
+}
+
+export async function loadExtension(
+  spec: string,
+  config: AppConfig
+): Promise<LoadedExtension> {
+  const dir = isAbsolute(spec) ? spec : findPackageDir(spec);
+  const pkgPath = join(dir, "package.json");
+  if (!existsSync(pkgPath)) {
+    throw new Error(`Extension "${spec}" has no package.json at ${pkgPath}`);
+  }
+  const pkg = JSON.parse(readFileSync(pkgPath, "utf8")) as {
+    name?: string;
+    version?: string;
+    main?: string;
+    defiMcp?: Partial<ExtensionManifest>;
+  };
+  const name = pkg.name ?? spec;
+  const version = pkg.version ?? "0.0.0";
+
+  const manifest = pkg.defiMcp;
+  if (
+    typeof manifest?.apiVersion !== "string" ||
+    !semver.validRange(manifest.apiVersion)
+  ) {
+    throw new Error(
+      `Extension "${name}" must declare a semver range in "defiMcp.apiVersion" of ${pkgPath}`
+    );
+  }
+  if (!semver.satisfies(PLUGIN_API_VERSION, manifest.apiVersion)) {
+    throw new Error(
+      `Extension "${name}@${version}" requires plugin API ${manifest.apiVersion}, but this server provides ${PLUGIN_API_VERSION}`
+    );
+  }
+
+  const entry = resolve(dir, manifest.entry ?? pkg.main ?? "index.js");
+  const mod = (await import(pathToFileURL(entry).href)) as {
+    default?: DefiExtensionExport;
+  };
+  if (mod.default === undefined) {
+    throw new Error(`Extension "${name}" has no default export in ${entry}`);
+  }
+  const components =
+    typeof mod.default === "function" ? await mod.default(config) : mod.default;
+  assertComponents(name, components);
+
+  return { name, version, path: dir, components };
+}
+
+/** Walk up from the working directory the way Node resolves bare specifiers */
+function findPackageDir(packageName: string): string {
+  let dir = process.cwd();
+  for (;;) {
+    const candidate = join(dir, "node_modules", packageName);
+    if (existsSync(join(candidate, "package.json"))) return candidate;
+    const parent = dirname(dir);
+    if (parent === dir) {
+      throw new Error(
+        `Extension package "${packageName}" is not installed (looked in node_modules from ${process.cwd()} upwards)`
+      );
+    }
+    dir = parent;
+  }
+}
+
+const REQUIRED_MEMBERS: Record<
+  Exclude<keyof DefiExtension, "storage">,
+  string[]
+> = {
+  plugins: ["name", "initialize", "getTools"],
+  scanners: ["protocolName", "supportedChains", "scanPositions"],
+  yieldSources: ["protocolName", "supportedChains", "getYieldOpportunities"],
+  swapAggregators: [
+    "name",
+    "getSupportedChainIds",
+    "getQuote",
+    "buildTransaction",
+  ],
+};
+
+/** Catch malformed exports at startup rather than on the first tool call */
+function assertComponents(
+  name: string,
+  components: unknown
+): asserts components is DefiExtension {
+  if (typeof components !== "object" || components === null) {
+    throw new Error(
+      `Extension "${name}" must export an object of plugins, scanners, yieldSources or swapAggregators`
+    );
+  }
+  for (const [kind, members] of Object.entries(REQUIRED_MEMBERS)) {
+    const items = (components as Record<string, unknown>)[kind];
+    if (items === undefined) continue;
+    if (!Array.isArray(items)) {
+      throw new Error(
+        `Extension "${name}" exports ${kind} that is not an array`
+      );
+    }
+    items.forEach((item, i) => {
+      const missing = members.filter((m) => item?.[m] === undefined);
+      if (missing.length > 0) {
+        throw new Error(
+          `Extension "${name}" ${kind}[${i}] is missing ${missing.join(", ")}`
+        );
+      }
+    });
+  }
+  const storage = (components as DefiExtension).storage;
+  if (
+    storage !== undefined &&
+    (typeof storage?.namespace !== "function" || typeof storage?.flush !== "function")
+  ) {
+    throw new Error(
+      `Extension "${name}" storage must implement namespace and flush`
+    );
+  }
+}
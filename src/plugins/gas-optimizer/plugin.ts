@@ -1,18 +1,20 @@
 import { z } from "zod";
-import { createPublicClient, http, formatGwei, formatEther } from "viem";
+import { formatGwei } from "viem";
 import type {
   DefiPlugin,
   PluginContext,
+  ToolCallContext,
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
+import { getEvmChainIds } from "../../chains/registry.js";
+import { fanOut } from "../../core/tool-call.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
+import { Decimal } from "../../core/amount.js";
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 // Average gas units for common DeFi operations
 const GAS_ESTIMATES: Record<string, number> = {
@@ -32,14 +34,13 @@ const GAS_ESTIMATES: Record<string, number> = {
   "Bridge (Li.Fi)": 350000,
 };
 
-const EVM_CHAINS = [
-  "ethereum", "arbitrum", "optimism", "polygon", "base", "avalanche", "bsc",
-];
-
 export class GasOptimizerPlugin implements DefiPlugin {
   readonly name = "gas-optimizer";
   readonly description = "Gas cost comparison across chains and operations";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["infrastructure", "analytics"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -50,6 +51,7 @@ export class GasOptimizerPlugin implements DefiPlugin {
   private compareGasTool(): ToolDefinition {
     return {
       name: "defi_compare_gas",
+      capabilities: ["read", "external-api"],
       description:
         "Compare current gas costs across all EVM chains. Shows gas price and typical transaction costs to help choose the cheapest chain for an operation.",
       inputSchema: z.object({
@@ -62,7 +64,7 @@ export class GasOptimizerPlugin implements DefiPlugin {
       }),
       handler: async (
         input: unknown,
-        context: PluginContext
+        context: ToolCallContext
       ): Promise<ToolResult> => {
         try {
           const { operation = "ERC20 transfer" } = input as {
@@ -70,55 +72,51 @@ export class GasOptimizerPlugin implements DefiPlugin {
           };
           const gasUnits = GAS_ESTIMATES[operation] || 65000;
 
+          const evmChains = context
+            .getAllChains()
+            .filter((c) => c.ecosystem === "evm");
+          const track = fanOut(context, evmChains.length);
           const results = await Promise.allSettled(
-            EVM_CHAINS.map(async (chainId) => {
-              const adapter = context.getChainAdapterForChain(chainId);
-              const chain = adapter.getChain(chainId);
-              if (!chain) return null;
-
-              const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-              const client = createPublicClient({ transport: http(rpcUrl) });
-
-              const gasPrice = await client.getGasPrice();
-              const costWei = gasPrice * BigInt(gasUnits);
-
-              // Get native token USD price from CoinGecko
-              let nativeUsdPrice = 0;
-              try {
-                const cgId: Record<string, string> = {
-                  ethereum: "ethereum",
-                  arbitrum: "ethereum",
-                  optimism: "ethereum",
-                  base: "ethereum",
-                  polygon: "matic-network",
-                  avalanche: "avalanche-2",
-                  bsc: "binancecoin",
-                };
-                const id = cgId[chainId];
-                if (id) {
-                  const priceRes = await fetch(
-                    `https://api.coingecko.com/api/v3/simple/price?ids=${id}&vs_currencies=usd`
-                  );
-                  if (priceRes.ok) {
-                    const priceData = await priceRes.json();
-                    nativeUsdPrice = priceData[id]?.usd || 0;
+            evmChains
+              .map(async (chain) => {
+                const chainId = chain.id;
+
+                const client = context.getEvmClient(chainId);
+
+                const gasPrice = await client.getGasPrice();
+                const costWei = gasPrice * BigInt(gasUnits);
+
+                // Get native token USD price from CoinGecko
+                let nativeUsdPrice = 0;
+                try {
+                  const id = chain.nativeToken.coingeckoId;
+                  if (id) {
+                    const priceRes = await context.http.fetch(
+                      `https://api.coingecko.com/api/v3/simple/price?ids=${id}&vs_currencies=usd`,
+                      { signal: context.signal }
+                    );
+                    if (priceRes.ok) {
+                      const priceData = await priceRes.json();
+                      nativeUsdPrice = priceData[id]?.usd || 0;
+                    }
                   }
-                }
-              } catch {}
-
-              const costNative = Number(formatEther(costWei));
-              const costUsd = costNative * nativeUsdPrice;
-
-              return {
-                chain: chain.name,
-                chainId,
-                gasPrice: `${formatGwei(gasPrice)} gwei`,
-                costNative: `${costNative.toFixed(6)} ${chain.nativeToken.symbol}`,
-                costUsd: nativeUsdPrice > 0 ? `$${costUsd.toFixed(4)}` : "price unavailable",
-                costUsdRaw: costUsd,
-              };
-            })
+                } catch {}
+
+                const costNative = Decimal.fromUnits(costWei, 18);
+                const costUsd = costNative.times(nativeUsdPrice);
+
+                return {
+                  chain: chain.name,
+                  chainId,
+                  gasPrice: `${formatGwei(gasPrice)} gwei`,
+                  costNative: `${costNative.toFixed(6)} ${chain.nativeToken.symbol}`,
+                  costUsd: nativeUsdPrice > 0 ? `$${costUsd.toFixed(4)}` : "price unavailable",
+                  costUsdRaw: costUsd.toNumber(),
+                };
+              })
+              .map((unit, i) => track(unit, evmChains[i].name))
           );
+          context.signal.throwIfAborted();
 
           const chains = results
             .filter(
@@ -145,7 +143,7 @@ export class GasOptimizerPlugin implements DefiPlugin {
                 : undefined,
           });
         } catch (e: any) {
-          return errorResult(`Gas comparison failed: ${e.message}`);
+          return errorResult(e, "Gas comparison failed");
         }
       },
     };
@@ -154,6 +152,7 @@ export class GasOptimizerPlugin implements DefiPlugin {
   private operationCostTool(): ToolDefinition {
     return {
       name: "defi_operation_costs",
+      capabilities: ["read", "external-api"],
       description:
         "Get estimated gas costs for all common DeFi operations on a specific chain. Useful for planning multi-step operations and budgeting gas.",
       inputSchema: z.object({
@@ -169,24 +168,20 @@ export class GasOptimizerPlugin implements DefiPlugin {
           const adapter = context.getChainAdapterForChain(chainId);
           const chain = adapter.getChain(chainId);
           if (!chain || chain.ecosystem !== "evm") {
-            return errorResult("Gas estimation only supported on EVM chains");
+            return errorResult(
+              new UnsupportedChainForToolError("Gas estimation", chainId, getEvmChainIds())
+            );
           }
 
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
           const gasPrice = await client.getGasPrice();
 
           // Get native token USD price
           let nativeUsdPrice = 0;
           try {
-            const cgId: Record<string, string> = {
-              ethereum: "ethereum", arbitrum: "ethereum", optimism: "ethereum",
-              base: "ethereum", polygon: "matic-network",
-              avalanche: "avalanche-2", bsc: "binancecoin",
-            };
-            const id = cgId[chainId];
+            const id = chain.nativeToken.coingeckoId;
             if (id) {
-              const priceRes = await fetch(
+              const priceRes = await context.http.fetch(
                 `https://api.coingecko.com/api/v3/simple/price?ids=${id}&vs_currencies=usd`
               );
               if (priceRes.ok) {
@@ -199,8 +194,8 @@ export class GasOptimizerPlugin implements DefiPlugin {
           const operations = Object.entries(GAS_ESTIMATES).map(
             ([op, gasUnits]) => {
               const costWei = gasPrice * BigInt(gasUnits);
-              const costNative = Number(formatEther(costWei));
-              const costUsd = costNative * nativeUsdPrice;
+              const costNative = Decimal.fromUnits(costWei, 18);
+              const costUsd = costNative.times(nativeUsdPrice);
               return {
                 operation: op,
                 gasUnits,
@@ -221,7 +216,7 @@ export class GasOptimizerPlugin implements DefiPlugin {
             operations,
           });
         } catch (e: any) {
-          return errorResult(`Operation cost estimation failed: ${e.message}`);
+          return errorResult(e, "Operation cost estimation failed");
         }
       },
     };
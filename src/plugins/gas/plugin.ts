@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { createPublicClient, http, formatGwei } from "viem";
+import { formatGwei } from "viem";
 import type {
   DefiPlugin,
   PluginContext,
@@ -7,12 +7,14 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema } from "../../tools/schemas.js";
-import { CHAIN_ID_MAP } from "../../chains/evm/chains.js";
 
 export class GasPricePlugin implements DefiPlugin {
   readonly name = "gas-price";
   readonly description = "Gas price lookups across chains";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["infrastructure", "trading"],
+  };
 
   async initialize(_context: PluginContext): Promise<void> {}
 
@@ -37,8 +39,7 @@ export class GasPricePlugin implements DefiPlugin {
             };
 
           if (chain.ecosystem === "evm") {
-            const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-            const client = createPublicClient({ transport: http(rpcUrl) });
+            const client = context.getEvmClient(chainId);
 
             const feeData = await client.estimateFeesPerGas();
             const gasPrice = await client.getGasPrice();
@@ -63,10 +64,7 @@ export class GasPricePlugin implements DefiPlugin {
           }
 
           if (chain.ecosystem === "solana") {
-            const { Connection } = await import("@solana/web3.js");
-            const rpcUrl =
-              context.config.rpcUrls[chainId] || chain.rpcUrl;
-            const connection = new Connection(rpcUrl, "confirmed");
+            const connection = context.getSolanaConnection(chainId);
             const fees = await connection.getRecentPrioritizationFees();
             const sorted = fees
               .map((f) => f.prioritizationFee)
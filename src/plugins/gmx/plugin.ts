@@ -6,6 +6,7 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema } from "../../tools/schemas.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
 
 const GMX_API: Record<string, string> = {
   arbitrum: "https://arbitrum-api.gmxinfra.io",
@@ -22,14 +23,14 @@ const SUPPORTED = Object.keys(GMX_API);
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class GmxPlugin implements DefiPlugin {
   readonly name = "gmx";
   readonly description = "GMX V2: perpetual trading markets, positions, and stats";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["market-data", "perpetuals"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -44,17 +45,18 @@ export class GmxPlugin implements DefiPlugin {
   private marketsTool(): ToolDefinition {
     return {
       name: "defi_gmx_markets",
+      capabilities: ["read", "external-api"],
       description: `List GMX V2 perpetual markets with open interest, funding rates, and available liquidity. Supported chains: ${SUPPORTED.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId } = input as { chainId: string };
           const apiUrl = GMX_API[chainId];
-          if (!apiUrl) return errorResult(`GMX not available on "${chainId}". Supported: ${SUPPORTED.join(", ")}`);
+          if (!apiUrl) return errorResult(new UnsupportedChainForToolError("GMX", chainId, SUPPORTED));
 
-          const res = await fetch(`${apiUrl}/markets`);
+          const res = await context.http.fetch(`${apiUrl}/markets`);
           if (!res.ok) throw new Error(`GMX API ${res.status}`);
           const data = await res.json();
 
@@ -73,7 +75,7 @@ export class GmxPlugin implements DefiPlugin {
 
           return jsonResult({ chain: chainId, protocol: "GMX V2", marketCount: markets.length, markets });
         } catch (e: any) {
-          return errorResult(`Failed to fetch GMX markets: ${e.message}`);
+          return errorResult(e, "Failed to fetch GMX markets");
         }
       },
     };
@@ -82,17 +84,18 @@ export class GmxPlugin implements DefiPlugin {
   private pricesTool(): ToolDefinition {
     return {
       name: "defi_gmx_prices",
+      capabilities: ["read", "external-api"],
       description: `Get current token prices from GMX oracle. Returns min/max prices used for order execution. Supported chains: ${SUPPORTED.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId } = input as { chainId: string };
           const apiUrl = GMX_API[chainId];
-          if (!apiUrl) return errorResult(`GMX not available on "${chainId}". Supported: ${SUPPORTED.join(", ")}`);
+          if (!apiUrl) return errorResult(new UnsupportedChainForToolError("GMX", chainId, SUPPORTED));
 
-          const res = await fetch(`${apiUrl}/prices/tickers`);
+          const res = await context.http.fetch(`${apiUrl}/prices/tickers`);
           if (!res.ok) throw new Error(`GMX API ${res.status}`);
           const data = await res.json();
 
@@ -105,7 +108,7 @@ export class GmxPlugin implements DefiPlugin {
 
           return jsonResult({ chain: chainId, protocol: "GMX V2", prices });
         } catch (e: any) {
-          return errorResult(`Failed to fetch GMX prices: ${e.message}`);
+          return errorResult(e, "Failed to fetch GMX prices");
         }
       },
     };
@@ -114,16 +117,17 @@ export class GmxPlugin implements DefiPlugin {
   private positionsTool(): ToolDefinition {
     return {
       name: "defi_gmx_positions",
+      capabilities: ["read", "external-api"],
       description: `Get a user's open GMX V2 perpetual positions including PnL, leverage, and liquidation price. Supported chains: ${SUPPORTED.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
         userAddress: AddressSchema.describe("Wallet address to check"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, userAddress } = input as { chainId: string; userAddress: string };
           const subgraphUrl = GMX_SUBGRAPH[chainId];
-          if (!subgraphUrl) return errorResult(`GMX not available on "${chainId}". Supported: ${SUPPORTED.join(", ")}`);
+          if (!subgraphUrl) return errorResult(new UnsupportedChainForToolError("GMX", chainId, SUPPORTED));
 
           const query = `{
             trades(
@@ -146,7 +150,7 @@ export class GmxPlugin implements DefiPlugin {
             }
           }`;
 
-          const res = await fetch(subgraphUrl, {
+          const res = await context.http.fetch(subgraphUrl, {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({ query }),
@@ -174,7 +178,7 @@ export class GmxPlugin implements DefiPlugin {
             recentTrades: trades,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch GMX positions: ${e.message}`);
+          return errorResult(e, "Failed to fetch GMX positions");
         }
       },
     };
@@ -1,19 +1,20 @@
 import { z } from "zod";
-import { createPublicClient, http, getAddress, formatUnits } from "viem";
+import { getAddress } from "viem";
 import type {
   DefiPlugin,
   PluginContext,
+  ToolCallContext,
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema } from "../../tools/schemas.js";
+import { errorResult } from "../../core/errors.js";
+import { fanOut } from "../../core/tool-call.js";
+import { Decimal } from "../../core/amount.js";
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 // Aave V3 Pool addresses
 const AAVE_V3_POOL: Record<string, string> = {
@@ -47,6 +48,18 @@ const AAVE_ACCOUNT_ABI = [{
   ],
 }] as const;
 
+/** Dashboard run kept in the "checks" table, for comparing with the next */
+interface HealthCheck {
+  /** Tenant that ran the check, so tenants only see their own history */
+  tenantId?: string;
+  wallet: string;
+  overallRisk: string;
+  positions: Array<{ protocol: string; chainId: string; healthFactor?: string; risk: string }>;
+}
+
+/** Checks kept per tenant and wallet, to report how the last one compares */
+const CHECKS_TABLE = "checks";
+
 const COMET_ABI = [
   { name: "balanceOf", type: "function" as const, stateMutability: "view" as const, inputs: [{ name: "account", type: "address" }], outputs: [{ type: "uint256" }] },
   { name: "borrowBalanceOf", type: "function" as const, stateMutability: "view" as const, inputs: [{ name: "account", type: "address" }], outputs: [{ type: "uint256" }] },
@@ -56,6 +69,9 @@ export class HealthMonitorPlugin implements DefiPlugin {
   readonly name = "health-monitor";
   readonly description = "Lending position health monitoring across Aave V3 and Compound V3";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["lending", "security"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -67,7 +83,7 @@ export class HealthMonitorPlugin implements DefiPlugin {
     return {
       name: "defi_health_dashboard",
       description:
-        "Check all lending positions across Aave V3 and Compound V3 on all chains simultaneously. Returns health factors, collateral, debt, and liquidation risk for every active position. Run this regularly for users with lending positions.",
+        "Check all lending positions across Aave V3 and Compound V3 on all chains simultaneously. Returns health factors, collateral, debt, and liquidation risk for every active position, plus the previous check of the same wallet to show how they moved. Run this regularly for users with lending positions.",
       inputSchema: z.object({
         userAddress: AddressSchema.describe("Wallet address to monitor"),
         chainIds: z
@@ -77,7 +93,7 @@ export class HealthMonitorPlugin implements DefiPlugin {
       }),
       handler: async (
         input: unknown,
-        context: PluginContext
+        context: ToolCallContext
       ): Promise<ToolResult> => {
         try {
           const { userAddress, chainIds } = input as {
@@ -89,18 +105,23 @@ export class HealthMonitorPlugin implements DefiPlugin {
           const positions: any[] = [];
           let overallRisk = "SAFE";
 
+          const aaveChains = (chainIds || Object.keys(AAVE_V3_POOL)).filter(
+            (c) => AAVE_V3_POOL[c]
+          );
+          const compChains = (chainIds || Object.keys(COMPOUND_V3)).filter(
+            (c) => COMPOUND_V3[c]
+          );
+          const track = fanOut(context, aaveChains.length + compChains.length);
+
           // Check Aave V3 on all chains
-          const aaveChains = chainIds || Object.keys(AAVE_V3_POOL);
           const aaveResults = await Promise.allSettled(
             aaveChains
-              .filter((c) => AAVE_V3_POOL[c])
               .map(async (chainId) => {
                 const adapter = context.getChainAdapterForChain(chainId);
                 const chain = adapter.getChain(chainId);
                 if (!chain) return null;
 
-                const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-                const client = createPublicClient({ transport: http(rpcUrl) });
+                const client = context.getEvmClient(chainId);
 
                 const result = await client.readContract({
                   address: getAddress(AAVE_V3_POOL[chainId]) as `0x${string}`,
@@ -133,6 +154,7 @@ export class HealthMonitorPlugin implements DefiPlugin {
                   risk,
                 };
               })
+              .map((unit, i) => track(unit, `Aave V3 on ${aaveChains[i]}`))
           );
 
           for (const r of aaveResults) {
@@ -150,18 +172,15 @@ export class HealthMonitorPlugin implements DefiPlugin {
           }
 
           // Check Compound V3 on all chains
-          const compChains = chainIds || Object.keys(COMPOUND_V3);
           const compResults = await Promise.allSettled(
             compChains
-              .filter((c) => COMPOUND_V3[c])
               .map(async (chainId) => {
                 const market = COMPOUND_V3[chainId];
                 const adapter = context.getChainAdapterForChain(chainId);
                 const chain = adapter.getChain(chainId);
                 if (!chain) return null;
 
-                const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-                const client = createPublicClient({ transport: http(rpcUrl) });
+                const client = context.getEvmClient(chainId);
 
                 const [supplyBal, borrowBal] = await Promise.all([
                   client.readContract({
@@ -180,8 +199,8 @@ export class HealthMonitorPlugin implements DefiPlugin {
 
                 if (supplyBal === 0n && borrowBal === 0n) return null;
 
-                const supply = Number(formatUnits(supplyBal, 6));
-                const borrow = Number(formatUnits(borrowBal, 6));
+                const supply = Decimal.fromUnits(supplyBal, 6);
+                const borrow = Decimal.fromUnits(borrowBal, 6);
 
                 return {
                   protocol: "Compound V3",
@@ -189,10 +208,12 @@ export class HealthMonitorPlugin implements DefiPlugin {
                   chainId,
                   supplied: `${supply.toFixed(2)} ${market.baseToken}`,
                   borrowed: `${borrow.toFixed(2)} ${market.baseToken}`,
-                  risk: borrow > 0 ? "monitor" : "none",
+                  risk: borrow.gt(0) ? "monitor" : "none",
                 };
               })
+              .map((unit, i) => track(unit, `Compound V3 on ${compChains[i]}`))
           );
+          context.signal.throwIfAborted();
 
           for (const r of compResults) {
             if (r.status === "fulfilled" && r.value) {
@@ -200,11 +221,36 @@ export class HealthMonitorPlugin implements DefiPlugin {
             }
           }
 
+          const checks = context.storage.namespace(this.name);
+          const [previous] = await checks.rows<HealthCheck>(CHECKS_TABLE, {
+            where: (check) =>
+              check.tenantId === context.tenantId && check.wallet === user,
+            limit: 1,
+          });
+          await checks.append(CHECKS_TABLE, {
+            tenantId: context.tenantId,
+            wallet: user,
+            overallRisk,
+            positions: positions.map((p) => ({
+              protocol: p.protocol,
+              chainId: p.chainId,
+              healthFactor: p.healthFactor,
+              risk: p.risk,
+            })),
+          } satisfies HealthCheck);
+
           return jsonResult({
             wallet: userAddress,
             overallRisk,
             positionCount: positions.length,
             positions,
+            previousCheck: previous
+              ? {
+                  at: previous.at,
+                  overallRisk: previous.data.overallRisk,
+                  positions: previous.data.positions,
+                }
+              : null,
             alerts:
               overallRisk === "CRITICAL"
                 ? [
@@ -221,7 +267,7 @@ export class HealthMonitorPlugin implements DefiPlugin {
                     : ["All positions are healthy"],
           });
         } catch (e: any) {
-          return errorResult(`Health dashboard failed: ${e.message}`);
+          return errorResult(e, "Health dashboard failed");
         }
       },
     };
@@ -230,12 +276,13 @@ export class HealthMonitorPlugin implements DefiPlugin {
   private stablecoinMonitorTool(): ToolDefinition {
     return {
       name: "defi_stablecoin_monitor",
+      capabilities: ["read", "external-api"],
       description:
         "Monitor stablecoin peg health for major stablecoins (USDT, USDC, DAI, FRAX, etc.). Reports current price deviation from $1 peg, market cap changes, and depegging alerts.",
       inputSchema: z.object({}),
-      handler: async (): Promise<ToolResult> => {
+      handler: async (_input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
-          const res = await fetch(
+          const res = await context.http.fetch(
             "https://stablecoins.llama.fi/stablecoins?includePrices=true"
           );
           if (!res.ok) throw new Error(`DefiLlama stablecoins ${res.status}`);
@@ -285,7 +332,7 @@ export class HealthMonitorPlugin implements DefiPlugin {
                 : ["All major stablecoins are holding their peg"],
           });
         } catch (e: any) {
-          return errorResult(`Stablecoin monitor failed: ${e.message}`);
+          return errorResult(e, "Stablecoin monitor failed");
         }
       },
     };
@@ -5,6 +5,7 @@ import type {
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
+import { Decimal } from "../../core/amount.js";
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
@@ -14,6 +15,9 @@ export class ILCalculatorPlugin implements DefiPlugin {
   readonly name = "il-calculator";
   readonly description = "Impermanent loss calculator for AMM liquidity positions";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["analytics"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -99,26 +103,28 @@ export class ILCalculatorPlugin implements DefiPlugin {
         };
 
         if (investmentUsd) {
-          const lpValueUsd = investmentUsd * lpMultiplier;
-          const hodlValueUsd = investmentUsd * hodlMultiplier;
-          const ilUsd = lpValueUsd - hodlValueUsd;
-          const netPnl = lpValueUsd + feesEarnedUsd - investmentUsd;
+          const investment = Decimal.from(investmentUsd);
+          const fees = Decimal.from(feesEarnedUsd);
+          const lpValueUsd = investment.times(lpMultiplier);
+          const hodlValueUsd = investment.times(hodlMultiplier);
+          const ilUsd = lpValueUsd.minus(hodlValueUsd);
+          const netPnl = lpValueUsd.plus(fees).minus(investment);
+          const feesCoverIL = fees.gte(ilUsd.abs());
 
           result.dollarAmounts = {
-            investment: `$${investmentUsd.toFixed(2)}`,
+            investment: `$${investment.toFixed(2)}`,
             lpValueNow: `$${lpValueUsd.toFixed(2)}`,
             hodlValueNow: `$${hodlValueUsd.toFixed(2)}`,
             ilLoss: `$${ilUsd.toFixed(2)}`,
-            feesEarned: `$${feesEarnedUsd.toFixed(2)}`,
-            netPnl: `${netPnl >= 0 ? "+" : ""}$${netPnl.toFixed(2)}`,
-            feesCoverIL: feesEarnedUsd >= Math.abs(ilUsd),
+            feesEarned: `$${fees.toFixed(2)}`,
+            netPnl: `${netPnl.isNegative() ? "" : "+"}$${netPnl.toFixed(2)}`,
+            feesCoverIL,
           };
 
-          if (feesEarnedUsd > 0) {
-            result.verdict =
-              feesEarnedUsd >= Math.abs(ilUsd)
-                ? `Fees ($${feesEarnedUsd.toFixed(2)}) exceed IL ($${Math.abs(ilUsd).toFixed(2)}). LP position is profitable.`
-                : `IL ($${Math.abs(ilUsd).toFixed(2)}) exceeds fees ($${feesEarnedUsd.toFixed(2)}). Would have been better to hold.`;
+          if (fees.gt(0)) {
+            result.verdict = feesCoverIL
+              ? `Fees ($${fees.toFixed(2)}) exceed IL ($${ilUsd.abs().toFixed(2)}). LP position is profitable.`
+              : `IL ($${ilUsd.abs().toFixed(2)}) exceeds fees ($${fees.toFixed(2)}). Would have been better to hold.`;
           }
         }
 
@@ -196,71 +202,76 @@ export class ILCalculatorPlugin implements DefiPlugin {
         };
 
         const r = 1 + priceChangePercent / 100;
-        const dayFraction = daysHeld / 365;
+        const investment = Decimal.from(investmentUsd);
+        // investment * apr% * daysHeld/365
+        const interest = (aprPercent: number): Decimal =>
+          investment.times(aprPercent).times(daysHeld).div(36_500, 8, "half-even");
+        const outcome = (value: Decimal) => ({
+          finalValue: `$${value.toFixed(2)}`,
+          pnl: `${value.gte(investment) ? "+" : ""}$${value.minus(investment).toFixed(2)}`,
+          returnPercent: `${value.minus(investment).times(100).div(investment, 2, "half-up").toFixed(2)}%`,
+        });
 
         // Strategy 1: HODL (50/50 split)
         const hodlMultiplier = (1 + r) / 2;
-        const hodlValue = investmentUsd * hodlMultiplier;
+        const hodlValue = investment.times(hodlMultiplier);
 
         // Strategy 2: LP (with IL + fees)
         const lpMultiplier = 2 * Math.sqrt(r) / (1 + r);
-        const fees = investmentUsd * (lpAprPercent / 100) * dayFraction;
-        const lpValue = investmentUsd * lpMultiplier + fees;
-
-        // Strategy 3: Lending
-        const lendingValue = lendingAprPercent
-          ? investmentUsd * (1 + (lendingAprPercent / 100) * dayFraction)
-          : null;
-
-        // Strategy 4: Staking
-        const stakingValue = stakingAprPercent
-          ? investmentUsd * (1 + (stakingAprPercent / 100) * dayFraction)
-          : null;
+        const positionValue = investment.times(lpMultiplier);
+        const fees = interest(lpAprPercent);
+        const lpValue = positionValue.plus(fees);
 
-        const strategies: any[] = [
+        const strategies: Array<{ value: Decimal; summary: any }> = [
           {
-            strategy: `HODL 50/50 (${token0Symbol}/${token1Symbol})`,
-            finalValue: `$${hodlValue.toFixed(2)}`,
-            pnl: `${hodlValue >= investmentUsd ? "+" : ""}$${(hodlValue - investmentUsd).toFixed(2)}`,
-            returnPercent: `${((hodlValue / investmentUsd - 1) * 100).toFixed(2)}%`,
+            value: hodlValue,
+            summary: {
+              strategy: `HODL 50/50 (${token0Symbol}/${token1Symbol})`,
+              ...outcome(hodlValue),
+            },
           },
           {
-            strategy: `LP (${token0Symbol}/${token1Symbol} @ ${lpAprPercent}% APR)`,
-            finalValue: `$${lpValue.toFixed(2)}`,
-            pnl: `${lpValue >= investmentUsd ? "+" : ""}$${(lpValue - investmentUsd).toFixed(2)}`,
-            returnPercent: `${((lpValue / investmentUsd - 1) * 100).toFixed(2)}%`,
-            breakdown: {
-              positionValue: `$${(investmentUsd * lpMultiplier).toFixed(2)}`,
-              feesEarned: `$${fees.toFixed(2)}`,
-              impermanentLoss: `$${((lpMultiplier - hodlMultiplier) * investmentUsd).toFixed(2)}`,
+            value: lpValue,
+            summary: {
+              strategy: `LP (${token0Symbol}/${token1Symbol} @ ${lpAprPercent}% APR)`,
+              ...outcome(lpValue),
+              breakdown: {
+                positionValue: `$${positionValue.toFixed(2)}`,
+                feesEarned: `$${fees.toFixed(2)}`,
+                impermanentLoss: `$${positionValue.minus(hodlValue).toFixed(2)}`,
+              },
             },
           },
         ];
 
-        if (lendingValue) {
+        // Strategy 3: Lending
+        if (lendingAprPercent) {
+          const lendingValue = investment.plus(interest(lendingAprPercent));
           strategies.push({
-            strategy: `Lend (${lendingAprPercent}% APR)`,
-            finalValue: `$${lendingValue.toFixed(2)}`,
-            pnl: `+$${(lendingValue - investmentUsd).toFixed(2)}`,
-            returnPercent: `${((lendingValue / investmentUsd - 1) * 100).toFixed(2)}%`,
+            value: lendingValue,
+            summary: {
+              strategy: `Lend (${lendingAprPercent}% APR)`,
+              ...outcome(lendingValue),
+            },
           });
         }
 
-        if (stakingValue) {
+        // Strategy 4: Staking
+        if (stakingAprPercent) {
+          const stakingValue = investment.plus(interest(stakingAprPercent));
           strategies.push({
-            strategy: `Stake (${stakingAprPercent}% APR)`,
-            finalValue: `$${stakingValue.toFixed(2)}`,
-            pnl: `+$${(stakingValue - investmentUsd).toFixed(2)}`,
-            returnPercent: `${((stakingValue / investmentUsd - 1) * 100).toFixed(2)}%`,
+            value: stakingValue,
+            summary: {
+              strategy: `Stake (${stakingAprPercent}% APR)`,
+              ...outcome(stakingValue),
+            },
           });
         }
 
         // Sort by final value
-        strategies.sort(
-          (a, b) =>
-            parseFloat(b.finalValue.replace("$", "")) -
-            parseFloat(a.finalValue.replace("$", ""))
-        );
+        const ranked = strategies
+          .sort((a, b) => b.value.cmp(a.value))
+          .map((s) => s.summary);
 
         return jsonResult({
           scenario: {
@@ -269,8 +280,8 @@ export class ILCalculatorPlugin implements DefiPlugin {
             timeframe: `${daysHeld} days`,
             priceChange: `${priceChangePercent >= 0 ? "+" : ""}${priceChangePercent}%`,
           },
-          bestStrategy: strategies[0].strategy,
-          strategies,
+          bestStrategy: ranked[0].strategy,
+          strategies: ranked,
         });
       },
     };
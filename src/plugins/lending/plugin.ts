@@ -1,20 +1,20 @@
 import { z } from "zod";
 import {
-  createPublicClient,
-  http,
   getAddress,
   encodeFunctionData,
-  formatUnits,
   maxUint256,
+  type PublicClient,
 } from "viem";
 import type {
   DefiPlugin,
   PluginContext,
+  ResourceDefinition,
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema, AmountSchema } from "../../tools/schemas.js";
 import { parseTokenAmount } from "../../core/utils.js";
+import { Decimal } from "../../core/amount.js";
 import { AAVE_V3_ADDRESSES, getSupportedLendingChains } from "./aave-addresses.js";
 import { UI_POOL_DATA_PROVIDER_ABI, POOL_ABI, rayToApy } from "./aave-abi.js";
 
@@ -22,12 +22,28 @@ export class LendingPlugin implements DefiPlugin {
   readonly name = "lending";
   readonly description = "Aave V3 lending protocol: markets, positions, supply, borrow, withdraw, repay";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["lending"],
+  };
 
   async initialize(_context: PluginContext): Promise<void> {}
 
+  getResources(): ResourceDefinition[] {
+    return [
+      {
+        name: "aave-v3-addresses",
+        uri: "defi://protocols/aave-v3/{chainId}",
+        description: "Aave V3 Pool, PoolAddressesProvider and UiPoolDataProvider addresses",
+        variables: { chainId: getSupportedLendingChains },
+        read: ({ chainId }) =>
+          AAVE_V3_ADDRESSES[chainId] && { chainId, ...AAVE_V3_ADDRESSES[chainId] },
+      },
+    ];
+  }
+
   /** readContract wrapper that tries without gas limit first, then with explicit gas */
   private async readContractSafe(
-    client: ReturnType<typeof createPublicClient>,
+    client: PublicClient,
     params: { address: `0x${string}`; abi: readonly any[]; functionName: string; args: readonly any[] }
   ) {
     try {
@@ -72,11 +88,7 @@ export class LendingPlugin implements DefiPlugin {
         }
 
         const chain = context.getChainAdapterForChain(chainId).getChain(chainId)!;
-        const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-        const client = createPublicClient({
-          transport: http(rpcUrl, { batch: true }),
-          batch: { multicall: true },
-        });
+        const client = context.getEvmClient(chainId);
 
         const reservesResult = await this.readContractSafe(client, {
           address: addrs.uiPoolDataProvider,
@@ -99,12 +111,12 @@ export class LendingPlugin implements DefiPlugin {
             const priceUsd = (Number(r.priceInMarketReferenceCurrency) / refUnit) *
               (Number(baseCurrency.marketReferenceCurrencyPriceInUsd) / (10 ** baseCurrency.networkBaseTokenPriceDecimals));
 
-            const availableLiquidity = Number(formatUnits(r.availableLiquidity, decimals));
-            const totalVariableDebt = Number(formatUnits(r.totalScaledVariableDebt, decimals));
-            const totalStableDebt = Number(formatUnits(r.totalPrincipalStableDebt, decimals));
-            const totalSupplied = availableLiquidity + totalVariableDebt + totalStableDebt;
-            const utilization = totalSupplied > 0
-              ? ((totalVariableDebt + totalStableDebt) / totalSupplied * 100)
+            const availableLiquidity = Decimal.fromUnits(r.availableLiquidity, decimals);
+            const totalDebt = Decimal.fromUnits(r.totalScaledVariableDebt, decimals)
+              .plus(Decimal.fromUnits(r.totalPrincipalStableDebt, decimals));
+            const totalSupplied = availableLiquidity.plus(totalDebt);
+            const utilization = totalSupplied.gt(0)
+              ? totalDebt.times(100).div(totalSupplied, 4, "half-even").toNumber()
               : 0;
 
             return {
@@ -113,7 +125,7 @@ export class LendingPlugin implements DefiPlugin {
               supplyApy: `${supplyApy.toFixed(2)}%`,
               borrowApy: `${borrowApy.toFixed(2)}%`,
               totalSupplied: `${totalSupplied.toFixed(2)} ${r.symbol}`,
-              totalSuppliedUsd: `$${(totalSupplied * priceUsd).toFixed(0)}`,
+              totalSuppliedUsd: `$${totalSupplied.times(priceUsd).toFixed(0)}`,
               availableLiquidity: `${availableLiquidity.toFixed(2)} ${r.symbol}`,
               utilization: `${utilization.toFixed(1)}%`,
               canCollateral: r.usageAsCollateralEnabled,
@@ -159,11 +171,7 @@ export class LendingPlugin implements DefiPlugin {
         }
 
         const chain = context.getChainAdapterForChain(chainId).getChain(chainId)!;
-        const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-        const client = createPublicClient({
-          transport: http(rpcUrl, { batch: true }),
-          batch: { multicall: true },
-        });
+        const client = context.getEvmClient(chainId);
         const user = getAddress(userAddress);
 
         // Fetch account summary and user reserves in parallel
@@ -217,12 +225,12 @@ export class LendingPlugin implements DefiPlugin {
           // Supplied = scaledATokenBalance * liquidityIndex / RAY
           if (ur.scaledATokenBalance > 0n) {
             const actualBalance = (ur.scaledATokenBalance * meta.liquidityIndex) / (10n ** 27n);
-            const formatted = Number(formatUnits(actualBalance, meta.decimals));
+            const formatted = Decimal.fromUnits(actualBalance, meta.decimals);
             supplied.push({
               asset: meta.symbol,
               address: ur.underlyingAsset,
               balance: formatted.toFixed(6),
-              balanceUsd: `$${(formatted * meta.priceUsd).toFixed(2)}`,
+              balanceUsd: `$${formatted.times(meta.priceUsd).toFixed(2)}`,
               usedAsCollateral: ur.usageAsCollateralEnabledOnUser,
             });
           }
@@ -230,24 +238,24 @@ export class LendingPlugin implements DefiPlugin {
           // Variable debt
           if (ur.scaledVariableDebt > 0n) {
             const actualDebt = (ur.scaledVariableDebt * meta.variableBorrowIndex) / (10n ** 27n);
-            const formatted = Number(formatUnits(actualDebt, meta.decimals));
+            const formatted = Decimal.fromUnits(actualDebt, meta.decimals);
             borrowed.push({
               asset: meta.symbol,
               address: ur.underlyingAsset,
               balance: formatted.toFixed(6),
-              balanceUsd: `$${(formatted * meta.priceUsd).toFixed(2)}`,
+              balanceUsd: `$${formatted.times(meta.priceUsd).toFixed(2)}`,
               rateMode: "variable",
             });
           }
 
           // Stable debt
           if (ur.principalStableDebt > 0n) {
-            const formatted = Number(formatUnits(ur.principalStableDebt, meta.decimals));
+            const formatted = Decimal.fromUnits(ur.principalStableDebt, meta.decimals);
             borrowed.push({
               asset: meta.symbol,
               address: ur.underlyingAsset,
               balance: formatted.toFixed(6),
-              balanceUsd: `$${(formatted * meta.priceUsd).toFixed(2)}`,
+              balanceUsd: `$${formatted.times(meta.priceUsd).toFixed(2)}`,
               rateMode: "stable",
             });
           }
@@ -258,9 +266,12 @@ export class LendingPlugin implements DefiPlugin {
           ? "infinite (no borrows)"
           : (Number(accountData[5]) / 1e18).toFixed(4);
 
-        const totalCollateralUsd = (Number(accountData[0]) / refUnit) * refPriceUsd;
-        const totalDebtUsd = (Number(accountData[1]) / refUnit) * refPriceUsd;
-        const availableBorrowsUsd = (Number(accountData[2]) / refUnit) * refPriceUsd;
+        // Account totals are in the market's base currency units
+        const toUsd = (base: bigint): Decimal =>
+          Decimal.from(base).times(refPriceUsd).div(refUnit, 8, "half-even");
+        const totalCollateralUsd = toUsd(accountData[0]);
+        const totalDebtUsd = toUsd(accountData[1]);
+        const availableBorrowsUsd = toUsd(accountData[2]);
 
         return {
           content: [{
@@ -286,6 +297,7 @@ export class LendingPlugin implements DefiPlugin {
   private supplyTxTool(): ToolDefinition {
     return {
       name: "defi_lending_supply_tx",
+      capabilities: ["builds-tx"],
       description:
         "Build an unsigned transaction to supply (deposit) assets into Aave V3. The asset must be approved first via defi_token_approve.",
       inputSchema: z.object({
@@ -306,6 +318,7 @@ export class LendingPlugin implements DefiPlugin {
   private withdrawTxTool(): ToolDefinition {
     return {
       name: "defi_lending_withdraw_tx",
+      capabilities: ["builds-tx"],
       description:
         "Build an unsigned transaction to withdraw supplied assets from Aave V3. Use amount 'max' to withdraw everything.",
       inputSchema: z.object({
@@ -326,6 +339,7 @@ export class LendingPlugin implements DefiPlugin {
   private borrowTxTool(): ToolDefinition {
     return {
       name: "defi_lending_borrow_tx",
+      capabilities: ["builds-tx"],
       description:
         "Build an unsigned transaction to borrow assets from Aave V3. Requires sufficient collateral deposited first.",
       inputSchema: z.object({
@@ -346,6 +360,7 @@ export class LendingPlugin implements DefiPlugin {
   private repayTxTool(): ToolDefinition {
     return {
       name: "defi_lending_repay_tx",
+      capabilities: ["builds-tx"],
       description:
         "Build an unsigned transaction to repay borrowed assets on Aave V3. Use amount 'max' to repay full debt. Must approve the token first.",
       inputSchema: z.object({
@@ -431,6 +446,14 @@ export class LendingPlugin implements DefiPlugin {
         break;
     }
 
+    // Supply and repay spend the asset; the amount of a max repay isn't known here
+    const spends = action === "supply" || action === "repay";
+    const outflows = !spends
+      ? []
+      : isMax
+        ? undefined
+        : [{ token: assetAddr, amount: rawAmount.toString() }];
+
     return {
       content: [{
         type: "text",
@@ -444,6 +467,7 @@ export class LendingPlugin implements DefiPlugin {
             from: user,
           },
           description,
+          outflows,
           note: action === "supply" || action === "repay"
             ? `Make sure ${resolved.symbol} is approved for ${addrs.pool} first (use defi_token_approve)`
             : undefined,
@@ -2,7 +2,6 @@ import { z } from "zod";
 import {
   encodeFunctionData,
   getAddress,
-  parseEther,
   maxUint256,
 } from "viem";
 import type {
@@ -13,12 +12,25 @@ import type {
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema, AmountSchema } from "../../tools/schemas.js";
 import { parseTokenAmount } from "../../core/utils.js";
+import { Decimal } from "../../core/amount.js";
+import {
+  errorResult,
+  InvalidAmountError,
+  UnsupportedChainForToolError,
+} from "../../core/errors.js";
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
+
+/** Collateral at the liquidation threshold over debt; Infinity with no debt */
+function healthFactorOf(
+  supplied: Decimal,
+  borrowed: Decimal,
+  ltv: number
+): number {
+  if (borrowed.isZero()) return Infinity;
+  return supplied.times(ltv).div(borrowed, 18, "half-even").toNumber();
 }
 
 // Aave V3 Pool addresses
@@ -65,6 +77,9 @@ export class LeveragePlugin implements DefiPlugin {
   readonly description =
     "Leverage strategies: loop borrowing on Aave, flash loan arb routes, and position sizing";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["lending"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -115,46 +130,46 @@ export class LeveragePlugin implements DefiPlugin {
         };
 
         if (!AAVE_V3_POOL[chainId]) {
-          return errorResult(`Aave V3 not available on "${chainId}"`);
+          return errorResult(new UnsupportedChainForToolError("Aave V3", chainId, SUPPORTED));
         }
 
-        const initial = parseFloat(initialAmount);
+        const initial = Decimal.from(initialAmount);
+        if (initial.lte(0)) {
+          return errorResult(
+            new InvalidAmountError(initialAmount, "must be greater than 0")
+          );
+        }
+        // Amounts are kept to 18 places, enough for any token
         let totalSupplied = initial;
-        let totalBorrowed = 0;
+        let totalBorrowed = Decimal.ZERO;
         const steps: any[] = [];
 
         for (let i = 0; i < loops; i++) {
-          const canBorrow = totalSupplied * ltv - totalBorrowed;
-          if (canBorrow <= 0) break;
+          const canBorrow = totalSupplied
+            .times(ltv)
+            .minus(totalBorrowed)
+            .round(18, "down");
+          if (canBorrow.lte(0)) break;
 
-          totalBorrowed += canBorrow;
-          totalSupplied += canBorrow; // Supply the borrowed amount
-
-          const healthFactor =
-            totalBorrowed > 0
-              ? (totalSupplied * ltv) / totalBorrowed
-              : Infinity;
+          totalBorrowed = totalBorrowed.plus(canBorrow);
+          totalSupplied = totalSupplied.plus(canBorrow); // Supply the borrowed amount
 
           steps.push({
             loop: i + 1,
             supplied: totalSupplied.toFixed(6),
             borrowed: totalBorrowed.toFixed(6),
-            healthFactor: healthFactor.toFixed(4),
+            healthFactor: healthFactorOf(totalSupplied, totalBorrowed, ltv).toFixed(4),
           });
         }
 
-        const leverage = totalSupplied / initial;
+        const leverage = totalSupplied.div(initial, 18, "half-even").toNumber();
         const netApy = supplyApy * leverage - borrowApy * (leverage - 1);
-        const healthFactor =
-          totalBorrowed > 0
-            ? (totalSupplied * ltv) / totalBorrowed
-            : Infinity;
+        const healthFactor = healthFactorOf(totalSupplied, totalBorrowed, ltv);
 
         // Liquidation price (how much asset needs to drop)
-        const liquidationDrop =
-          totalBorrowed > 0
-            ? (1 - totalBorrowed / (totalSupplied * ltv)) * 100
-            : 100;
+        const liquidationDrop = totalBorrowed.isZero()
+          ? 100
+          : (1 - 1 / healthFactor) * 100;
 
         return jsonResult({
           strategy: `${loops}x leverage loop`,
@@ -177,10 +192,10 @@ export class LeveragePlugin implements DefiPlugin {
           },
           usdValues: assetPriceUsd
             ? {
-                initialUsd: `$${(initial * assetPriceUsd).toFixed(2)}`,
-                totalExposure: `$${(totalSupplied * assetPriceUsd).toFixed(2)}`,
-                totalDebt: `$${(totalBorrowed * assetPriceUsd).toFixed(2)}`,
-                yearlyYield: `$${(initial * assetPriceUsd * netApy / 100).toFixed(2)}`,
+                initialUsd: `$${initial.times(assetPriceUsd).toFixed(2)}`,
+                totalExposure: `$${totalSupplied.times(assetPriceUsd).toFixed(2)}`,
+                totalDebt: `$${totalBorrowed.times(assetPriceUsd).toFixed(2)}`,
+                yearlyYield: `$${initial.times(assetPriceUsd).times(netApy).div(100, 2, "half-up").toFixed(2)}`,
               }
             : undefined,
           steps,
@@ -200,6 +215,7 @@ export class LeveragePlugin implements DefiPlugin {
   private leverageLoopBuildTool(): ToolDefinition {
     return {
       name: "defi_leverage_loop_tx",
+      capabilities: ["builds-tx"],
       description: `Build the sequence of unsigned transactions for one leverage loop iteration on Aave V3: supply → borrow. Execute this multiple times for multi-loop leverage. Each iteration requires signing two transactions. Supported chains: ${SUPPORTED.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
@@ -234,7 +250,7 @@ export class LeveragePlugin implements DefiPlugin {
 
         const pool = AAVE_V3_POOL[chainId];
         if (!pool) {
-          return errorResult(`Aave V3 not available on "${chainId}"`);
+          return errorResult(new UnsupportedChainForToolError("Aave V3", chainId, SUPPORTED));
         }
 
         const user = getAddress(userAddress);
@@ -274,6 +290,9 @@ export class LeveragePlugin implements DefiPlugin {
                   from: user,
                 },
                 description: `Supply ${supplyAmount} tokens to Aave V3`,
+                outflows: [
+                  { token: getAddress(supplyAssetAddress), amount: supplyRaw.toString() },
+                ],
               },
             },
             {
@@ -289,6 +308,7 @@ export class LeveragePlugin implements DefiPlugin {
                   from: user,
                 },
                 description: `Borrow ${borrowAmount} tokens from Aave V3 (variable rate)`,
+                outflows: [],
               },
             },
           ],
@@ -1,14 +1,17 @@
 import { z } from "zod";
-import { getAddress, encodeFunctionData, parseEther, parseUnits } from "viem";
+import { getAddress, encodeFunctionData } from "viem";
 import type {
   DefiPlugin,
   PluginContext,
+  ResourceDefinition,
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema, AmountSchema } from "../../tools/schemas.js";
 import { STETH_ADDRESS, WSTETH_ADDRESSES, getSupportedLidoChains } from "./addresses.js";
+import { NATIVE_TOKEN_ADDRESS } from "../../chains/evm/chains.js";
 import { STETH_ABI, WSTETH_ABI } from "./abi.js";
+import { parseTokenAmount } from "../../core/utils.js";
 
 const SUPPORTED = getSupportedLidoChains();
 
@@ -16,9 +19,29 @@ export class LidoPlugin implements DefiPlugin {
   readonly name = "lido";
   readonly description = "Lido liquid staking: stake ETH, wrap/unwrap stETH↔wstETH";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["staking"],
+  };
 
   async initialize(_context: PluginContext): Promise<void> {}
 
+  getResources(): ResourceDefinition[] {
+    return [
+      {
+        name: "lido-addresses",
+        uri: "defi://protocols/lido/{chainId}",
+        description: "Lido wstETH address, and stETH on Ethereum",
+        variables: { chainId: getSupportedLidoChains },
+        read: ({ chainId }) =>
+          WSTETH_ADDRESSES[chainId] && {
+            chainId,
+            steth: chainId === "ethereum" ? STETH_ADDRESS : undefined,
+            wsteth: WSTETH_ADDRESSES[chainId],
+          },
+      },
+    ];
+  }
+
   getTools(): ToolDefinition[] {
     return [this.stakeTxTool(), this.wrapTxTool(), this.unwrapTxTool()];
   }
@@ -26,6 +49,7 @@ export class LidoPlugin implements DefiPlugin {
   private stakeTxTool(): ToolDefinition {
     return {
       name: "defi_lido_stake_tx",
+      capabilities: ["builds-tx"],
       description:
         "Build an unsigned transaction to stake ETH via Lido and receive stETH. Ethereum only. Sends ETH as msg.value.",
       inputSchema: z.object({
@@ -44,7 +68,7 @@ export class LidoPlugin implements DefiPlugin {
         };
 
         const user = getAddress(userAddress);
-        const value = parseEther(amount);
+        const value = BigInt(parseTokenAmount(amount, 18));
 
         const data = encodeFunctionData({
           abi: STETH_ABI,
@@ -67,6 +91,9 @@ export class LidoPlugin implements DefiPlugin {
                     from: user,
                   },
                   description: `Stake ${amount} ETH via Lido → receive stETH`,
+                  outflows: [
+                    { token: NATIVE_TOKEN_ADDRESS, amount: value.toString() },
+                  ],
                 },
                 null,
                 2
@@ -81,6 +108,7 @@ export class LidoPlugin implements DefiPlugin {
   private wrapTxTool(): ToolDefinition {
     return {
       name: "defi_lido_wrap_tx",
+      capabilities: ["builds-tx"],
       description: `Build an unsigned transaction to wrap stETH into wstETH. stETH must be approved for the wstETH contract first (use defi_token_approve). Ethereum only.`,
       inputSchema: z.object({
         amount: AmountSchema.describe("Amount of stETH to wrap"),
@@ -99,7 +127,7 @@ export class LidoPlugin implements DefiPlugin {
 
         const wstethAddr = WSTETH_ADDRESSES["ethereum"];
         const user = getAddress(userAddress);
-        const rawAmount = parseUnits(amount, 18);
+        const rawAmount = BigInt(parseTokenAmount(amount, 18));
 
         const data = encodeFunctionData({
           abi: WSTETH_ABI,
@@ -122,6 +150,9 @@ export class LidoPlugin implements DefiPlugin {
                     from: user,
                   },
                   description: `Wrap ${amount} stETH → wstETH`,
+                  outflows: [
+                    { token: STETH_ADDRESS, amount: rawAmount.toString() },
+                  ],
                   note: `Make sure stETH is approved for ${wstethAddr} first (use defi_token_approve with tokenAddress=${STETH_ADDRESS} and spender=${wstethAddr})`,
                 },
                 null,
@@ -137,6 +168,7 @@ export class LidoPlugin implements DefiPlugin {
   private unwrapTxTool(): ToolDefinition {
     return {
       name: "defi_lido_unwrap_tx",
+      capabilities: ["builds-tx"],
       description:
         "Build an unsigned transaction to unwrap wstETH back into stETH. Ethereum only.",
       inputSchema: z.object({
@@ -156,7 +188,7 @@ export class LidoPlugin implements DefiPlugin {
 
         const wstethAddr = WSTETH_ADDRESSES["ethereum"];
         const user = getAddress(userAddress);
-        const rawAmount = parseUnits(amount, 18);
+        const rawAmount = BigInt(parseTokenAmount(amount, 18));
 
         const data = encodeFunctionData({
           abi: WSTETH_ABI,
@@ -179,6 +211,9 @@ export class LidoPlugin implements DefiPlugin {
                     from: user,
                   },
                   description: `Unwrap ${amount} wstETH → stETH`,
+                  outflows: [
+                    { token: wstethAddr, amount: rawAmount.toString() },
+                  ],
                 },
                 null,
                 2
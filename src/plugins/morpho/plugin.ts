@@ -5,18 +5,17 @@ import type {
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
+import type { HttpClient } from "../../core/http-client.js";
+import { errorResult } from "../../core/errors.js";
 
 const MORPHO_GQL = "https://blue-api.morpho.org/graphql";
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
-async function gqlQuery(query: string, variables: Record<string, unknown> = {}): Promise<any> {
-  const res = await fetch(MORPHO_GQL, {
+async function gqlQuery(http: HttpClient, query: string, variables: Record<string, unknown> = {}): Promise<any> {
+  const res = await http.fetch(MORPHO_GQL, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ query, variables }),
@@ -31,6 +30,9 @@ export class MorphoPlugin implements DefiPlugin {
   readonly name = "morpho";
   readonly description = "Morpho Blue: optimized lending markets with higher yields and better rates";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["lending"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -41,13 +43,14 @@ export class MorphoPlugin implements DefiPlugin {
   private marketsTool(): ToolDefinition {
     return {
       name: "defi_morpho_markets",
+      capabilities: ["read", "external-api"],
       description:
         "List Morpho Blue lending markets with supply APY, borrow APY, TVL, and utilization. Shows markets with better rates than Aave/Compound.",
       inputSchema: z.object({
         chainId: z.number().optional().describe("Filter by chain ID (1=Ethereum, 8453=Base). Omit for all."),
         limit: z.number().int().min(1).max(50).optional().describe("Number of results (default 20)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, limit = 20 } = input as { chainId?: number; limit?: number };
 
@@ -75,7 +78,7 @@ export class MorphoPlugin implements DefiPlugin {
             }
           `;
 
-          const data = await gqlQuery(query);
+          const data = await gqlQuery(context.http, query);
           const markets = (data.markets?.items || []).map((m: any) => ({
             id: m.uniqueKey,
             loanAsset: m.loanAsset?.symbol,
@@ -93,7 +96,7 @@ export class MorphoPlugin implements DefiPlugin {
 
           return jsonResult({ count: markets.length, markets });
         } catch (e: any) {
-          return errorResult(`Failed to fetch Morpho markets: ${e.message}`);
+          return errorResult(e, "Failed to fetch Morpho markets");
         }
       },
     };
@@ -102,13 +105,14 @@ export class MorphoPlugin implements DefiPlugin {
   private vaultsTool(): ToolDefinition {
     return {
       name: "defi_morpho_vaults",
+      capabilities: ["read", "external-api"],
       description:
         "List Morpho vaults (curated lending strategies) with APY and TVL. Vaults auto-allocate across Morpho Blue markets for optimized yield.",
       inputSchema: z.object({
         chainId: z.number().optional().describe("Filter by chain ID"),
         limit: z.number().int().min(1).max(50).optional().describe("Number of results (default 20)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, limit = 20 } = input as { chainId?: number; limit?: number };
           const where = chainId ? `where: { chainId_in: [${chainId}] }` : "";
@@ -134,7 +138,7 @@ export class MorphoPlugin implements DefiPlugin {
             }
           `;
 
-          const data = await gqlQuery(query);
+          const data = await gqlQuery(context.http, query);
           const vaults = (data.vaults?.items || []).map((v: any) => ({
             name: v.name,
             symbol: v.symbol,
@@ -150,7 +154,7 @@ export class MorphoPlugin implements DefiPlugin {
 
           return jsonResult({ count: vaults.length, vaults });
         } catch (e: any) {
-          return errorResult(`Failed to fetch Morpho vaults: ${e.message}`);
+          return errorResult(e, "Failed to fetch Morpho vaults");
         }
       },
     };
@@ -159,12 +163,13 @@ export class MorphoPlugin implements DefiPlugin {
   private positionTool(): ToolDefinition {
     return {
       name: "defi_morpho_positions",
+      capabilities: ["read", "external-api"],
       description: "Get a user's Morpho Blue positions across all markets.",
       inputSchema: z.object({
         userAddress: z.string().describe("Wallet address to check"),
         chainId: z.number().optional().describe("Filter by chain ID"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { userAddress, chainId } = input as { userAddress: string; chainId?: number };
           const where = chainId
@@ -191,7 +196,7 @@ export class MorphoPlugin implements DefiPlugin {
             }
           `;
 
-          const data = await gqlQuery(query);
+          const data = await gqlQuery(context.http, query);
           const positions = (data.marketPositions?.items || [])
             .filter((p: any) =>
               (p.state?.supplyAssetsUsd || 0) > 0.01 ||
@@ -216,7 +221,7 @@ export class MorphoPlugin implements DefiPlugin {
             positions,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch Morpho positions: ${e.message}`);
+          return errorResult(e, "Failed to fetch Morpho positions");
         }
       },
     };
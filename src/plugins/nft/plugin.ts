@@ -7,6 +7,7 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema } from "../../tools/schemas.js";
+import { errorResult } from "../../core/errors.js";
 
 const ERC721_TRANSFER_ABI = [
   {
@@ -25,14 +26,14 @@ const ERC721_TRANSFER_ABI = [
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class NftPlugin implements DefiPlugin {
   readonly name = "nft";
   readonly description = "NFT collection data and transfer transactions";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["nft"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -43,6 +44,7 @@ export class NftPlugin implements DefiPlugin {
   private collectionTool(): ToolDefinition {
     return {
       name: "defi_nft_collection",
+      capabilities: ["read", "external-api"],
       description:
         "Get NFT collection info from CoinGecko: floor price, market cap, volume, and supply.",
       inputSchema: z.object({
@@ -50,10 +52,10 @@ export class NftPlugin implements DefiPlugin {
           .string()
           .describe('CoinGecko NFT collection ID (e.g. "bored-ape-yacht-club", "cryptopunks", "pudgy-penguins")'),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { collectionId } = input as { collectionId: string };
-          const res = await fetch(
+          const res = await context.http.fetch(
             `https://api.coingecko.com/api/v3/nfts/${encodeURIComponent(collectionId)}`
           );
           if (!res.ok) throw new Error(`CoinGecko ${res.status}`);
@@ -73,7 +75,7 @@ export class NftPlugin implements DefiPlugin {
             description: data.description?.slice(0, 200),
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch NFT collection: ${e.message}`);
+          return errorResult(e, "Failed to fetch NFT collection");
         }
       },
     };
@@ -82,6 +84,7 @@ export class NftPlugin implements DefiPlugin {
   private transferTxTool(): ToolDefinition {
     return {
       name: "defi_nft_transfer_tx",
+      capabilities: ["builds-tx"],
       description:
         "Build an unsigned ERC721 NFT transfer transaction.",
       inputSchema: z.object({
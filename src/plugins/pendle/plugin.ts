@@ -6,27 +6,29 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema } from "../../tools/schemas.js";
+import { getEvmChainId } from "../../chains/registry.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
 
 const PENDLE_API = "https://api-v2.pendle.finance/core";
 
-const CHAIN_MAP: Record<string, number> = {
-  ethereum: 1,
-  arbitrum: 42161,
-  optimism: 10,
-  base: 8453,
-};
+/** Chains Pendle is deployed on */
+const PENDLE_CHAINS = ["ethereum", "arbitrum", "optimism", "base"];
+
+function pendleChainId(chainId: string): number | undefined {
+  return PENDLE_CHAINS.includes(chainId) ? getEvmChainId(chainId) : undefined;
+}
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class PendlePlugin implements DefiPlugin {
   readonly name = "pendle";
   readonly description = "Pendle Finance: yield trading markets, PT/YT prices, fixed yield opportunities";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["yield"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -37,32 +39,33 @@ export class PendlePlugin implements DefiPlugin {
   private marketsTool(): ToolDefinition {
     return {
       name: "defi_pendle_markets",
-      description: `List Pendle yield trading markets with implied APY, underlying APY, maturity, TVL. Buy PT for fixed yield, buy YT for leveraged yield exposure. Supported chains: ${Object.keys(CHAIN_MAP).join(", ")}.`,
+      capabilities: ["read", "external-api"],
+      description: `List Pendle yield trading markets with implied APY, underlying APY, maturity, TVL. Buy PT for fixed yield, buy YT for leveraged yield exposure. Supported chains: ${PENDLE_CHAINS.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema.optional().describe("Filter by chain. Omit for all chains."),
         limit: z.number().int().min(1).max(50).optional().describe("Number of results (default 20)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, limit = 20 } = input as { chainId?: string; limit?: number };
 
           let url = `${PENDLE_API}/v1/sdk/markets?limit=${limit}&order_by=tvl&is_expired=false`;
           if (chainId) {
-            const numericId = CHAIN_MAP[chainId];
-            if (!numericId) return errorResult(`Pendle not available on "${chainId}". Supported: ${Object.keys(CHAIN_MAP).join(", ")}`);
+            const numericId = pendleChainId(chainId);
+            if (!numericId) return errorResult(new UnsupportedChainForToolError("Pendle", chainId, PENDLE_CHAINS));
             url += `&chain_id=${numericId}`;
           }
 
-          const res = await fetch(url);
+          const res = await context.http.fetch(url);
           if (!res.ok) {
             // Fallback to the free markets endpoint
-            const fallbackRes = await fetch(`${PENDLE_API}/v1/sdk/markets/all`);
+            const fallbackRes = await context.http.fetch(`${PENDLE_API}/v1/sdk/markets/all`);
             if (!fallbackRes.ok) throw new Error(`Pendle API ${fallbackRes.status}`);
             const allData = await fallbackRes.json();
 
             let markets = (allData.results || allData || []) as any[];
             if (chainId) {
-              const numericId = CHAIN_MAP[chainId];
+              const numericId = pendleChainId(chainId);
               markets = markets.filter((m: any) => m.chainId === numericId);
             }
 
@@ -102,7 +105,7 @@ export class PendlePlugin implements DefiPlugin {
 
           return jsonResult({ count: markets.length, markets });
         } catch (e: any) {
-          return errorResult(`Failed to fetch Pendle markets: ${e.message}`);
+          return errorResult(e, "Failed to fetch Pendle markets");
         }
       },
     };
@@ -111,23 +114,24 @@ export class PendlePlugin implements DefiPlugin {
   private assetsTool(): ToolDefinition {
     return {
       name: "defi_pendle_assets",
+      capabilities: ["read", "external-api"],
       description: "List all Pendle PT, YT, and SY assets with current prices.",
       inputSchema: z.object({
         chainId: ChainIdSchema.optional().describe("Filter by chain. Omit for all."),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId } = input as { chainId?: string };
 
-          const res = await fetch(`${PENDLE_API}/v1/sdk/assets/all`);
+          const res = await context.http.fetch(`${PENDLE_API}/v1/sdk/assets/all`);
           if (!res.ok) throw new Error(`Pendle API ${res.status}`);
           const data = await res.json();
 
           let assets = (data.results || data || []) as any[];
 
           if (chainId) {
-            const numericId = CHAIN_MAP[chainId];
-            if (!numericId) return errorResult(`Pendle not available on "${chainId}"`);
+            const numericId = pendleChainId(chainId);
+            if (!numericId) return errorResult(new UnsupportedChainForToolError("Pendle", chainId, PENDLE_CHAINS));
             assets = assets.filter((a: any) => a.chainId === numericId);
           }
 
@@ -143,7 +147,7 @@ export class PendlePlugin implements DefiPlugin {
 
           return jsonResult({ count: formatted.length, assets: formatted });
         } catch (e: any) {
-          return errorResult(`Failed to fetch Pendle assets: ${e.message}`);
+          return errorResult(e, "Failed to fetch Pendle assets");
         }
       },
     };
@@ -3,19 +3,18 @@ import { encodeFunctionData, getAddress, maxUint256 } from "viem";
 import type {
   DefiPlugin,
   PluginContext,
+  ResourceDefinition,
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema, AmountSchema } from "../../tools/schemas.js";
 import { parseTokenAmount } from "../../core/utils.js";
+import { getEvmChainIds } from "../../chains/registry.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
 
 // Permit2 canonical address (same on all EVM chains)
 const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
 
-const SUPPORTED = [
-  "ethereum", "arbitrum", "optimism", "polygon", "base", "avalanche", "bsc",
-];
-
 const PERMIT2_APPROVE_ABI = [
   {
     name: "approve",
@@ -34,18 +33,29 @@ const PERMIT2_APPROVE_ABI = [
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class Permit2Plugin implements DefiPlugin {
   readonly name = "permit2";
   readonly description =
     "Uniswap Permit2: gasless token approvals and allowance management";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["trading", "wallet"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
+  getResources(): ResourceDefinition[] {
+    return [
+      {
+        name: "permit2-addresses",
+        uri: "defi://protocols/permit2",
+        description: "Permit2 contract address, the same on every EVM chain",
+        read: () => ({ address: PERMIT2_ADDRESS, chains: getEvmChainIds() }),
+      },
+    ];
+  }
+
   getTools(): ToolDefinition[] {
     return [this.approvePermit2Tool(), this.permit2AllowanceTool()];
   }
@@ -53,7 +63,8 @@ export class Permit2Plugin implements DefiPlugin {
   private approvePermit2Tool(): ToolDefinition {
     return {
       name: "defi_permit2_approve_tx",
-      description: `Build an unsigned transaction to set a Permit2 allowance for a spender. Permit2 is used by Uniswap and many modern DeFi protocols for more gas-efficient approvals. First approve the token for Permit2, then use this to set per-protocol allowances. Supported chains: ${SUPPORTED.join(", ")}.`,
+      capabilities: ["builds-tx"],
+      description: `Build an unsigned transaction to set a Permit2 allowance for a spender. Permit2 is used by Uniswap and many modern DeFi protocols for more gas-efficient approvals. First approve the token for Permit2, then use this to set per-protocol allowances. Supported chains: ${getEvmChainIds().join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
         tokenAddress: AddressSchema.describe("ERC20 token to approve"),
@@ -69,8 +80,8 @@ export class Permit2Plugin implements DefiPlugin {
             amount?: string; expirationDays?: number; userAddress: string;
           };
 
-          if (!SUPPORTED.includes(chainId)) {
-            return errorResult(`Permit2 not available on "${chainId}". Supported: ${SUPPORTED.join(", ")}`);
+          if (!getEvmChainIds().includes(chainId)) {
+            return errorResult(new UnsupportedChainForToolError("Permit2", chainId, getEvmChainIds()));
           }
 
           const adapter = context.getChainAdapterForChain(chainId);
@@ -111,7 +122,7 @@ export class Permit2Plugin implements DefiPlugin {
             note: `Make sure the token (${tokenAddress}) is first approved for the Permit2 contract (${PERMIT2_ADDRESS}) via defi_token_approve`,
           });
         } catch (e: any) {
-          return errorResult(`Failed to build Permit2 approve tx: ${e.message}`);
+          return errorResult(e, "Failed to build Permit2 approve tx");
         }
       },
     };
@@ -120,7 +131,7 @@ export class Permit2Plugin implements DefiPlugin {
   private permit2AllowanceTool(): ToolDefinition {
     return {
       name: "defi_permit2_allowance",
-      description: `Check the current Permit2 allowance for a token/spender pair. Shows the approved amount and expiration. Supported chains: ${SUPPORTED.join(", ")}.`,
+      description: `Check the current Permit2 allowance for a token/spender pair. Shows the approved amount and expiration. Supported chains: ${getEvmChainIds().join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
         tokenAddress: AddressSchema.describe("ERC20 token address"),
@@ -133,17 +144,15 @@ export class Permit2Plugin implements DefiPlugin {
             chainId: string; tokenAddress: string; owner: string; spender: string;
           };
 
-          if (!SUPPORTED.includes(chainId)) {
-            return errorResult(`Permit2 not available on "${chainId}"`);
+          if (!getEvmChainIds().includes(chainId)) {
+            return errorResult(new UnsupportedChainForToolError("Permit2", chainId, getEvmChainIds()));
           }
 
           const adapter = context.getChainAdapterForChain(chainId);
           const chain = adapter.getChain(chainId);
           if (!chain) return errorResult(`Chain "${chainId}" not found`);
 
-          const { createPublicClient, http } = await import("viem");
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
 
           const allowanceAbi = [{
             name: "allowance",
@@ -188,7 +197,7 @@ export class Permit2Plugin implements DefiPlugin {
             nonce: Number(nonce),
           });
         } catch (e: any) {
-          return errorResult(`Failed to check Permit2 allowance: ${e.message}`);
+          return errorResult(e, "Failed to check Permit2 allowance");
         }
       },
     };
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { encodeFunctionData, parseUnits } from "viem";
+import { encodeFunctionData } from "viem";
 import { BasePlugin } from "../../core/base-plugin.js";
 import type { ToolDefinition, PluginContext, ToolResult } from "../../core/types.js";
 import { AddressSchema, AmountSchema } from "../../tools/schemas.js";
@@ -13,17 +13,22 @@ import {
   POLYMARKET_CHAIN_ID,
 } from "./addresses.js";
 import { CTF_ABI } from "./abi.js";
+import { parseTokenAmount } from "../../core/utils.js";
 
 export class PolymarketPlugin extends BasePlugin {
   readonly name = "polymarket";
   readonly description =
     "Polymarket prediction markets: browse markets, view positions, get quotes, and build transactions";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["prediction-markets"],
+  };
 
   getTools(): ToolDefinition[] {
     return [
       {
         name: "defi_polymarket_markets",
+        capabilities: ["read", "external-api"],
         description:
           "List active Polymarket prediction markets with current odds, volume, and end dates. Optionally filter by search query.",
         inputSchema: z.object({
@@ -39,7 +44,7 @@ export class PolymarketPlugin extends BasePlugin {
             .optional()
             .describe("Number of events to return (default 10)"),
         }),
-        handler: async (input: unknown): Promise<ToolResult> => {
+        handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
           const { query, limit = 10 } = input as {
             query?: string;
             limit?: number;
@@ -54,7 +59,7 @@ export class PolymarketPlugin extends BasePlugin {
           });
           if (query) params.set("tag", query);
 
-          const res = await fetch(`${GAMMA_API}/events?${params}`);
+          const res = await context.http.fetch(`${GAMMA_API}/events?${params}`);
           if (!res.ok) throw new Error(`Gamma API error: ${res.status}`);
           const events = await res.json();
 
@@ -84,15 +89,17 @@ export class PolymarketPlugin extends BasePlugin {
       },
       {
         name: "defi_polymarket_positions",
+        capabilities: ["read", "external-api"],
         description:
           "Get a wallet's Polymarket positions including market title, outcome, size, entry price, and P&L.",
+        sessionDefaults: { address: "wallet" },
         inputSchema: z.object({
           address: AddressSchema.describe("Wallet address to check positions for"),
         }),
-        handler: async (input: unknown): Promise<ToolResult> => {
+        handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
           const { address } = input as { address: string };
 
-          const res = await fetch(
+          const res = await context.http.fetch(
             `${DATA_API}/positions?user=${address.toLowerCase()}`
           );
           if (!res.ok) throw new Error(`Data API error: ${res.status}`);
@@ -124,6 +131,7 @@ export class PolymarketPlugin extends BasePlugin {
       },
       {
         name: "defi_polymarket_quote",
+        capabilities: ["read", "external-api"],
         description:
           "Get the current price for a Polymarket outcome token. Returns price per share (0-1) representing probability.",
         inputSchema: z.object({
@@ -132,13 +140,13 @@ export class PolymarketPlugin extends BasePlugin {
             .describe("Outcome token ID (from defi_polymarket_markets clobTokenIds)"),
           side: z.enum(["BUY", "SELL"]).describe("Whether to buy or sell the outcome token"),
         }),
-        handler: async (input: unknown): Promise<ToolResult> => {
+        handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
           const { tokenId, side } = input as {
             tokenId: string;
             side: "BUY" | "SELL";
           };
 
-          const res = await fetch(
+          const res = await context.http.fetch(
             `${CLOB_API}/price?token_id=${tokenId}&side=${side}`
           );
           if (!res.ok) throw new Error(`CLOB API error: ${res.status}`);
@@ -154,6 +162,7 @@ export class PolymarketPlugin extends BasePlugin {
       },
       {
         name: "defi_polymarket_build_tx",
+        capabilities: ["builds-tx"],
         description:
           "Build an unsigned transaction to split USDC into YES and NO outcome tokens on Polymarket. This converts USDC into equal amounts of YES and NO tokens for a market. You can then sell the unwanted side.",
         inputSchema: z.object({
@@ -170,7 +179,7 @@ export class PolymarketPlugin extends BasePlugin {
             userAddress: string;
           };
 
-          const rawAmount = parseUnits(amount, USDC_E_DECIMALS);
+          const rawAmount = BigInt(parseTokenAmount(amount, USDC_E_DECIMALS));
 
           const data = encodeFunctionData({
             abi: CTF_ABI,
@@ -194,6 +203,7 @@ export class PolymarketPlugin extends BasePlugin {
               value: "0x0",
               chainId: 137,
             },
+            outflows: [{ token: USDC_E_ADDRESS, amount: rawAmount.toString() }],
             note: `Make sure USDC.e (${USDC_E_ADDRESS}) is approved for ${CTF_ADDRESS} first (use defi_token_approve)`,
           });
         },
@@ -9,24 +9,26 @@ import type {
 } from "../../core/types.js";
 import { AddressSchema } from "../../tools/schemas.js";
 import { CoinGeckoClient } from "../token-info/coingecko.js";
+import { Decimal } from "../../core/amount.js";
 
 export class PortfolioPlugin implements DefiPlugin {
   readonly name = "portfolio";
   readonly description = "Cross-chain portfolio overview";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["wallet"],
+  };
 
-  private coingecko!: CoinGeckoClient;
-
-  async initialize(context: PluginContext): Promise<void> {
-    this.coingecko = new CoinGeckoClient(context.config.apiKeys.coingecko);
-  }
+  async initialize(_context: PluginContext): Promise<void> {}
 
   getTools(): ToolDefinition[] {
     return [
       {
         name: "defi_portfolio",
+        capabilities: ["read", "external-api"],
         description:
           "Get a portfolio overview for a wallet address across multiple chains. Pass the address and which chains to check. Returns native token balances with USD values.",
+        sessionDefaults: { address: "wallet" },
         inputSchema: z.object({
           address: AddressSchema.describe("Wallet address to check"),
           chainIds: z
@@ -47,11 +49,14 @@ export class PortfolioPlugin implements DefiPlugin {
 
           const allChains = context.getAllChains();
 
-          // Determine which chains to check
+          // Determine which chains to check, falling back to the configured defaults
+          const requested = chainIds?.length
+            ? chainIds
+            : context.config.plugins[this.name]?.defaultChains;
           let chainsToCheck: ChainInfo[];
-          if (chainIds && chainIds.length > 0) {
+          if (requested && requested.length > 0) {
             chainsToCheck = allChains.filter((c) =>
-              chainIds.includes(c.id)
+              requested.includes(c.id)
             );
           } else {
             // Auto-detect based on address format
@@ -102,8 +107,11 @@ export class PortfolioPlugin implements DefiPlugin {
           ];
           let priceMap: Record<string, number> = {};
           try {
-            const priceData =
-              await this.coingecko.getPricesByIds(uniqueIds);
+            const coingecko = new CoinGeckoClient(
+              context.http,
+              context.apiKeys.coingecko
+            );
+            const priceData = await coingecko.getPricesByIds(uniqueIds);
             for (const [id, data] of Object.entries(priceData)) {
               priceMap[id] = data.usd;
             }
@@ -111,7 +119,7 @@ export class PortfolioPlugin implements DefiPlugin {
             // Price lookup failed, continue without USD values
           }
 
-          let totalUsd = 0;
+          let totalUsd = Decimal.ZERO;
 
           for (const result of balances) {
             if (!result) continue;
@@ -120,10 +128,10 @@ export class PortfolioPlugin implements DefiPlugin {
               chain.nativeToken.coingeckoId
                 ? priceMap[chain.nativeToken.coingeckoId]
                 : undefined;
-            const balanceNum = parseFloat(balance.balanceFormatted);
-            const usdValue = usdPrice ? balanceNum * usdPrice : undefined;
+            const amount = Decimal.from(balance.balanceFormatted);
+            const usdValue = usdPrice ? amount.times(usdPrice) : undefined;
 
-            if (usdValue !== undefined) totalUsd += usdValue;
+            if (usdValue !== undefined) totalUsd = totalUsd.plus(usdValue);
 
             results.push({
               chain: chain.name,
@@ -140,10 +148,10 @@ export class PortfolioPlugin implements DefiPlugin {
             address,
             totalValueUsd: `$${totalUsd.toFixed(2)}`,
             chains: results.filter(
-              (r) => parseFloat(r.balance) > 0
+              (r) => !Decimal.from(r.balance).isZero()
             ),
             emptyChains: results
-              .filter((r) => parseFloat(r.balance) === 0)
+              .filter((r) => Decimal.from(r.balance).isZero())
               .map((r) => r.chainId),
           };
 
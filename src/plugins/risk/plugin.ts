@@ -6,24 +6,22 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema } from "../../tools/schemas.js";
+import { getEvmChainId, getEvmChainIds } from "../../chains/registry.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
+import { Decimal } from "../../core/amount.js";
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
-
-const CHAIN_ID_MAP: Record<string, number> = {
-  ethereum: 1, polygon: 137, arbitrum: 42161, base: 8453,
-  optimism: 10, avalanche: 43114, bsc: 56,
-};
 
 export class RiskPlugin implements DefiPlugin {
   readonly name = "risk";
   readonly description =
     "DeFi risk assessment: protocol risk scoring, token risk analysis, and pre-trade safety checks";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["security", "trading"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -38,6 +36,7 @@ export class RiskPlugin implements DefiPlugin {
   private protocolRiskTool(): ToolDefinition {
     return {
       name: "defi_protocol_risk",
+      capabilities: ["read", "external-api"],
       description:
         "Assess the risk of a DeFi protocol by analyzing TVL, age, audit status, and chain presence. Uses DefiLlama data. Always check protocol risk before recommending a user interact with it.",
       inputSchema: z.object({
@@ -47,11 +46,11 @@ export class RiskPlugin implements DefiPlugin {
             'DefiLlama protocol slug (e.g. "aave-v3", "uniswap-v3", "lido")'
           ),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { protocolSlug } = input as { protocolSlug: string };
 
-          const res = await fetch(
+          const res = await context.http.fetch(
             `https://api.llama.fi/protocol/${protocolSlug}`
           );
           if (!res.ok) throw new Error(`DefiLlama ${res.status}`);
@@ -147,7 +146,7 @@ export class RiskPlugin implements DefiPlugin {
             url: data.url,
           });
         } catch (e: any) {
-          return errorResult(`Risk assessment failed: ${e.message}`);
+          return errorResult(e, "Risk assessment failed");
         }
       },
     };
@@ -173,6 +172,7 @@ export class RiskPlugin implements DefiPlugin {
   private preTradeCheckTool(): ToolDefinition {
     return {
       name: "defi_pre_trade_check",
+      capabilities: ["read", "external-api"],
       description:
         "Run a comprehensive pre-trade safety check on a token before swapping. Checks token security (honeypot, taxes, proxy), liquidity depth, and contract verification. ALWAYS run this before recommending a swap to/from an unfamiliar token.",
       inputSchema: z.object({
@@ -189,16 +189,16 @@ export class RiskPlugin implements DefiPlugin {
             tokenAddress: string;
           };
 
-          const numericChainId = CHAIN_ID_MAP[chainId];
+          const numericChainId = getEvmChainId(chainId);
           if (!numericChainId)
-            return errorResult(`Pre-trade check not available on "${chainId}"`);
+            return errorResult(new UnsupportedChainForToolError("Pre-trade check", chainId, getEvmChainIds()));
 
           // Parallel: GoPlus security check + DexScreener liquidity check
           const [securityRes, dexRes] = await Promise.allSettled([
-            fetch(
+            context.http.fetch(
               `https://api.gopluslabs.io/api/v1/token_security/${numericChainId}?contract_addresses=${tokenAddress}`
             ).then((r) => r.json()),
-            fetch(
+            context.http.fetch(
               `https://api.dexscreener.com/latest/dex/tokens/${tokenAddress}`
             ).then((r) => r.json()),
           ]);
@@ -223,14 +223,15 @@ export class RiskPlugin implements DefiPlugin {
             if (sec.is_anti_whale === "1")
               warnings.push("Anti-whale limits in place");
 
-            const buyTax = parseFloat(sec.buy_tax || "0") * 100;
-            const sellTax = parseFloat(sec.sell_tax || "0") * 100;
-            if (buyTax > 5) issues.push(`High buy tax: ${buyTax.toFixed(1)}%`);
-            else if (buyTax > 0)
+            // GoPlus reports taxes as fractions, e.g. "0.05"
+            const buyTax = (Decimal.tryFrom(sec.buy_tax) ?? Decimal.ZERO).times(100);
+            const sellTax = (Decimal.tryFrom(sec.sell_tax) ?? Decimal.ZERO).times(100);
+            if (buyTax.gt(5)) issues.push(`High buy tax: ${buyTax.toFixed(1)}%`);
+            else if (buyTax.gt(0))
               warnings.push(`Buy tax: ${buyTax.toFixed(1)}%`);
-            if (sellTax > 5)
+            if (sellTax.gt(5))
               issues.push(`High sell tax: ${sellTax.toFixed(1)}%`);
-            else if (sellTax > 0)
+            else if (sellTax.gt(0))
               warnings.push(`Sell tax: ${sellTax.toFixed(1)}%`);
 
             if (sec.is_open_source === "0")
@@ -296,7 +297,7 @@ export class RiskPlugin implements DefiPlugin {
             },
           });
         } catch (e: any) {
-          return errorResult(`Pre-trade check failed: ${e.message}`);
+          return errorResult(e, "Pre-trade check failed");
         }
       },
     };
@@ -332,13 +333,14 @@ export class RiskPlugin implements DefiPlugin {
           const adapter = context.getChainAdapterForChain(chainId);
           const chain = adapter.getChain(chainId);
           if (!chain || chain.ecosystem !== "evm") {
-            return errorResult("Approval audit only supported on EVM chains");
+            return errorResult(
+              new UnsupportedChainForToolError("Approval audit", chainId, getEvmChainIds())
+            );
           }
 
-          const { createPublicClient, http, getAddress, maxUint256 } =
+          const { getAddress, maxUint256 } =
             await import("viem");
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
 
           // Known safe spenders (major DEX routers, lending protocols)
           const KNOWN_SAFE: Record<string, string> = {
@@ -459,7 +461,7 @@ export class RiskPlugin implements DefiPlugin {
             ],
           });
         } catch (e: any) {
-          return errorResult(`Approval audit failed: ${e.message}`);
+          return errorResult(e, "Approval audit failed");
         }
       },
     };
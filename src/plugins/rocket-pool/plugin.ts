@@ -1,12 +1,7 @@
 import { z } from "zod";
 import {
-  createPublicClient,
-  http,
   getAddress,
   encodeFunctionData,
-  parseEther,
-  parseUnits,
-  formatUnits,
 } from "viem";
 import type {
   DefiPlugin,
@@ -21,18 +16,22 @@ import {
   RETH_ABI,
   DEPOSIT_POOL_ABI,
 } from "./abi.js";
+import { errorResult } from "../../core/errors.js";
+import { Decimal } from "../../core/amount.js";
+import { NATIVE_TOKEN_ADDRESS } from "../../chains/evm/chains.js";
+import { parseTokenAmount } from "../../core/utils.js";
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class RocketPoolPlugin implements DefiPlugin {
   readonly name = "rocket-pool";
   readonly description = "Rocket Pool: stake ETH for rETH, check exchange rate, unstake";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["staking"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -43,14 +42,13 @@ export class RocketPoolPlugin implements DefiPlugin {
   private infoTool(): ToolDefinition {
     return {
       name: "defi_rocketpool_info",
+      capabilities: ["read", "external-api"],
       description:
         "Get Rocket Pool rETH exchange rate, total collateral, and current APR. Ethereum only.",
       inputSchema: z.object({}),
       handler: async (_input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
-          const chain = context.getChainAdapterForChain("ethereum").getChain("ethereum")!;
-          const rpcUrl = context.config.rpcUrls["ethereum"] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient("ethereum");
 
           const [exchangeRate, totalCollateral] = await Promise.all([
             client.readContract({
@@ -65,13 +63,13 @@ export class RocketPoolPlugin implements DefiPlugin {
             }),
           ]);
 
-          const rate = Number(formatUnits(exchangeRate, 18));
-          const collateral = Number(formatUnits(totalCollateral, 18));
+          const rate = Decimal.fromUnits(exchangeRate, 18);
+          const collateral = Decimal.fromUnits(totalCollateral, 18);
 
           // Estimate APR from exchange rate growth (~3-4% historically)
           let apr = "~3.5%";
           try {
-            const res = await fetch("https://rocketpool.net/api/mainnet/payload");
+            const res = await context.http.fetch("https://rocketpool.net/api/mainnet/payload");
             if (res.ok) {
               const data = await res.json();
               if (data.rethAPR) apr = `${Number(data.rethAPR).toFixed(2)}%`;
@@ -87,7 +85,7 @@ export class RocketPoolPlugin implements DefiPlugin {
             apr,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch Rocket Pool info: ${e.message}`);
+          return errorResult(e, "Failed to fetch Rocket Pool info");
         }
       },
     };
@@ -96,6 +94,7 @@ export class RocketPoolPlugin implements DefiPlugin {
   private stakeTxTool(): ToolDefinition {
     return {
       name: "defi_rocketpool_stake_tx",
+      capabilities: ["builds-tx"],
       description:
         "Build an unsigned transaction to stake ETH via Rocket Pool and receive rETH. Ethereum only.",
       inputSchema: z.object({
@@ -105,7 +104,7 @@ export class RocketPoolPlugin implements DefiPlugin {
       handler: async (input: unknown): Promise<ToolResult> => {
         const { amount, userAddress } = input as { amount: string; userAddress: string };
         const user = getAddress(userAddress);
-        const value = parseEther(amount);
+        const value = BigInt(parseTokenAmount(amount, 18));
 
         const data = encodeFunctionData({
           abi: DEPOSIT_POOL_ABI,
@@ -122,6 +121,7 @@ export class RocketPoolPlugin implements DefiPlugin {
             from: user,
           },
           description: `Stake ${amount} ETH via Rocket Pool → receive rETH`,
+          outflows: [{ token: NATIVE_TOKEN_ADDRESS, amount: value.toString() }],
         });
       },
     };
@@ -130,6 +130,7 @@ export class RocketPoolPlugin implements DefiPlugin {
   private unstakeTxTool(): ToolDefinition {
     return {
       name: "defi_rocketpool_unstake_tx",
+      capabilities: ["builds-tx"],
       description:
         "Build an unsigned transaction to burn rETH and receive ETH back from Rocket Pool. Ethereum only.",
       inputSchema: z.object({
@@ -139,7 +140,7 @@ export class RocketPoolPlugin implements DefiPlugin {
       handler: async (input: unknown): Promise<ToolResult> => {
         const { amount, userAddress } = input as { amount: string; userAddress: string };
         const user = getAddress(userAddress);
-        const rawAmount = parseUnits(amount, 18);
+        const rawAmount = BigInt(parseTokenAmount(amount, 18));
 
         const data = encodeFunctionData({
           abi: RETH_ABI,
@@ -157,6 +158,7 @@ export class RocketPoolPlugin implements DefiPlugin {
             from: user,
           },
           description: `Burn ${amount} rETH → receive ETH`,
+          outflows: [{ token: RETH_ADDRESS, amount: rawAmount.toString() }],
         });
       },
     };
@@ -6,6 +6,7 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema } from "../../tools/schemas.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
 
 const SAFE_API_MAP: Record<string, string> = {
   ethereum: "https://safe-transaction-mainnet.safe.global/api/v1",
@@ -20,14 +21,14 @@ const SAFE_API_MAP: Record<string, string> = {
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class SafePlugin implements DefiPlugin {
   readonly name = "safe";
   readonly description = "Gnosis Safe multisig: wallet info, pending transactions, balances";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["wallet"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -38,18 +39,19 @@ export class SafePlugin implements DefiPlugin {
   private infoTool(): ToolDefinition {
     return {
       name: "defi_safe_info",
+      capabilities: ["read", "external-api"],
       description: `Get Safe multisig wallet info: owners, threshold, nonce, modules. Supported chains: ${Object.keys(SAFE_API_MAP).join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
         safeAddress: AddressSchema.describe("Safe multisig address"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, safeAddress } = input as { chainId: string; safeAddress: string };
           const api = SAFE_API_MAP[chainId];
-          if (!api) return errorResult(`Safe not available on "${chainId}"`);
+          if (!api) return errorResult(new UnsupportedChainForToolError("Safe", chainId, Object.keys(SAFE_API_MAP)));
 
-          const res = await fetch(`${api}/safes/${safeAddress}/`);
+          const res = await context.http.fetch(`${api}/safes/${safeAddress}/`);
           if (!res.ok) throw new Error(`Safe API ${res.status}`);
           const data = await res.json();
 
@@ -64,7 +66,7 @@ export class SafePlugin implements DefiPlugin {
             version: data.version,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch Safe info: ${e.message}`);
+          return errorResult(e, "Failed to fetch Safe info");
         }
       },
     };
@@ -73,6 +75,7 @@ export class SafePlugin implements DefiPlugin {
   private transactionsTool(): ToolDefinition {
     return {
       name: "defi_safe_transactions",
+      capabilities: ["read", "external-api"],
       description:
         "List pending and recent transactions for a Safe multisig wallet.",
       inputSchema: z.object({
@@ -80,18 +83,18 @@ export class SafePlugin implements DefiPlugin {
         safeAddress: AddressSchema.describe("Safe multisig address"),
         limit: z.number().int().min(1).max(20).optional().describe("Number of results (default 10)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, safeAddress, limit = 10 } = input as {
             chainId: string; safeAddress: string; limit?: number;
           };
           const api = SAFE_API_MAP[chainId];
-          if (!api) return errorResult(`Safe not available on "${chainId}"`);
+          if (!api) return errorResult(new UnsupportedChainForToolError("Safe", chainId, Object.keys(SAFE_API_MAP)));
 
           // Get pending (queued) transactions
           const [queuedRes, historyRes] = await Promise.all([
-            fetch(`${api}/safes/${safeAddress}/multisig-transactions/?executed=false&limit=${limit}`),
-            fetch(`${api}/safes/${safeAddress}/multisig-transactions/?executed=true&limit=${limit}`),
+            context.http.fetch(`${api}/safes/${safeAddress}/multisig-transactions/?executed=false&limit=${limit}`),
+            context.http.fetch(`${api}/safes/${safeAddress}/multisig-transactions/?executed=true&limit=${limit}`),
           ]);
 
           const queued = queuedRes.ok ? await queuedRes.json() : { results: [] };
@@ -117,7 +120,7 @@ export class SafePlugin implements DefiPlugin {
             recent: (history.results || []).slice(0, limit).map(formatTx),
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch Safe transactions: ${e.message}`);
+          return errorResult(e, "Failed to fetch Safe transactions");
         }
       },
     };
@@ -126,18 +129,19 @@ export class SafePlugin implements DefiPlugin {
   private balancesTool(): ToolDefinition {
     return {
       name: "defi_safe_balances",
+      capabilities: ["read", "external-api"],
       description: "Get token balances for a Safe multisig wallet with USD values.",
       inputSchema: z.object({
         chainId: ChainIdSchema,
         safeAddress: AddressSchema.describe("Safe multisig address"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, safeAddress } = input as { chainId: string; safeAddress: string };
           const api = SAFE_API_MAP[chainId];
-          if (!api) return errorResult(`Safe not available on "${chainId}"`);
+          if (!api) return errorResult(new UnsupportedChainForToolError("Safe", chainId, Object.keys(SAFE_API_MAP)));
 
-          const res = await fetch(`${api}/safes/${safeAddress}/balances/usd/`);
+          const res = await context.http.fetch(`${api}/safes/${safeAddress}/balances/usd/`);
           if (!res.ok) throw new Error(`Safe API ${res.status}`);
           const data = await res.json();
 
@@ -160,7 +164,7 @@ export class SafePlugin implements DefiPlugin {
             balances,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch Safe balances: ${e.message}`);
+          return errorResult(e, "Failed to fetch Safe balances");
         }
       },
     };
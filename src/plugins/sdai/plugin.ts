@@ -1,11 +1,7 @@
 import { z } from "zod";
 import {
-  createPublicClient,
-  http,
   getAddress,
   encodeFunctionData,
-  parseUnits,
-  formatUnits,
   maxUint256,
 } from "viem";
 import type {
@@ -15,6 +11,9 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { AddressSchema, AmountSchema } from "../../tools/schemas.js";
+import { errorResult } from "../../core/errors.js";
+import { Decimal } from "../../core/amount.js";
+import { parseTokenAmount } from "../../core/utils.js";
 
 const SDAI_ADDRESS: `0x${string}` = "0x83F20F44975D03b1b09e64809B757c47f942BEeA";
 const DAI_ADDRESS: `0x${string}` = "0x6B175474E89094C44Da98b954EedeB131715A767";
@@ -71,14 +70,14 @@ const SDAI_ABI = [
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class SDaiPlugin implements DefiPlugin {
   readonly name = "sdai";
   readonly description = "MakerDAO/Sky sDAI: earn DAI Savings Rate by depositing DAI into sDAI";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["yield"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -94,9 +93,7 @@ export class SDaiPlugin implements DefiPlugin {
       inputSchema: z.object({}),
       handler: async (_input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
-          const chain = context.getChainAdapterForChain("ethereum").getChain("ethereum")!;
-          const rpcUrl = context.config.rpcUrls["ethereum"] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient("ethereum");
 
           const [totalAssets, rateRaw] = await Promise.all([
             client.readContract({
@@ -108,12 +105,12 @@ export class SDaiPlugin implements DefiPlugin {
               address: SDAI_ADDRESS,
               abi: SDAI_ABI,
               functionName: "convertToAssets",
-              args: [parseUnits("1", 18)],
+              args: [10n ** 18n],
             }),
           ]);
 
-          const exchangeRate = Number(formatUnits(rateRaw, 18));
-          const tvl = Number(formatUnits(totalAssets, 18));
+          const exchangeRate = Decimal.fromUnits(rateRaw, 18);
+          const tvl = Decimal.fromUnits(totalAssets, 18);
 
           return jsonResult({
             protocol: "MakerDAO / Sky",
@@ -125,7 +122,7 @@ export class SDaiPlugin implements DefiPlugin {
             note: "Deposit DAI to receive sDAI and earn the DAI Savings Rate automatically",
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch sDAI info: ${e.message}`);
+          return errorResult(e, "Failed to fetch sDAI info");
         }
       },
     };
@@ -134,6 +131,7 @@ export class SDaiPlugin implements DefiPlugin {
   private depositTxTool(): ToolDefinition {
     return {
       name: "defi_sdai_deposit_tx",
+      capabilities: ["builds-tx"],
       description:
         "Build an unsigned transaction to deposit DAI into sDAI and earn the DAI Savings Rate. DAI must be approved for sDAI first (use defi_token_approve). Ethereum only.",
       inputSchema: z.object({
@@ -143,7 +141,7 @@ export class SDaiPlugin implements DefiPlugin {
       handler: async (input: unknown): Promise<ToolResult> => {
         const { amount, userAddress } = input as { amount: string; userAddress: string };
         const user = getAddress(userAddress);
-        const rawAmount = parseUnits(amount, 18);
+        const rawAmount = BigInt(parseTokenAmount(amount, 18));
 
         const data = encodeFunctionData({
           abi: SDAI_ABI,
@@ -156,6 +154,7 @@ export class SDaiPlugin implements DefiPlugin {
           ecosystem: "evm",
           raw: { to: SDAI_ADDRESS, data, value: "0x0", from: user },
           description: `Deposit ${amount} DAI → receive sDAI (earning DSR)`,
+          outflows: [{ token: DAI_ADDRESS, amount: rawAmount.toString() }],
           note: `Approve DAI for ${SDAI_ADDRESS} first (use defi_token_approve with tokenAddress=${DAI_ADDRESS} and spender=${SDAI_ADDRESS})`,
         });
       },
@@ -165,6 +164,7 @@ export class SDaiPlugin implements DefiPlugin {
   private withdrawTxTool(): ToolDefinition {
     return {
       name: "defi_sdai_withdraw_tx",
+      capabilities: ["builds-tx"],
       description:
         'Build an unsigned transaction to redeem sDAI and receive DAI back. Use amount "max" to redeem all. Ethereum only.',
       inputSchema: z.object({
@@ -184,7 +184,7 @@ export class SDaiPlugin implements DefiPlugin {
             args: [maxUint256, user, user],
           });
         } else {
-          const rawAmount = parseUnits(amount, 18);
+          const rawAmount = BigInt(parseTokenAmount(amount, 18));
           data = encodeFunctionData({
             abi: SDAI_ABI,
             functionName: "withdraw",
@@ -197,6 +197,7 @@ export class SDaiPlugin implements DefiPlugin {
           ecosystem: "evm",
           raw: { to: SDAI_ADDRESS, data, value: "0x0", from: user },
           description: `Withdraw ${isMax ? "all" : amount} DAI from sDAI`,
+          outflows: [],
         });
       },
     };
@@ -0,0 +1,49 @@
+import type { HttpClient } from "../../core/http-client.js";
+import { getEvmChainId } from "../../chains/registry.js";
+
+export const GOPLUS_API = "https://api.gopluslabs.io/api/v1";
+
+const ADDRESS_RISK_FLAGS: Record<string, string> = {
+  phishing_activities: "Phishing activities",
+  blackmail_activities: "Blackmail activities",
+  stealing_attack: "Stealing attack",
+  cybercrime: "Cybercrime",
+  money_laundering: "Money laundering",
+  financial_crime: "Financial crime",
+  darkweb_transactions: "Darkweb transactions",
+  sanctioned: "SANCTIONED address",
+  honeypot_related_address: "Honeypot related",
+  fake_kyc: "Fake KYC",
+};
+
+export interface AddressSecurity {
+  /** Malicious activity GoPlus associates with the address, empty if none */
+  risks: string[];
+  isContract: boolean;
+  dataSource: string;
+}
+
+/** Look up an address in GoPlus' malicious address database */
+export async function getAddressSecurity(
+  http: HttpClient,
+  address: string,
+  chainId?: string
+): Promise<AddressSecurity> {
+  const numericId = chainId ? getEvmChainId(chainId) || chainId : undefined;
+  const params = numericId ? `?chain_id=${numericId}` : "";
+
+  const res = await http.fetch(`${GOPLUS_API}/address_security/${address}${params}`);
+  if (!res.ok) throw new Error(`GoPlus API ${res.status}`);
+  const data = await res.json();
+
+  if (data.code !== 1) throw new Error(data.message || "API error");
+
+  const info = data.result || {};
+  return {
+    risks: Object.entries(ADDRESS_RISK_FLAGS)
+      .filter(([flag]) => info[flag] === "1")
+      .map(([, label]) => label),
+    isContract: info.contract_address === "1",
+    dataSource: info.data_source || "GoPlus",
+  };
+}
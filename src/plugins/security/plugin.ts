@@ -5,30 +5,22 @@ import type {
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
+import { getEvmChainId, getEvmChainIds } from "../../chains/registry.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
+import { GOPLUS_API, getAddressSecurity } from "./goplus.js";
 
-const GOPLUS_API = "https://api.gopluslabs.io/api/v1";
-
-const CHAIN_ID_MAP: Record<string, string> = {
-  ethereum: "1",
-  bsc: "56",
-  polygon: "137",
-  arbitrum: "42161",
-  optimism: "10",
-  base: "8453",
-  avalanche: "43114",
-};
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class SecurityPlugin implements DefiPlugin {
   readonly name = "security";
   readonly description = "Token and address security checks: honeypot detection, ownership analysis, risk scoring";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["security", "trading"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -39,21 +31,22 @@ export class SecurityPlugin implements DefiPlugin {
   private tokenSecurityTool(): ToolDefinition {
     return {
       name: "defi_token_security",
-      description: `Check if a token is safe: honeypot detection, ownership risks, buy/sell tax, proxy status, mintable status. Supported chains: ${Object.keys(CHAIN_ID_MAP).join(", ")}.`,
+      capabilities: ["read", "external-api"],
+      description: `Check if a token is safe: honeypot detection, ownership risks, buy/sell tax, proxy status, mintable status. Supported chains: ${getEvmChainIds().join(", ")}.`,
       inputSchema: z.object({
         chainId: z.string().describe("Chain ID"),
         contractAddress: z.string().describe("Token contract address to check"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, contractAddress } = input as {
             chainId: string; contractAddress: string;
           };
-          const numericId = CHAIN_ID_MAP[chainId];
-          if (!numericId) return errorResult(`Security check not available on "${chainId}". Supported: ${Object.keys(CHAIN_ID_MAP).join(", ")}`);
+          const numericId = getEvmChainId(chainId);
+          if (!numericId) return errorResult(new UnsupportedChainForToolError("Security check", chainId, getEvmChainIds()));
 
           const url = `${GOPLUS_API}/token_security/${numericId}?contract_addresses=${contractAddress.toLowerCase()}`;
-          const res = await fetch(url);
+          const res = await context.http.fetch(url);
           if (!res.ok) throw new Error(`GoPlus API ${res.status}`);
           const data = await res.json();
 
@@ -99,7 +92,7 @@ export class SecurityPlugin implements DefiPlugin {
             totalSupply: info.total_supply,
           });
         } catch (e: any) {
-          return errorResult(`Token security check failed: ${e.message}`);
+          return errorResult(e, "Token security check failed");
         }
       },
     };
@@ -108,50 +101,31 @@ export class SecurityPlugin implements DefiPlugin {
   private addressSecurityTool(): ToolDefinition {
     return {
       name: "defi_address_security",
+      capabilities: ["read", "external-api"],
       description:
         "Check if a wallet or contract address is associated with known malicious activity: phishing, scams, money laundering, sanctions.",
       inputSchema: z.object({
         address: z.string().describe("Address to check"),
         chainId: z.string().optional().describe("Chain ID (optional, defaults to all)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { address, chainId } = input as { address: string; chainId?: string };
-          const numericId = chainId ? CHAIN_ID_MAP[chainId] || chainId : undefined;
-          const params = numericId ? `?chain_id=${numericId}` : "";
-
-          const url = `${GOPLUS_API}/address_security/${address}${params}`;
-          const res = await fetch(url);
-          if (!res.ok) throw new Error(`GoPlus API ${res.status}`);
-          const data = await res.json();
-
-          if (data.code !== 1) throw new Error(data.message || "API error");
-
-          const info = data.result || {};
-          const risks: string[] = [];
-
-          if (info.phishing_activities === "1") risks.push("Phishing activities");
-          if (info.blackmail_activities === "1") risks.push("Blackmail activities");
-          if (info.stealing_attack === "1") risks.push("Stealing attack");
-          if (info.cybercrime === "1") risks.push("Cybercrime");
-          if (info.money_laundering === "1") risks.push("Money laundering");
-          if (info.financial_crime === "1") risks.push("Financial crime");
-          if (info.darkweb_transactions === "1") risks.push("Darkweb transactions");
-          if (info.sanctioned === "1") risks.push("SANCTIONED address");
-          if (info.honeypot_related_address === "1") risks.push("Honeypot related");
-          if (info.fake_kyc === "1") risks.push("Fake KYC");
-
-          const riskLevel = risks.length === 0 ? "CLEAN" : "DANGEROUS";
+          const { risks, isContract, dataSource } = await getAddressSecurity(
+            context.http,
+            address,
+            chainId
+          );
 
           return jsonResult({
             address,
-            riskLevel,
+            riskLevel: risks.length === 0 ? "CLEAN" : "DANGEROUS",
             risks: risks.length > 0 ? risks : ["No known malicious activity"],
-            isContract: info.contract_address === "1",
-            dataSource: info.data_source || "GoPlus",
+            isContract,
+            dataSource,
           });
         } catch (e: any) {
-          return errorResult(`Address security check failed: ${e.message}`);
+          return errorResult(e, "Address security check failed");
         }
       },
     };
@@ -1,12 +1,9 @@
 import { z } from "zod";
 import {
-  createPublicClient,
-  http,
   getAddress,
   formatEther,
   formatGwei,
   decodeFunctionResult,
-  parseEther,
 } from "viem";
 import type {
   DefiPlugin,
@@ -15,19 +12,62 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema } from "../../tools/schemas.js";
+import { getEvmChainIds } from "../../chains/registry.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
+import { parseTokenAmount } from "../../core/utils.js";
 
-function jsonResult(data: unknown): ToolResult {
-  return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
-}
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
+function jsonResult(data: Record<string, unknown>): ToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+    structuredContent: data,
+  };
 }
 
+const SimulateTxOutputSchema = z.object({
+  chain: z.string(),
+  simulation: z.object({
+    success: z.boolean(),
+    wouldRevert: z.boolean(),
+    revertReason: z.string().optional(),
+    returnData: z.string().optional(),
+  }),
+  gas: z.object({
+    estimated: z.string().optional().describe('Gas units, or "estimation failed"'),
+    estimatedCost: z.string().optional(),
+  }),
+  sender: z.object({
+    address: z.string(),
+    balance: z.string(),
+    hasEnoughForValue: z.boolean(),
+    shortfall: z.string().optional(),
+  }),
+  recommendation: z.string(),
+});
+
+const SimulateBundleOutputSchema = z.object({
+  chain: z.string(),
+  bundleSuccess: z.boolean(),
+  stepCount: z.number(),
+  results: z.array(
+    z.object({
+      step: z.number(),
+      label: z.string(),
+      success: z.boolean(),
+      error: z.string().optional(),
+      gasEstimate: z.string().optional(),
+    })
+  ),
+  recommendation: z.string(),
+});
+
 export class SimulationPlugin implements DefiPlugin {
   readonly name = "simulation";
   readonly description =
     "Transaction simulation: dry-run any transaction to check if it will succeed before signing";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["security", "trading"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -38,6 +78,7 @@ export class SimulationPlugin implements DefiPlugin {
   private simulateTool(): ToolDefinition {
     return {
       name: "defi_simulate_tx",
+      capabilities: ["builds-tx"],
       description:
         "Simulate a transaction without executing it. Returns whether it would succeed or revert, the gas it would use, and any return data. ALWAYS simulate before recommending a user sign a transaction.",
       inputSchema: z.object({
@@ -47,6 +88,7 @@ export class SimulationPlugin implements DefiPlugin {
         data: z.string().optional().describe("Transaction calldata (hex-encoded)"),
         value: z.string().optional().describe('ETH value to send (e.g. "0.1")'),
       }),
+      outputSchema: SimulateTxOutputSchema,
       handler: async (
         input: unknown,
         context: PluginContext
@@ -63,18 +105,19 @@ export class SimulationPlugin implements DefiPlugin {
           const adapter = context.getChainAdapterForChain(chainId);
           const chain = adapter.getChain(chainId);
           if (!chain || chain.ecosystem !== "evm") {
-            return errorResult("Simulation only supported on EVM chains");
+            return errorResult(
+              new UnsupportedChainForToolError("Simulation", chainId, getEvmChainIds())
+            );
           }
 
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
 
           const txRequest: any = {
             account: getAddress(from),
             to: getAddress(to),
           };
           if (data) txRequest.data = data as `0x${string}`;
-          if (value) txRequest.value = parseEther(value);
+          if (value) txRequest.value = BigInt(parseTokenAmount(value, 18));
 
           // Try to simulate via eth_call
           let callResult: string | undefined;
@@ -116,7 +159,7 @@ export class SimulationPlugin implements DefiPlugin {
             address: getAddress(from),
           });
 
-          const requiredValue = value ? parseEther(value) : 0n;
+          const requiredValue = value ? BigInt(parseTokenAmount(value, 18)) : 0n;
           const hasEnoughBalance = balance >= requiredValue;
 
           return jsonResult({
@@ -147,7 +190,7 @@ export class SimulationPlugin implements DefiPlugin {
                 : "Transaction simulation passed. Safe to sign.",
           });
         } catch (e: any) {
-          return errorResult(`Simulation failed: ${e.message}`);
+          return errorResult(e, "Simulation failed");
         }
       },
     };
@@ -174,6 +217,7 @@ export class SimulationPlugin implements DefiPlugin {
           .max(10)
           .describe("Ordered list of transactions to simulate"),
       }),
+      outputSchema: SimulateBundleOutputSchema,
       handler: async (
         input: unknown,
         context: PluginContext
@@ -193,11 +237,12 @@ export class SimulationPlugin implements DefiPlugin {
           const adapter = context.getChainAdapterForChain(chainId);
           const chain = adapter.getChain(chainId);
           if (!chain || chain.ecosystem !== "evm") {
-            return errorResult("Simulation only supported on EVM chains");
+            return errorResult(
+              new UnsupportedChainForToolError("Simulation", chainId, getEvmChainIds())
+            );
           }
 
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
 
           const results: Array<{
             step: number;
@@ -216,7 +261,7 @@ export class SimulationPlugin implements DefiPlugin {
               to: getAddress(tx.to),
             };
             if (tx.data) txRequest.data = tx.data as `0x${string}`;
-            if (tx.value) txRequest.value = parseEther(tx.value);
+            if (tx.value) txRequest.value = BigInt(parseTokenAmount(tx.value, 18));
 
             const stepResult: any = {
               step: i + 1,
@@ -265,7 +310,7 @@ export class SimulationPlugin implements DefiPlugin {
               : `Bundle would fail at step ${results.find((r) => !r.success)?.step}. Fix that step before proceeding.`,
           });
         } catch (e: any) {
-          return errorResult(`Bundle simulation failed: ${e.message}`);
+          return errorResult(e, "Bundle simulation failed");
         }
       },
     };
@@ -5,6 +5,8 @@ import type {
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
+import type { HttpClient } from "../../core/http-client.js";
+import { errorResult } from "../../core/errors.js";
 
 const SNAPSHOT_GQL = "https://hub.snapshot.org/graphql";
 
@@ -12,12 +14,9 @@ function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
 
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
-async function gqlQuery(query: string, variables: Record<string, unknown>): Promise<any> {
-  const res = await fetch(SNAPSHOT_GQL, {
+async function gqlQuery(http: HttpClient, query: string, variables: Record<string, unknown>): Promise<any> {
+  const res = await http.fetch(SNAPSHOT_GQL, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ query, variables }),
@@ -32,6 +31,9 @@ export class SnapshotPlugin implements DefiPlugin {
   readonly name = "snapshot";
   readonly description = "Snapshot governance: spaces, proposals, and voting power";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["governance"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -42,13 +44,14 @@ export class SnapshotPlugin implements DefiPlugin {
   private spacesTool(): ToolDefinition {
     return {
       name: "defi_snapshot_spaces",
+      capabilities: ["read", "external-api"],
       description:
         "List governance spaces on Snapshot. Search by name or list top spaces by followers.",
       inputSchema: z.object({
         search: z.string().optional().describe("Search query (e.g. protocol name)"),
         limit: z.number().int().min(1).max(50).optional().describe("Number of results (default 20)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { search, limit = 20 } = input as { search?: string; limit?: number };
 
@@ -73,14 +76,14 @@ export class SnapshotPlugin implements DefiPlugin {
             }
           `;
 
-          const data = await gqlQuery(query, { first: limit, search: search || "" });
+          const data = await gqlQuery(context.http, query, { first: limit, search: search || "" });
 
           return jsonResult({
             count: data.spaces.length,
             spaces: data.spaces,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch spaces: ${e.message}`);
+          return errorResult(e, "Failed to fetch spaces");
         }
       },
     };
@@ -89,6 +92,7 @@ export class SnapshotPlugin implements DefiPlugin {
   private proposalsTool(): ToolDefinition {
     return {
       name: "defi_snapshot_proposals",
+      capabilities: ["read", "external-api"],
       description:
         "List governance proposals for a Snapshot space. Shows title, status, votes, and results.",
       inputSchema: z.object({
@@ -99,7 +103,7 @@ export class SnapshotPlugin implements DefiPlugin {
           .describe('Filter by state (default "active")'),
         limit: z.number().int().min(1).max(30).optional().describe("Number of results (default 10)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { space, state = "active", limit = 10 } = input as {
             space: string; state?: string; limit?: number;
@@ -135,7 +139,7 @@ export class SnapshotPlugin implements DefiPlugin {
             }
           `;
 
-          const data = await gqlQuery(query, { first: limit, where });
+          const data = await gqlQuery(context.http, query, { first: limit, where });
 
           const proposals = data.proposals.map((p: any) => ({
             id: p.id,
@@ -160,7 +164,7 @@ export class SnapshotPlugin implements DefiPlugin {
 
           return jsonResult({ space, state, count: proposals.length, proposals });
         } catch (e: any) {
-          return errorResult(`Failed to fetch proposals: ${e.message}`);
+          return errorResult(e, "Failed to fetch proposals");
         }
       },
     };
@@ -169,6 +173,7 @@ export class SnapshotPlugin implements DefiPlugin {
   private votePowerTool(): ToolDefinition {
     return {
       name: "defi_snapshot_vote_power",
+      capabilities: ["read", "external-api"],
       description:
         "Get the voting power of an address in a Snapshot space for a specific proposal.",
       inputSchema: z.object({
@@ -176,7 +181,7 @@ export class SnapshotPlugin implements DefiPlugin {
         voter: z.string().describe("Voter wallet address"),
         proposal: z.string().optional().describe("Proposal ID (if checking for a specific proposal)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { space, voter, proposal } = input as {
             space: string; voter: string; proposal?: string;
@@ -207,7 +212,7 @@ export class SnapshotPlugin implements DefiPlugin {
           const where: any = { space, voter: voter.toLowerCase() };
           if (proposal) where.proposal = proposal;
 
-          const data = await gqlQuery(query, { where });
+          const data = await gqlQuery(context.http, query, { where });
 
           const votes = data.votes.map((v: any) => ({
             proposal: v.proposal?.title,
@@ -226,7 +231,7 @@ export class SnapshotPlugin implements DefiPlugin {
             totalVotingPower: votes[0]?.votingPower || 0,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch voting power: ${e.message}`);
+          return errorResult(e, "Failed to fetch voting power");
         }
       },
     };
@@ -0,0 +1,33 @@
+import {
+  AggregatorError,
+  DefiMcpError,
+  InsufficientLiquidityError,
+  UpstreamRateLimitError,
+} from "../../../core/errors.js";
+
+// Wording aggregators use when there is no route for the requested size
+const NO_LIQUIDITY =
+  /insufficient.?liquidity|not enough liquidity|no.?route|no routes? found|INSUFFICIENT_ASSET_LIQUIDITY|ESTIMATED_LOSS_GREATER_THAN_MAX_IMPACT/i;
+
+/**
+ * The error for a failed aggregator quote or route request, classified so
+ * callers can tell "no liquidity" and rate limiting from other failures.
+ */
+export async function quoteError(
+  aggregator: string,
+  res: Response,
+  action = "Quote failed"
+): Promise<DefiMcpError> {
+  const body = await res.text();
+  if (res.status === 429) {
+    const seconds = Number(res.headers.get("retry-after"));
+    return new UpstreamRateLimitError(
+      aggregator,
+      Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined
+    );
+  }
+  if (NO_LIQUIDITY.test(body)) {
+    return new InsufficientLiquidityError(aggregator, body);
+  }
+  return new AggregatorError(aggregator, `${action}: ${body}`);
+}
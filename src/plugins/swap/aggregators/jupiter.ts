@@ -4,9 +4,11 @@ import type {
   SwapRequest,
   UnsignedTransaction,
   ChainInfo,
+  PluginContext,
   TokenInfo,
 } from "../../../core/types.js";
 import { AggregatorError } from "../../../core/errors.js";
+import { quoteError } from "./errors.js";
 
 const JUPITER_API = "https://lite-api.jup.ag/swap/v1";
 
@@ -19,7 +21,8 @@ export class JupiterAggregator implements SwapAggregator {
 
   async getQuote(
     request: SwapRequest,
-    _chain: ChainInfo
+    _chain: ChainInfo,
+    context: PluginContext
   ): Promise<SwapQuote> {
     const url = new URL(`${JUPITER_API}/quote`);
     url.searchParams.set("inputMint", request.srcToken);
@@ -31,10 +34,9 @@ export class JupiterAggregator implements SwapAggregator {
       String(request.slippageBps || 50)
     );
 
-    const res = await fetch(url);
+    const res = await context.http.fetch(url);
     if (!res.ok) {
-      const err = await res.text();
-      throw new AggregatorError(this.name, `Quote failed: ${err}`);
+      throw await quoteError(this.name, res);
     }
 
     const data = await res.json();
@@ -75,7 +77,8 @@ export class JupiterAggregator implements SwapAggregator {
 
   async buildTransaction(
     request: SwapRequest,
-    _chain: ChainInfo
+    _chain: ChainInfo,
+    context: PluginContext
   ): Promise<UnsignedTransaction> {
     // Step 1: get quote
     const quoteUrl = new URL(`${JUPITER_API}/quote`);
@@ -87,15 +90,14 @@ export class JupiterAggregator implements SwapAggregator {
       String(request.slippageBps || 50)
     );
 
-    const quoteRes = await fetch(quoteUrl);
+    const quoteRes = await context.http.fetch(quoteUrl);
     if (!quoteRes.ok) {
-      const err = await quoteRes.text();
-      throw new AggregatorError(this.name, `Quote failed: ${err}`);
+      throw await quoteError(this.name, quoteRes);
     }
     const quoteData = await quoteRes.json();
 
     // Step 2: build swap transaction
-    const swapRes = await fetch(`${JUPITER_API}/swap`, {
+    const swapRes = await context.http.fetch(`${JUPITER_API}/swap`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
@@ -4,38 +4,35 @@ import type {
   SwapRequest,
   UnsignedTransaction,
   ChainInfo,
+  PluginContext,
   TokenInfo,
 } from "../../../core/types.js";
-import { AggregatorError } from "../../../core/errors.js";
+import { AggregatorError, UnsupportedChainForToolError } from "../../../core/errors.js";
+import { quoteError } from "./errors.js";
 import { parseTokenAmount, formatTokenAmount } from "../../../core/utils.js";
+import { getEvmChainId, getEvmChainIds } from "../../../chains/registry.js";
 
 const LIFI_API = "https://li.quest/v1";
 
-/** Map our chain IDs to Li.Fi numeric chain IDs */
-const CHAIN_ID_MAP: Record<string, number> = {
-  ethereum: 1,
-  polygon: 137,
-  arbitrum: 42161,
-  base: 8453,
-  optimism: 10,
-  avalanche: 43114,
-  bsc: 56,
-};
-
 export class LiFiAggregator implements SwapAggregator {
   readonly name = "li.fi";
 
   getSupportedChainIds(): string[] {
-    return Object.keys(CHAIN_ID_MAP);
+    return getEvmChainIds();
   }
 
   async getQuote(
     request: SwapRequest,
-    chain: ChainInfo
+    chain: ChainInfo,
+    context: PluginContext
   ): Promise<SwapQuote> {
-    const numericChainId = CHAIN_ID_MAP[chain.id];
+    const numericChainId = getEvmChainId(chain.id);
     if (!numericChainId) {
-      throw new AggregatorError(this.name, `Chain "${chain.id}" not supported`);
+      throw new UnsupportedChainForToolError(
+        this.name,
+        chain.id,
+        this.getSupportedChainIds()
+      );
     }
 
     const params = new URLSearchParams({
@@ -52,10 +49,9 @@ export class LiFiAggregator implements SwapAggregator {
       params.set("slippage", (request.slippageBps / 10000).toString());
     }
 
-    const res = await fetch(`${LIFI_API}/quote?${params}`);
+    const res = await context.http.fetch(`${LIFI_API}/quote?${params}`);
     if (!res.ok) {
-      const err = await res.text();
-      throw new AggregatorError(this.name, `Quote failed: ${err}`);
+      throw await quoteError(this.name, res);
     }
 
     const data = await res.json();
@@ -105,11 +101,16 @@ export class LiFiAggregator implements SwapAggregator {
 
   async buildTransaction(
     request: SwapRequest,
-    chain: ChainInfo
+    chain: ChainInfo,
+    context: PluginContext
   ): Promise<UnsignedTransaction> {
-    const numericChainId = CHAIN_ID_MAP[chain.id];
+    const numericChainId = getEvmChainId(chain.id);
     if (!numericChainId) {
-      throw new AggregatorError(this.name, `Chain "${chain.id}" not supported`);
+      throw new UnsupportedChainForToolError(
+        this.name,
+        chain.id,
+        this.getSupportedChainIds()
+      );
     }
 
     const params = new URLSearchParams({
@@ -125,7 +126,7 @@ export class LiFiAggregator implements SwapAggregator {
       params.set("slippage", (request.slippageBps / 10000).toString());
     }
 
-    const res = await fetch(`${LIFI_API}/quote?${params}`);
+    const res = await context.http.fetch(`${LIFI_API}/quote?${params}`);
     if (!res.ok) {
       const err = await res.text();
       throw new AggregatorError(this.name, `Build tx failed: ${err}`);
@@ -4,37 +4,43 @@ import type {
   SwapRequest,
   UnsignedTransaction,
   ChainInfo,
+  PluginContext,
   TokenInfo,
 } from "../../../core/types.js";
-import { AggregatorError } from "../../../core/errors.js";
+import { AggregatorError, UnsupportedChainForToolError } from "../../../core/errors.js";
+import { quoteError } from "./errors.js";
 import { formatTokenAmount } from "../../../core/utils.js";
+import { getEvmChainId, getEvmChainIds } from "../../../chains/registry.js";
 
 const ONEINCH_API = "https://api.1inch.dev/swap/v6.0";
 
-const CHAIN_ID_MAP: Record<string, number> = {
-  ethereum: 1,
-  polygon: 137,
-  arbitrum: 42161,
-  base: 8453,
-  optimism: 10,
-  avalanche: 43114,
-  bsc: 56,
-};
-
 export class OneInchAggregator implements SwapAggregator {
   readonly name = "1inch";
 
   getSupportedChainIds(): string[] {
-    return Object.keys(CHAIN_ID_MAP);
+    return getEvmChainIds();
+  }
+
+  private getHeaders(context: PluginContext): Record<string, string> {
+    const headers: Record<string, string> = { accept: "application/json" };
+    if (context.apiKeys.oneInch) {
+      headers.Authorization = `Bearer ${context.apiKeys.oneInch}`;
+    }
+    return headers;
   }
 
   async getQuote(
     request: SwapRequest,
-    chain: ChainInfo
+    chain: ChainInfo,
+    context: PluginContext
   ): Promise<SwapQuote> {
-    const numericChainId = CHAIN_ID_MAP[chain.id];
+    const numericChainId = getEvmChainId(chain.id);
     if (!numericChainId) {
-      throw new AggregatorError(this.name, `Chain "${chain.id}" not supported`);
+      throw new UnsupportedChainForToolError(
+        this.name,
+        chain.id,
+        this.getSupportedChainIds()
+      );
     }
 
     const params = new URLSearchParams({
@@ -45,14 +51,13 @@ export class OneInchAggregator implements SwapAggregator {
       includeGas: "true",
     });
 
-    const res = await fetch(
+    const res = await context.http.fetch(
       `${ONEINCH_API}/${numericChainId}/quote?${params}`,
-      { headers: { accept: "application/json" } }
+      { headers: this.getHeaders(context) }
     );
 
     if (!res.ok) {
-      const err = await res.text();
-      throw new AggregatorError(this.name, `Quote failed: ${err}`);
+      throw await quoteError(this.name, res);
     }
 
     const data = await res.json();
@@ -89,11 +94,16 @@ export class OneInchAggregator implements SwapAggregator {
 
   async buildTransaction(
     request: SwapRequest,
-    chain: ChainInfo
+    chain: ChainInfo,
+    context: PluginContext
   ): Promise<UnsignedTransaction> {
-    const numericChainId = CHAIN_ID_MAP[chain.id];
+    const numericChainId = getEvmChainId(chain.id);
     if (!numericChainId) {
-      throw new AggregatorError(this.name, `Chain "${chain.id}" not supported`);
+      throw new UnsupportedChainForToolError(
+        this.name,
+        chain.id,
+        this.getSupportedChainIds()
+      );
     }
 
     const params = new URLSearchParams({
@@ -105,9 +115,9 @@ export class OneInchAggregator implements SwapAggregator {
       includeTokensInfo: "true",
     });
 
-    const res = await fetch(
+    const res = await context.http.fetch(
       `${ONEINCH_API}/${numericChainId}/swap?${params}`,
-      { headers: { accept: "application/json" } }
+      { headers: this.getHeaders(context) }
     );
 
     if (!res.ok) {
@@ -4,33 +4,27 @@ import type {
   SwapRequest,
   UnsignedTransaction,
   ChainInfo,
+  PluginContext,
   TokenInfo,
 } from "../../../core/types.js";
-import { AggregatorError } from "../../../core/errors.js";
+import { AggregatorError, UnsupportedChainForToolError } from "../../../core/errors.js";
+import { quoteError } from "./errors.js";
 import { parseTokenAmount, formatTokenAmount } from "../../../core/utils.js";
+import { getEvmChainId, getEvmChainIds } from "../../../chains/registry.js";
 
 const PARASWAP_API = "https://apiv5.paraswap.io";
 
-const CHAIN_ID_MAP: Record<string, number> = {
-  ethereum: 1,
-  polygon: 137,
-  arbitrum: 42161,
-  base: 8453,
-  optimism: 10,
-  avalanche: 43114,
-  bsc: 56,
-};
-
 export class ParaSwapAggregator implements SwapAggregator {
   readonly name = "paraswap";
 
   getSupportedChainIds(): string[] {
-    return Object.keys(CHAIN_ID_MAP);
+    return getEvmChainIds();
   }
 
   private async getPriceRoute(
     request: SwapRequest,
-    numericChainId: number
+    numericChainId: number,
+    context: PluginContext
   ): Promise<any> {
     const params = new URLSearchParams({
       srcToken: request.srcToken,
@@ -40,10 +34,9 @@ export class ParaSwapAggregator implements SwapAggregator {
       side: "SELL",
     });
 
-    const res = await fetch(`${PARASWAP_API}/prices?${params}`);
+    const res = await context.http.fetch(`${PARASWAP_API}/prices?${params}`);
     if (!res.ok) {
-      const err = await res.text();
-      throw new AggregatorError(this.name, `Price quote failed: ${err}`);
+      throw await quoteError(this.name, res, "Price quote failed");
     }
 
     const data = await res.json();
@@ -52,17 +45,19 @@ export class ParaSwapAggregator implements SwapAggregator {
 
   async getQuote(
     request: SwapRequest,
-    chain: ChainInfo
+    chain: ChainInfo,
+    context: PluginContext
   ): Promise<SwapQuote> {
-    const numericChainId = CHAIN_ID_MAP[chain.id];
+    const numericChainId = getEvmChainId(chain.id);
     if (!numericChainId) {
-      throw new AggregatorError(
+      throw new UnsupportedChainForToolError(
         this.name,
-        `Chain "${chain.id}" not supported`
+        chain.id,
+        this.getSupportedChainIds()
       );
     }
 
-    const priceRoute = await this.getPriceRoute(request, numericChainId);
+    const priceRoute = await this.getPriceRoute(request, numericChainId, context);
 
     const srcDecimals = priceRoute.srcDecimals || 18;
     const dstDecimals = priceRoute.destDecimals || 18;
@@ -103,18 +98,20 @@ export class ParaSwapAggregator implements SwapAggregator {
 
   async buildTransaction(
     request: SwapRequest,
-    chain: ChainInfo
+    chain: ChainInfo,
+    context: PluginContext
   ): Promise<UnsignedTransaction> {
-    const numericChainId = CHAIN_ID_MAP[chain.id];
+    const numericChainId = getEvmChainId(chain.id);
     if (!numericChainId) {
-      throw new AggregatorError(
+      throw new UnsupportedChainForToolError(
         this.name,
-        `Chain "${chain.id}" not supported`
+        chain.id,
+        this.getSupportedChainIds()
       );
     }
 
     // Step 1: Get price route
-    const priceRoute = await this.getPriceRoute(request, numericChainId);
+    const priceRoute = await this.getPriceRoute(request, numericChainId, context);
 
     // Step 2: Build transaction
     const slippage = request.slippageBps || 50;
@@ -129,7 +126,7 @@ export class ParaSwapAggregator implements SwapAggregator {
       slippage: slippage / 100, // ParaSwap uses percentage
     };
 
-    const res = await fetch(
+    const res = await context.http.fetch(
       `${PARASWAP_API}/transactions/${numericChainId}`,
       {
         method: "POST",
@@ -4,9 +4,11 @@ import type {
   SwapRequest,
   UnsignedTransaction,
   ChainInfo,
+  PluginContext,
   TokenInfo,
 } from "../../../core/types.js";
 import { AggregatorError } from "../../../core/errors.js";
+import { quoteError } from "./errors.js";
 import { parseTokenAmount, formatTokenAmount } from "../../../core/utils.js";
 
 const SKIP_API = "https://api.skip.build";
@@ -20,12 +22,13 @@ export class SkipGoAggregator implements SwapAggregator {
 
   async getQuote(
     request: SwapRequest,
-    chain: ChainInfo
+    chain: ChainInfo,
+    context: PluginContext
   ): Promise<SwapQuote> {
     const cosmosChainId = chain.nativeChainId as string;
     const amountRaw = parseTokenAmount(request.amount, 6);
 
-    const routeRes = await fetch(`${SKIP_API}/v2/fungible/route`, {
+    const routeRes = await context.http.fetch(`${SKIP_API}/v2/fungible/route`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
@@ -40,8 +43,7 @@ export class SkipGoAggregator implements SwapAggregator {
     });
 
     if (!routeRes.ok) {
-      const err = await routeRes.text();
-      throw new AggregatorError(this.name, `Route failed: ${err}`);
+      throw await quoteError(this.name, routeRes, "Route failed");
     }
 
     const data = await routeRes.json();
@@ -82,14 +84,15 @@ export class SkipGoAggregator implements SwapAggregator {
 
   async buildTransaction(
     request: SwapRequest,
-    chain: ChainInfo
+    chain: ChainInfo,
+    context: PluginContext
   ): Promise<UnsignedTransaction> {
     const cosmosChainId = chain.nativeChainId as string;
     const amountRaw = parseTokenAmount(request.amount, 6);
 
     const slippagePercent = ((request.slippageBps || 50) / 100).toString();
 
-    const msgsRes = await fetch(`${SKIP_API}/v2/fungible/msgs_direct`, {
+    const msgsRes = await context.http.fetch(`${SKIP_API}/v2/fungible/msgs_direct`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
@@ -3,14 +3,20 @@ import type {
   SwapRequest,
   UnsignedTransaction,
   ChainInfo,
+  PluginContext,
 } from "../../../core/types.js";
 
 export interface SwapAggregator {
   readonly name: string;
   getSupportedChainIds(): string[];
-  getQuote(request: SwapRequest, chain: ChainInfo): Promise<SwapQuote>;
+  getQuote(
+    request: SwapRequest,
+    chain: ChainInfo,
+    context: PluginContext
+  ): Promise<SwapQuote>;
   buildTransaction(
     request: SwapRequest,
-    chain: ChainInfo
+    chain: ChainInfo,
+    context: PluginContext
   ): Promise<UnsignedTransaction>;
 }
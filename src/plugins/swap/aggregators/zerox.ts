@@ -4,49 +4,48 @@ import type {
   SwapRequest,
   UnsignedTransaction,
   ChainInfo,
+  PluginContext,
   TokenInfo,
 } from "../../../core/types.js";
-import { AggregatorError } from "../../../core/errors.js";
+import { AggregatorError, UnsupportedChainForToolError } from "../../../core/errors.js";
+import { quoteError } from "./errors.js";
 import { parseTokenAmount, formatTokenAmount } from "../../../core/utils.js";
+import { getEvmChainId, getEvmChainIds } from "../../../chains/registry.js";
 
 const ZEROX_API = "https://api.0x.org/swap/permit2";
 
-const CHAIN_ID_MAP: Record<string, number> = {
-  ethereum: 1,
-  polygon: 137,
-  arbitrum: 42161,
-  base: 8453,
-  optimism: 10,
-  avalanche: 43114,
-  bsc: 56,
-};
-
 export class ZeroXAggregator implements SwapAggregator {
   readonly name = "0x";
 
   constructor(private apiKey?: string) {}
 
   getSupportedChainIds(): string[] {
-    return Object.keys(CHAIN_ID_MAP);
+    return getEvmChainIds();
   }
 
-  private getHeaders(): Record<string, string> {
+  private getHeaders(context: PluginContext): Record<string, string> {
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
     };
-    if (this.apiKey) {
-      headers["0x-api-key"] = this.apiKey;
+    const apiKey = this.apiKey ?? context.apiKeys.zeroX;
+    if (apiKey) {
+      headers["0x-api-key"] = apiKey;
     }
     return headers;
   }
 
   async getQuote(
     request: SwapRequest,
-    chain: ChainInfo
+    chain: ChainInfo,
+    context: PluginContext
   ): Promise<SwapQuote> {
-    const numericChainId = CHAIN_ID_MAP[chain.id];
+    const numericChainId = getEvmChainId(chain.id);
     if (!numericChainId) {
-      throw new AggregatorError(this.name, `Chain "${chain.id}" not supported`);
+      throw new UnsupportedChainForToolError(
+        this.name,
+        chain.id,
+        this.getSupportedChainIds()
+      );
     }
 
     const params = new URLSearchParams({
@@ -64,12 +63,11 @@ export class ZeroXAggregator implements SwapAggregator {
       );
     }
 
-    const res = await fetch(`${ZEROX_API}/quote?${params}`, {
-      headers: this.getHeaders(),
+    const res = await context.http.fetch(`${ZEROX_API}/quote?${params}`, {
+      headers: this.getHeaders(context),
     });
     if (!res.ok) {
-      const err = await res.text();
-      throw new AggregatorError(this.name, `Quote failed: ${err}`);
+      throw await quoteError(this.name, res);
     }
 
     const data = await res.json();
@@ -110,11 +108,16 @@ export class ZeroXAggregator implements SwapAggregator {
 
   async buildTransaction(
     request: SwapRequest,
-    chain: ChainInfo
+    chain: ChainInfo,
+    context: PluginContext
   ): Promise<UnsignedTransaction> {
-    const numericChainId = CHAIN_ID_MAP[chain.id];
+    const numericChainId = getEvmChainId(chain.id);
     if (!numericChainId) {
-      throw new AggregatorError(this.name, `Chain "${chain.id}" not supported`);
+      throw new UnsupportedChainForToolError(
+        this.name,
+        chain.id,
+        this.getSupportedChainIds()
+      );
     }
 
     const params = new URLSearchParams({
@@ -132,8 +135,8 @@ export class ZeroXAggregator implements SwapAggregator {
       );
     }
 
-    const res = await fetch(`${ZEROX_API}/quote?${params}`, {
-      headers: this.getHeaders(),
+    const res = await context.http.fetch(`${ZEROX_API}/quote?${params}`, {
+      headers: this.getHeaders(context),
     });
     if (!res.ok) {
       const err = await res.text();
@@ -1,14 +1,18 @@
 import type {
   DefiPlugin,
   PluginContext,
+  ToolCallContext,
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
-import { TokenNotFoundError } from "../../core/errors.js";
+import { TokenNotFoundError, UnsupportedChainForToolError, InvalidAddressError } from "../../core/errors.js";
 import {
   SwapQuoteInputSchema,
+  SwapQuoteOutputSchema,
   SwapBuildTxInputSchema,
+  UnsignedTransactionOutputSchema,
 } from "../../tools/schemas.js";
+import { parseTokenAmount } from "../../core/utils.js";
 import type { SwapAggregator } from "./aggregators/types.js";
 
 export class SwapPlugin implements DefiPlugin {
@@ -16,6 +20,9 @@ export class SwapPlugin implements DefiPlugin {
   readonly description =
     "Token swap quotes and unsigned transaction building via DEX aggregators";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["trading"],
+  };
 
   private aggregatorIndex = new Map<string, SwapAggregator>();
 
@@ -35,9 +42,9 @@ export class SwapPlugin implements DefiPlugin {
   private getAggregatorForChain(chainId: string): SwapAggregator {
     const agg = this.aggregatorIndex.get(chainId);
     if (!agg) {
-      throw new Error(
-        `No swap aggregator available for chain "${chainId}". Supported chains: ${[...this.aggregatorIndex.keys()].join(", ")}`
-      );
+      throw new UnsupportedChainForToolError("Swap", chainId, [
+        ...this.aggregatorIndex.keys(),
+      ]);
     }
     return agg;
   }
@@ -46,12 +53,14 @@ export class SwapPlugin implements DefiPlugin {
     return [
       {
         name: "defi_swap_quote",
+        capabilities: ["read", "external-api"],
         description:
           "Get a swap quote for exchanging one token for another on a specific chain. Returns expected output amount, price impact, and routing information. Does NOT execute any transaction.",
         inputSchema: SwapQuoteInputSchema,
+        outputSchema: SwapQuoteOutputSchema,
         handler: async (
           input: unknown,
-          context: PluginContext
+          context: ToolCallContext
         ): Promise<ToolResult> => {
           const { chainId, srcToken, dstToken, amount, slippageBps } =
             input as {
@@ -80,10 +89,13 @@ export class SwapPlugin implements DefiPlugin {
               dstToken: resolvedDst.address,
               amount,
               slippageBps:
-                slippageBps || context.config.defaultSlippageBps,
+                slippageBps ||
+                context.session.slippageBps ||
+                context.config.defaultSlippageBps,
               userAddress: "",
             },
-            chain
+            chain,
+            context
           );
 
           // Enrich quote with resolved token info
@@ -97,17 +109,20 @@ export class SwapPlugin implements DefiPlugin {
                 text: JSON.stringify(quote, null, 2),
               },
             ],
+            structuredContent: { ...quote },
           };
         },
       },
       {
         name: "defi_swap_build_tx",
+        capabilities: ["builds-tx", "external-api"],
         description:
           "Build an unsigned swap transaction. Returns transaction data that must be signed by the user's wallet. This tool NEVER handles private keys or signs transactions.",
         inputSchema: SwapBuildTxInputSchema,
+        outputSchema: UnsignedTransactionOutputSchema,
         handler: async (
           input: unknown,
-          context: PluginContext
+          context: ToolCallContext
         ): Promise<ToolResult> => {
           const {
             chainId,
@@ -131,15 +146,7 @@ export class SwapPlugin implements DefiPlugin {
 
           // Validate user address
           if (!adapter.isValidAddress(chainId, userAddress)) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Invalid address "${userAddress}" for chain "${chainId}"`,
-                },
-              ],
-              isError: true,
-            };
+            throw new InvalidAddressError(userAddress, chainId);
           }
 
           // Resolve token symbols to addresses
@@ -149,18 +156,31 @@ export class SwapPlugin implements DefiPlugin {
           if (!resolvedSrc) throw new TokenNotFoundError(srcToken, chainId);
           if (!resolvedDst) throw new TokenNotFoundError(dstToken, chainId);
 
-          const tx = await aggregator.buildTransaction(
+          const built = await aggregator.buildTransaction(
             {
               chainId,
               srcToken: resolvedSrc.address,
               dstToken: resolvedDst.address,
               amount,
               slippageBps:
-                slippageBps || context.config.defaultSlippageBps,
+                slippageBps ||
+                context.session.slippageBps ||
+                context.config.defaultSlippageBps,
               userAddress,
             },
-            chain
+            chain,
+            context
           );
+          // Aggregator calldata is opaque, so declare what the swap spends
+          const tx = {
+            ...built,
+            outflows: built.outflows ?? [
+              {
+                token: resolvedSrc.address,
+                amount: parseTokenAmount(amount, resolvedSrc.decimals),
+              },
+            ],
+          };
 
           return {
             content: [
@@ -169,6 +189,7 @@ export class SwapPlugin implements DefiPlugin {
                 text: JSON.stringify(tx, null, 2),
               },
             ],
+            structuredContent: { ...tx },
           };
         },
       },
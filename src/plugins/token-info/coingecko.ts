@@ -1,25 +1,16 @@
 import type { TokenPrice, TokenInfo } from "../../core/types.js";
+import type { HttpClient } from "../../core/http-client.js";
+import { getChain } from "../../chains/registry.js";
 
 const BASE_URL = "https://api.coingecko.com/api/v3";
 
-/** Platform IDs used by CoinGecko for each chain */
-const PLATFORM_MAP: Record<string, string> = {
-  ethereum: "ethereum",
-  base: "base",
-  arbitrum: "arbitrum-one",
-  polygon: "polygon-pos",
-  optimism: "optimistic-ethereum",
-  avalanche: "avalanche",
-  bsc: "binance-smart-chain",
-  "solana-mainnet": "solana",
-  "osmosis-1": "osmosis",
-  "cosmoshub-4": "cosmos",
-};
-
 export class CoinGeckoClient {
   private headers: Record<string, string>;
 
-  constructor(apiKey?: string) {
+  constructor(
+    private http: HttpClient,
+    apiKey?: string
+  ) {
     this.headers = {
       accept: "application/json",
     };
@@ -28,14 +19,15 @@ export class CoinGeckoClient {
     }
   }
 
-  /** Get price by CoinGecko ID */
+  /** Get price by CoinGecko ID, in USD plus an optional other currency */
   async getPricesByIds(
-    coingeckoIds: string[]
-  ): Promise<Record<string, { usd: number; usd_24h_change?: number; usd_market_cap?: number; usd_24h_vol?: number }>> {
+    coingeckoIds: string[],
+    currency?: string
+  ): Promise<Record<string, { usd: number; usd_24h_change?: number; usd_market_cap?: number; usd_24h_vol?: number; [currency: string]: number | undefined }>> {
     if (coingeckoIds.length === 0) return {};
     const ids = coingeckoIds.join(",");
-    const url = `${BASE_URL}/simple/price?ids=${ids}&vs_currencies=usd&include_24hr_change=true&include_market_cap=true&include_24hr_vol=true`;
-    const res = await fetch(url, { headers: this.headers });
+    const url = `${BASE_URL}/simple/price?ids=${ids}&vs_currencies=${vsCurrencies(currency)}&include_24hr_change=true&include_market_cap=true&include_24hr_vol=true`;
+    const res = await this.http.fetch(url, { headers: this.headers });
     if (!res.ok) throw new Error(`CoinGecko API error: ${res.status}`);
     return res.json();
   }
@@ -43,17 +35,19 @@ export class CoinGeckoClient {
   /** Get price by contract address on a specific platform */
   async getPriceByContract(
     chainId: string,
-    contractAddress: string
+    contractAddress: string,
+    currency?: string
   ): Promise<{
     usd: number;
     usd_24h_change?: number;
     usd_market_cap?: number;
+    [currency: string]: number | undefined;
   } | null> {
-    const platform = PLATFORM_MAP[chainId];
+    const platform = getChain(chainId)?.coingeckoPlatform;
     if (!platform) return null;
 
-    const url = `${BASE_URL}/simple/token_price/${platform}?contract_addresses=${contractAddress}&vs_currencies=usd&include_24hr_change=true&include_market_cap=true`;
-    const res = await fetch(url, { headers: this.headers });
+    const url = `${BASE_URL}/simple/token_price/${platform}?contract_addresses=${contractAddress}&vs_currencies=${vsCurrencies(currency)}&include_24hr_change=true&include_market_cap=true`;
+    const res = await this.http.fetch(url, { headers: this.headers });
     if (!res.ok) return null;
 
     const data = await res.json();
@@ -61,8 +55,14 @@ export class CoinGeckoClient {
     return data[addr] || null;
   }
 
-  /** Build TokenPrice objects from tokens that have coingeckoIds */
-  async getTokenPrices(tokens: TokenInfo[]): Promise<TokenPrice[]> {
+  /**
+   * Build TokenPrice objects from tokens that have coingeckoIds. A
+   * `currency` other than USD adds `displayPrice` in that currency.
+   */
+  async getTokenPrices(
+    tokens: TokenInfo[],
+    currency?: string
+  ): Promise<TokenPrice[]> {
     const results: TokenPrice[] = [];
 
     // Group tokens with coingecko IDs
@@ -72,7 +72,7 @@ export class CoinGeckoClient {
     // Batch fetch by coingecko ID
     if (withIds.length > 0) {
       const ids = withIds.map((t) => t.coingeckoId!);
-      const prices = await this.getPricesByIds(ids);
+      const prices = await this.getPricesByIds(ids, currency);
       for (const token of withIds) {
         const price = prices[token.coingeckoId!];
         if (price) {
@@ -82,6 +82,7 @@ export class CoinGeckoClient {
             priceChange24h: price.usd_24h_change,
             marketCap: price.usd_market_cap,
             volume24h: price.usd_24h_vol,
+            displayPrice: displayPrice(price, currency),
             lastUpdated: new Date().toISOString(),
           });
         }
@@ -92,7 +93,8 @@ export class CoinGeckoClient {
     for (const token of withoutIds) {
       const price = await this.getPriceByContract(
         token.chainId,
-        token.address
+        token.address,
+        currency
       );
       if (price) {
         results.push({
@@ -100,6 +102,7 @@ export class CoinGeckoClient {
           priceUsd: price.usd,
           priceChange24h: price.usd_24h_change,
           marketCap: price.usd_market_cap,
+          displayPrice: displayPrice(price, currency),
           lastUpdated: new Date().toISOString(),
         });
       }
@@ -108,3 +111,16 @@ export class CoinGeckoClient {
     return results;
   }
 }
+
+function vsCurrencies(currency: string | undefined): string {
+  return currency && currency !== "usd" ? `usd,${currency}` : "usd";
+}
+
+function displayPrice(
+  price: Record<string, number | undefined>,
+  currency: string | undefined
+): TokenPrice["displayPrice"] {
+  if (!currency || currency === "usd") return undefined;
+  const value = price[currency];
+  return value === undefined ? undefined : { currency, price: value };
+}
@@ -1,25 +1,27 @@
 import type {
   DefiPlugin,
   PluginContext,
+  ToolCallContext,
   ToolDefinition,
   ToolResult,
 } from "../../core/types.js";
 import { TokenNotFoundError } from "../../core/errors.js";
 import { TokenInfoInputSchema, TokenPriceInputSchema } from "../../tools/schemas.js";
+import { apiKeyFor } from "../../core/tool-call.js";
 import { CoinGeckoClient } from "./coingecko.js";
 
 export class TokenInfoPlugin implements DefiPlugin {
   readonly name = "token-info";
   readonly description = "Token metadata and price lookups";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["market-data", "trading"],
+  };
 
-  private coingecko!: CoinGeckoClient;
-
+  /** Plugin-level key; used before the server's apiKeys.coingecko */
   constructor(private apiKey?: string) {}
 
-  async initialize(_context: PluginContext): Promise<void> {
-    this.coingecko = new CoinGeckoClient(this.apiKey);
-  }
+  async initialize(_context: PluginContext): Promise<void> {}
 
   getTools(): ToolDefinition[] {
     return [
@@ -49,13 +51,16 @@ export class TokenInfoPlugin implements DefiPlugin {
       },
       {
         name: "defi_token_price",
+        capabilities: ["read", "external-api"],
         description:
-          "Get current USD price, 24h change, and market cap for one or more tokens. Pass an array of { chainId, token } objects.",
+          "Get current USD price, 24h change, and market cap for one or more tokens. Pass an array of { chainId, token } objects, and optionally a currency such as \"eur\" to also price them in.",
         inputSchema: TokenPriceInputSchema,
-        handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
-          const { tokens } = input as {
-            tokens: Array<{ chainId: string; token: string }>;
-          };
+        handler: async (input: unknown, context: ToolCallContext): Promise<ToolResult> => {
+          const { tokens, currency = context.session.displayCurrency } =
+            input as {
+              tokens: Array<{ chainId: string; token: string }>;
+              currency?: string;
+            };
 
           // Resolve all tokens first
           const resolvedTokens = await Promise.all(
@@ -69,7 +74,14 @@ export class TokenInfoPlugin implements DefiPlugin {
             })
           );
 
-          const prices = await this.coingecko.getTokenPrices(resolvedTokens);
+          const coingecko = new CoinGeckoClient(
+            context.http,
+            apiKeyFor(context, "coingecko", this.apiKey)
+          );
+          const prices = await coingecko.getTokenPrices(
+            resolvedTokens,
+            currency?.toLowerCase()
+          );
 
           return {
             content: [
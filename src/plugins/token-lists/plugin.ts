@@ -6,28 +6,20 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema } from "../../tools/schemas.js";
-
-const CHAIN_ID_MAP: Record<string, number> = {
-  ethereum: 1,
-  polygon: 137,
-  arbitrum: 42161,
-  base: 8453,
-  optimism: 10,
-  avalanche: 43114,
-  bsc: 56,
-};
+import { getChain } from "../../chains/registry.js";
+import { errorResult } from "../../core/errors.js";
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class TokenListsPlugin implements DefiPlugin {
   readonly name = "token-lists";
   readonly description = "Search and lookup token addresses across chains";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["market-data"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -38,18 +30,19 @@ export class TokenListsPlugin implements DefiPlugin {
   private searchTool(): ToolDefinition {
     return {
       name: "defi_token_search",
+      capabilities: ["read", "external-api"],
       description:
         "Search for token contract addresses by name or symbol. Useful for finding the correct contract address before making swaps, transfers, or other operations.",
       inputSchema: z.object({
         query: z.string().describe("Token name or symbol to search (e.g. 'USDC', 'Uniswap', 'PEPE')"),
         chainId: ChainIdSchema.optional().describe("Filter results to a specific chain"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { query, chainId } = input as { query: string; chainId?: string };
 
           // Use CoinGecko search
-          const res = await fetch(
+          const res = await context.http.fetch(
             `https://api.coingecko.com/api/v3/search?query=${encodeURIComponent(query)}`,
             { headers: { accept: "application/json" } }
           );
@@ -79,25 +72,15 @@ export class TokenListsPlugin implements DefiPlugin {
           if (chainId && coins.length > 0) {
             const topCoinId = coins[0].id;
             try {
-              const detailRes = await fetch(
+              const detailRes = await context.http.fetch(
                 `https://api.coingecko.com/api/v3/coins/${topCoinId}?localization=false&tickers=false&market_data=false&community_data=false&developer_data=false`,
                 { headers: { accept: "application/json" } }
               );
               if (detailRes.ok) {
                 const detail = await detailRes.json();
-                const platformMap: Record<string, string> = {
-                  ethereum: "ethereum",
-                  "polygon-pos": "polygon",
-                  "arbitrum-one": "arbitrum",
-                  "base": "base",
-                  "optimistic-ethereum": "optimism",
-                  "avalanche": "avalanche",
-                  "binance-smart-chain": "bsc",
-                };
-
+                const chainPlatform = getChain(chainId)?.coingeckoPlatform;
                 for (const [platform, addr] of Object.entries(detail.platforms || {})) {
-                  const mappedChain = platformMap[platform];
-                  if (mappedChain === chainId && addr) {
+                  if (platform === chainPlatform && addr) {
                     results[0].contractAddress = addr as string;
                     results[0].chainMatch = chainId;
                   }
@@ -108,7 +91,7 @@ export class TokenListsPlugin implements DefiPlugin {
 
           return jsonResult({ query, resultCount: results.length, tokens: results });
         } catch (e: any) {
-          return errorResult(`Token search failed: ${e.message}`);
+          return errorResult(e, "Token search failed");
         }
       },
     };
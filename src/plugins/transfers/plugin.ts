@@ -2,8 +2,6 @@ import { z } from "zod";
 import {
   getAddress,
   encodeFunctionData,
-  parseUnits,
-  parseEther,
   erc20Abi,
 } from "viem";
 import type {
@@ -13,11 +11,15 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema, AmountSchema } from "../../tools/schemas.js";
+import { parseTokenAmount } from "../../core/utils.js";
 
 export class TransfersPlugin implements DefiPlugin {
   readonly name = "transfers";
   readonly description = "Build unsigned token and native transfer transactions";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["wallet"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -28,6 +30,7 @@ export class TransfersPlugin implements DefiPlugin {
   private transferTool(): ToolDefinition {
     return {
       name: "defi_transfer_tx",
+      capabilities: ["builds-tx"],
       description:
         "Build an unsigned ERC20 token transfer transaction. Returns transaction data ready for signing.",
       inputSchema: z.object({
@@ -54,7 +57,7 @@ export class TransfersPlugin implements DefiPlugin {
           };
         }
 
-        const rawAmount = parseUnits(amount, resolved.decimals);
+        const rawAmount = BigInt(parseTokenAmount(amount, resolved.decimals));
 
         const data = encodeFunctionData({
           abi: erc20Abi,
@@ -91,6 +94,7 @@ export class TransfersPlugin implements DefiPlugin {
   private nativeTransferTool(): ToolDefinition {
     return {
       name: "defi_native_transfer_tx",
+      capabilities: ["builds-tx"],
       description:
         "Build an unsigned native token transfer transaction (ETH, MATIC, etc). Returns transaction data ready for signing.",
       inputSchema: z.object({
@@ -115,7 +119,7 @@ export class TransfersPlugin implements DefiPlugin {
           };
         }
 
-        const value = parseEther(amount);
+        const value = BigInt(parseTokenAmount(amount, 18));
 
         return {
           content: [
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { createPublicClient, http, formatEther, formatGwei } from "viem";
+import { formatEther, formatGwei } from "viem";
 import type {
   DefiPlugin,
   PluginContext,
@@ -12,6 +12,9 @@ export class TxStatusPlugin implements DefiPlugin {
   readonly name = "tx-status";
   readonly description = "Transaction status and receipt lookups";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["infrastructure", "trading"],
+  };
 
   async initialize(_context: PluginContext): Promise<void> {}
 
@@ -72,8 +75,7 @@ export class TxStatusPlugin implements DefiPlugin {
   ): Promise<ToolResult> {
     const adapter = context.getChainAdapterForChain(chainId);
     const chain = adapter.getChain(chainId)!;
-    const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-    const client = createPublicClient({ transport: http(rpcUrl) });
+    const client = context.getEvmClient(chainId);
 
     const [tx, receipt] = await Promise.all([
       client.getTransaction({ hash: txHash as `0x${string}` }),
@@ -116,11 +118,9 @@ export class TxStatusPlugin implements DefiPlugin {
     txHash: string,
     context: PluginContext
   ): Promise<ToolResult> {
-    const { Connection } = await import("@solana/web3.js");
     const adapter = context.getChainAdapterForChain(chainId);
     const chain = adapter.getChain(chainId)!;
-    const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-    const connection = new Connection(rpcUrl, "confirmed");
+    const connection = context.getSolanaConnection(chainId);
 
     const tx = await connection.getTransaction(txHash, {
       maxSupportedTransactionVersion: 0,
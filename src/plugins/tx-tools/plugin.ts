@@ -1,11 +1,8 @@
 import { z } from "zod";
 import {
-  createPublicClient,
-  http,
   getAddress,
   formatEther,
   formatGwei,
-  parseEther,
 } from "viem";
 import type {
   DefiPlugin,
@@ -14,18 +11,21 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema } from "../../tools/schemas.js";
+import { getEvmChainIds } from "../../chains/registry.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
+import { parseTokenAmount } from "../../core/utils.js";
 
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class TxToolsPlugin implements DefiPlugin {
   readonly name = "tx-tools";
   readonly description = "Transaction utilities: gas estimation, block info, and nonce management";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["infrastructure"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -58,15 +58,16 @@ export class TxToolsPlugin implements DefiPlugin {
           const adapter = context.getChainAdapterForChain(chainId);
           const chain = adapter.getChain(chainId);
           if (!chain || chain.ecosystem !== "evm") {
-            return errorResult("Gas estimation only supported on EVM chains");
+            return errorResult(
+              new UnsupportedChainForToolError("Gas estimation", chainId, getEvmChainIds())
+            );
           }
 
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
 
           const txRequest: any = { to: getAddress(to) };
           if (data) txRequest.data = data as `0x${string}`;
-          if (value) txRequest.value = parseEther(value);
+          if (value) txRequest.value = BigInt(parseTokenAmount(value, 18));
           if (from) txRequest.from = getAddress(from) as `0x${string}`;
 
           const [gasEstimate, gasPrice, block] = await Promise.all([
@@ -87,7 +88,7 @@ export class TxToolsPlugin implements DefiPlugin {
             blockNumber: block.number?.toString(),
           });
         } catch (e: any) {
-          return errorResult(`Gas estimation failed: ${e.message}`);
+          return errorResult(e, "Gas estimation failed");
         }
       },
     };
@@ -109,11 +110,12 @@ export class TxToolsPlugin implements DefiPlugin {
           const adapter = context.getChainAdapterForChain(chainId);
           const chain = adapter.getChain(chainId);
           if (!chain || chain.ecosystem !== "evm") {
-            return errorResult("Block info only supported on EVM chains");
+            return errorResult(
+              new UnsupportedChainForToolError("Block info", chainId, getEvmChainIds())
+            );
           }
 
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
 
           const blockTag = blockNumber && blockNumber !== "latest"
             ? { blockNumber: BigInt(blockNumber) }
@@ -134,7 +136,7 @@ export class TxToolsPlugin implements DefiPlugin {
             miner: block.miner,
           });
         } catch (e: any) {
-          return errorResult(`Failed to get block info: ${e.message}`);
+          return errorResult(e, "Failed to get block info");
         }
       },
     };
@@ -145,6 +147,7 @@ export class TxToolsPlugin implements DefiPlugin {
       name: "defi_get_nonce",
       description:
         "Get the current transaction nonce for an address. Useful for building transactions manually or detecting stuck transactions.",
+      sessionDefaults: { address: "wallet" },
       inputSchema: z.object({
         chainId: ChainIdSchema,
         address: AddressSchema.describe("Wallet address to check"),
@@ -156,11 +159,12 @@ export class TxToolsPlugin implements DefiPlugin {
           const adapter = context.getChainAdapterForChain(chainId);
           const chain = adapter.getChain(chainId);
           if (!chain || chain.ecosystem !== "evm") {
-            return errorResult("Nonce check only supported on EVM chains");
+            return errorResult(
+              new UnsupportedChainForToolError("Nonce check", chainId, getEvmChainIds())
+            );
           }
 
-          const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-          const client = createPublicClient({ transport: http(rpcUrl) });
+          const client = context.getEvmClient(chainId);
 
           const [confirmed, pending] = await Promise.all([
             client.getTransactionCount({ address: getAddress(address) }),
@@ -178,7 +182,7 @@ export class TxToolsPlugin implements DefiPlugin {
               : "No pending transactions",
           });
         } catch (e: any) {
-          return errorResult(`Failed to get nonce: ${e.message}`);
+          return errorResult(e, "Failed to get nonce");
         }
       },
     };
@@ -6,6 +6,8 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema } from "../../tools/schemas.js";
+import type { HttpClient } from "../../core/http-client.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
 
 const UNISWAP_V3_SUBGRAPH: Record<string, string> = {
   ethereum:
@@ -32,14 +34,11 @@ const SUPPORTED = Object.keys(UNISWAP_V3_SUBGRAPH);
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
-async function subgraphQuery(chainId: string, query: string): Promise<any> {
+async function subgraphQuery(http: HttpClient, chainId: string, query: string): Promise<any> {
   const url = UNISWAP_V3_SUBGRAPH[chainId];
   if (!url) throw new Error(`Uniswap V3 subgraph not available on "${chainId}"`);
-  const res = await fetch(url, {
+  const res = await http.fetch(url, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ query }),
@@ -54,6 +53,9 @@ export class UniswapV3Plugin implements DefiPlugin {
   readonly name = "uniswap-v3";
   readonly description = "Uniswap V3: pools, positions, and liquidity management";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["market-data"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -69,19 +71,20 @@ export class UniswapV3Plugin implements DefiPlugin {
   private poolsTool(): ToolDefinition {
     return {
       name: "defi_uniswap_pools",
+      capabilities: ["read", "external-api"],
       description: `Get top Uniswap V3 pools by TVL or volume. Supported chains: ${SUPPORTED.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
         orderBy: z.enum(["totalValueLockedUSD", "volumeUSD"]).optional().describe("Sort by TVL or volume (default: TVL)"),
         limit: z.number().int().min(1).max(50).optional().describe("Number of results (default 20)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, orderBy = "totalValueLockedUSD", limit = 20 } = input as {
             chainId: string; orderBy?: string; limit?: number;
           };
 
-          const data = await subgraphQuery(chainId, `{
+          const data = await subgraphQuery(context.http, chainId, `{
             pools(first: ${limit}, orderBy: ${orderBy}, orderDirection: desc,
                   where: { totalValueLockedUSD_gt: "10000" }) {
               id
@@ -108,7 +111,7 @@ export class UniswapV3Plugin implements DefiPlugin {
 
           return jsonResult({ chain: chainId, protocol: "Uniswap V3", count: pools.length, pools });
         } catch (e: any) {
-          return errorResult(`Failed to fetch Uniswap V3 pools: ${e.message}`);
+          return errorResult(e, "Failed to fetch Uniswap V3 pools");
         }
       },
     };
@@ -117,17 +120,18 @@ export class UniswapV3Plugin implements DefiPlugin {
   private poolInfoTool(): ToolDefinition {
     return {
       name: "defi_uniswap_pool_info",
+      capabilities: ["read", "external-api"],
       description: `Get detailed info about a specific Uniswap V3 pool including price, TVL, volume, and tick data. Supported chains: ${SUPPORTED.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
         poolAddress: AddressSchema.describe("Uniswap V3 pool contract address"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, poolAddress } = input as { chainId: string; poolAddress: string };
           const addr = poolAddress.toLowerCase();
 
-          const data = await subgraphQuery(chainId, `{
+          const data = await subgraphQuery(context.http, chainId, `{
             pool(id: "${addr}") {
               id
               token0 { symbol name decimals id }
@@ -182,7 +186,7 @@ export class UniswapV3Plugin implements DefiPlugin {
             },
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch pool info: ${e.message}`);
+          return errorResult(e, "Failed to fetch pool info");
         }
       },
     };
@@ -191,17 +195,18 @@ export class UniswapV3Plugin implements DefiPlugin {
   private positionsTool(): ToolDefinition {
     return {
       name: "defi_uniswap_positions",
+      capabilities: ["read", "external-api"],
       description: `Get a user's Uniswap V3 LP positions with current value and fee earnings. Supported chains: ${SUPPORTED.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
         userAddress: AddressSchema.describe("Wallet address to check"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, userAddress } = input as { chainId: string; userAddress: string };
           const addr = userAddress.toLowerCase();
 
-          const data = await subgraphQuery(chainId, `{
+          const data = await subgraphQuery(context.http, chainId, `{
             positions(where: { owner: "${addr}", liquidity_gt: "0" }, first: 50) {
               id
               pool {
@@ -248,7 +253,7 @@ export class UniswapV3Plugin implements DefiPlugin {
             positions,
           });
         } catch (e: any) {
-          return errorResult(`Failed to fetch positions: ${e.message}`);
+          return errorResult(e, "Failed to fetch positions");
         }
       },
     };
@@ -257,20 +262,21 @@ export class UniswapV3Plugin implements DefiPlugin {
   private collectFeesTool(): ToolDefinition {
     return {
       name: "defi_uniswap_collect_fees_tx",
+      capabilities: ["builds-tx"],
       description: `Build an unsigned transaction to collect accumulated fees from a Uniswap V3 LP position. Supported chains: ${SUPPORTED.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
         tokenId: z.string().describe("NFT position token ID"),
         userAddress: AddressSchema.describe("Wallet that owns the position"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, tokenId, userAddress } = input as {
             chainId: string; tokenId: string; userAddress: string;
           };
 
           const nftManager = NFT_POSITION_MANAGER[chainId];
-          if (!nftManager) return errorResult(`Uniswap V3 not available on "${chainId}"`);
+          if (!nftManager) return errorResult(new UnsupportedChainForToolError("Uniswap V3", chainId, Object.keys(NFT_POSITION_MANAGER)));
 
           const { encodeFunctionData, getAddress } = await import("viem");
           const collectAbi = [{
@@ -315,9 +321,10 @@ export class UniswapV3Plugin implements DefiPlugin {
               from: getAddress(userAddress),
             },
             description: `Collect all accumulated fees from Uniswap V3 position #${tokenId}`,
+            outflows: [],
           });
         } catch (e: any) {
-          return errorResult(`Failed to build collect tx: ${e.message}`);
+          return errorResult(e, "Failed to build collect tx");
         }
       },
     };
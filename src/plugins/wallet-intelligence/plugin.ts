@@ -1,24 +1,81 @@
 import { z } from "zod";
 import { BasePlugin } from "../../core/base-plugin.js";
-import type { ToolDefinition, ToolResult, PluginContext } from "../../core/types.js";
-import type { ProtocolPosition } from "../../core/scanner-types.js";
+import type {
+  ChainInfo,
+  ToolCallContext,
+  ToolDefinition,
+  ToolResult,
+} from "../../core/types.js";
+import type { ProtocolScanner } from "../../core/scanner-types.js";
+import { fanOut } from "../../core/tool-call.js";
 import { AddressSchema } from "../../tools/schemas.js";
 
+const UsdSchema = z.string().describe('USD value formatted like "$1234.56"');
+
+const WalletScanOutputSchema = z.object({
+  address: z.string(),
+  totalValueUsd: UsdSchema,
+  protocolsScanned: z.array(z.string()),
+  chainsScanned: z.array(z.string()),
+  summary: z.object({
+    byProtocol: z.record(
+      z.object({ totalUsd: UsdSchema, positionCount: z.number() })
+    ),
+    byChain: z.record(
+      z.object({
+        name: z.string(),
+        totalUsd: UsdSchema,
+        positionCount: z.number(),
+      })
+    ),
+  }),
+  positions: z.array(
+    z.object({
+      protocol: z.string(),
+      type: z.enum([
+        "lending-supply",
+        "lending-borrow",
+        "lp",
+        "staking",
+        "native",
+        "erc20",
+        "prediction-market",
+      ]),
+      chainId: z.string(),
+      chainName: z.string(),
+      totalValueUsd: UsdSchema,
+      assets: z.array(
+        z.object({
+          symbol: z.string(),
+          address: z.string(),
+          balance: z.string(),
+          balanceUsd: UsdSchema,
+          apy: z.number().optional(),
+          isDebt: z.boolean().optional(),
+        })
+      ),
+      metadata: z.record(z.unknown()).optional(),
+    })
+  ),
+});
+
 export class WalletIntelligencePlugin extends BasePlugin {
   readonly name = "wallet-intelligence";
   readonly description =
     "Comprehensive wallet scanning across all DeFi protocols and chains";
   readonly version = "1.0.0";
   readonly metadata = {
-    tags: ["portfolio", "analytics", "multi-chain", "multi-protocol"],
+    tags: ["wallet", "portfolio", "analytics", "multi-chain", "multi-protocol"],
   };
 
   getTools(): ToolDefinition[] {
     return [
       {
         name: "defi_wallet_scan",
+        capabilities: ["read", "external-api"],
         description:
           "Scan a wallet address for ALL DeFi positions across ALL supported protocols and chains. Returns native balances, ERC20 holdings, Aave V3 lending/borrowing positions, and Uniswap V3 LP positions, with aggregated USD values per protocol and chain.",
+        sessionDefaults: { address: "wallet" },
         inputSchema: z.object({
           address: AddressSchema.describe("Wallet address to scan"),
           chainIds: z
@@ -34,9 +91,10 @@ export class WalletIntelligencePlugin extends BasePlugin {
               'Specific protocols to scan (e.g. "Aave V3", "Uniswap V3"). If omitted, scans all.'
             ),
         }),
+        outputSchema: WalletScanOutputSchema,
         handler: async (
           input: unknown,
-          context: PluginContext
+          context: ToolCallContext
         ): Promise<ToolResult> => {
           const { address, chainIds, protocols } = input as {
             address: string;
@@ -47,9 +105,11 @@ export class WalletIntelligencePlugin extends BasePlugin {
           const scanners = context.getScanners();
           const allChains = context.getAllChains();
 
-          // Determine chains to scan
-          const chainsToScan = chainIds
-            ? allChains.filter((c) => chainIds.includes(c.id))
+          // Determine chains to scan, falling back to the configured defaults
+          const requested =
+            chainIds ?? context.config.plugins[this.name]?.defaultChains;
+          const chainsToScan = requested
+            ? allChains.filter((c) => requested.includes(c.id))
             : allChains.filter((c) => {
                 try {
                   return context
@@ -71,7 +131,7 @@ export class WalletIntelligencePlugin extends BasePlugin {
             : scanners;
 
           // Execute all scans in parallel: scanner × chain
-          const scanPromises: Promise<ProtocolPosition[]>[] = [];
+          const scans: Array<{ scanner: ProtocolScanner; chain: ChainInfo }> = [];
           for (const scanner of activeScanners) {
             for (const chain of chainsToScan) {
               // NativeBalanceScanner has empty supportedChains — run on all
@@ -79,16 +139,24 @@ export class WalletIntelligencePlugin extends BasePlugin {
                 scanner.supportedChains.length === 0 ||
                 scanner.supportedChains.includes(chain.id);
               if (supported) {
-                scanPromises.push(
-                  scanner
-                    .scanPositions(chain.id, address, context)
-                    .catch(() => [])
-                );
+                scans.push({ scanner, chain });
               }
             }
           }
 
-          const results = (await Promise.all(scanPromises)).flat();
+          const track = fanOut(context, scans.length);
+          const results = (
+            await Promise.all(
+              scans.map(({ scanner, chain }) =>
+                track(
+                  scanner
+                    .scanPositions(chain.id, address, context)
+                    .catch(() => []),
+                  `${scanner.protocolName} on ${chain.name}`
+                )
+              )
+            )
+          ).flat();
 
           // Aggregate by protocol
           const byProtocol: Record<
@@ -1,12 +1,10 @@
 import {
-  createPublicClient,
-  http,
   getAddress,
-  formatUnits,
   maxUint256,
 } from "viem";
 import type { ProtocolScanner, ProtocolPosition, PositionAsset } from "../../../core/scanner-types.js";
 import type { PluginContext } from "../../../core/types.js";
+import { Decimal } from "../../../core/amount.js";
 import { AAVE_V3_ADDRESSES, getSupportedLendingChains } from "../../lending/aave-addresses.js";
 import { UI_POOL_DATA_PROVIDER_ABI, POOL_ABI, rayToApy } from "../../lending/aave-abi.js";
 
@@ -25,11 +23,7 @@ export class AaveV3Scanner implements ProtocolScanner {
     const chain = context.getChainAdapterForChain(chainId).getChain(chainId);
     if (!chain) return [];
 
-    const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-    const client = createPublicClient({
-      transport: http(rpcUrl, { batch: true }),
-      batch: { multicall: true },
-    });
+    const client = context.getEvmClient(chainId);
     const user = getAddress(walletAddress);
 
     let userReservesResult: readonly [any[], any];
@@ -92,8 +86,8 @@ export class AaveV3Scanner implements ProtocolScanner {
     const positions: ProtocolPosition[] = [];
     const supplyAssets: PositionAsset[] = [];
     const borrowAssets: PositionAsset[] = [];
-    let supplyTotal = 0;
-    let borrowTotal = 0;
+    let supplyTotal = Decimal.ZERO;
+    let borrowTotal = Decimal.ZERO;
 
     for (const ur of userReserves) {
       const meta = reserveMap.get(ur.underlyingAsset.toLowerCase());
@@ -103,14 +97,14 @@ export class AaveV3Scanner implements ProtocolScanner {
       if (ur.scaledATokenBalance > 0n) {
         const actualBalance =
           (ur.scaledATokenBalance * meta.liquidityIndex) / 10n ** 27n;
-        const formatted = Number(formatUnits(actualBalance, meta.decimals));
-        const usd = formatted * meta.priceUsd;
-        supplyTotal += usd;
+        const formatted = Decimal.fromUnits(actualBalance, meta.decimals);
+        const usd = formatted.times(meta.priceUsd);
+        supplyTotal = supplyTotal.plus(usd);
         supplyAssets.push({
           symbol: meta.symbol,
           address: ur.underlyingAsset,
           balance: formatted.toFixed(6),
-          balanceUsd: usd,
+          balanceUsd: usd.toNumber(),
           apy: meta.supplyApy,
         });
       }
@@ -119,14 +113,14 @@ export class AaveV3Scanner implements ProtocolScanner {
       if (ur.scaledVariableDebt > 0n) {
         const actualDebt =
           (ur.scaledVariableDebt * meta.variableBorrowIndex) / 10n ** 27n;
-        const formatted = Number(formatUnits(actualDebt, meta.decimals));
-        const usd = formatted * meta.priceUsd;
-        borrowTotal += usd;
+        const formatted = Decimal.fromUnits(actualDebt, meta.decimals);
+        const usd = formatted.times(meta.priceUsd);
+        borrowTotal = borrowTotal.plus(usd);
         borrowAssets.push({
           symbol: meta.symbol,
           address: ur.underlyingAsset,
           balance: formatted.toFixed(6),
-          balanceUsd: usd,
+          balanceUsd: usd.toNumber(),
           apy: meta.borrowApy,
           isDebt: true,
         });
@@ -134,16 +128,14 @@ export class AaveV3Scanner implements ProtocolScanner {
 
       // Stable debt
       if (ur.principalStableDebt > 0n) {
-        const formatted = Number(
-          formatUnits(ur.principalStableDebt, meta.decimals)
-        );
-        const usd = formatted * meta.priceUsd;
-        borrowTotal += usd;
+        const formatted = Decimal.fromUnits(ur.principalStableDebt, meta.decimals);
+        const usd = formatted.times(meta.priceUsd);
+        borrowTotal = borrowTotal.plus(usd);
         borrowAssets.push({
           symbol: meta.symbol,
           address: ur.underlyingAsset,
           balance: formatted.toFixed(6),
-          balanceUsd: usd,
+          balanceUsd: usd.toNumber(),
           isDebt: true,
         });
       }
@@ -156,7 +148,7 @@ export class AaveV3Scanner implements ProtocolScanner {
         chainId,
         chainName: chain.name,
         assets: supplyAssets,
-        totalValueUsd: supplyTotal,
+        totalValueUsd: supplyTotal.toNumber(),
       });
     }
 
@@ -167,7 +159,7 @@ export class AaveV3Scanner implements ProtocolScanner {
         chainId,
         chainName: chain.name,
         assets: borrowAssets,
-        totalValueUsd: -borrowTotal, // negative for debt
+        totalValueUsd: -borrowTotal.toNumber(), // negative for debt
       });
     }
 
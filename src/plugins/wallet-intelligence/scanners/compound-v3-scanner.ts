@@ -1,9 +1,10 @@
-import { createPublicClient, http, getAddress, formatUnits } from "viem";
+import { getAddress } from "viem";
 import type {
   ProtocolScanner,
   ProtocolPosition,
 } from "../../../core/scanner-types.js";
 import type { PluginContext } from "../../../core/types.js";
+import { Decimal } from "../../../core/amount.js";
 import {
   COMPOUND_V3_MARKETS,
   getSupportedCompoundV3Chains,
@@ -25,11 +26,7 @@ export class CompoundV3Scanner implements ProtocolScanner {
     const chain = context.getChainAdapterForChain(chainId).getChain(chainId);
     if (!chain) return [];
 
-    const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-    const client = createPublicClient({
-      transport: http(rpcUrl, { batch: true }),
-      batch: { multicall: true },
-    });
+    const client = context.getEvmClient(chainId);
     const user = getAddress(walletAddress);
 
     try {
@@ -81,9 +78,8 @@ export class CompoundV3Scanner implements ProtocolScanner {
       const positions: ProtocolPosition[] = [];
 
       if (supplyBal > 0n) {
-        const balance = Number(
-          formatUnits(supplyBal, market.baseTokenDecimals)
-        );
+        const balance = Decimal.fromUnits(supplyBal, market.baseTokenDecimals);
+        const usd = balance.times(priceUsd).toNumber();
         positions.push({
           protocol: "Compound V3",
           type: "lending-supply",
@@ -94,18 +90,17 @@ export class CompoundV3Scanner implements ProtocolScanner {
               symbol: market.baseToken,
               address: market.comet,
               balance: balance.toFixed(6),
-              balanceUsd: balance * priceUsd,
+              balanceUsd: usd,
               apy: supplyApr,
             },
           ],
-          totalValueUsd: balance * priceUsd,
+          totalValueUsd: usd,
         });
       }
 
       if (borrowBal > 0n) {
-        const balance = Number(
-          formatUnits(borrowBal, market.baseTokenDecimals)
-        );
+        const balance = Decimal.fromUnits(borrowBal, market.baseTokenDecimals);
+        const usd = balance.times(priceUsd).toNumber();
         positions.push({
           protocol: "Compound V3",
           type: "lending-borrow",
@@ -116,12 +111,12 @@ export class CompoundV3Scanner implements ProtocolScanner {
               symbol: market.baseToken,
               address: market.comet,
               balance: balance.toFixed(6),
-              balanceUsd: balance * priceUsd,
+              balanceUsd: usd,
               apy: borrowApr,
               isDebt: true,
             },
           ],
-          totalValueUsd: -(balance * priceUsd),
+          totalValueUsd: -usd,
         });
       }
 
@@ -1,14 +1,12 @@
 import {
-  createPublicClient,
-  http,
   getAddress,
   erc20Abi,
-  formatUnits,
 } from "viem";
 import type { ProtocolScanner, ProtocolPosition, PositionAsset } from "../../../core/scanner-types.js";
 import type { PluginContext } from "../../../core/types.js";
 import { KNOWN_TOKENS } from "../../../chains/evm/known-tokens.js";
 import { CoinGeckoClient } from "../../token-info/coingecko.js";
+import { Decimal } from "../../../core/amount.js";
 
 export class Erc20Scanner implements ProtocolScanner {
   readonly protocolName = "ERC20 Tokens";
@@ -25,8 +23,7 @@ export class Erc20Scanner implements ProtocolScanner {
     const chain = context.getChainAdapterForChain(chainId).getChain(chainId);
     if (!chain) return [];
 
-    const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-    const client = createPublicClient({ transport: http(rpcUrl) });
+    const client = context.getEvmClient(chainId);
     const user = getAddress(walletAddress);
     const tokenEntries = Object.values(tokens);
 
@@ -58,7 +55,10 @@ export class Erc20Scanner implements ProtocolScanner {
     let priceMap: Record<string, number> = {};
     if (coingeckoIds.length > 0) {
       try {
-        const cg = new CoinGeckoClient(context.config.apiKeys.coingecko);
+        const cg = new CoinGeckoClient(
+          context.http,
+          context.apiKeys.coingecko
+        );
         const prices = await cg.getPricesByIds(coingeckoIds);
         for (const [id, data] of Object.entries(prices)) {
           priceMap[id] = data.usd;
@@ -69,20 +69,19 @@ export class Erc20Scanner implements ProtocolScanner {
     }
 
     const assets: PositionAsset[] = [];
-    let totalUsd = 0;
+    let totalUsd = Decimal.ZERO;
 
     for (const { token, balance } of nonZero) {
-      const formatted = formatUnits(balance, token.decimals);
-      const balNum = parseFloat(formatted);
+      const amount = Decimal.fromUnits(balance, token.decimals);
       const price = token.coingeckoId ? priceMap[token.coingeckoId] ?? 0 : 0;
-      const usd = balNum * price;
-      totalUsd += usd;
+      const usd = amount.times(price);
+      totalUsd = totalUsd.plus(usd);
 
       assets.push({
         symbol: token.symbol,
         address: token.address,
-        balance: balNum.toFixed(6),
-        balanceUsd: usd,
+        balance: amount.toFixed(6),
+        balanceUsd: usd.toNumber(),
       });
     }
 
@@ -93,7 +92,7 @@ export class Erc20Scanner implements ProtocolScanner {
         chainId,
         chainName: chain.name,
         assets,
-        totalValueUsd: totalUsd,
+        totalValueUsd: totalUsd.toNumber(),
       },
     ];
   }
@@ -1,10 +1,11 @@
-import { createPublicClient, http, getAddress, formatUnits, erc20Abi } from "viem";
+import { getAddress, erc20Abi } from "viem";
 import type {
   ProtocolScanner,
   ProtocolPosition,
   PositionAsset,
 } from "../../../core/scanner-types.js";
 import type { PluginContext } from "../../../core/types.js";
+import { Decimal } from "../../../core/amount.js";
 
 const STETH_ADDRESSES: Record<string, `0x${string}`> = {
   ethereum: "0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84",
@@ -41,11 +42,7 @@ export class LidoScanner implements ProtocolScanner {
     const chain = context.getChainAdapterForChain(chainId).getChain(chainId);
     if (!chain) return [];
 
-    const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-    const client = createPublicClient({
-      transport: http(rpcUrl, { batch: true }),
-      batch: { multicall: true },
-    });
+    const client = context.getEvmClient(chainId);
     const user = getAddress(walletAddress);
 
     try {
@@ -70,7 +67,7 @@ export class LidoScanner implements ProtocolScanner {
       const results = await client.multicall({ contracts });
 
       const assets: PositionAsset[] = [];
-      let totalValueUsd = 0;
+      let totalValueUsd = Decimal.ZERO;
       let idx = 0;
 
       // Get ETH price for USD conversion (stETH ~= ETH price)
@@ -79,7 +76,7 @@ export class LidoScanner implements ProtocolScanner {
         const adapter = context.getChainAdapterForChain(chainId);
         const ethToken = await adapter.resolveToken(chainId, "ETH");
         if (ethToken?.coingeckoId) {
-          const priceRes = await fetch(
+          const priceRes = await context.http.fetch(
             `https://api.coingecko.com/api/v3/simple/price?ids=${ethToken.coingeckoId}&vs_currencies=usd`
           );
           if (priceRes.ok) {
@@ -95,14 +92,14 @@ export class LidoScanner implements ProtocolScanner {
         const bal = (results[idx]?.result as bigint) ?? 0n;
         idx++;
         if (bal > 0n) {
-          const balance = Number(formatUnits(bal, 18));
-          const usd = balance * ethPriceUsd;
-          totalValueUsd += usd;
+          const balance = Decimal.fromUnits(bal, 18);
+          const usd = balance.times(ethPriceUsd);
+          totalValueUsd = totalValueUsd.plus(usd);
           assets.push({
             symbol: "stETH",
             address: stethAddr,
             balance: balance.toFixed(6),
-            balanceUsd: usd,
+            balanceUsd: usd.toNumber(),
           });
         }
       }
@@ -111,16 +108,15 @@ export class LidoScanner implements ProtocolScanner {
         const bal = (results[idx]?.result as bigint) ?? 0n;
         idx++;
         if (bal > 0n) {
-          const balance = Number(formatUnits(bal, 18));
+          const balance = Decimal.fromUnits(bal, 18);
           // wstETH trades at a premium over stETH (~1.17x), approximate
-          const wstethPriceUsd = ethPriceUsd * 1.17;
-          const usd = balance * wstethPriceUsd;
-          totalValueUsd += usd;
+          const usd = balance.times(ethPriceUsd).times(1.17);
+          totalValueUsd = totalValueUsd.plus(usd);
           assets.push({
             symbol: "wstETH",
             address: wstethAddr,
             balance: balance.toFixed(6),
-            balanceUsd: usd,
+            balanceUsd: usd.toNumber(),
           });
         }
       }
@@ -134,7 +130,7 @@ export class LidoScanner implements ProtocolScanner {
           chainId,
           chainName: chain.name,
           assets,
-          totalValueUsd,
+          totalValueUsd: totalValueUsd.toNumber(),
         },
       ];
     } catch {
@@ -1,6 +1,7 @@
 import type { ProtocolScanner, ProtocolPosition } from "../../../core/scanner-types.js";
 import type { PluginContext } from "../../../core/types.js";
 import { CoinGeckoClient } from "../../token-info/coingecko.js";
+import { Decimal } from "../../../core/amount.js";
 
 export class NativeBalanceScanner implements ProtocolScanner {
   readonly protocolName = "Native Tokens";
@@ -17,14 +18,17 @@ export class NativeBalanceScanner implements ProtocolScanner {
     if (!adapter.isValidAddress(chainId, walletAddress)) return [];
 
     const balance = await adapter.getNativeBalance(chainId, walletAddress);
-    const balanceNum = parseFloat(balance.balanceFormatted);
-    if (balanceNum === 0) return [];
+    const amount = Decimal.from(balance.balanceFormatted);
+    if (amount.isZero()) return [];
 
     // Get USD price
     let priceUsd = 0;
     if (chain.nativeToken.coingeckoId) {
       try {
-        const cg = new CoinGeckoClient(context.config.apiKeys.coingecko);
+        const cg = new CoinGeckoClient(
+          context.http,
+          context.apiKeys.coingecko
+        );
         const prices = await cg.getPricesByIds([chain.nativeToken.coingeckoId]);
         priceUsd = prices[chain.nativeToken.coingeckoId]?.usd ?? 0;
       } catch {
@@ -32,7 +36,7 @@ export class NativeBalanceScanner implements ProtocolScanner {
       }
     }
 
-    const valueUsd = balanceNum * priceUsd;
+    const valueUsd = amount.times(priceUsd).toNumber();
 
     return [
       {
@@ -4,6 +4,7 @@ import type {
 } from "../../../core/scanner-types.js";
 import type { PluginContext } from "../../../core/types.js";
 import { DATA_API } from "../../polymarket/addresses.js";
+import { Decimal } from "../../../core/amount.js";
 
 export class PolymarketScanner implements ProtocolScanner {
   readonly protocolName = "Polymarket";
@@ -12,12 +13,12 @@ export class PolymarketScanner implements ProtocolScanner {
   async scanPositions(
     chainId: string,
     walletAddress: string,
-    _context: PluginContext
+    context: PluginContext
   ): Promise<ProtocolPosition[]> {
     if (chainId !== "polygon") return [];
 
     try {
-      const res = await fetch(
+      const res = await context.http.fetch(
         `${DATA_API}/positions?user=${walletAddress.toLowerCase()}`
       );
       if (!res.ok) return [];
@@ -25,17 +26,17 @@ export class PolymarketScanner implements ProtocolScanner {
 
       if (!Array.isArray(positions) || positions.length === 0) return [];
 
-      let totalValueUsd = 0;
+      let totalValueUsd = Decimal.ZERO;
       const assets = positions
-        .filter((p: any) => parseFloat(p.size) > 0)
+        .filter((p: any) => Decimal.tryFrom(p.size)?.gt(0))
         .map((p: any) => {
-          const value = parseFloat(p.currentValue) || 0;
-          totalValueUsd += value;
+          const value = Decimal.tryFrom(p.currentValue) ?? Decimal.ZERO;
+          totalValueUsd = totalValueUsd.plus(value);
           return {
             symbol: (p.title || p.outcome || "Unknown").slice(0, 50),
             address: p.asset || "",
             balance: p.size || "0",
-            balanceUsd: value,
+            balanceUsd: value.toNumber(),
           };
         });
 
@@ -48,7 +49,7 @@ export class PolymarketScanner implements ProtocolScanner {
           chainId,
           chainName: "Polygon",
           assets,
-          totalValueUsd,
+          totalValueUsd: totalValueUsd.toNumber(),
         },
       ];
     } catch {
@@ -1,6 +1,4 @@
 import {
-  createPublicClient,
-  http,
   getAddress,
   erc20Abi,
 } from "viem";
@@ -23,11 +21,7 @@ export class UniswapV3LPScanner implements ProtocolScanner {
     const chain = context.getChainAdapterForChain(chainId).getChain(chainId);
     if (!chain) return [];
 
-    const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-    const client = createPublicClient({
-      transport: http(rpcUrl, { batch: true }),
-      batch: { multicall: true },
-    });
+    const client = context.getEvmClient(chainId);
     const user = getAddress(walletAddress);
 
     // Get number of LP NFTs
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { encodeFunctionData, getAddress, parseEther } from "viem";
+import { encodeFunctionData, getAddress } from "viem";
 import type {
   DefiPlugin,
   PluginContext,
@@ -7,6 +7,8 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema, AmountSchema } from "../../tools/schemas.js";
+import { NATIVE_TOKEN_ADDRESS } from "../../chains/evm/chains.js";
+import { parseTokenAmount } from "../../core/utils.js";
 
 const WETH_ADDRESSES: Record<string, string> = {
   ethereum: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
@@ -51,6 +53,9 @@ export class WethPlugin implements DefiPlugin {
   readonly name = "weth";
   readonly description = "Wrap/unwrap native tokens (ETH→WETH, MATIC→WMATIC, etc.)";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["trading"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -61,6 +66,7 @@ export class WethPlugin implements DefiPlugin {
   private wrapTool(): ToolDefinition {
     return {
       name: "defi_weth_wrap_tx",
+      capabilities: ["builds-tx"],
       description: `Build an unsigned transaction to wrap native tokens (ETH→WETH, MATIC→WMATIC, AVAX→WAVAX, BNB→WBNB). Required before using native tokens in most DeFi protocols. Supported chains: ${SUPPORTED.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
@@ -81,7 +87,7 @@ export class WethPlugin implements DefiPlugin {
         }
 
         const [nativeName, wrappedName] = NATIVE_NAMES[chainId] || ["ETH", "WETH"];
-        const value = `0x${parseEther(amount).toString(16)}`;
+        const rawAmount = BigInt(parseTokenAmount(amount, 18));
 
         const data = encodeFunctionData({
           abi: WETH_ABI,
@@ -97,10 +103,11 @@ export class WethPlugin implements DefiPlugin {
               raw: {
                 to: wethAddr,
                 data,
-                value,
+                value: `0x${rawAmount.toString(16)}`,
                 from: getAddress(userAddress),
               },
               description: `Wrap ${amount} ${nativeName} → ${wrappedName}`,
+              outflows: [{ token: NATIVE_TOKEN_ADDRESS, amount: rawAmount.toString() }],
             }, null, 2),
           }],
         };
@@ -111,6 +118,7 @@ export class WethPlugin implements DefiPlugin {
   private unwrapTool(): ToolDefinition {
     return {
       name: "defi_weth_unwrap_tx",
+      capabilities: ["builds-tx"],
       description: `Build an unsigned transaction to unwrap wrapped native tokens (WETH→ETH, WMATIC→MATIC, WAVAX→AVAX, WBNB→BNB). Supported chains: ${SUPPORTED.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
@@ -131,7 +139,7 @@ export class WethPlugin implements DefiPlugin {
         }
 
         const [nativeName, wrappedName] = NATIVE_NAMES[chainId] || ["ETH", "WETH"];
-        const rawAmount = parseEther(amount);
+        const rawAmount = BigInt(parseTokenAmount(amount, 18));
 
         const data = encodeFunctionData({
           abi: WETH_ABI,
@@ -152,6 +160,7 @@ export class WethPlugin implements DefiPlugin {
                 from: getAddress(userAddress),
               },
               description: `Unwrap ${amount} ${wrappedName} → ${nativeName}`,
+              outflows: [{ token: wethAddr, amount: rawAmount.toString() }],
             }, null, 2),
           }],
         };
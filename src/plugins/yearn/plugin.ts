@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { getAddress, encodeFunctionData, parseUnits, maxUint256 } from "viem";
+import { getAddress, encodeFunctionData, maxUint256 } from "viem";
 import type {
   DefiPlugin,
   PluginContext,
@@ -7,12 +7,18 @@ import type {
   ToolResult,
 } from "../../core/types.js";
 import { ChainIdSchema, AddressSchema, AmountSchema } from "../../tools/schemas.js";
+import { getEvmChainId } from "../../chains/registry.js";
+import { errorResult, UnsupportedChainForToolError } from "../../core/errors.js";
+import { parseTokenAmount } from "../../core/utils.js";
 
 const YDAEMON = "https://ydaemon.yearn.fi";
 
-const CHAIN_MAP: Record<string, number> = {
-  ethereum: 1, optimism: 10, polygon: 137, base: 8453, arbitrum: 42161,
-};
+/** Chains Yearn V3 is deployed on */
+const YEARN_CHAINS = ["ethereum", "optimism", "polygon", "base", "arbitrum"];
+
+function yearnChainId(chainId: string): number | undefined {
+  return YEARN_CHAINS.includes(chainId) ? getEvmChainId(chainId) : undefined;
+}
 
 // ERC4626 vault ABI (Yearn V3 uses this standard)
 const VAULT_ABI = [
@@ -53,14 +59,14 @@ const VAULT_ABI = [
 function jsonResult(data: unknown): ToolResult {
   return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
 }
-function errorResult(msg: string): ToolResult {
-  return { content: [{ type: "text", text: msg }], isError: true };
-}
 
 export class YearnPlugin implements DefiPlugin {
   readonly name = "yearn";
   readonly description = "Yearn V3 yield vaults: list vaults, deposit, withdraw";
   readonly version = "1.0.0";
+  readonly metadata = {
+    tags: ["yield"],
+  };
 
   async initialize(_ctx: PluginContext): Promise<void> {}
 
@@ -75,18 +81,19 @@ export class YearnPlugin implements DefiPlugin {
   private vaultsTool(): ToolDefinition {
     return {
       name: "defi_yearn_vaults",
-      description: `List Yearn V3 vaults with APY, TVL, and underlying token. Supported chains: ${Object.keys(CHAIN_MAP).join(", ")}.`,
+      capabilities: ["read", "external-api"],
+      description: `List Yearn V3 vaults with APY, TVL, and underlying token. Supported chains: ${YEARN_CHAINS.join(", ")}.`,
       inputSchema: z.object({
         chainId: ChainIdSchema,
         limit: z.number().int().min(1).max(50).optional().describe("Number of results (default 20)"),
       }),
-      handler: async (input: unknown): Promise<ToolResult> => {
+      handler: async (input: unknown, context: PluginContext): Promise<ToolResult> => {
         try {
           const { chainId, limit = 20 } = input as { chainId: string; limit?: number };
-          const numericId = CHAIN_MAP[chainId];
-          if (!numericId) return errorResult(`Yearn not available on "${chainId}". Supported: ${Object.keys(CHAIN_MAP).join(", ")}`);
+          const numericId = yearnChainId(chainId);
+          if (!numericId) return errorResult(new UnsupportedChainForToolError("Yearn", chainId, YEARN_CHAINS));
 
-          const res = await fetch(`${YDAEMON}/${numericId}/vaults/all`);
+          const res = await context.http.fetch(`${YDAEMON}/${numericId}/vaults/all`);
           if (!res.ok) throw new Error(`yDaemon ${res.status}`);
           const data = await res.json();
 
@@ -108,7 +115,7 @@ export class YearnPlugin implements DefiPlugin {
 
           return jsonResult({ chain: chainId, count: vaults.length, vaults });
         } catch (e: any) {
-          return errorResult(`Failed to fetch Yearn vaults: ${e.message}`);
+          return errorResult(e, "Failed to fetch Yearn vaults");
         }
       },
     };
@@ -117,6 +124,7 @@ export class YearnPlugin implements DefiPlugin {
   private depositTxTool(): ToolDefinition {
     return {
       name: "defi_yearn_deposit_tx",
+      capabilities: ["builds-tx"],
       description:
         "Build an unsigned transaction to deposit into a Yearn V3 vault. The underlying token must be approved for the vault first (use defi_token_approve).",
       inputSchema: z.object({
@@ -134,7 +142,7 @@ export class YearnPlugin implements DefiPlugin {
 
         const user = getAddress(userAddress);
         const vault = getAddress(vaultAddress);
-        const rawAmount = parseUnits(amount, tokenDecimals);
+        const rawAmount = BigInt(parseTokenAmount(amount, tokenDecimals));
 
         const data = encodeFunctionData({
           abi: VAULT_ABI,
@@ -156,6 +164,7 @@ export class YearnPlugin implements DefiPlugin {
   private withdrawTxTool(): ToolDefinition {
     return {
       name: "defi_yearn_withdraw_tx",
+      capabilities: ["builds-tx"],
       description:
         'Build an unsigned transaction to withdraw from a Yearn V3 vault. Use amount "max" to redeem all shares.',
       inputSchema: z.object({
@@ -183,7 +192,7 @@ export class YearnPlugin implements DefiPlugin {
             args: [maxUint256, user, user],
           });
         } else {
-          const rawAmount = parseUnits(amount, tokenDecimals);
+          const rawAmount = BigInt(parseTokenAmount(amount, tokenDecimals));
           data = encodeFunctionData({
             abi: VAULT_ABI,
             functionName: "withdraw",
@@ -196,6 +205,7 @@ export class YearnPlugin implements DefiPlugin {
           ecosystem: "evm",
           raw: { to: vault, data, value: "0x0", from: user },
           description: `Withdraw ${isMax ? "all" : amount} from Yearn vault ${vaultAddress}`,
+          outflows: [],
         });
       },
     };
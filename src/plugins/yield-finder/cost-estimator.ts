@@ -1,6 +1,8 @@
-import { createPublicClient, http, formatUnits } from "viem";
 import type { PluginContext } from "../../core/types.js";
+import { Decimal } from "../../core/amount.js";
+import { parseTokenAmount } from "../../core/utils.js";
 import { CoinGeckoClient } from "../token-info/coingecko.js";
+import { getEvmChainId } from "../../chains/registry.js";
 
 /** Estimated gas units for common DeFi operations */
 const GAS_ESTIMATES: Record<string, number> = {
@@ -9,17 +11,6 @@ const GAS_ESTIMATES: Record<string, number> = {
   erc20_approve: 50_000,
 };
 
-/** Li.Fi chain ID mapping */
-const LIFI_CHAIN_IDS: Record<string, number> = {
-  ethereum: 1,
-  polygon: 137,
-  arbitrum: 42161,
-  base: 8453,
-  optimism: 10,
-  avalanche: 43114,
-  bsc: 56,
-};
-
 /**
  * Estimate gas cost in USD for a transaction on a given chain.
  * Uses heuristic gas amounts (not eth_estimateGas) for speed.
@@ -28,26 +19,28 @@ export async function estimateGasCostUsd(
   chainId: string,
   operation: string,
   context: PluginContext
-): Promise<number> {
+): Promise<Decimal> {
   const chain = context.getChainAdapterForChain(chainId).getChain(chainId);
-  if (!chain) return 0;
+  if (!chain) return Decimal.ZERO;
 
-  const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-  const client = createPublicClient({ transport: http(rpcUrl) });
+  const client = context.getEvmClient(chainId);
 
   const gasUnits = GAS_ESTIMATES[operation] ?? 250_000;
 
   try {
     const gasPrice = await client.getGasPrice();
-    const gasCostNative = Number(formatUnits(gasPrice * BigInt(gasUnits), 18));
+    const gasCostNative = Decimal.fromUnits(gasPrice * BigInt(gasUnits), 18);
 
     // Get native token price
     if (chain.nativeToken.coingeckoId) {
-      const cg = new CoinGeckoClient(context.config.apiKeys.coingecko);
+      const cg = new CoinGeckoClient(
+        context.http,
+        context.apiKeys.coingecko
+      );
       const prices = await cg.getPricesByIds([chain.nativeToken.coingeckoId]);
       const nativePrice =
         prices[chain.nativeToken.coingeckoId]?.usd ?? 0;
-      return gasCostNative * nativePrice;
+      return gasCostNative.times(nativePrice);
     }
   } catch {
     // Fallback heuristics per chain
@@ -59,10 +52,10 @@ export async function estimateGasCostUsd(
       optimism: 0.05,
       avalanche: 0.10,
     };
-    return fallbacks[chainId] ?? 0.5;
+    return Decimal.from(fallbacks[chainId] ?? 0.5);
   }
 
-  return 0;
+  return Decimal.ZERO;
 }
 
 /**
@@ -75,26 +68,25 @@ export async function estimateBridgeCostUsd(
   tokenSymbol: string,
   amount: string,
   context: PluginContext
-): Promise<number> {
-  if (fromChainId === toChainId) return 0;
+): Promise<Decimal> {
+  if (fromChainId === toChainId) return Decimal.ZERO;
 
-  const fromNum = LIFI_CHAIN_IDS[fromChainId];
-  const toNum = LIFI_CHAIN_IDS[toChainId];
-  if (!fromNum || !toNum) return 0;
+  const fromNum = getEvmChainId(fromChainId);
+  const toNum = getEvmChainId(toChainId);
+  if (!fromNum || !toNum) return Decimal.ZERO;
 
   // Resolve token on source chain
   const adapter = context.getChainAdapterForChain(fromChainId);
   const token = await adapter.resolveToken(fromChainId, tokenSymbol);
-  if (!token) return 0;
+  if (!token) return Decimal.ZERO;
 
   // Resolve token on dest chain
   const dstAdapter = context.getChainAdapterForChain(toChainId);
   const dstToken = await dstAdapter.resolveToken(toChainId, tokenSymbol);
-  if (!dstToken) return 0;
+  if (!dstToken) return Decimal.ZERO;
 
-  const rawAmount = BigInt(
-    Math.floor(parseFloat(amount) * 10 ** token.decimals)
-  ).toString();
+  // A quote only needs the order of magnitude, so extra decimals are dropped
+  const rawAmount = parseTokenAmount(amount, token.decimals, "down");
 
   try {
     // Use a well-known public address for quote only
@@ -104,15 +96,15 @@ export async function estimateBridgeCostUsd(
       `&fromToken=${token.address}&toToken=${dstToken.address}` +
       `&fromAmount=${rawAmount}&fromAddress=${vitalik}&slippage=0.005`;
 
-    const resp = await fetch(url);
-    if (!resp.ok) return 0;
+    const resp = await context.http.fetch(url);
+    if (!resp.ok) return Decimal.ZERO;
 
     const data = (await resp.json()) as any;
     const gasCosts = data?.estimate?.gasCosts;
     if (Array.isArray(gasCosts) && gasCosts.length > 0) {
       return gasCosts.reduce(
-        (sum: number, gc: any) => sum + parseFloat(gc.amountUSD || "0"),
-        0
+        (sum: Decimal, gc: any) => sum.plus(gc.amountUSD || "0"),
+        Decimal.ZERO
       );
     }
 
@@ -120,13 +112,13 @@ export async function estimateBridgeCostUsd(
     const feeCosts = data?.estimate?.feeCosts;
     if (Array.isArray(feeCosts) && feeCosts.length > 0) {
       return feeCosts.reduce(
-        (sum: number, fc: any) => sum + parseFloat(fc.amountUSD || "0"),
-        0
+        (sum: Decimal, fc: any) => sum.plus(fc.amountUSD || "0"),
+        Decimal.ZERO
       );
     }
   } catch {
     // Bridge estimation failed, return conservative estimate
   }
 
-  return 0;
+  return Decimal.ZERO;
 }
@@ -1,10 +1,48 @@
 import { z } from "zod";
 import { BasePlugin } from "../../core/base-plugin.js";
-import type { ToolDefinition, ToolResult, PluginContext } from "../../core/types.js";
+import type {
+  ToolDefinition,
+  ToolResult,
+  PluginContext,
+  ToolCallContext,
+} from "../../core/types.js";
 import type { YieldOpportunity } from "../../core/yield-types.js";
 import { AmountSchema } from "../../tools/schemas.js";
+import { Decimal } from "../../core/amount.js";
 import { estimateGasCostUsd, estimateBridgeCostUsd } from "./cost-estimator.js";
 
+const RankedOpportunitySchema = z.object({
+  protocol: z.string(),
+  chainId: z.string(),
+  chainName: z.string(),
+  asset: z.string(),
+  category: z.string(),
+  riskLevel: z.enum(["low", "medium", "high"]),
+  grossApy: z.string().describe('Percentage like "4.12%"'),
+  gasCostUsd: z.string(),
+  bridgeCostUsd: z.string(),
+  totalEntryCostUsd: z.string(),
+  netApy: z.string().describe("Gross APY less entry costs over the time horizon"),
+  estimatedGrossYieldUsd: z.string(),
+  estimatedNetYieldUsd: z.string(),
+  tvl: z.string().optional(),
+  executionSteps: z.array(z.string()),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+// Only token, amount, message and opportunitiesFound are set when nothing is found
+const FindBestYieldOutputSchema = z.object({
+  token: z.string(),
+  amount: z.string(),
+  message: z.string().optional(),
+  currentChainId: z.string().optional(),
+  timeHorizonDays: z.number().optional(),
+  riskTolerance: z.enum(["low", "medium", "high"]).optional(),
+  opportunitiesFound: z.number(),
+  bestOpportunity: RankedOpportunitySchema.nullable().optional(),
+  allOpportunities: z.array(RankedOpportunitySchema).optional(),
+});
+
 export class YieldFinderPlugin extends BasePlugin {
   readonly name = "yield-finder";
   readonly description =
@@ -18,6 +56,7 @@ export class YieldFinderPlugin extends BasePlugin {
     return [
       {
         name: "defi_find_best_yield",
+        capabilities: ["read", "external-api"],
         description:
           "Find the best yield opportunities for a token across all supported protocols and chains. Compares Aave V3 supply APY across Ethereum, Base, Arbitrum, Polygon, Optimism, and Avalanche. Factors in gas costs and bridge costs to calculate net APY. Returns a ranked list with execution steps.",
         inputSchema: z.object({
@@ -31,12 +70,14 @@ export class YieldFinderPlugin extends BasePlugin {
             .string()
             .optional()
             .describe(
-              "Chain where funds currently are. Used to calculate bridge costs for cross-chain opportunities."
+              "Chain where funds currently are. Used to calculate bridge costs for cross-chain opportunities. Defaults to the session's chain."
             ),
           riskTolerance: z
             .enum(["low", "medium", "high"])
             .optional()
-            .describe("Risk tolerance level. Defaults to medium."),
+            .describe(
+              "Risk tolerance level. Defaults to the session's, else medium."
+            ),
           timeHorizonDays: z
             .number()
             .optional()
@@ -44,15 +85,16 @@ export class YieldFinderPlugin extends BasePlugin {
               "Investment time horizon in days for net APY calculation. Defaults to 365."
             ),
         }),
+        outputSchema: FindBestYieldOutputSchema,
         handler: async (
           input: unknown,
-          context: PluginContext
+          context: ToolCallContext
         ): Promise<ToolResult> => {
           const {
             token,
             amount,
-            currentChainId,
-            riskTolerance = "medium",
+            currentChainId = context.session.chainId,
+            riskTolerance = context.session.riskTolerance ?? "medium",
             timeHorizonDays = 365,
           } = input as {
             token: string;
@@ -63,9 +105,9 @@ export class YieldFinderPlugin extends BasePlugin {
           };
 
           const yieldSources = context.getYieldSources();
-          const amountNum = parseFloat(amount);
+          const amountValue = Decimal.from(amount);
 
-          if (amountNum <= 0) {
+          if (amountValue.lte(0)) {
             return this.errorResult("Amount must be greater than 0");
           }
 
@@ -96,19 +138,22 @@ export class YieldFinderPlugin extends BasePlugin {
           );
 
           // Calculate net APY for each opportunity in parallel
-          const ranked = await Promise.all(
+          const scored = await Promise.all(
             filtered.map(async (opp) => {
               // Gas cost for approve + supply
-              const gasCostUsd = await estimateGasCostUsd(
-                opp.chainId,
-                "erc20_approve",
-                context
-              ).catch(() => 0) +
+              const gasCostUsd = (
+                await estimateGasCostUsd(
+                  opp.chainId,
+                  "erc20_approve",
+                  context
+                ).catch(() => Decimal.ZERO)
+              ).plus(
                 await estimateGasCostUsd(
                   opp.chainId,
                   "aave_supply",
                   context
-                ).catch(() => 0);
+                ).catch(() => Decimal.ZERO)
+              );
 
               // Bridge cost if cross-chain
               const bridgeCostUsd =
@@ -119,15 +164,19 @@ export class YieldFinderPlugin extends BasePlugin {
                       token,
                       amount,
                       context
-                    ).catch(() => 0)
-                  : 0;
+                    ).catch(() => Decimal.ZERO)
+                  : Decimal.ZERO;
 
-              const totalEntryCost = gasCostUsd + bridgeCostUsd;
-              const grossYield =
-                amountNum * (opp.apy / 100) * (timeHorizonDays / 365);
-              const netYield = grossYield - totalEntryCost;
-              const netApy =
-                (netYield / amountNum) * 100 * (365 / timeHorizonDays);
+              const totalEntryCost = gasCostUsd.plus(bridgeCostUsd);
+              // amount * apy% * days/365, and the reverse for the net APY
+              const grossYield = amountValue
+                .times(opp.apy)
+                .times(timeHorizonDays)
+                .div(36_500, 8, "half-even");
+              const netYield = grossYield.minus(totalEntryCost);
+              const netApy = netYield
+                .times(36_500)
+                .div(amountValue.times(timeHorizonDays), 8, "half-even");
 
               // Build execution steps
               const steps: string[] = [];
@@ -144,33 +193,35 @@ export class YieldFinderPlugin extends BasePlugin {
               );
 
               return {
-                protocol: opp.protocol,
-                chainId: opp.chainId,
-                chainName: opp.chainName,
-                asset: opp.asset,
-                category: opp.category,
-                riskLevel: opp.riskLevel,
-                grossApy: `${opp.apy.toFixed(2)}%`,
-                gasCostUsd: `$${gasCostUsd.toFixed(2)}`,
-                bridgeCostUsd: `$${bridgeCostUsd.toFixed(2)}`,
-                totalEntryCostUsd: `$${totalEntryCost.toFixed(2)}`,
-                netApy: `${netApy.toFixed(2)}%`,
-                estimatedGrossYieldUsd: `$${grossYield.toFixed(2)}`,
-                estimatedNetYieldUsd: `$${netYield.toFixed(2)}`,
-                tvl: opp.tvl
-                  ? `$${(opp.tvl / 1e6).toFixed(1)}M`
-                  : undefined,
-                executionSteps: steps,
-                metadata: opp.metadata,
+                netApy,
+                opportunity: {
+                  protocol: opp.protocol,
+                  chainId: opp.chainId,
+                  chainName: opp.chainName,
+                  asset: opp.asset,
+                  category: opp.category,
+                  riskLevel: opp.riskLevel,
+                  grossApy: `${opp.apy.toFixed(2)}%`,
+                  gasCostUsd: `$${gasCostUsd.toFixed(2)}`,
+                  bridgeCostUsd: `$${bridgeCostUsd.toFixed(2)}`,
+                  totalEntryCostUsd: `$${totalEntryCost.toFixed(2)}`,
+                  netApy: `${netApy.toFixed(2)}%`,
+                  estimatedGrossYieldUsd: `$${grossYield.toFixed(2)}`,
+                  estimatedNetYieldUsd: `$${netYield.toFixed(2)}`,
+                  tvl: opp.tvl
+                    ? `$${(opp.tvl / 1e6).toFixed(1)}M`
+                    : undefined,
+                  executionSteps: steps,
+                  metadata: opp.metadata,
+                },
               };
             })
           );
 
           // Sort by net APY descending
-          ranked.sort(
-            (a, b) =>
-              parseFloat(b.netApy) - parseFloat(a.netApy)
-          );
+          const ranked = scored
+            .sort((a, b) => b.netApy.cmp(a.netApy))
+            .map((r) => r.opportunity);
 
           return this.jsonResult({
             token,
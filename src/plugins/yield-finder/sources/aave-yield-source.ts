@@ -1,6 +1,6 @@
-import { createPublicClient, http, formatUnits } from "viem";
 import type { YieldSource, YieldOpportunity } from "../../../core/yield-types.js";
 import type { PluginContext } from "../../../core/types.js";
+import { Decimal } from "../../../core/amount.js";
 import {
   AAVE_V3_ADDRESSES,
   getSupportedLendingChains,
@@ -34,11 +34,7 @@ export class AaveYieldSource implements YieldSource {
     const chain = context.getChainAdapterForChain(chainId).getChain(chainId);
     if (!chain) return null;
 
-    const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-    const client = createPublicClient({
-      transport: http(rpcUrl, { batch: true }),
-      batch: { multicall: true },
-    });
+    const client = context.getEvmClient(chainId);
 
     const [reserves, baseCurrency] = (await client.readContract({
       address: addrs.uiPoolDataProvider,
@@ -47,10 +43,10 @@ export class AaveYieldSource implements YieldSource {
       args: [addrs.poolAddressesProvider],
     })) as readonly [any[], any];
 
-    const refUnit = Number(baseCurrency.marketReferenceCurrencyUnit);
-    const refPriceUsd =
-      Number(baseCurrency.marketReferenceCurrencyPriceInUsd) /
-      10 ** baseCurrency.networkBaseTokenPriceDecimals;
+    const refPriceUsd = Decimal.fromUnits(
+      baseCurrency.marketReferenceCurrencyPriceInUsd,
+      Number(baseCurrency.networkBaseTokenPriceDecimals)
+    );
 
     // Find matching reserve
     const reserve = reserves.find(
@@ -64,19 +60,14 @@ export class AaveYieldSource implements YieldSource {
     if (!reserve) return null;
 
     const decimals = Number(reserve.decimals);
-    const priceUsd =
-      (Number(reserve.priceInMarketReferenceCurrency) / refUnit) * refPriceUsd;
-    const availableLiquidity = Number(
-      formatUnits(reserve.availableLiquidity, decimals)
-    );
-    const totalVariableDebt = Number(
-      formatUnits(reserve.totalScaledVariableDebt, decimals)
-    );
-    const totalStableDebt = Number(
-      formatUnits(reserve.totalPrincipalStableDebt, decimals)
-    );
-    const totalSupplied = availableLiquidity + totalVariableDebt + totalStableDebt;
-    const tvl = totalSupplied * priceUsd;
+    const priceUsd = Decimal.from(reserve.priceInMarketReferenceCurrency)
+      .times(refPriceUsd)
+      .div(baseCurrency.marketReferenceCurrencyUnit, 18, "half-even");
+    const availableLiquidity = Decimal.fromUnits(reserve.availableLiquidity, decimals);
+    const totalDebt = Decimal.fromUnits(reserve.totalScaledVariableDebt, decimals)
+      .plus(Decimal.fromUnits(reserve.totalPrincipalStableDebt, decimals));
+    const totalSupplied = availableLiquidity.plus(totalDebt);
+    const tvl = totalSupplied.times(priceUsd).toNumber();
 
     return {
       protocol: "Aave V3",
@@ -91,13 +82,14 @@ export class AaveYieldSource implements YieldSource {
       category: "lending",
       metadata: {
         borrowApy: rayToApy(reserve.variableBorrowRate),
-        utilization:
-          totalSupplied > 0
-            ? ((totalVariableDebt + totalStableDebt) / totalSupplied) * 100
-            : 0,
-        ltv: Number(reserve.baseLTVasCollateral) / 100,
-        liquidationThreshold:
-          Number(reserve.reserveLiquidationThreshold) / 100,
+        utilization: totalSupplied.gt(0)
+          ? totalDebt.times(100).div(totalSupplied, 4, "half-even").toNumber()
+          : 0,
+        ltv: Decimal.fromUnits(reserve.baseLTVasCollateral, 2).toNumber(),
+        liquidationThreshold: Decimal.fromUnits(
+          reserve.reserveLiquidationThreshold,
+          2
+        ).toNumber(),
       },
     };
   }
@@ -1,6 +1,6 @@
-import { createPublicClient, http, formatUnits } from "viem";
 import type { YieldSource, YieldOpportunity } from "../../../core/yield-types.js";
 import type { PluginContext } from "../../../core/types.js";
+import { Decimal } from "../../../core/amount.js";
 import {
   COMPOUND_V3_MARKETS,
   getSupportedCompoundV3Chains,
@@ -37,11 +37,7 @@ export class CompoundV3YieldSource implements YieldSource {
     const chain = context.getChainAdapterForChain(chainId).getChain(chainId);
     if (!chain) return null;
 
-    const rpcUrl = context.config.rpcUrls[chainId] || chain.rpcUrl;
-    const client = createPublicClient({
-      transport: http(rpcUrl, { batch: true }),
-      batch: { multicall: true },
-    });
+    const client = context.getEvmClient(chainId);
 
     const [utilization, totalSupply, totalBorrow] = await Promise.all([
       client.readContract({
@@ -82,8 +78,9 @@ export class CompoundV3YieldSource implements YieldSource {
     const isStable =
       market.baseToken === "USDC" || market.baseToken === "USDT";
     const priceUsd = isStable ? 1 : 0;
-    const tvl =
-      Number(formatUnits(totalSupply, market.baseTokenDecimals)) * priceUsd;
+    const tvl = Decimal.fromUnits(totalSupply, market.baseTokenDecimals)
+      .times(priceUsd)
+      .toNumber();
     const utilizationPct = (Number(utilization) / 1e18) * 100;
 
     return {
@@ -26,7 +26,7 @@ export class LidoYieldSource implements YieldSource {
     // Fetch current APR from Lido API
     let apr: number;
     try {
-      const res = await fetch(LIDO_APR_API);
+      const res = await context.http.fetch(LIDO_APR_API);
       if (!res.ok) return [];
       const data = await res.json();
       apr = parseFloat(data.data?.apr ?? data.apr ?? "0");
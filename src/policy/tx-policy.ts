@@ -0,0 +1,388 @@
+import { decodeFunctionData, erc20Abi, parseAbi } from "viem";
+import type {
+  ChainInfo,
+  PluginContext,
+  TokenAmount,
+  ToolResult,
+  TxPolicyConfig,
+  UnsignedTransaction,
+} from "../core/types.js";
+import { errorResult, TxPolicyViolationError } from "../core/errors.js";
+import { Decimal } from "../core/amount.js";
+import { CoinGeckoClient } from "../plugins/token-info/coingecko.js";
+import { getAddressSecurity } from "../plugins/security/goplus.js";
+
+const DECODABLE_ABI = [
+  ...erc20Abi,
+  // Permit2 allowance, e.g. from defi_permit2_approve
+  ...parseAbi([
+    "function approve(address token, address spender, uint160 amount, uint48 expiration)",
+  ]),
+];
+
+// Approvals at or above this are treated as unlimited (max uint160/uint256)
+const UNLIMITED_APPROVAL = 2n ** 128n;
+
+/** What a transaction does, as far as it can be read from the transaction */
+interface TxEffects {
+  /** Contracts called, other than a token being transferred or approved */
+  contracts: string[];
+  /** Receivers of native or ERC-20 transfers */
+  recipients: string[];
+  approvals: Array<{ spender: string; amount: bigint }>;
+  /** Tokens spent; undefined when that can't be read or wasn't declared */
+  outflows: TokenAmount[] | undefined;
+}
+
+interface TxCheck {
+  /** Broken rules */
+  violations: string[];
+  /** Rules that could not be checked */
+  warnings: string[];
+  valueUsd: number;
+}
+
+/**
+ * Checks every UnsignedTransaction a tool returns against the configured
+ * TxPolicyConfig. Transactions anywhere in a tool's JSON result are found
+ * by shape, so new transaction builders are covered without opting in.
+ *
+ * Contracts are checked against `allowedContracts`, except for token
+ * transfers and approvals, where the recipient or spender is checked
+ * instead. Values are priced through CoinGecko from native value, ERC-20
+ * transfer calldata, or the transaction's declared `outflows`. When value
+ * limits are set, a transaction that can't be valued this way (a contract
+ * call without `outflows`, or a token CoinGecko can't price) breaks the
+ * policy, so it is blocked in block mode and flagged in warn mode.
+ */
+export class TxPolicyEngine {
+  private day = "";
+  private spentTodayUsd = 0;
+
+  constructor(private policy: TxPolicyConfig = {}) {}
+
+  /** Whether any rule is configured */
+  get active(): boolean {
+    const p = this.policy;
+    return (
+      p.maxTxUsd !== undefined ||
+      p.maxDailyUsd !== undefined ||
+      p.allowedContracts !== undefined ||
+      p.allowedRecipients !== undefined ||
+      p.blockUnlimitedApprovals === true ||
+      p.blockFlaggedContracts === true
+    );
+  }
+
+  /**
+   * Apply the policy to a tool result. Transactions are looked for in every
+   * JSON text item and in structuredContent, and each distinct transaction
+   * is checked once. In block mode a violation turns the result into a
+   * TX_POLICY_VIOLATION error; in warn mode the offending transactions are
+   * returned with `policyWarnings`. Transactions that pass count towards
+   * the daily limit as soon as they are checked, and are released again if
+   * a later one in the same result is blocked.
+   */
+  async enforce(result: ToolResult, context: PluginContext): Promise<ToolResult> {
+    if (!this.active || result.isError) return result;
+    const bodies = result.content.map((item) =>
+      item.type === "text" ? parseJson(item.text) : undefined
+    );
+    const copiesByTx = new Map<string, UnsignedTransaction[]>();
+    for (const tx of [
+      ...bodies.flatMap(findTransactions),
+      ...findTransactions(result.structuredContent),
+    ]) {
+      const key = JSON.stringify(tx);
+      copiesByTx.set(key, [...(copiesByTx.get(key) ?? []), tx]);
+    }
+    if (copiesByTx.size === 0) return result;
+
+    let reservedUsd = 0;
+    let warned = false;
+    for (const copies of copiesByTx.values()) {
+      const check = await this.check(copies[0], context);
+      // No await between reading and updating the daily total, so
+      // concurrent calls can't both spend the same headroom
+      this.reserve(check);
+      if (check.violations.length > 0 && this.policy.onViolation !== "warn") {
+        this.release(reservedUsd);
+        return errorResult(
+          new TxPolicyViolationError(copies[0].description, check.violations)
+        );
+      }
+      reservedUsd += check.valueUsd;
+      const warnings = [...check.violations, ...check.warnings];
+      if (warnings.length === 0) continue;
+      warned = true;
+      for (const tx of copies) tx.policyWarnings = warnings;
+    }
+
+    if (!warned) return result;
+    return {
+      ...result,
+      content: result.content.map((item, i) =>
+        bodies[i] === undefined
+          ? item
+          : { type: "text", text: JSON.stringify(bodies[i], null, 2) }
+      ),
+    };
+  }
+
+  /** Check one transaction against every rule except the daily limit */
+  async check(tx: UnsignedTransaction, context: PluginContext): Promise<TxCheck> {
+    const p = this.policy;
+    const violations: string[] = [];
+    const warnings: string[] = [];
+    const chain = context
+      .getChainAdapterForChain(tx.chainId)
+      .getChain(tx.chainId);
+    if (!chain) {
+      return { violations: [`Unknown chain "${tx.chainId}"`], warnings, valueUsd: 0 };
+    }
+    const effects = readEffects(tx, chain);
+
+    if (tx.ecosystem !== "evm" && (p.allowedContracts || p.allowedRecipients)) {
+      warnings.push(`Allowlists are only checked for EVM transactions`);
+    }
+    if (p.allowedContracts) {
+      for (const address of [
+        ...effects.contracts,
+        ...effects.approvals.map((a) => a.spender),
+      ]) {
+        if (!includesAddress(p.allowedContracts, address)) {
+          violations.push(`${address} is not an allowed contract`);
+        }
+      }
+    }
+    if (p.allowedRecipients) {
+      for (const address of effects.recipients) {
+        if (!includesAddress(p.allowedRecipients, address)) {
+          violations.push(`${address} is not an allowed recipient`);
+        }
+      }
+    }
+    if (p.blockUnlimitedApprovals) {
+      for (const approval of effects.approvals) {
+        if (approval.amount >= UNLIMITED_APPROVAL) {
+          violations.push(`Unlimited approval for ${approval.spender}`);
+        }
+      }
+    }
+    if (p.blockFlaggedContracts) {
+      await this.checkFlagged(tx, effects, context, violations, warnings);
+    }
+
+    let valueUsd = 0;
+    if (p.maxTxUsd !== undefined || p.maxDailyUsd !== undefined) {
+      const priced = effects.outflows
+        ? await priceOutflows(effects.outflows, chain, context)
+        : undefined;
+      if (!effects.outflows) {
+        violations.push("Could not tell what the transaction spends, so value limits can't be checked");
+      } else if (priced === undefined) {
+        violations.push("Could not price the transaction in USD, so value limits can't be checked");
+      } else {
+        valueUsd = priced;
+        if (p.maxTxUsd !== undefined && valueUsd > p.maxTxUsd) {
+          violations.push(
+            `Value $${valueUsd.toFixed(2)} exceeds the per-transaction limit of $${p.maxTxUsd}`
+          );
+        }
+      }
+    }
+
+    return { violations, warnings, valueUsd };
+  }
+
+  /**
+   * Check `check.valueUsd` against the daily limit and, unless the
+   * transaction is blocked by that or any other rule, add it to today's
+   * total.
+   */
+  private reserve(check: TxCheck): void {
+    const limit = this.policy.maxDailyUsd;
+    const dailyUsd = this.spentToday() + check.valueUsd;
+    if (limit !== undefined && dailyUsd > limit) {
+      check.violations.push(
+        `Value $${check.valueUsd.toFixed(2)} would bring today's total to $${dailyUsd.toFixed(2)}, over the daily limit of $${limit}`
+      );
+    }
+    if (check.violations.length > 0 && this.policy.onViolation !== "warn") return;
+    this.spentTodayUsd = dailyUsd;
+  }
+
+  /** Take back value reserved for transactions that were not returned */
+  private release(usd: number): void {
+    this.spentTodayUsd = Math.max(0, this.spentToday() - usd);
+  }
+
+  private async checkFlagged(
+    tx: UnsignedTransaction,
+    effects: TxEffects,
+    context: PluginContext,
+    violations: string[],
+    warnings: string[]
+  ): Promise<void> {
+    const addresses = new Set(
+      [
+        ...effects.contracts,
+        ...effects.recipients,
+        ...effects.approvals.map((a) => a.spender),
+      ].map((a) => a.toLowerCase())
+    );
+    await Promise.all(
+      [...addresses].map(async (address) => {
+        try {
+          const { risks } = await getAddressSecurity(
+            context.http,
+            address,
+            tx.chainId
+          );
+          if (risks.length > 0) {
+            violations.push(`${address} is flagged: ${risks.join(", ")}`);
+          }
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          warnings.push(`Could not check ${address} for security flags: ${message}`);
+        }
+      })
+    );
+  }
+
+  /** USD value of transactions built so far today (UTC) */
+  private spentToday(): number {
+    const today = new Date().toISOString().slice(0, 10);
+    if (today !== this.day) {
+      this.day = today;
+      this.spentTodayUsd = 0;
+    }
+    return this.spentTodayUsd;
+  }
+}
+
+/** Every object in a tool result shaped like an UnsignedTransaction */
+export function findTransactions(value: unknown): UnsignedTransaction[] {
+  if (Array.isArray(value)) return value.flatMap(findTransactions);
+  if (typeof value !== "object" || value === null) return [];
+  const obj = value as Record<string, unknown>;
+  if (
+    typeof obj.chainId === "string" &&
+    (obj.ecosystem === "evm" ||
+      obj.ecosystem === "solana" ||
+      obj.ecosystem === "cosmos") &&
+    typeof obj.raw === "object" &&
+    obj.raw !== null
+  ) {
+    return [obj as unknown as UnsignedTransaction];
+  }
+  return Object.values(obj).flatMap(findTransactions);
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function readEffects(tx: UnsignedTransaction, chain: ChainInfo): TxEffects {
+  const effects: TxEffects = {
+    contracts: [],
+    recipients: [],
+    approvals: [],
+    outflows: undefined,
+  };
+  if (tx.ecosystem === "evm") {
+    const to = String(tx.raw.to ?? "");
+    const data = String(tx.raw.data ?? "0x") as `0x${string}`;
+    const value = BigInt(String(tx.raw.value ?? "0"));
+    const outflows: TokenAmount[] = [];
+    if (value > 0n) {
+      outflows.push({
+        token: chain.nativeToken.address,
+        amount: value.toString(),
+      });
+    }
+    let readable = true;
+    if (data === "0x" || data.length < 10) {
+      effects.recipients.push(to);
+    } else {
+      readable = readCalldata(to, data, effects, outflows);
+    }
+    // Any other contract call may spend more than its native value
+    effects.outflows = readable ? outflows : undefined;
+  }
+  if (tx.outflows) effects.outflows = tx.outflows;
+  return effects;
+}
+
+/** Record what the call does; false when it isn't a known token call */
+function readCalldata(
+  to: string,
+  data: `0x${string}`,
+  effects: TxEffects,
+  outflows: TokenAmount[]
+): boolean {
+  let call;
+  try {
+    call = decodeFunctionData({ abi: DECODABLE_ABI, data });
+  } catch {
+    effects.contracts.push(to);
+    return false;
+  }
+  const args = call.args as readonly unknown[];
+  switch (call.functionName) {
+    case "transfer":
+      effects.recipients.push(args[0] as string);
+      outflows.push({ token: to, amount: String(args[1]) });
+      return true;
+    case "transferFrom":
+      effects.recipients.push(args[1] as string);
+      outflows.push({ token: to, amount: String(args[2]) });
+      return true;
+    case "approve":
+      // ERC-20 approve(spender, amount) or Permit2 approve(token, spender, amount, expiration)
+      effects.approvals.push(
+        args.length === 2
+          ? { spender: args[0] as string, amount: args[1] as bigint }
+          : { spender: args[1] as string, amount: args[2] as bigint }
+      );
+      return true;
+    default:
+      effects.contracts.push(to);
+      return false;
+  }
+}
+
+async function priceOutflows(
+  outflows: TokenAmount[],
+  chain: ChainInfo,
+  context: PluginContext
+): Promise<number | undefined> {
+  if (outflows.length === 0) return 0;
+  const adapter = context.getChainAdapterForChain(chain.id);
+  const coingecko = new CoinGeckoClient(
+    context.http,
+    context.apiKeys.coingecko
+  );
+  let total = Decimal.ZERO;
+  for (const { token, amount } of outflows) {
+    const info =
+      token.toLowerCase() === chain.nativeToken.address.toLowerCase()
+        ? chain.nativeToken
+        : await adapter.resolveToken(chain.id, token);
+    if (!info) return undefined;
+    const [price] = await coingecko.getTokenPrices([info]).catch(() => []);
+    if (!price) return undefined;
+    total = total.plus(
+      Decimal.fromUnits(amount, info.decimals).times(price.priceUsd)
+    );
+  }
+  return total.toNumber();
+}
+
+function includesAddress(list: string[], address: string): boolean {
+  return list.some((a) => a.toLowerCase() === address.toLowerCase());
+}
@@ -0,0 +1,59 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Registry } from "../core/registry.js";
+import type { TenantConfig } from "../core/types.js";
+import { getExposedTools } from "../tools/register.js";
+import { WORKFLOW_PROMPTS } from "./workflows.js";
+
+/**
+ * Registers the workflow prompts whose tools are all exposed by the
+ * configured profile and allowed for the tenant, if any. In lazy tool
+ * loading mode the plan starts by enabling the toolsets it needs.
+ */
+export function registerAllPrompts(
+  server: McpServer,
+  registry: Registry,
+  tenant?: TenantConfig
+): void {
+  const { toolLoading } = registry.getPluginContext().config;
+  const exposed = new Set(
+    getExposedTools(registry, tenant).map((t) => t.name)
+  );
+  const toolsets = new Map<string, string>();
+  for (const plugin of registry.getPlugins()) {
+    for (const tool of plugin.getTools()) toolsets.set(tool.name, plugin.name);
+  }
+
+  for (const prompt of WORKFLOW_PROMPTS) {
+    if (!prompt.tools.every((name) => exposed.has(name))) continue;
+
+    const needed = [
+      ...new Set(prompt.tools.map((name) => toolsets.get(name))),
+    ].filter(
+      (t): t is string => !!t && !toolLoading.coreToolsets.includes(t)
+    );
+    const preamble =
+      toolLoading.mode === "lazy" && needed.length > 0
+        ? `First enable the toolsets this plan uses with defi_enable_toolsets (toolsets ${JSON.stringify(needed)}).\n\n`
+        : "";
+
+    server.registerPrompt(
+      prompt.name,
+      {
+        title: prompt.title,
+        description: prompt.description,
+        argsSchema: prompt.args,
+      },
+      (args) => ({
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: preamble + prompt.render(args),
+            },
+          },
+        ],
+      })
+    );
+  }
+}
@@ -0,0 +1,191 @@
+import { z } from "zod";
+
+/**
+ * A step-by-step plan for a common workflow, offered as an MCP prompt.
+ * Plans name the exact tools to call, so they are only offered when
+ * every tool in `tools` is exposed.
+ */
+export interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  /** Prompt arguments; MCP passes them all as strings */
+  args: Record<string, z.ZodType<string | undefined>>;
+  tools: string[];
+  render(args: Record<string, string | undefined>): string;
+}
+
+const SIGNING_RULE =
+  "Never ask for private keys or seed phrases. Every transaction tool returns an unsigned transaction; hand each one to the user to review and sign in their own wallet, in order, and wait for confirmation (defi_tx_status) before the next.";
+
+const SIMULATE_STEP =
+  "Simulate the unsigned transactions before the user signs: defi_simulate_bundle for several in order (e.g. approve then swap), defi_simulate_tx for one. Pass from = the user's address, to, data, and value converted from wei to ETH. Stop and report if any step reverts.";
+
+export const WORKFLOW_PROMPTS: PromptDefinition[] = [
+  {
+    name: "safe-swap",
+    title: "Safe swap",
+    description:
+      "Swap tokens with a security check, quote comparison, exact approval and simulation before signing",
+    args: {
+      chainId: z.string().describe('Chain ID, e.g. "ethereum" or "base"'),
+      srcToken: z.string().describe("Token to sell, symbol or address"),
+      dstToken: z.string().describe("Token to buy, symbol or address"),
+      amount: z.string().describe('Amount of srcToken to sell, e.g. "100"'),
+      address: z.string().describe("Wallet address that will sign the swap"),
+      slippageBps: z
+        .string()
+        .optional()
+        .describe("Maximum slippage in basis points (default: server setting)"),
+    },
+    tools: [
+      "defi_token_info",
+      "defi_pre_trade_check",
+      "defi_multi_quote",
+      "defi_swap_build_tx",
+      "defi_check_allowance",
+      "defi_token_approve",
+      "defi_simulate_tx",
+      "defi_simulate_bundle",
+      "defi_tx_status",
+    ],
+    render: ({ chainId, srcToken, dstToken, amount, address, slippageBps }) =>
+      steps(
+        `Swap ${amount} ${srcToken} for ${dstToken} on ${chainId} for ${address}.`,
+        [
+          `Resolve both tokens with defi_token_info (chainId "${chainId}", token "${srcToken}", then "${dstToken}") to get their addresses and decimals.`,
+          `Run defi_pre_trade_check (chainId "${chainId}", tokenAddress) on ${dstToken}, and on ${srcToken} unless it is the native token. Stop and explain the findings if either is a honeypot, has high buy/sell taxes or thin liquidity.`,
+          `Compare aggregators with defi_multi_quote (chainId "${chainId}", srcToken "${srcToken}", dstToken "${dstToken}", amount "${amount}"). Show the best output and price impact, and stop to confirm with the user if the price impact is above 1%.`,
+          `Build the swap with defi_swap_build_tx (chainId "${chainId}", srcToken "${srcToken}", dstToken "${dstToken}", amount "${amount}", userAddress "${address}"${slippageBps ? `, slippageBps ${slippageBps}` : ""}). Its "to" is the router that needs the allowance.`,
+          `Unless ${srcToken} is the native token, check defi_check_allowance (chainId "${chainId}", tokenAddress, owner "${address}", spender = the router). If it is below ${amount}, build defi_token_approve for exactly ${amount}, not an unlimited amount; it must be signed before the swap.`,
+          SIMULATE_STEP,
+          `Summarise the route, minimum received, fees and each transaction to sign.`,
+        ]
+      ),
+  },
+  {
+    name: "open-leveraged-position",
+    title: "Open a leveraged position",
+    description:
+      "Plan and build an Aave V3 leverage loop with rates, liquidation risk and simulation checked first",
+    args: {
+      chainId: z.string().describe('Chain ID, e.g. "ethereum" or "arbitrum"'),
+      supplyToken: z.string().describe('Collateral to supply, e.g. "wstETH"'),
+      borrowToken: z.string().describe('Asset to borrow, e.g. "WETH"'),
+      amount: z.string().describe("Initial amount of the supply token"),
+      address: z.string().describe("Wallet address that will hold the position"),
+      loops: z.string().optional().describe("Number of loops, 1-10 (default 2)"),
+    },
+    tools: [
+      "defi_lending_markets",
+      "defi_token_info",
+      "defi_leverage_loop_plan",
+      "defi_protocol_risk",
+      "defi_check_allowance",
+      "defi_token_approve",
+      "defi_leverage_loop_tx",
+      "defi_simulate_tx",
+      "defi_simulate_bundle",
+      "defi_tx_status",
+      "defi_aave_health_factor",
+    ],
+    render: ({ chainId, supplyToken, borrowToken, amount, address, loops }) =>
+      steps(
+        `Open a leveraged ${supplyToken}/${borrowToken} position on Aave V3 (${chainId}) with ${amount} ${supplyToken} for ${address}.`,
+        [
+          `Get current rates and LTVs with defi_lending_markets (chainId "${chainId}"): the supply APY of ${supplyToken}, the borrow APY of ${borrowToken}, and ${supplyToken}'s maximum LTV.`,
+          `Check the protocol with defi_protocol_risk (protocolSlug "aave-v3").`,
+          `Resolve both tokens with defi_token_info (chainId "${chainId}") to get their addresses, decimals and USD prices.`,
+          `Plan with defi_leverage_loop_plan (chainId "${chainId}", supplyAsset "${supplyToken}", borrowAsset "${borrowToken}", initialAmount "${amount}", loops ${loops ?? "2"}, the APYs from step 1, and an ltv at least 0.1 below the maximum LTV). Stop and explain if the net APY is negative or the final health factor is below 1.5.`,
+          `Show the user the leverage, net APY, health factor and liquidation price, and get their confirmation before building anything.`,
+          `Check defi_check_allowance for ${supplyToken} (owner "${address}", spender = the Aave V3 Pool from the defi://protocols/aave-v3/${chainId} resource). If it is too low, build defi_token_approve for the total to supply across all loops.`,
+          `For each loop in the plan, build defi_leverage_loop_tx (chainId "${chainId}", the token addresses and decimals, that loop's supply and borrow amounts, userAddress "${address}").`,
+          SIMULATE_STEP,
+          `After the last transaction confirms, check defi_aave_health_factor (chainId "${chainId}", userAddress "${address}") and report it.`,
+        ]
+      ),
+  },
+  {
+    name: "audit-my-wallet",
+    title: "Audit my wallet",
+    description:
+      "Review a wallet's positions, token approvals, risky tokens and liquidation risk",
+    args: {
+      address: z.string().describe("Wallet address to audit"),
+      chainId: z
+        .string()
+        .optional()
+        .describe("Only audit this chain (default: every chain)"),
+    },
+    tools: [
+      "defi_wallet_scan",
+      "defi_approval_audit",
+      "defi_health_dashboard",
+      "defi_token_security",
+    ],
+    render: ({ address, chainId }) =>
+      steps(
+        `Audit wallet ${address}${chainId ? ` on ${chainId}` : " on every supported chain"}. This is read-only: build no transactions unless the user asks.`,
+        [
+          `Scan positions with defi_wallet_scan (address "${address}"${chainId ? `, chainIds ["${chainId}"]` : ""}).`,
+          `For each EVM chain with holdings, run defi_approval_audit (chainId, userAddress "${address}"). List unlimited approvals and approvals to unverified contracts first.`,
+          `Run defi_health_dashboard (userAddress "${address}") and flag any lending position with a health factor below 1.5.`,
+          `Check each token held that is not a major asset with defi_token_security (chainId, contractAddress). Flag honeypots, high taxes and owner privileges.`,
+          `Report findings by severity, each with the recommended action. For risky approvals, offer to build defi_revoke_approval_tx where it is available, and simulate it with defi_simulate_tx before the user signs.`,
+        ]
+      ),
+  },
+  {
+    name: "move-to-best-yield",
+    title: "Move to the best yield",
+    description:
+      "Find a better yield for a token the wallet holds and build the moves to get there",
+    args: {
+      address: z.string().describe("Wallet address holding the funds"),
+      token: z.string().describe('Token to move, e.g. "USDC"'),
+      amount: z.string().describe("Amount to move"),
+      chainId: z.string().optional().describe("Chain the funds are on now"),
+      riskTolerance: z
+        .string()
+        .optional()
+        .describe('"low", "medium" (default) or "high"'),
+    },
+    tools: [
+      "defi_wallet_scan",
+      "defi_find_best_yield",
+      "defi_protocol_risk",
+      "defi_lending_withdraw_tx",
+      "defi_bridge_quote",
+      "defi_token_approve",
+      "defi_lending_supply_tx",
+      "defi_simulate_tx",
+      "defi_simulate_bundle",
+      "defi_tx_status",
+    ],
+    render: ({ address, token, amount, chainId, riskTolerance }) =>
+      steps(
+        `Move ${amount} ${token} held by ${address} to a better yield.`,
+        [
+          `Find where the ${token} is now with defi_wallet_scan (address "${address}"${chainId ? `, chainIds ["${chainId}"]` : ""}): in the wallet or supplied to a protocol, with its current APY.`,
+          `Rank opportunities with defi_find_best_yield (token "${token}", amount "${amount}"${chainId ? `, currentChainId "${chainId}"` : ""}, riskTolerance "${riskTolerance ?? "medium"}"). Net APY already counts gas and bridge costs.`,
+          `Check the top candidate with defi_protocol_risk. If its net APY is not clearly above the current APY, recommend staying put and stop.`,
+          `Show the user the current and target APY, costs and risks, and get their confirmation.`,
+          `If the funds are supplied to Aave V3, build defi_lending_withdraw_tx (chainId, asset "${token}", amount "${amount}", userAddress "${address}").`,
+          `If the target is on another chain, get a route with defi_bridge_quote and include its transactions.`,
+          `Build the deposit from the opportunity's execution steps, e.g. defi_token_approve for exactly ${amount} then defi_lending_supply_tx for Aave V3.`,
+          SIMULATE_STEP,
+        ]
+      ),
+  },
+];
+
+function steps(goal: string, list: string[]): string {
+  return [
+    goal,
+    "",
+    "Follow these steps in order:",
+    ...list.map((step, i) => `${i + 1}. ${step}`),
+    "",
+    SIGNING_RULE,
+  ].join("\n");
+}
@@ -0,0 +1,144 @@
+import {
+  ResourceTemplate,
+  type McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { Registry } from "../core/registry.js";
+import type { ResourceDefinition } from "../core/types.js";
+import { isPluginInProfile } from "../tools/profiles.js";
+
+/**
+ * Registers the built-in resources and those of every plugin in the
+ * configured profile. Template resources are listed once per value of
+ * their variables, so clients can browse them without guessing URIs.
+ */
+export function registerAllResources(
+  server: McpServer,
+  registry: Registry
+): void {
+  for (const resource of getExposedResources(registry)) {
+    const metadata = {
+      description: resource.description,
+      mimeType: "application/json",
+    };
+
+    if (!resource.variables) {
+      server.registerResource(resource.name, resource.uri, metadata, (uri) =>
+        readResource(resource, uri, {})
+      );
+      continue;
+    }
+
+    const variables = resource.variables;
+    const template = new ResourceTemplate(resource.uri, {
+      list: () => ({
+        resources: expand(variables).map((values) => ({
+          uri: fillTemplate(resource.uri, values),
+          name: `${resource.name} ${Object.values(values).join(" ")}`,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: Object.fromEntries(
+        Object.entries(variables).map(([name, values]) => [
+          name,
+          (prefix: string) => values().filter((v) => v.startsWith(prefix)),
+        ])
+      ),
+    });
+    server.registerResource(resource.name, template, metadata, (uri, vars) =>
+      readResource(
+        resource,
+        uri,
+        Object.fromEntries(
+          Object.entries(vars).map(([k, v]) => [k, [v].flat()[0]])
+        )
+      )
+    );
+  }
+}
+
+/** Built-in resources followed by plugin resources, in registration order */
+export function getExposedResources(registry: Registry): ResourceDefinition[] {
+  const { profile } = registry.getPluginContext().config;
+  return [
+    ...getBuiltinResources(registry),
+    ...registry
+      .getPlugins()
+      .filter((plugin) => isPluginInProfile(plugin, profile))
+      .flatMap((plugin) => plugin.getResources?.() ?? []),
+  ];
+}
+
+function readResource(
+  resource: ResourceDefinition,
+  uri: URL,
+  variables: Record<string, string>
+) {
+  const data = resource.read(variables);
+  if (data === undefined) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource ${uri.href} not found`);
+  }
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+/** Every combination of the variables' values */
+function expand(
+  variables: Record<string, () => string[]>
+): Record<string, string>[] {
+  return Object.entries(variables).reduce<Record<string, string>[]>(
+    (combos, [name, values]) =>
+      combos.flatMap((combo) =>
+        values().map((value) => ({ ...combo, [name]: value }))
+      ),
+    [{}]
+  );
+}
+
+function fillTemplate(uri: string, values: Record<string, string>): string {
+  return uri.replace(/\{(\w+)\}/g, (_, name: string) =>
+    encodeURIComponent(values[name])
+  );
+}
+
+function getBuiltinResources(registry: Registry): ResourceDefinition[] {
+  const chainIds = () => registry.getSupportedChains().map((c) => c.id);
+
+  return [
+    {
+      name: "chains",
+      uri: "defi://chains",
+      description:
+        "Supported blockchain networks with their IDs, native chain IDs, native tokens and explorers",
+      // RPC URLs are left out as they may carry API keys
+      read: () =>
+        registry.getSupportedChains().map(({ rpcUrl: _, ...chain }) => chain),
+    },
+    {
+      name: "tokens",
+      uri: "defi://tokens/{chainId}",
+      description:
+        "Native token and well-known tokens of a chain, with addresses, decimals and CoinGecko IDs",
+      variables: { chainId: chainIds },
+      read: ({ chainId }) => {
+        const chain = registry.getSupportedChains().find((c) => c.id === chainId);
+        if (!chain) return undefined;
+        return {
+          chainId,
+          nativeToken: chain.nativeToken,
+          tokens: registry
+            .getPluginContext()
+            .getChainAdapterForChain(chainId)
+            .getKnownTokens(chainId),
+        };
+      },
+    },
+  ];
+}
@@ -0,0 +1,30 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Registry } from "./core/registry.js";
+import type { TenantConfig } from "./core/types.js";
+import { registerAllTools } from "./tools/register.js";
+import { registerAllResources } from "./resources/register.js";
+import { registerAllPrompts } from "./prompts/register.js";
+
+export const SERVER_VERSION = "1.0.0";
+
+/**
+ * Create an MCP server exposing every tool, resource and prompt in the
+ * registry.
+ * An McpServer can only be connected to one transport, so networked
+ * transports create one per session, all sharing the same Registry.
+ * A session opened by a tenant only offers the tools it may call.
+ */
+export function createMcpServer(
+  registry: Registry,
+  tenant?: TenantConfig
+): McpServer {
+  const server = new McpServer({
+    name: "defi-mcp",
+    version: SERVER_VERSION,
+  });
+
+  registerAllTools(server, registry, tenant);
+  registerAllResources(server, registry);
+  registerAllPrompts(server, registry, tenant);
+  return server;
+}
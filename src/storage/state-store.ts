@@ -0,0 +1,181 @@
+import { homedir } from "node:os";
+import { join, dirname } from "node:path";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import type { StorageConfig } from "../core/types.js";
+import type {
+  RowQuery,
+  StateNamespace,
+  StateStore,
+  TableRow,
+} from "../core/storage-types.js";
+
+/** State file used when `storage.path` is not set */
+export const DEFAULT_STATE_PATH = join(homedir(), ".defi-mcp", "state.json");
+
+/** Delay before a change is written, so bursts of writes share one save */
+const SAVE_DELAY_MS = 100;
+
+interface NamespaceData {
+  kv: Record<string, unknown>;
+  tables: Record<string, TableRow[]>;
+}
+
+/** Build the store selected by config */
+export function createStateStore(config: StorageConfig): StateStore {
+  return config.type === "memory"
+    ? new MemoryStateStore(config.maxTableRows)
+    : new JsonFileStateStore(config.path ?? DEFAULT_STATE_PATH, config.maxTableRows);
+}
+
+/**
+ * State held in memory only, lost on restart. Used by tests and by
+ * deployments that set `storage.type: memory`.
+ */
+export class MemoryStateStore implements StateStore {
+  protected data: Record<string, NamespaceData> = {};
+
+  /** @param maxTableRows rows kept per table; the oldest are dropped first */
+  constructor(private maxTableRows: number) {}
+
+  namespace(name: string): StateNamespace {
+    const ns = (): NamespaceData => (this.data[name] ??= { kv: {}, tables: {} });
+    return {
+      get: async <T>(key: string) => {
+        await this.load();
+        return clone(ns().kv[key]) as T | undefined;
+      },
+      set: async (key, value) => {
+        await this.load();
+        ns().kv[key] = toJson(value, `${name}/${key}`);
+        this.changed();
+      },
+      delete: async (key) => {
+        await this.load();
+        if (!(key in ns().kv)) return false;
+        delete ns().kv[key];
+        this.changed();
+        return true;
+      },
+      keys: async (prefix = "") => {
+        await this.load();
+        return Object.keys(ns().kv).filter((k) => k.startsWith(prefix));
+      },
+      append: async (table, row) => {
+        await this.load();
+        const rows = (ns().tables[table] ??= []);
+        rows.push({ at: new Date().toISOString(), data: toJson(row, `${name}/${table}`) });
+        if (rows.length > this.maxTableRows) {
+          rows.splice(0, rows.length - this.maxTableRows);
+        }
+        this.changed();
+      },
+      rows: async <T>(table: string, query: RowQuery<T> = {}) => {
+        await this.load();
+        const matching = (ns().tables[table] ?? []).filter(
+          (row) =>
+            (!query.since || row.at >= query.since) &&
+            (!query.where || query.where(row.data as T))
+        );
+        const rows =
+          query.limit === undefined
+            ? matching
+            : matching.slice(Math.max(0, matching.length - query.limit));
+        return clone(rows) as Array<TableRow<T>>;
+      },
+    };
+  }
+
+  async flush(): Promise<void> {}
+
+  /** Hook for persistent subclasses: make sure `data` is loaded */
+  protected async load(): Promise<void> {}
+
+  /** Hook for persistent subclasses: `data` was modified */
+  protected changed(): void {}
+}
+
+/**
+ * State kept in a single JSON file, read on first use and rewritten
+ * shortly after each change. The file is replaced atomically, so a crash
+ * leaves either the old or the new state. Meant for one server process
+ * per file.
+ */
+export class JsonFileStateStore extends MemoryStateStore {
+  private loading: Promise<void> | undefined;
+  private saveTimer: NodeJS.Timeout | undefined;
+  /** Saves run one at a time so an older snapshot never lands last */
+  private saves: Promise<void> = Promise.resolve();
+
+  constructor(readonly path: string, maxTableRows: number) {
+    super(maxTableRows);
+  }
+
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      this.save();
+    }
+    await this.saves;
+  }
+
+  protected load(): Promise<void> {
+    // A failed read, e.g. EACCES, is retried on the next use
+    return (this.loading ??= this.read().catch((err) => {
+      this.loading = undefined;
+      throw err;
+    }));
+  }
+
+  protected changed(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private async read(): Promise<void> {
+    let text: string;
+    try {
+      text = await readFile(this.path, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw err;
+    }
+    try {
+      this.data = JSON.parse(text).namespaces ?? {};
+    } catch {
+      // Keep the unreadable file for inspection rather than overwrite it
+      const aside = `${this.path}.corrupt-${Date.now()}`;
+      await rename(this.path, aside);
+      console.error(`defi-mcp state file ${this.path} is not valid JSON; moved to ${aside}`);
+    }
+  }
+
+  private save(): void {
+    const text = JSON.stringify({ version: 1, namespaces: this.data });
+    this.saves = this.saves
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        const tmp = `${this.path}.tmp`;
+        await writeFile(tmp, text, { mode: 0o600 });
+        await rename(tmp, this.path);
+      })
+      .catch((err) => console.error("defi-mcp state file write failed:", err));
+  }
+}
+
+/** A JSON copy of the value, so callers can't mutate stored state */
+function toJson(value: unknown, where: string): unknown {
+  const text = JSON.stringify(value);
+  if (text === undefined) {
+    throw new TypeError(`Cannot store ${typeof value} at ${where}; values must be JSON-serialisable`);
+  }
+  return JSON.parse(text);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value);
+}
@@ -0,0 +1,293 @@
+import {
+  createPublicClient,
+  custom,
+  isAddress,
+  type PublicClient,
+} from "viem";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { fromBech32 } from "@cosmjs/encoding";
+import type {
+  ChainAdapter,
+  ChainEcosystem,
+  ChainInfo,
+  TokenBalance,
+  TokenInfo,
+} from "../core/types.js";
+import { formatTokenAmount } from "../core/utils.js";
+import { EVM_CHAINS } from "../chains/evm/chains.js";
+import { SOLANA_CHAINS } from "../chains/solana/chains.js";
+import { COSMOS_CHAINS } from "../chains/cosmos/chains.js";
+
+/** Answers one JSON-RPC method; return the `result` or throw to fail the call */
+export type RpcHandler = (params: unknown, chainId: string) => unknown;
+
+/**
+ * In-memory ChainAdapter. Balances and tokens are whatever the test puts
+ * in; anything not set reads as a zero balance or an unknown token.
+ */
+abstract class FakeChainAdapter implements ChainAdapter {
+  abstract readonly ecosystem: ChainEcosystem;
+  private tokens = new Map<string, TokenInfo[]>();
+  private balances = new Map<string, string>();
+  protected rpcHandlers = new Map<string, RpcHandler>();
+
+  constructor(private chains: ChainInfo[]) {}
+
+  getSupportedChains(): ChainInfo[] {
+    return this.chains;
+  }
+
+  getChain(chainId: string): ChainInfo | undefined {
+    return this.chains.find((c) => c.id === chainId);
+  }
+
+  abstract isValidAddress(chainId: string, address: string): boolean;
+
+  /** Make a token resolvable by symbol or address */
+  addToken(token: TokenInfo): this {
+    const tokens = this.tokens.get(token.chainId) ?? [];
+    tokens.push(token);
+    this.tokens.set(token.chainId, tokens);
+    return this;
+  }
+
+  setNativeBalance(chainId: string, address: string, raw: bigint | string): this {
+    this.balances.set(this.balanceKey(chainId, address), String(raw));
+    return this;
+  }
+
+  setTokenBalance(
+    chainId: string,
+    address: string,
+    tokenAddress: string,
+    raw: bigint | string
+  ): this {
+    this.balances.set(this.balanceKey(chainId, address, tokenAddress), String(raw));
+    return this;
+  }
+
+  /** Script the response to a raw JSON-RPC method for the pooled client */
+  onRpc(method: string, handler: RpcHandler): this {
+    this.rpcHandlers.set(method, handler);
+    return this;
+  }
+
+  async getNativeBalance(chainId: string, address: string): Promise<TokenBalance> {
+    const chain = this.getChainOrThrow(chainId);
+    return this.toBalance(
+      chain.nativeToken,
+      this.balances.get(this.balanceKey(chainId, address))
+    );
+  }
+
+  async getTokenBalance(
+    chainId: string,
+    address: string,
+    tokenAddress: string
+  ): Promise<TokenBalance> {
+    this.getChainOrThrow(chainId);
+    const token = (await this.resolveToken(chainId, tokenAddress)) ?? {
+      symbol: "UNKNOWN",
+      name: "Unknown Token",
+      decimals: 18,
+      address: tokenAddress,
+      chainId,
+    };
+    return this.toBalance(
+      token,
+      this.balances.get(this.balanceKey(chainId, address, tokenAddress))
+    );
+  }
+
+  async getTokenBalances(
+    chainId: string,
+    address: string,
+    tokenAddresses: string[]
+  ): Promise<TokenBalance[]> {
+    return Promise.all(
+      tokenAddresses.map((t) => this.getTokenBalance(chainId, address, t))
+    );
+  }
+
+  async resolveToken(
+    chainId: string,
+    symbolOrAddress: string
+  ): Promise<TokenInfo | undefined> {
+    const chain = this.getChain(chainId);
+    const needle = symbolOrAddress.toLowerCase();
+    if (
+      chain &&
+      (chain.nativeToken.symbol.toLowerCase() === needle ||
+        chain.nativeToken.address.toLowerCase() === needle)
+    ) {
+      return chain.nativeToken;
+    }
+    return this.tokens
+      .get(chainId)
+      ?.find(
+        (t) =>
+          t.symbol.toLowerCase() === needle || t.address.toLowerCase() === needle
+      );
+  }
+
+  getKnownTokens(chainId: string): TokenInfo[] {
+    return this.tokens.get(chainId) ?? [];
+  }
+
+  abstract getLatestBlock(chainId: string): Promise<number>;
+
+  protected async handleRpc(
+    chainId: string,
+    method: string,
+    params: unknown
+  ): Promise<unknown> {
+    const handler = this.rpcHandlers.get(method);
+    if (!handler) {
+      throw new Error(`No fake RPC response scripted for ${method} on ${chainId}`);
+    }
+    return handler(params, chainId);
+  }
+
+  /** Addresses compare case-insensitively unless the ecosystem says otherwise */
+  protected normalizeAddress(address: string): string {
+    return address.toLowerCase();
+  }
+
+  private balanceKey(chainId: string, address: string, token = "native"): string {
+    return [chainId, this.normalizeAddress(address), this.normalizeAddress(token)].join(":");
+  }
+
+  private toBalance(token: TokenInfo, raw = "0"): TokenBalance {
+    return {
+      token,
+      balanceRaw: raw,
+      balanceFormatted: formatTokenAmount(raw, token.decimals),
+    };
+  }
+
+  private getChainOrThrow(chainId: string): ChainInfo {
+    const chain = this.getChain(chainId);
+    if (!chain) throw new Error(`Chain "${chainId}" not supported`);
+    return chain;
+  }
+}
+
+export class FakeEvmChainAdapter extends FakeChainAdapter {
+  readonly ecosystem: ChainEcosystem = "evm";
+  private clients = new Map<string, PublicClient>();
+
+  constructor(chains: ChainInfo[] = EVM_CHAINS) {
+    super(chains);
+  }
+
+  isValidAddress(_chainId: string, address: string): boolean {
+    return isAddress(address);
+  }
+
+  /** Answered by the eth_blockNumber handler */
+  async getLatestBlock(chainId: string): Promise<number> {
+    return Number(await this.getClient(chainId).getBlockNumber({ cacheTime: 0 }));
+  }
+
+  /**
+   * A viem client whose requests are answered by onRpc handlers, so code
+   * using context.getEvmClient() runs without a node
+   */
+  getClient(chainId: string): PublicClient {
+    let client = this.clients.get(chainId);
+    if (!client) {
+      if (!this.getChain(chainId)) throw new Error(`No client for chain "${chainId}"`);
+      client = createPublicClient({
+        transport: custom({
+          request: ({ method, params }) => this.handleRpc(chainId, method, params),
+        }),
+      }) as PublicClient;
+      this.clients.set(chainId, client);
+    }
+    return client;
+  }
+}
+
+export class FakeSolanaChainAdapter extends FakeChainAdapter {
+  readonly ecosystem: ChainEcosystem = "solana";
+  private connections = new Map<string, Connection>();
+
+  constructor(chains: ChainInfo[] = SOLANA_CHAINS) {
+    super(chains);
+  }
+
+  isValidAddress(_chainId: string, address: string): boolean {
+    try {
+      new PublicKey(address);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Answered by the getSlot handler */
+  getLatestBlock(chainId: string): Promise<number> {
+    return this.getConnection(chainId).getSlot();
+  }
+
+  /** A Connection whose JSON-RPC requests are answered by onRpc handlers */
+  getConnection(chainId: string): Connection {
+    let connection = this.connections.get(chainId);
+    if (!connection) {
+      if (!this.getChain(chainId)) throw new Error(`No connection for chain "${chainId}"`);
+      connection = new Connection("http://fake-solana.invalid", {
+        commitment: "confirmed",
+        disableRetryOnRateLimit: true,
+        fetch: (async (_input: unknown, init?: RequestInit) => {
+          const request = JSON.parse(String(init?.body));
+          const reply = async (call: { id: unknown; method: string; params?: unknown }) => {
+            try {
+              const result = await this.handleRpc(chainId, call.method, call.params);
+              return { jsonrpc: "2.0", id: call.id, result };
+            } catch (err) {
+              const message = err instanceof Error ? err.message : String(err);
+              return { jsonrpc: "2.0", id: call.id, error: { code: -32000, message } };
+            }
+          };
+          const body = Array.isArray(request)
+            ? await Promise.all(request.map(reply))
+            : await reply(request);
+          return new Response(JSON.stringify(body), {
+            headers: { "content-type": "application/json" },
+          });
+        }) as never,
+      });
+      this.connections.set(chainId, connection);
+    }
+    return connection;
+  }
+
+  /** Base58 addresses are case-sensitive */
+  protected normalizeAddress(address: string): string {
+    return address;
+  }
+}
+
+export class FakeCosmosChainAdapter extends FakeChainAdapter {
+  readonly ecosystem: ChainEcosystem = "cosmos";
+
+  constructor(chains: ChainInfo[] = COSMOS_CHAINS) {
+    super(chains);
+  }
+
+  isValidAddress(_chainId: string, address: string): boolean {
+    try {
+      return fromBech32(address).prefix.length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Answered by the CometBFT status handler, e.g. { sync_info: { latest_block_height: "100" } } */
+  async getLatestBlock(chainId: string): Promise<number> {
+    const status = (await this.handleRpc(chainId, "status", {})) as {
+      sync_info: { latest_block_height: string };
+    };
+    return Number(status.sync_info.latest_block_height);
+  }
+}
@@ -0,0 +1,212 @@
+import { z } from "zod";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Registry } from "../core/registry.js";
+import { errorResult } from "../core/errors.js";
+import type { ToolCallOptions } from "../core/tool-call.js";
+import { EVM_CHAINS } from "../chains/evm/chains.js";
+import { registerChain } from "../chains/registry.js";
+import type {
+  AppConfig,
+  ChainAdapter,
+  DefiPlugin,
+  PluginContext,
+  TenantConfig,
+  ToolResult,
+} from "../core/types.js";
+import type { ProtocolScanner } from "../core/scanner-types.js";
+import type { YieldSource } from "../core/yield-types.js";
+import {
+  executeSessionToolCall,
+  getAdvertisedInputShape,
+  getExposedTools,
+  invalidInputError,
+} from "../tools/register.js";
+import { ToolSession, getSessionTools } from "../tools/session.js";
+import { createMcpServer } from "../server.js";
+import {
+  FakeCosmosChainAdapter,
+  FakeEvmChainAdapter,
+  FakeSolanaChainAdapter,
+} from "./fake-adapters.js";
+
+export interface TestHarnessOptions {
+  /** Overrides applied on top of testConfig() */
+  config?: Partial<AppConfig>;
+  /** Replace the default fake adapters, e.g. to use a single ecosystem */
+  adapters?: ChainAdapter[];
+  plugins?: DefiPlugin[];
+  scanners?: ProtocolScanner[];
+  yieldSources?: YieldSource[];
+}
+
+/**
+ * Configuration for tests. Network I/O is in replay mode, so anything that
+ * slips past the fakes is served from recorded fixtures or fails with
+ * FIXTURE_NOT_FOUND rather than reaching a live API.
+ */
+export function testConfig(overrides: Partial<AppConfig> = {}): AppConfig {
+  return {
+    rpcUrls: {},
+    apiKeys: {},
+    defaultSlippageBps: 50,
+    transport: { type: "stdio", host: "127.0.0.1", port: 0, rest: false },
+    network: { mode: "replay", fixturesDir: "fixtures" },
+    chains: {},
+    evmChains: [],
+    plugins: {},
+    scanners: {},
+    yieldSources: {},
+    extensions: [],
+    txPolicy: {},
+    audit: { maxFileBytes: 10 * 1024 * 1024, maxFiles: 5 },
+    auth: { tenants: [], serverKeyFallback: true },
+    storage: { type: "memory", maxTableRows: 10_000 },
+    profile: { name: "full" },
+    toolLoading: { mode: "eager", coreToolsets: [] },
+    ...overrides,
+  };
+}
+
+/**
+ * A Registry wired to fake chain adapters, for exercising plugins, scanners
+ * and yield sources in-process.
+ *
+ *   const harness = await createTestHarness({ plugins: [new MyPlugin()] });
+ *   harness.evm.setNativeBalance("ethereum", wallet, 10n ** 18n);
+ *   const data = expectJson(await harness.callTool("defi_my_tool", { wallet }));
+ */
+export class TestHarness {
+  /** The MCP session callTool runs in, as set by defi_set_context */
+  readonly session = new ToolSession();
+  private clients: Client[] = [];
+
+  constructor(
+    readonly registry: Registry,
+    readonly evm: FakeEvmChainAdapter,
+    readonly solana: FakeSolanaChainAdapter,
+    readonly cosmos: FakeCosmosChainAdapter
+  ) {}
+
+  get context(): PluginContext {
+    return this.registry.getPluginContext();
+  }
+
+  /**
+   * Call a tool the way an MCP client would: arguments are validated
+   * against the schema the server advertises, then the call runs through
+   * the same executor as tools served by registerAllTools, with session
+   * defaults, tenant checks, the transaction policy, output validation,
+   * stats and the audit log. Invalid arguments return an INVALID_INPUT
+   * error. Pass `signal` to test cancellation and `onProgress` to collect
+   * progress reports.
+   */
+  async callTool(
+    name: string,
+    input: unknown = {},
+    options: ToolCallOptions = {}
+  ): Promise<ToolResult> {
+    const tool = [
+      ...getExposedTools(this.registry, options.tenant),
+      ...getSessionTools(this.session, this.registry),
+    ].find((t) => t.name === name);
+    if (!tool) throw new Error(`Tool "${name}" is not registered`);
+
+    const parsed = await z
+      .object(getAdvertisedInputShape(tool))
+      .safeParseAsync(input);
+    if (!parsed.success) {
+      return errorResult(invalidInputError(name, parsed.error));
+    }
+    return executeSessionToolCall(this.registry, tool, parsed.data, {
+      session: this.session.get(),
+      ...options,
+    });
+  }
+
+  /**
+   * An MCP client connected in-process to a new server for this registry,
+   * for testing what clients see: tool lists and notifications, resources,
+   * prompts and progress. Closed by shutdown().
+   */
+  async connect(tenant?: TenantConfig): Promise<Client> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: "test-harness", version: "1.0.0" });
+    await createMcpServer(this.registry, tenant).connect(serverTransport);
+    await client.connect(clientTransport);
+    this.clients.push(client);
+    return client;
+  }
+
+  async shutdown(): Promise<void> {
+    await Promise.all(this.clients.splice(0).map((client) => client.close()));
+    await this.registry.shutdown();
+  }
+}
+
+export async function createTestHarness(
+  options: TestHarnessOptions = {}
+): Promise<TestHarness> {
+  const config = testConfig(options.config);
+  for (const chain of config.evmChains) {
+    registerChain(chain);
+  }
+  const registry = new Registry(config);
+  const evm = new FakeEvmChainAdapter([...EVM_CHAINS, ...config.evmChains]);
+  const solana = new FakeSolanaChainAdapter();
+  const cosmos = new FakeCosmosChainAdapter();
+
+  for (const adapter of options.adapters ?? [evm, solana, cosmos]) {
+    registry.registerChainAdapter(adapter);
+  }
+  for (const scanner of options.scanners ?? []) {
+    registry.registerScanner(scanner);
+  }
+  for (const source of options.yieldSources ?? []) {
+    registry.registerYieldSource(source);
+  }
+  for (const plugin of options.plugins ?? []) {
+    await registry.registerPlugin(plugin);
+  }
+
+  return new TestHarness(registry, evm, solana, cosmos);
+}
+
+/**
+ * A PluginContext backed by fake adapters, for calling a ProtocolScanner
+ * or YieldSource directly. Individual members can be overridden.
+ */
+export async function createTestContext(
+  options: TestHarnessOptions & { overrides?: Partial<PluginContext> } = {}
+): Promise<PluginContext> {
+  const harness = await createTestHarness(options);
+  return { ...harness.context, ...options.overrides };
+}
+
+/** Assert a tool succeeded and return its JSON payload */
+export function expectJson<T = unknown>(result: ToolResult): T {
+  const text = result.content.map((c) => c.text).join("\n");
+  if (result.isError) {
+    throw new Error(`Expected tool success, got error: ${text}`);
+  }
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new Error(`Expected JSON tool output, got: ${text}`);
+  }
+}
+
+/** Assert a tool failed, optionally with a message matching `pattern` */
+export function expectToolError(result: ToolResult, pattern?: RegExp | string): string {
+  const text = result.content.map((c) => c.text).join("\n");
+  if (!result.isError) {
+    throw new Error(`Expected tool error, got success: ${text}`);
+  }
+  const matches =
+    pattern === undefined ||
+    (typeof pattern === "string" ? text.includes(pattern) : pattern.test(text));
+  if (!matches) {
+    throw new Error(`Tool error "${text}" does not match ${pattern}`);
+  }
+  return text;
+}
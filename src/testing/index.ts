@@ -0,0 +1,16 @@
+export {
+  FakeEvmChainAdapter,
+  FakeSolanaChainAdapter,
+  FakeCosmosChainAdapter,
+  type RpcHandler,
+} from "./fake-adapters.js";
+export { StubScanner, StubYieldSource } from "./stubs.js";
+export {
+  TestHarness,
+  createTestHarness,
+  createTestContext,
+  testConfig,
+  expectJson,
+  expectToolError,
+  type TestHarnessOptions,
+} from "./harness.js";
@@ -0,0 +1,71 @@
+import type {
+  ProtocolPosition,
+  ProtocolScanner,
+} from "../core/scanner-types.js";
+import type { YieldOpportunity, YieldSource } from "../core/yield-types.js";
+import type { PluginContext } from "../core/types.js";
+
+type Scripted<TArgs extends unknown[], T> =
+  | T[]
+  | ((...args: TArgs) => T[] | Promise<T[]>);
+
+/**
+ * A ProtocolScanner returning canned positions. Given an array it returns
+ * the positions on the scanned chain; given a function it defers to it.
+ * Every call is recorded in `calls`.
+ */
+export class StubScanner implements ProtocolScanner {
+  readonly calls: Array<{ chainId: string; walletAddress: string }> = [];
+
+  constructor(
+    readonly protocolName: string,
+    readonly supportedChains: string[],
+    private positions: Scripted<
+      [chainId: string, walletAddress: string, context: PluginContext],
+      ProtocolPosition
+    > = []
+  ) {}
+
+  async scanPositions(
+    chainId: string,
+    walletAddress: string,
+    context: PluginContext
+  ): Promise<ProtocolPosition[]> {
+    this.calls.push({ chainId, walletAddress });
+    if (typeof this.positions === "function") {
+      return this.positions(chainId, walletAddress, context);
+    }
+    return this.positions.filter((p) => p.chainId === chainId);
+  }
+}
+
+/**
+ * A YieldSource returning canned opportunities. Given an array it returns
+ * the ones whose asset matches the requested token; given a function it
+ * defers to it. Every call is recorded in `calls`.
+ */
+export class StubYieldSource implements YieldSource {
+  readonly calls: Array<{ tokenSymbol: string }> = [];
+
+  constructor(
+    readonly protocolName: string,
+    readonly supportedChains: string[],
+    private opportunities: Scripted<
+      [tokenSymbol: string, context: PluginContext],
+      YieldOpportunity
+    > = []
+  ) {}
+
+  async getYieldOpportunities(
+    tokenSymbol: string,
+    context: PluginContext
+  ): Promise<YieldOpportunity[]> {
+    this.calls.push({ tokenSymbol });
+    if (typeof this.opportunities === "function") {
+      return this.opportunities(tokenSymbol, context);
+    }
+    return this.opportunities.filter(
+      (o) => o.asset.toUpperCase() === tokenSymbol.toUpperCase()
+    );
+  }
+}
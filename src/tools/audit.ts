@@ -0,0 +1,51 @@
+import { z } from "zod";
+import type { ToolDefinition, ToolResult } from "../core/types.js";
+import type { AuditLog, AuditQuery } from "../audit/audit-log.js";
+
+/** defi_audit_query, served only when the audit log is enabled */
+export function getAuditTools(audit: AuditLog): ToolDefinition[] {
+  if (!audit.enabled) return [];
+  return [
+    {
+      name: "defi_audit_query",
+      capabilities: ["read"],
+      description:
+        "Search the audit log of tool calls made to this server, newest first. Each entry has the tool, sanitized input, duration, success or error code, and a hash of each transaction built. Filter by tool, status, time or text in the input such as a wallet address.",
+      inputSchema: z.object({
+        tool: z.string().optional().describe("Only calls to this tool, e.g. defi_swap_build_tx"),
+        status: z.enum(["ok", "error"]).optional(),
+        since: z
+          .string()
+          .datetime()
+          .optional()
+          .describe("Only calls at or after this ISO timestamp"),
+        inputContains: z
+          .string()
+          .optional()
+          .describe("Case-insensitive text the input must contain, e.g. an address"),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(500)
+          .optional()
+          .describe("Maximum entries (default 50)"),
+      }),
+      handler: async (input, context): Promise<ToolResult> => {
+        // A tenant only sees its own calls
+        const entries = await audit.query({
+          ...(input as AuditQuery),
+          tenant: context.tenantId,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ count: entries.length, entries }, null, 2),
+            },
+          ],
+        };
+      },
+    },
+  ];
+}
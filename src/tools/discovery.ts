@@ -0,0 +1,164 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { ToolDefinition, ToolResult } from "../core/types.js";
+import { DefiMcpError } from "../core/errors.js";
+import { getToolCapabilities } from "./profiles.js";
+
+/** A plugin tool together with the toolset (plugin) that provides it */
+export interface ExposedTool {
+  tool: ToolDefinition;
+  toolset: string;
+  tags: string[];
+}
+
+/**
+ * Which toolsets a client currently sees. In lazy mode only the core
+ * toolsets are advertised until the client enables more.
+ */
+export interface ToolsetState {
+  isEnabled(toolset: string): boolean;
+  /** Advertise these toolsets' tools and notify the client the list changed */
+  enable(toolsets: string[]): void;
+}
+
+/** For callers without a live session, such as the test harness */
+export const ALL_TOOLSETS_ENABLED: ToolsetState = {
+  isEnabled: () => true,
+  enable: () => {},
+};
+
+/**
+ * defi_search_tools, defi_describe_tool and defi_enable_toolsets, which
+ * let a client find tools without loading every schema up front.
+ */
+export function getDiscoveryTools(
+  getTools: () => ExposedTool[],
+  toolsets: ToolsetState
+): ToolDefinition[] {
+  const summary = ({ tool, toolset, tags }: ExposedTool) => ({
+    name: tool.name,
+    toolset,
+    enabled: toolsets.isEnabled(toolset),
+    capabilities: getToolCapabilities(tool),
+    tags,
+  });
+
+  return [
+    {
+      name: "defi_search_tools",
+      description:
+        "Search the available DeFi tools by keyword, e.g. \"aave borrow\" or \"gas\". Matches tool names, descriptions and toolset tags. Use this to find a tool before calling it; tools in toolsets that are not enabled must be enabled with defi_enable_toolsets first.",
+      inputSchema: z.object({
+        query: z.string().min(1).describe("Keywords to search for"),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(50)
+          .optional()
+          .describe("Maximum results (default 10)"),
+      }),
+      handler: async (input: unknown): Promise<ToolResult> => {
+        const { query, limit = 10 } = input as { query: string; limit?: number };
+        // Every tool name starts with defi_, so that word matches nothing useful
+        const words = query
+          .toLowerCase()
+          .split(/[\s,_-]+/)
+          .filter((w) => w && w !== "defi");
+
+        const results = getTools()
+          .map((entry) => ({ entry, score: searchScore(entry, words) }))
+          .filter((r) => r.score > 0)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, limit)
+          .map(({ entry }) => ({
+            ...summary(entry),
+            description: firstSentence(entry.tool.description),
+          }));
+
+        return jsonResult({ query, results });
+      },
+    },
+    {
+      name: "defi_describe_tool",
+      description:
+        "Get the full description, input JSON schema, capabilities and toolset of a tool found with defi_search_tools.",
+      inputSchema: z.object({
+        name: z.string().describe("Tool name, e.g. defi_lending_supply_tx"),
+      }),
+      handler: async (input: unknown): Promise<ToolResult> => {
+        const { name } = input as { name: string };
+        const entry = getTools().find((e) => e.tool.name === name);
+        if (!entry) {
+          throw new DefiMcpError(`Tool "${name}" not found`, "TOOL_NOT_FOUND", { name }, {
+            suggestedTool: "defi_search_tools",
+          });
+        }
+
+        return jsonResult({
+          ...summary(entry),
+          description: entry.tool.description,
+          inputSchema: zodToJsonSchema(entry.tool.inputSchema, {
+            $refStrategy: "none",
+          }),
+        });
+      },
+    },
+    {
+      name: "defi_enable_toolsets",
+      description:
+        "Enable toolsets so their tools appear in the tool list. A toolset is the plugin a tool belongs to, as reported by defi_search_tools. The client is notified that the tool list changed.",
+      inputSchema: z.object({
+        toolsets: z
+          .array(z.string())
+          .min(1)
+          .describe('Toolset names, e.g. ["lending", "swap"]'),
+      }),
+      handler: async (input: unknown): Promise<ToolResult> => {
+        const { toolsets: names } = input as { toolsets: string[] };
+        const tools = getTools();
+        const known = new Set(tools.map((e) => e.toolset));
+        const unknown = names.filter((n) => !known.has(n));
+        if (unknown.length > 0) {
+          throw new DefiMcpError(
+            `Unknown toolsets: ${unknown.join(", ")}. Known: ${[...known].join(", ")}`,
+            "UNKNOWN_TOOLSET",
+            { unknown },
+            { suggestedTool: "defi_search_tools" }
+          );
+        }
+
+        toolsets.enable(names);
+        return jsonResult({
+          enabled: names,
+          tools: tools
+            .filter((e) => names.includes(e.toolset))
+            .map((e) => e.tool.name),
+        });
+      },
+    },
+  ];
+}
+
+function searchScore({ tool, toolset, tags }: ExposedTool, words: string[]): number {
+  const name = tool.name.toLowerCase();
+  const description = tool.description.toLowerCase();
+  let score = 0;
+  for (const word of words) {
+    if (name.includes(word)) score += 3;
+    if (toolset.includes(word) || tags.some((t) => t.includes(word))) score += 2;
+    if (description.includes(word)) score += 1;
+  }
+  return score;
+}
+
+function firstSentence(text: string): string {
+  const end = text.search(/\.(\s|$)/);
+  return end === -1 ? text : text.slice(0, end + 1);
+}
+
+function jsonResult(data: Record<string, unknown>): ToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+  };
+}
@@ -0,0 +1,40 @@
+import type {
+  DefiPlugin,
+  ToolCapability,
+  ToolDefinition,
+  ToolProfile,
+} from "../core/types.js";
+
+/** Profiles selectable by name without defining them in config */
+export const BUILTIN_PROFILES: Record<string, Omit<ToolProfile, "name">> = {
+  full: {},
+  // Everything except transaction builders
+  "read-only": { excludeCapabilities: ["builds-tx"] },
+  "market-data": {
+    tags: ["market-data"],
+    excludeCapabilities: ["builds-tx"],
+  },
+  trading: { tags: ["trading"] },
+};
+
+export function getToolCapabilities(tool: ToolDefinition): ToolCapability[] {
+  return tool.capabilities ?? ["read"];
+}
+
+/** Whether a profile exposes a plugin's tools at all */
+export function isPluginInProfile(
+  plugin: DefiPlugin,
+  profile: ToolProfile
+): boolean {
+  if (!profile.tags) return true;
+  const tags = plugin.metadata?.tags ?? [];
+  return profile.tags.some((tag) => tags.includes(tag));
+}
+
+export function isToolInProfile(
+  tool: ToolDefinition,
+  profile: ToolProfile
+): boolean {
+  const excluded = profile.excludeCapabilities ?? [];
+  return !getToolCapabilities(tool).some((c) => excluded.includes(c));
+}
@@ -1,67 +1,343 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type {
+  McpServer,
+  RegisteredTool,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import type { Registry } from "../core/registry.js";
+import { DefiMcpError, errorResult, getErrorCode } from "../core/errors.js";
+import { isPluginInProfile, isToolInProfile } from "./profiles.js";
+import {
+  ALL_TOOLSETS_ENABLED,
+  getDiscoveryTools,
+  type ExposedTool,
+  type ToolsetState,
+} from "./discovery.js";
+import { getAuditTools } from "./audit.js";
+import { getStatusTools } from "./status.js";
+import {
+  ToolSession,
+  applySessionDefaults,
+  getSessionFields,
+  getSessionTools,
+  missingSessionFieldsError,
+  withOptionalSessionFields,
+} from "./session.js";
+import {
+  createToolCallContext,
+  type ToolCallOptions,
+} from "../core/tool-call.js";
+import { isToolAllowed } from "../auth/tenants.js";
+import type {
+  TenantConfig,
+  ToolCallContext,
+  ToolDefinition,
+  ToolResult,
+} from "../core/types.js";
 
 /**
  * Registers all tools from all plugins onto the McpServer instance.
  * Also registers built-in tools like defi_get_chains.
+ *
+ * In lazy mode only the built-in tools and the core toolsets are
+ * advertised; the rest are registered disabled until the client turns
+ * them on with defi_enable_toolsets. Every call is counted for
+ * defi_server_status and recorded in the audit log when one is configured.
+ * A tenant only gets the tools on its allowlist, and its calls count
+ * against its quota. Each server is one MCP session with its own context
+ * (defi_set_context), which fills omitted wallet and chain fields.
  */
 export function registerAllTools(
   server: McpServer,
-  registry: Registry
+  registry: Registry,
+  tenant?: TenantConfig
 ): void {
   const context = registry.getPluginContext();
+  const { mode, coreToolsets } = context.config.toolLoading;
+  const handles = new Map<string, RegisteredTool[]>();
+  const toolsets: ToolsetState = {
+    isEnabled: (toolset) =>
+      handles.get(toolset)?.every((h) => h.enabled) ?? false,
+    enable: (names) => {
+      for (const name of names) {
+        for (const handle of handles.get(name) ?? []) handle.enabled = true;
+      }
+      server.sendToolListChanged();
+    },
+  };
+
+  const session = new ToolSession();
+  const { builtins, pluginTools } = listTools(registry, toolsets, tenant);
+  const sessionTools = getSessionTools(session, registry).filter((tool) =>
+    isToolAllowed(tenant, tool.name)
+  );
+  for (const tool of [...builtins, ...sessionTools]) {
+    registerTool(server, tool, registry, tenant, session);
+  }
+  for (const { tool, toolset } of pluginTools) {
+    const handle = registerTool(server, tool, registry, tenant, session);
+    if (mode === "lazy" && !coreToolsets.includes(toolset)) {
+      handle.disable();
+    }
+    handles.set(toolset, [...(handles.get(toolset) ?? []), handle]);
+  }
+}
 
-  // Built-in: list supported chains
-  server.tool(
-    "defi_get_chains",
-    "List all supported blockchain networks with their IDs, names, ecosystems, and native tokens.",
-    {},
-    async () => {
-      const chains = registry.getSupportedChains();
-      const summary = chains.map((c) => ({
-        id: c.id,
-        name: c.name,
-        ecosystem: c.ecosystem,
-        nativeToken: c.nativeToken.symbol,
-        explorer: c.explorerUrl,
-      }));
-      return {
-        content: [
-          { type: "text" as const, text: JSON.stringify(summary, null, 2) },
-        ],
-      };
+function registerTool(
+  server: McpServer,
+  tool: ToolDefinition,
+  registry: Registry,
+  tenant: TenantConfig | undefined,
+  session: ToolSession
+): RegisteredTool {
+  return server.registerTool(
+    tool.name,
+    {
+      description: tool.description,
+      inputSchema: getAdvertisedInputShape(tool),
+      outputSchema: tool.outputSchema?.shape,
+    },
+    async (args, extra) => {
+      const progressToken = extra._meta?.progressToken;
+      const result = await executeSessionToolCall(registry, tool, args, {
+        tenant,
+        session: session.get(),
+        signal: extra.signal,
+        onProgress:
+          progressToken === undefined
+            ? undefined
+            : (update) =>
+                void extra
+                  .sendNotification({
+                    method: "notifications/progress",
+                    params: { progressToken, ...update },
+                  })
+                  .catch(() => {}),
+      });
+      return { ...result };
     }
   );
+}
 
-  // Register all plugin tools
-  const tools = registry.getAllTools();
-  for (const tool of tools) {
-    const shape =
-      tool.inputSchema instanceof z.ZodObject
-        ? (tool.inputSchema as z.ZodObject<z.ZodRawShape>).shape
-        : {};
-
-    server.tool(
-      tool.name,
-      tool.description,
-      shape,
-      async (input) => {
-        try {
-          const result = await tool.handler(input, context);
-          return {
-            content: result.content,
-            isError: result.isError,
-          };
-        } catch (err) {
-          const message =
-            err instanceof Error ? err.message : String(err);
-          return {
-            content: [{ type: "text" as const, text: `Error: ${message}` }],
-            isError: true,
-          };
-        }
-      }
+/**
+ * The shape a tool's arguments are advertised and validated against over
+ * MCP: its input shape with the fields the session fills made optional
+ */
+export function getAdvertisedInputShape(tool: ToolDefinition): z.ZodRawShape {
+  const shape = getInputShape(tool);
+  return withOptionalSessionFields(shape, getSessionFields(tool, shape));
+}
+
+/**
+ * Run an MCP tool call whose arguments were validated against
+ * getAdvertisedInputShape: omitted fields are filled from
+ * `options.session`, then the call goes through executeTool
+ */
+export async function executeSessionToolCall(
+  registry: Registry,
+  tool: ToolDefinition,
+  args: Record<string, unknown>,
+  options: ToolCallOptions = {}
+): Promise<ToolResult> {
+  const sessionFields = getSessionFields(tool, getInputShape(tool));
+  let input: unknown = args;
+  if (Object.keys(sessionFields).length > 0) {
+    const filled = applySessionDefaults(
+      args,
+      sessionFields,
+      options.session ?? {},
+      registry.getPluginContext()
+    );
+    const missing = Object.keys(sessionFields).filter(
+      (field) => filled[field] === undefined
+    );
+    if (missing.length > 0) {
+      return errorResult(missingSessionFieldsError(tool.name, missing));
+    }
+    const parsed = await tool.inputSchema.safeParseAsync(filled);
+    if (!parsed.success) {
+      return errorResult(invalidInputError(tool.name, parsed.error));
+    }
+    input = parsed.data;
+  }
+  return executeTool(registry, tool, input, options);
+}
+
+/** INVALID_INPUT error for arguments that don't match a tool's schema */
+export function invalidInputError(
+  toolName: string,
+  error: z.ZodError
+): DefiMcpError {
+  return new DefiMcpError(
+    `Invalid input for ${toolName}: ${error.message}`,
+    "INVALID_INPUT"
+  );
+}
+
+/**
+ * Run a tool with already-validated input the way an MCP call does:
+ * checked against the tenant's allowlist and quota, run through runTool,
+ * then counted for defi_server_status and recorded in the audit log
+ */
+export async function executeTool(
+  registry: Registry,
+  tool: ToolDefinition,
+  input: unknown,
+  options: ToolCallOptions = {}
+): Promise<ToolResult> {
+  const context = registry.getPluginContext();
+  const started = performance.now();
+  const denied = options.tenant
+    ? registry.getAuth().authorize(options.tenant, tool.name)
+    : undefined;
+  const result = denied
+    ? errorResult(denied)
+    : await runTool(tool, input, createToolCallContext(context, options));
+  registry.getToolStats().record(tool.name, result, options.tenant?.id);
+  await context.audit.record(
+    tool.name,
+    input,
+    result,
+    performance.now() - started,
+    options.tenant?.id
+  );
+  return result;
+}
+
+/** The raw zod shape the MCP server validates a tool's arguments against */
+export function getInputShape(tool: ToolDefinition): z.ZodRawShape {
+  return tool.inputSchema instanceof z.ZodObject
+    ? (tool.inputSchema as z.ZodObject<z.ZodRawShape>).shape
+    : {};
+}
+
+/**
+ * Built-in tools followed by the plugin tools the configured profile
+ * exposes, in registration order. With a tenant, only those on its
+ * allowlist.
+ */
+export function getExposedTools(
+  registry: Registry,
+  tenant?: TenantConfig
+): ToolDefinition[] {
+  const { builtins, pluginTools } = listTools(
+    registry,
+    ALL_TOOLSETS_ENABLED,
+    tenant
+  );
+  return [...builtins, ...pluginTools.map((e) => e.tool)];
+}
+
+function listTools(
+  registry: Registry,
+  toolsets: ToolsetState,
+  tenant?: TenantConfig
+): { builtins: ToolDefinition[]; pluginTools: ExposedTool[] } {
+  const { config, audit } = registry.getPluginContext();
+  const pluginTools = registry
+    .getPlugins()
+    .filter((plugin) => isPluginInProfile(plugin, config.profile))
+    .flatMap((plugin) =>
+      plugin
+        .getTools()
+        .filter(
+          (tool) =>
+            isToolInProfile(tool, config.profile) &&
+            isToolAllowed(tenant, tool.name)
+        )
+        .map((tool) => ({
+          tool,
+          toolset: plugin.name,
+          tags: plugin.metadata?.tags ?? [],
+        }))
     );
+  return {
+    builtins: [
+      ...getBuiltinTools(registry),
+      ...getDiscoveryTools(() => pluginTools, toolsets),
+      ...getStatusTools(registry),
+      ...getAuditTools(audit),
+    ].filter((tool) => isToolAllowed(tenant, tool.name)),
+    pluginTools,
+  };
+}
+
+/**
+ * Invoke a tool handler with already-validated input, turning thrown
+ * errors into an error result with an ErrorEnvelope. Every caller that executes tools goes
+ * through here so they all see identical results. Transactions in the
+ * result are checked against the transaction policy. Successful results of
+ * tools with an outputSchema are checked against it, so a handler that
+ * drifts from its declared shape fails loudly instead of misleading
+ * clients that rely on it.
+ */
+export async function runTool(
+  tool: ToolDefinition,
+  input: unknown,
+  context: ToolCallContext
+): Promise<ToolResult> {
+  let result: ToolResult;
+  try {
+    result = await tool.handler(input, context);
+  } catch (err) {
+    return errorResult(err);
+  }
+
+  // Plain-text errors, e.g. from extension plugins, get the same envelope
+  if (result.isError && getErrorCode(result) === undefined) {
+    return errorResult(result.content.map((c) => c.text).join("\n"));
   }
+
+  try {
+    result = await context.txPolicy.enforce(result, context);
+  } catch (err) {
+    return errorResult(err, "Transaction policy check failed");
+  }
+
+  if (tool.outputSchema && !result.isError) {
+    const parsed = await tool.outputSchema.safeParseAsync(
+      result.structuredContent
+    );
+    if (!parsed.success) {
+      return errorResult(
+        new DefiMcpError(
+          `Invalid structured content for tool ${tool.name}: ${parsed.error.message}`,
+          "OUTPUT_VALIDATION_ERROR"
+        )
+      );
+    }
+  }
+
+  return {
+    content: result.content,
+    structuredContent: result.structuredContent,
+    isError: result.isError,
+  };
+}
+
+function getBuiltinTools(registry: Registry): ToolDefinition[] {
+  return [
+    // List supported chains
+    {
+      name: "defi_get_chains",
+      capabilities: ["read"],
+      description:
+        "List all supported blockchain networks with their IDs, names, ecosystems, and native tokens.",
+      inputSchema: z.object({}),
+      handler: async () => {
+        const chains = registry.getSupportedChains();
+        const summary = chains.map((c) => ({
+          id: c.id,
+          name: c.name,
+          ecosystem: c.ecosystem,
+          nativeToken: c.nativeToken.symbol,
+          explorer: c.explorerUrl,
+        }));
+        return {
+          content: [
+            { type: "text" as const, text: JSON.stringify(summary, null, 2) },
+          ],
+        };
+      },
+    },
+  ];
 }
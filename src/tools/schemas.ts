@@ -21,7 +21,7 @@ export const SlippageSchema = z
   .max(5000)
   .optional()
   .describe(
-    "Slippage tolerance in basis points (e.g. 50 = 0.5%). Defaults to 50."
+    "Slippage tolerance in basis points (e.g. 50 = 0.5%). Defaults to the session's slippage, else 50."
   );
 
 export const TokenInfoInputSchema = z.object({
@@ -41,6 +41,13 @@ export const TokenPriceInputSchema = z.object({
     )
     .min(1)
     .max(20),
+  currency: z
+    .string()
+    .regex(/^[a-z]{3,5}$/i)
+    .optional()
+    .describe(
+      'Currency to price in besides USD, e.g. "eur". Defaults to the session\'s display currency.'
+    ),
 });
 
 export const GetBalancesInputSchema = z.object({
@@ -72,3 +79,65 @@ export const SwapBuildTxInputSchema = z.object({
     "Wallet address that will sign and send this transaction"
   ),
 });
+
+// ============================================================
+// Output schemas (structuredContent)
+// ============================================================
+
+export const TokenInfoOutputSchema = z.object({
+  symbol: z.string(),
+  name: z.string(),
+  decimals: z.number(),
+  address: z
+    .string()
+    .describe("Contract address (EVM), mint (Solana) or denom (Cosmos)"),
+  chainId: z.string(),
+  logoUrl: z.string().optional(),
+  coingeckoId: z.string().optional(),
+});
+
+export const TokenBalanceOutputSchema = z.object({
+  token: TokenInfoOutputSchema,
+  balanceRaw: z.string().describe("Balance in base units"),
+  balanceFormatted: z.string().describe("Balance in whole tokens"),
+  balanceUsd: z.string().optional(),
+});
+
+export const GetBalancesOutputSchema = z.object({
+  chainId: z.string(),
+  address: z.string(),
+  balances: z
+    .array(TokenBalanceOutputSchema)
+    .describe("Native balance first, then the requested tokens"),
+});
+
+export const SwapQuoteOutputSchema = z.object({
+  srcToken: TokenInfoOutputSchema,
+  dstToken: TokenInfoOutputSchema,
+  amountIn: z.string(),
+  amountOut: z.string(),
+  minimumAmountOut: z.string().describe("amountOut after slippage"),
+  priceImpact: z.string().optional(),
+  estimatedGas: z.string().optional(),
+  route: z.array(z.string()),
+  aggregator: z.string(),
+  expiresAt: z.string().optional(),
+});
+
+export const UnsignedTransactionOutputSchema = z.object({
+  chainId: z.string(),
+  ecosystem: z.enum(["evm", "solana", "cosmos"]),
+  raw: z
+    .record(z.unknown())
+    .describe("Ecosystem-specific fields, e.g. to/data/value on EVM"),
+  description: z.string(),
+  estimatedGas: z.string().optional(),
+  outflows: z
+    .array(z.object({ token: z.string(), amount: z.string() }))
+    .optional()
+    .describe("Tokens spent from the sender, in base units"),
+  policyWarnings: z
+    .array(z.string())
+    .optional()
+    .describe("Transaction policy rules this transaction breaks"),
+});
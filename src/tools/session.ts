@@ -0,0 +1,232 @@
+import { z } from "zod";
+import type { Registry } from "../core/registry.js";
+import type {
+  PluginContext,
+  SessionContext,
+  SessionDefault,
+  ToolDefinition,
+  ToolResult,
+} from "../core/types.js";
+import { DefiMcpError } from "../core/errors.js";
+import { AddressSchema, ChainIdSchema } from "./schemas.js";
+
+/** Input fields every tool gets from the session without declaring them */
+const CONVENTIONAL_FIELDS: Record<string, SessionDefault> = {
+  chainId: "chain",
+  userAddress: "wallet",
+  ownerAddress: "wallet",
+};
+
+const CONTEXT_FIELDS = [
+  "wallets",
+  "chainId",
+  "slippageBps",
+  "riskTolerance",
+  "displayCurrency",
+] as const;
+
+/**
+ * The context of one MCP session. It lives as long as the session and is
+ * never shared with other sessions or persisted.
+ */
+export class ToolSession {
+  private values: SessionContext = {};
+
+  get(): SessionContext {
+    return structuredClone(this.values);
+  }
+
+  /** Apply changes, then unset the `clear` fields */
+  update(
+    changes: SessionContext,
+    clear: Array<keyof SessionContext> = []
+  ): SessionContext {
+    this.values = { ...this.values, ...definedOnly(changes) };
+    for (const field of clear) delete this.values[field];
+    return this.get();
+  }
+}
+
+/**
+ * Required fields of a tool that the session fills when omitted: the
+ * conventional ones it has plus those in `sessionDefaults`
+ */
+export function getSessionFields(
+  tool: ToolDefinition,
+  shape: z.ZodRawShape
+): Record<string, SessionDefault> {
+  return Object.fromEntries(
+    Object.entries({ ...CONVENTIONAL_FIELDS, ...tool.sessionDefaults }).filter(
+      ([field]) => shape[field] !== undefined && !shape[field].isOptional()
+    )
+  );
+}
+
+/** The shape with session-filled fields made optional, as advertised to MCP clients */
+export function withOptionalSessionFields(
+  shape: z.ZodRawShape,
+  fields: Record<string, SessionDefault>
+): z.ZodRawShape {
+  const relaxed = { ...shape };
+  for (const [field, source] of Object.entries(fields)) {
+    const note =
+      source === "wallet"
+        ? "Defaults to the session's wallet (defi_set_context)."
+        : "Defaults to the session's chain (defi_set_context).";
+    relaxed[field] = shape[field]
+      .optional()
+      .describe(`${shape[field].description ?? ""} ${note}`.trim());
+  }
+  return relaxed;
+}
+
+/**
+ * Fill omitted session fields. A wallet field gets the first session
+ * wallet that is a valid address on the call's chain, so EVM and Solana
+ * wallets can be set side by side. Fields the session can't fill are
+ * left out for validation to reject.
+ */
+export function applySessionDefaults(
+  input: Record<string, unknown>,
+  fields: Record<string, SessionDefault>,
+  session: SessionContext,
+  context: PluginContext
+): Record<string, unknown> {
+  const filled = { ...input };
+  for (const [field, source] of Object.entries(fields)) {
+    if (source === "chain" && filled[field] === undefined) {
+      filled[field] = session.chainId;
+    }
+  }
+  const chainField =
+    Object.keys(fields).find((field) => fields[field] === "chain") ?? "chainId";
+  const chainId =
+    typeof filled[chainField] === "string"
+      ? (filled[chainField] as string)
+      : session.chainId;
+  for (const [field, source] of Object.entries(fields)) {
+    if (source === "wallet" && filled[field] === undefined) {
+      filled[field] = session.wallets?.find(
+        (wallet) => !chainId || isValidOn(context, chainId, wallet)
+      );
+    }
+  }
+  return filled;
+}
+
+/** Error for session fields still missing after applySessionDefaults */
+export function missingSessionFieldsError(
+  toolName: string,
+  missing: string[]
+): DefiMcpError {
+  return new DefiMcpError(
+    `${toolName} needs ${missing.join(", ")}: pass ${missing.length > 1 ? "them" : "it"}, or set a default with defi_set_context`,
+    "INVALID_INPUT",
+    { missing },
+    { suggestedTool: "defi_set_context" }
+  );
+}
+
+/** defi_set_context and defi_get_context, for MCP sessions only */
+export function getSessionTools(
+  session: ToolSession,
+  registry: Registry
+): ToolDefinition[] {
+  const result = (context: SessionContext): ToolResult => ({
+    content: [{ type: "text", text: JSON.stringify(context, null, 2) }],
+  });
+
+  return [
+    {
+      name: "defi_set_context",
+      capabilities: ["read"],
+      description:
+        "Set defaults for the rest of this session so later calls can omit them: the active wallets, preferred chain, slippage, risk tolerance and display currency. Omitted chainId, userAddress and ownerAddress fields then come from here, and tools with optional slippage, risk or currency inputs use these values. Returns the updated context.",
+      inputSchema: z.object({
+        wallets: z
+          .array(AddressSchema)
+          .min(1)
+          .max(10)
+          .optional()
+          .describe(
+            "Wallet addresses in order of preference, replacing any set before. Each call uses the first that is valid on its chain."
+          ),
+        chainId: ChainIdSchema.optional().describe(
+          "Chain used when a tool's chainId is omitted"
+        ),
+        slippageBps: z
+          .number()
+          .int()
+          .min(1)
+          .max(5000)
+          .optional()
+          .describe("Slippage tolerance in basis points for swaps and bridges"),
+        riskTolerance: z
+          .enum(["low", "medium", "high"])
+          .optional()
+          .describe("Risk tolerance for yield and strategy tools"),
+        displayCurrency: z
+          .string()
+          .regex(/^[a-z]{3,5}$/i)
+          .optional()
+          .describe('Currency prices are shown in, e.g. "eur" or "gbp"'),
+        clear: z
+          .array(z.enum(CONTEXT_FIELDS))
+          .optional()
+          .describe("Fields to unset"),
+      }),
+      handler: async (input): Promise<ToolResult> => {
+        const { clear, ...changes } = input as SessionContext & {
+          clear?: Array<keyof SessionContext>;
+        };
+        if (changes.chainId) registry.getChainAdapterForChain(changes.chainId);
+        const chains = registry.getSupportedChains();
+        for (const wallet of changes.wallets ?? []) {
+          if (!chains.some((c) => isValidOn(registry.getPluginContext(), c.id, wallet))) {
+            throw new DefiMcpError(
+              `"${wallet}" is not a valid address on any supported chain`,
+              "INVALID_ADDRESS",
+              { address: wallet }
+            );
+          }
+        }
+        return result(
+          session.update(
+            {
+              ...changes,
+              displayCurrency: changes.displayCurrency?.toLowerCase(),
+            },
+            clear
+          )
+        );
+      },
+    },
+    {
+      name: "defi_get_context",
+      capabilities: ["read"],
+      description:
+        "Show the defaults this session set with defi_set_context: wallets, preferred chain, slippage, risk tolerance and display currency.",
+      inputSchema: z.object({}),
+      handler: async (): Promise<ToolResult> => result(session.get()),
+    },
+  ];
+}
+
+function isValidOn(
+  context: PluginContext,
+  chainId: string,
+  address: string
+): boolean {
+  try {
+    return context.getChainAdapterForChain(chainId).isValidAddress(chainId, address);
+  } catch {
+    // Unknown chain: any wallet will do, the tool reports the chain
+    return true;
+  }
+}
+
+function definedOnly<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
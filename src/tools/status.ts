@@ -0,0 +1,162 @@
+import { z } from "zod";
+import type { Registry } from "../core/registry.js";
+import type { ChainInfo, ToolDefinition, ToolResult } from "../core/types.js";
+import { ChainNotSupportedError, RpcTimeoutError, toDefiMcpError } from "../core/errors.js";
+import { fanOut } from "../core/tool-call.js";
+import { isToolAllowed } from "../auth/tenants.js";
+
+/** How long a chain gets to return its latest block */
+const PROBE_TIMEOUT_MS = 5_000;
+
+/**
+ * defi_server_status: what is loaded and how its upstreams are doing. A
+ * tenant sees only its own tool stats and the plugins with tools on its
+ * allowlist.
+ */
+export function getStatusTools(registry: Registry): ToolDefinition[] {
+  return [
+    {
+      name: "defi_server_status",
+      capabilities: ["read"],
+      description:
+        "Diagnose slow or failing calls. Reports registered plugins with versions, wallet scanners and yield sources; per-chain RPC reachability, latest block, probe latency and endpoint error rates; third-party API latency, errors and cache hit rates; and per-tool error counts over the last hour.",
+      inputSchema: z.object({
+        chainIds: z
+          .array(z.string())
+          .optional()
+          .describe("Only report these chains (default: every chain)"),
+        probeRpc: z
+          .boolean()
+          .optional()
+          .describe("Read the latest block from each chain's RPC (default true); false reports tracked stats only"),
+      }),
+      handler: async (input, context): Promise<ToolResult> => {
+        const { chainIds, probeRpc = true } = input as {
+          chainIds?: string[];
+          probeRpc?: boolean;
+        };
+        const all = registry.getSupportedChains();
+        for (const id of chainIds ?? []) {
+          if (!all.some((c) => c.id === id)) throw new ChainNotSupportedError(id);
+        }
+        const chains = chainIds ? all.filter((c) => chainIds.includes(c.id)) : all;
+
+        const track = fanOut(context, chains.length);
+        const chainStatus = await Promise.all(
+          chains.map((chain) =>
+            track(getChainStatus(registry, chain, probeRpc), chain.id)
+          )
+        );
+        context.signal.throwIfAborted();
+
+        const tenant = context.config.auth.tenants.find(
+          (t) => t.id === context.tenantId
+        );
+        const status = {
+          uptimeSeconds: Math.round(process.uptime()),
+          plugins: registry
+            .getPlugins()
+            .map((p) => ({
+              name: p.name,
+              version: p.version,
+              tools: p.getTools().filter((t) => isToolAllowed(tenant, t.name)).length,
+              tags: p.metadata?.tags ?? [],
+            }))
+            .filter((p) => p.tools > 0),
+          scanners: context.getScanners().map((s) => s.protocolName),
+          yieldSources: context.getYieldSources().map((s) => ({
+            protocol: s.protocolName,
+            chains: s.supportedChains,
+          })),
+          chains: chainStatus,
+          apis: context.http.getStats().map((h) => ({
+            ...h,
+            cacheHitRate:
+              h.requests > 0 ? Number((h.cacheHits / h.requests).toFixed(3)) : 0,
+          })),
+          tools: registry
+            .getToolStats()
+            .getStats(context.tenantId)
+            .filter((t) => t.errors > 0),
+        };
+        return {
+          content: [{ type: "text", text: JSON.stringify(status, null, 2) }],
+        };
+      },
+    },
+  ];
+}
+
+async function getChainStatus(
+  registry: Registry,
+  chain: ChainInfo,
+  probe: boolean
+) {
+  let result: {
+    reachable?: boolean;
+    latestBlock?: number;
+    latencyMs?: number;
+    error?: { code: string; message: string };
+  } = {};
+
+  if (probe) {
+    const started = performance.now();
+    try {
+      const latestBlock = await withTimeout(
+        registry.getChainAdapter(chain.ecosystem).getLatestBlock(chain.id),
+        PROBE_TIMEOUT_MS
+      );
+      result = {
+        reachable: true,
+        latestBlock,
+        latencyMs: Math.round(performance.now() - started),
+      };
+    } catch (err) {
+      const { code, message } = toDefiMcpError(err);
+      result = { reachable: false, error: { code, message: message.split("\n")[0] } };
+    }
+  }
+
+  // Read after the probe so it is counted. Only hosts are shown because
+  // provider URLs often carry an API key in the path.
+  const { rpcUrls } = registry.getPluginContext().config;
+  const urls = rpcUrls[chain.id]?.length ? rpcUrls[chain.id] : [chain.rpcUrl];
+  const stats = registry.getRpcHealth().getStats();
+  const endpoints = urls.map((url) => {
+    const { url: _, ...tracked } = stats.find((s) => s.url === url) ?? {
+      url,
+      requests: 0,
+      failures: 0,
+      rateLimited: 0,
+      errorRate: 0,
+    };
+    return { host: hostOf(url), ...tracked };
+  });
+
+  return {
+    chainId: chain.id,
+    name: chain.name,
+    ecosystem: chain.ecosystem,
+    ...result,
+    endpoints,
+  };
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new RpcTimeoutError(`no block after ${ms}ms`)),
+      ms
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "invalid URL";
+  }
+}
@@ -0,0 +1,31 @@
+import type { IncomingMessage } from "node:http";
+import { DefiMcpError } from "../core/errors.js";
+
+/** Largest request body the HTTP transport and REST gateway accept, in bytes */
+export const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * The request body as text. Reading stops as soon as the body passes
+ * MAX_BODY_BYTES, with a PAYLOAD_TOO_LARGE error, so an oversized body is
+ * never held in memory.
+ */
+export async function readBodyText(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new DefiMcpError(
+        `Request body is larger than ${MAX_BODY_BYTES} bytes`,
+        "PAYLOAD_TOO_LARGE",
+        { maxBytes: MAX_BODY_BYTES }
+      );
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+export function isPayloadTooLarge(err: unknown): boolean {
+  return err instanceof DefiMcpError && err.code === "PAYLOAD_TOO_LARGE";
+}
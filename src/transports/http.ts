@@ -0,0 +1,249 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { Registry } from "../core/registry.js";
+import type { TenantConfig, TransportConfig } from "../core/types.js";
+import { createMcpServer } from "../server.js";
+import { createRestGateway, OPENAPI_PATH, REST_TOOLS_PREFIX } from "./rest.js";
+import { isPayloadTooLarge, readBodyText } from "./body.js";
+
+/** Streamable HTTP endpoint (MCP spec 2025-03-26) */
+const MCP_PATH = "/mcp";
+/** Legacy HTTP+SSE endpoints (MCP spec 2024-11-05) */
+const SSE_PATH = "/sse";
+const SSE_MESSAGES_PATH = "/messages";
+
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  /** Tenant that opened the session; only it may use the session */
+  tenantId?: string;
+}
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "localhost", "::1"]);
+
+/**
+ * Serve many concurrent MCP clients over HTTP from one process.
+ *
+ * Each client session gets its own McpServer and transport, while every
+ * session shares the same Registry (and so the same chain adapters and
+ * plugin state). Clients that predate Streamable HTTP can connect to the
+ * SSE endpoints instead. With `rest` enabled the same server also hosts
+ * the REST gateway.
+ *
+ * When tenants are configured every request must carry one of their keys
+ * as `Authorization: Bearer <key>` or `X-API-Key: <key>`, and a session
+ * belongs to the tenant that opened it.
+ */
+export async function startHttpTransport(
+  registry: Registry,
+  options: TransportConfig
+): Promise<Server> {
+  const sessions = new Map<string, Session>();
+  const rest = options.rest ? createRestGateway(registry) : undefined;
+  const auth = registry.getAuth();
+
+  const findSession = (sessionId: string, tenant: TenantConfig | undefined) => {
+    const session = sessions.get(sessionId);
+    return session && session.tenantId === tenant?.id ? session : undefined;
+  };
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    await session.server.close().catch(() => {});
+  };
+
+  const handleStreamable = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    tenant: TenantConfig | undefined
+  ) => {
+    const sessionId = headerValue(req, "mcp-session-id");
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = findSession(sessionId, tenant);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        return sendJsonRpcError(res, 404, "Session not found");
+      }
+      return session.transport.handleRequest(req, res, body);
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      return sendJsonRpcError(res, 400, "Bad Request: no valid session ID provided");
+    }
+
+    const server = createMcpServer(registry, tenant);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport, tenantId: tenant?.id });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) void closeSession(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnect = async (
+    res: ServerResponse,
+    tenant: TenantConfig | undefined
+  ) => {
+    const server = createMcpServer(registry, tenant);
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sessions.set(transport.sessionId, {
+      server,
+      transport,
+      tenantId: tenant?.id,
+    });
+    transport.onclose = () => {
+      void closeSession(transport.sessionId);
+    };
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    tenant: TenantConfig | undefined
+  ) => {
+    const sessionId = url.searchParams.get("sessionId") ?? "";
+    const session = findSession(sessionId, tenant);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      return sendJsonRpcError(res, 404, "Session not found");
+    }
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createServer((req, res) => {
+    // Only the path and query are used; the Host header is client input
+    // and never parsed, so a malformed one can't throw here
+    let url: URL;
+    try {
+      url = new URL(req.url ?? "/", "http://localhost");
+    } catch {
+      return sendJsonRpcError(res, 400, "Invalid request URL");
+    }
+    const isRest =
+      !!rest &&
+      (url.pathname === OPENAPI_PATH || url.pathname.startsWith(REST_TOOLS_PREFIX));
+
+    let tenant: TenantConfig | undefined;
+    if (auth.enabled) {
+      tenant = auth.authenticate(requestKey(req));
+      if (!tenant) return sendUnauthorized(res, isRest);
+    }
+
+    let handled: Promise<void>;
+    if (url.pathname === MCP_PATH) {
+      handled = handleStreamable(req, res, tenant);
+    } else if (url.pathname === SSE_PATH && req.method === "GET") {
+      handled = handleSseConnect(res, tenant);
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+      handled = handleSseMessage(req, res, url, tenant);
+    } else if (isRest) {
+      handled = rest!(req, res, url, tenant);
+    } else {
+      res.writeHead(404).end();
+      return;
+    }
+
+    handled.catch((err) => {
+      if (isPayloadTooLarge(err)) {
+        // Stop reading the rest of the body
+        res.setHeader("connection", "close");
+        return sendJsonRpcError(res, 413, (err as Error).message);
+      }
+      console.error("defi-mcp HTTP transport error:", err);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    });
+  });
+
+  httpServer.on("close", () => {
+    for (const sessionId of [...sessions.keys()]) {
+      void closeSession(sessionId);
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  if (!auth.enabled && !LOOPBACK_HOSTS.has(options.host)) {
+    console.error(
+      `defi-mcp: listening on ${options.host} without authentication; configure auth.tenants to require API keys`
+    );
+  }
+  console.error(
+    `defi-mcp listening on http://${options.host}:${options.port}${MCP_PATH} (SSE: ${SSE_PATH})` +
+      (rest ? `, REST gateway at ${REST_TOOLS_PREFIX} (${OPENAPI_PATH})` : "")
+  );
+  return httpServer;
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** The key from `Authorization: Bearer <key>` or `X-API-Key: <key>` */
+function requestKey(req: IncomingMessage): string | undefined {
+  const bearer = /^Bearer\s+(.+)$/i.exec(headerValue(req, "authorization") ?? "");
+  return bearer?.[1].trim() ?? headerValue(req, "x-api-key");
+}
+
+function sendUnauthorized(res: ServerResponse, rest: boolean): void {
+  const message = "Missing or unknown API key";
+  res.writeHead(401, {
+    "content-type": "application/json",
+    "www-authenticate": 'Bearer realm="defi-mcp"',
+  });
+  res.end(
+    JSON.stringify(
+      rest
+        ? { error: { code: "UNAUTHORIZED", message, retryable: false } }
+        : { jsonrpc: "2.0", error: { code: -32001, message }, id: null }
+    )
+  );
+}
+
+/** The JSON body of an MCP request; larger than MAX_BODY_BYTES is rejected with a 413 */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const raw = await readBodyText(req);
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  message: string
+): void {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    })
+  );
+}
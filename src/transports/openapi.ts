@@ -0,0 +1,103 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { Registry } from "../core/registry.js";
+import type { TenantConfig } from "../core/types.js";
+import { getExposedTools } from "../tools/register.js";
+import { getToolCapabilities } from "../tools/profiles.js";
+import { SERVER_VERSION } from "../server.js";
+
+const ERROR_RESPONSE = { $ref: "#/components/schemas/ErrorResponse" };
+
+/**
+ * OpenAPI 3.0 document for the REST gateway, generated from the tools the
+ * configured profile exposes to the tenant: one POST operation per tool,
+ * with the request body schema taken from its zod inputSchema.
+ */
+export function buildOpenApiDocument(
+  registry: Registry,
+  tenant?: TenantConfig
+): Record<string, unknown> {
+  const toolsets = new Map<string, string>();
+  for (const plugin of registry.getPlugins()) {
+    for (const tool of plugin.getTools()) toolsets.set(tool.name, plugin.name);
+  }
+
+  const paths: Record<string, unknown> = {};
+  for (const tool of getExposedTools(registry, tenant)) {
+    paths[`/tools/${tool.name}`] = {
+      post: {
+        operationId: tool.name,
+        summary: firstSentence(tool.description),
+        description: tool.description,
+        tags: [toolsets.get(tool.name) ?? "builtin"],
+        "x-capabilities": getToolCapabilities(tool),
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: jsonSchema(tool.inputSchema) } },
+        },
+        responses: {
+          "200": {
+            description: "Tool result",
+            content: {
+              "application/json": {
+                schema: tool.outputSchema ? jsonSchema(tool.outputSchema) : {},
+              },
+            },
+          },
+          "400": {
+            description: "Invalid input",
+            content: { "application/json": { schema: ERROR_RESPONSE } },
+          },
+          default: {
+            description: "Tool error",
+            content: { "application/json": { schema: ERROR_RESPONSE } },
+          },
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "defi-mcp REST gateway",
+      version: SERVER_VERSION,
+      description:
+        "Every DeFi MCP tool as a JSON endpoint. Transaction tools return unsigned transactions; nothing is signed by the server.",
+    },
+    paths,
+    components: {
+      schemas: {
+        ErrorResponse: {
+          type: "object",
+          required: ["error"],
+          properties: {
+            error: {
+              type: "object",
+              required: ["code", "message", "retryable"],
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                retryable: { type: "boolean" },
+                details: { type: "object", additionalProperties: true },
+                suggestedTool: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
+
+function jsonSchema(schema: Parameters<typeof zodToJsonSchema>[0]): unknown {
+  const { $schema: _, ...rest } = zodToJsonSchema(schema, {
+    target: "openApi3",
+    $refStrategy: "none",
+  }) as Record<string, unknown>;
+  return rest;
+}
+
+function firstSentence(text: string): string {
+  const match = /^.*?[.!?](\s|$)/.exec(text);
+  return (match ? match[0] : text).trim();
+}
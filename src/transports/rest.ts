@@ -0,0 +1,173 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Registry } from "../core/registry.js";
+import { DefiMcpError, errorResult, getErrorCode } from "../core/errors.js";
+import type {
+  TenantConfig,
+  ToolDefinition,
+  ToolResult,
+} from "../core/types.js";
+import { executeTool, getExposedTools } from "../tools/register.js";
+import { buildOpenApiDocument } from "./openapi.js";
+import { isPayloadTooLarge, readBodyText } from "./body.js";
+
+export const REST_TOOLS_PREFIX = "/tools/";
+export const OPENAPI_PATH = "/openapi.json";
+
+/** HTTP status for an ErrorEnvelope code; anything else is a 500 */
+const STATUS_BY_CODE: Record<string, number> = {
+  INVALID_INPUT: 400,
+  INVALID_ADDRESS: 400,
+  INVALID_AMOUNT: 400,
+  CHAIN_NOT_SUPPORTED: 400,
+  CHAIN_NOT_SUPPORTED_FOR_TOOL: 400,
+  TOOL_NOT_FOUND: 404,
+  TOKEN_NOT_FOUND: 404,
+  TOOL_NOT_ALLOWED: 403,
+  PAYLOAD_TOO_LARGE: 413,
+  TX_POLICY_VIOLATION: 403,
+  INSUFFICIENT_LIQUIDITY: 422,
+  QUOTA_EXCEEDED: 429,
+  AGGREGATOR_ERROR: 502,
+  UPSTREAM_RATE_LIMITED: 503,
+  HTTP_TIMEOUT: 504,
+  RPC_TIMEOUT: 504,
+};
+
+/**
+ * REST gateway for services that aren't MCP clients. Every exposed tool
+ * is served as `POST /tools/{name}` taking the tool input as a JSON body,
+ * and `GET /openapi.json` describes them all. Calls go through
+ * executeTool, so they get the same transaction policy, audit log, tenant
+ * limits and error envelopes as MCP calls. A tenant only sees the tools
+ * on its allowlist.
+ */
+export function createRestGateway(
+  registry: Registry
+): (
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  tenant: TenantConfig | undefined
+) => Promise<void> {
+  // Built once per tenant; "" is the unauthenticated deployment
+  const toolsByTenant = new Map<string, Map<string, ToolDefinition>>();
+  const openApiByTenant = new Map<string, string>();
+
+  return async (req, res, url, tenant) => {
+    const key = tenant?.id ?? "";
+    if (url.pathname === OPENAPI_PATH) {
+      if (req.method !== "GET") return sendMethodNotAllowed(res, "GET");
+      let openApi = openApiByTenant.get(key);
+      if (!openApi) {
+        openApi = JSON.stringify(buildOpenApiDocument(registry, tenant), null, 2);
+        openApiByTenant.set(key, openApi);
+      }
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(openApi);
+      return;
+    }
+
+    if (req.method !== "POST") return sendMethodNotAllowed(res, "POST");
+    let tools = toolsByTenant.get(key);
+    if (!tools) {
+      tools = new Map(getExposedTools(registry, tenant).map((t) => [t.name, t]));
+      toolsByTenant.set(key, tools);
+    }
+    const name = decodeToolName(url.pathname.slice(REST_TOOLS_PREFIX.length));
+    const tool = tools.get(name);
+    if (!tool) {
+      return sendResult(
+        res,
+        errorResult(
+          new DefiMcpError(`Tool "${name}" not found`, "TOOL_NOT_FOUND", { name }, {
+            suggestedTool: "defi_search_tools",
+          })
+        )
+      );
+    }
+
+    let input: unknown;
+    try {
+      input = await readBody(req);
+    } catch (err) {
+      return sendResult(
+        res,
+        errorResult(isPayloadTooLarge(err) ? err : invalidInput((err as Error).message))
+      );
+    }
+    const parsed = await tool.inputSchema.safeParseAsync(input);
+    if (!parsed.success) {
+      return sendResult(
+        res,
+        errorResult(
+          invalidInput(`Invalid input for ${name}`, {
+            issues: parsed.error.issues.map((i) => ({
+              path: i.path.join("."),
+              message: i.message,
+            })),
+          })
+        )
+      );
+    }
+
+    // A client that disconnects cancels the call
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    const result = await executeTool(registry, tool, parsed.data, {
+      tenant,
+      signal: controller.signal,
+    });
+    if (!res.destroyed) sendResult(res, result);
+  };
+}
+
+/** A malformed escape such as `%E0%A4%A` can't name a tool, so it's kept as is and not found */
+function decodeToolName(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function sendResult(res: ServerResponse, result: ToolResult): void {
+  const text = result.content.map((c) => c.text).join("\n");
+  const status = result.isError
+    ? STATUS_BY_CODE[getErrorCode(result) ?? ""] ?? 500
+    : 200;
+  // Tool results are JSON text; the odd plain-text result is sent as is
+  let json = true;
+  try {
+    JSON.parse(text);
+  } catch {
+    json = false;
+  }
+  res.writeHead(status, {
+    "content-type": json ? "application/json" : "text/plain; charset=utf-8",
+  });
+  res.end(text);
+}
+
+function sendMethodNotAllowed(res: ServerResponse, allow: string): void {
+  res.writeHead(405, { allow }).end();
+}
+
+function invalidInput(
+  message: string,
+  details?: Record<string, unknown>
+): DefiMcpError {
+  return new DefiMcpError(message, "INVALID_INPUT", details);
+}
+
+/** The JSON request body; an empty body is an empty input object */
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const raw = await readBodyText(req);
+  if (!raw.trim()) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error("Request body is not valid JSON");
+  }
+}
@@ -0,0 +1,10 @@
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { Registry } from "../core/registry.js";
+import { createMcpServer } from "../server.js";
+
+/** Serve a single client over stdin/stdout */
+export async function startStdioTransport(registry: Registry): Promise<void> {
+  const server = createMcpServer(registry);
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+}
@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Decimal } from "../src/core/amount.js";
+import { InvalidAmountError } from "../src/core/errors.js";
+import {
+  formatTokenAmount,
+  formatUsd,
+  parseTokenAmount,
+} from "../src/core/utils.js";
+
+describe("Decimal", () => {
+  it("parses plain and scientific notation", () => {
+    assert.equal(Decimal.from("1.50").toString(), "1.5");
+    assert.equal(Decimal.from(".25").toString(), "0.25");
+    assert.equal(Decimal.from("2.5E+3").toString(), "2500");
+    assert.equal(Decimal.from("1e-6").toString(), "0.000001");
+    assert.equal(Decimal.from(0.1).toString(), "0.1");
+    assert.equal(Decimal.from(-42n).toString(), "-42");
+  });
+
+  it("rejects anything that isn't a decimal number", () => {
+    for (const value of ["", ".", "abc", "1.2.3", "0x10", "1e99999"]) {
+      assert.throws(() => Decimal.from(value), InvalidAmountError, value);
+    }
+    assert.throws(() => Decimal.from(Number.NaN), InvalidAmountError);
+    assert.equal(Decimal.tryFrom("abc"), undefined);
+    assert.equal(Decimal.tryFrom({}), undefined);
+  });
+
+  it("keeps every digit of large 18-decimal amounts", () => {
+    const raw = "123456789012345678901234567890";
+    const amount = Decimal.fromUnits(raw, 18);
+    assert.equal(amount.toString(), "123456789012.34567890123456789");
+    assert.equal(amount.toUnits(18), BigInt(raw));
+    assert.equal(Decimal.from("0.1").plus("0.2").toString(), "0.3");
+  });
+
+  it("rounds only when told how", () => {
+    assert.throws(() => Decimal.from("1.2345").toUnits(2), InvalidAmountError);
+    assert.equal(Decimal.from("1.2345").toUnits(2, "down"), 123n);
+    assert.equal(Decimal.from("1.2345").toUnits(2, "up"), 124n);
+    assert.equal(Decimal.from("-1.5").round(0, "floor").toString(), "-2");
+    assert.equal(Decimal.from("-1.5").round(0, "ceil").toString(), "-1");
+    assert.equal(Decimal.from("2.5").round(0, "half-up").toString(), "3");
+    assert.equal(Decimal.from("2.5").round(0, "half-even").toString(), "2");
+    assert.equal(Decimal.from("3.5").round(0, "half-even").toString(), "4");
+  });
+
+  it("divides to a fixed number of places", () => {
+    assert.equal(Decimal.from(1).div(3, 4, "half-up").toString(), "0.3333");
+    assert.equal(Decimal.from(2).div(3, 4, "half-up").toString(), "0.6667");
+    assert.equal(Decimal.from("10").div("4", 0, "half-even").toString(), "2");
+  });
+
+  it("compares and formats", () => {
+    assert.ok(Decimal.from("1.10").eq("1.1"));
+    assert.ok(Decimal.from("0.99").lt(1));
+    assert.equal(Decimal.from("1234.5").toFixed(2), "1234.50");
+    assert.equal(Decimal.from("-0.005").toFixed(2), "-0.01");
+    assert.equal(JSON.stringify({ amount: Decimal.from("1.50") }), '{"amount":"1.5"}');
+  });
+});
+
+describe("parseTokenAmount", () => {
+  it("converts to base units", () => {
+    assert.equal(parseTokenAmount("1.5", 6), "1500000");
+    assert.equal(parseTokenAmount("1", 18), "1000000000000000000");
+    assert.equal(parseTokenAmount("0.000000000000000001", 18), "1");
+  });
+
+  it("rejects negative amounts and extra decimals", () => {
+    assert.throws(() => parseTokenAmount("-1", 18), /must not be negative/);
+    assert.throws(() => parseTokenAmount("1.0000001", 6), /more than 6 decimal places/);
+    assert.throws(() => parseTokenAmount("max", 18), InvalidAmountError);
+  });
+
+  it("drops extra decimals with a rounding mode", () => {
+    assert.equal(parseTokenAmount("1.0000009", 6, "down"), "1000000");
+    assert.equal(parseTokenAmount("1.0000009", 6, "half-up"), "1000001");
+  });
+
+  it("round-trips through formatTokenAmount", () => {
+    assert.equal(formatTokenAmount(parseTokenAmount("42.125", 6), 6), "42.125");
+  });
+});
+
+describe("formatUsd", () => {
+  it("groups thousands and rounds to cents", () => {
+    assert.equal(formatUsd(1234567.891), "$1,234,567.89");
+    assert.equal(formatUsd(Decimal.from("0.005")), "$0.01");
+  });
+});
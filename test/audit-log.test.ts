@@ -0,0 +1,124 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+import { AuditLog, type AuditEntry } from "../src/audit/audit-log.js";
+import type { DefiPlugin, TenantConfig, ToolResult } from "../src/core/types.js";
+import { createTestHarness, expectJson } from "../src/testing/index.js";
+
+const OK: ToolResult = { content: [{ type: "text", text: "{}" }] };
+const dirs: string[] = [];
+
+function auditPath(): string {
+  const dir = mkdtempSync(join(tmpdir(), "defi-mcp-audit-"));
+  dirs.push(dir);
+  return join(dir, "audit.jsonl");
+}
+
+/** A plugin whose tool returns an unsigned transfer to `to` */
+const transferPlugin: DefiPlugin = {
+  name: "test-transfer",
+  description: "Builds transfers",
+  version: "1.0.0",
+  async initialize() {},
+  getTools: () => [
+    {
+      name: "defi_test_transfer_tx",
+      description: "Build a transfer",
+      capabilities: ["builds-tx"],
+      inputSchema: z.object({ to: z.string(), apiKey: z.string().optional() }),
+      handler: async ({ to }) => ({
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              transaction: {
+                chainId: "base",
+                ecosystem: "evm",
+                raw: { to, value: "0x1", data: "0x" },
+                description: `Send 1 wei to ${to}`,
+              },
+            }),
+          },
+        ],
+      }),
+    },
+  ],
+};
+
+describe("AuditLog", () => {
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("rotates files past the size limit and keeps maxFiles of them", async () => {
+    const path = auditPath();
+    const log = new AuditLog({ path, maxFileBytes: 400, maxFiles: 2 });
+    for (let i = 0; i < 12; i++) {
+      await log.record("defi_test", { i }, OK, 1);
+    }
+    assert.ok(existsSync(`${path}.1`));
+    assert.ok(existsSync(`${path}.2`));
+    assert.ok(!existsSync(`${path}.3`));
+    for (const file of [path, `${path}.1`, `${path}.2`]) {
+      assert.ok(readFileSync(file).length <= 400);
+    }
+
+    // Newest first, across the current and rotated files
+    const entries = await log.query({ limit: 100 });
+    const order = entries.map((e) => (e.input as { i: number }).i);
+    assert.equal(order[0], 11);
+    assert.deepEqual(order, [...order].sort((a, b) => b - a));
+    assert.ok(order.length < 12);
+  });
+
+  it("redacts secrets and shortens long values", async () => {
+    const log = new AuditLog({ path: auditPath(), maxFileBytes: 1_000_000, maxFiles: 1 });
+    const input = { apiKey: "sk-live", nested: { privateKey: "0xabc" }, data: "f".repeat(600) };
+    await log.record("defi_test", input, OK, 1);
+    const logged = (await log.query())[0].input as Record<string, unknown>;
+    assert.equal(logged.apiKey, "[redacted]");
+    assert.deepEqual(logged.nested, { privateKey: "[redacted]" });
+    assert.match(String(logged.data), /\.\.\. \(600 chars\)$/);
+  });
+});
+
+describe("tool call auditing", () => {
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("records each call with a transaction hash, queryable per tenant", async () => {
+    const alice: TenantConfig = { id: "alice", keys: ["alice-key-5d1e8c0f2a"] };
+    const bob: TenantConfig = { id: "bob", keys: ["bob-key-93b7a4e6c1"] };
+    const harness = await createTestHarness({
+      plugins: [transferPlugin],
+      config: {
+        audit: { path: auditPath(), maxFileBytes: 1_000_000, maxFiles: 1 },
+        auth: { tenants: [alice, bob], serverKeyFallback: true },
+      },
+    });
+    const to = "0x2222222222222222222222222222222222222222";
+    await harness.callTool("defi_test_transfer_tx", { to }, { tenant: alice });
+    await harness.callTool("defi_test_transfer_tx", { to }, { tenant: alice });
+    await harness.callTool("defi_test_transfer_tx", { to, apiKey: "bob-secret" }, { tenant: bob });
+
+    const { entries } = expectJson<{ entries: AuditEntry[] }>(
+      await harness.callTool("defi_audit_query", { tool: "defi_test_transfer_tx" }, { tenant: alice })
+    );
+    assert.equal(entries.length, 2);
+    assert.ok(entries.every((e) => e.tenant === "alice" && e.status === "ok"));
+    const [first, second] = entries.map((e) => e.transactions![0]);
+    assert.match(first.hash, /^[0-9a-f]{64}$/);
+    assert.equal(first.hash, second.hash);
+    assert.equal(first.description, `Send 1 wei to ${to}`);
+
+    const bobs = expectJson<{ entries: AuditEntry[] }>(
+      await harness.callTool("defi_audit_query", { inputContains: to }, { tenant: bob })
+    ).entries;
+    assert.deepEqual(bobs.map((e) => (e.input as { apiKey: string }).apiKey), ["[redacted]"]);
+    await harness.shutdown();
+  });
+});
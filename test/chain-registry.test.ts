@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadConfig } from "../src/config.js";
+import { getEvmChainId, getEvmChainIds, registerChain } from "../src/chains/registry.js";
+import { createTestHarness, expectJson } from "../src/testing/index.js";
+
+const LINEA = {
+  name: "Linea",
+  chainId: 59144,
+  nativeToken: { symbol: "ETH", name: "Ether" },
+  rpcUrls: ["https://rpc.linea.build", "https://linea.drpc.org"],
+  explorerUrl: "https://lineascan.build",
+};
+
+/** loadConfig with a config file holding `file` */
+function load(file: unknown) {
+  const dir = mkdtempSync(join(tmpdir(), "defi-mcp-chains-"));
+  const path = join(dir, "defi-mcp.config.json");
+  writeFileSync(path, JSON.stringify(file));
+  process.env.DEFI_MCP_CONFIG = path;
+  try {
+    return loadConfig();
+  } finally {
+    delete process.env.DEFI_MCP_CONFIG;
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe("EVM chains from config", () => {
+  it("adds the chain, its RPCs and its chain ID mapping", async () => {
+    const config = load({ evmChains: { linea: LINEA } });
+    assert.deepEqual(config.rpcUrls.linea, LINEA.rpcUrls);
+    assert.equal(config.evmChains[0].nativeToken.decimals, 18);
+
+    const harness = await createTestHarness({ config: { evmChains: config.evmChains } });
+    const chains = expectJson<{ id: string; nativeToken: string }[]>(
+      await harness.callTool("defi_get_chains", {})
+    );
+    assert.deepEqual(
+      chains.find((c) => c.id === "linea"),
+      {
+        id: "linea",
+        name: "Linea",
+        ecosystem: "evm",
+        nativeToken: "ETH",
+        explorer: "https://lineascan.build",
+      }
+    );
+    assert.equal(getEvmChainId("linea"), 59144);
+    assert.ok(getEvmChainIds().includes("linea"));
+    await harness.shutdown();
+  });
+
+  it("rejects chains reusing a known chain ID", () => {
+    const [chain] = load({ evmChains: { "base-copy": { ...LINEA, chainId: 8453 } } }).evmChains;
+    assert.throws(() => registerChain(chain), /same chain ID \(8453\) as "base"/);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+
+interface CliRun {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/** Run the CLI from source, with network I/O in replay mode */
+function cli(...args: string[]): Promise<CliRun> {
+  return new Promise((resolve) => {
+    execFile(
+      process.execPath,
+      ["--import", "tsx", "src/cli/index.ts", ...args],
+      {
+        env: { ...process.env, DEFI_MCP_NETWORK_MODE: "replay" },
+        timeout: 60_000,
+      },
+      (err, stdout, stderr) =>
+        resolve({ code: err ? Number(err.code ?? 1) : 0, stdout, stderr })
+    );
+  });
+}
+
+describe("defi-mcp-cli", () => {
+  it("lists tools with their toolsets", async () => {
+    const { code, stdout } = await cli("list-tools");
+    assert.equal(code, 0);
+    const tools = JSON.parse(stdout) as { name: string; toolset: string }[];
+    assert.equal(tools.find((t) => t.name === "defi_get_chains")?.toolset, "builtin");
+    assert.equal(tools.find((t) => t.name === "defi_wallet_scan")?.toolset, "wallet-intelligence");
+  });
+
+  it("calls a tool and prints a table", async () => {
+    const { code, stdout } = await cli("call", "defi_get_chains", "--output", "table");
+    assert.equal(code, 0);
+    const [header, rule, first] = stdout.split("\n");
+    assert.match(header, /^id\s+name\s+ecosystem\s+nativeToken\s+explorer$/);
+    assert.match(rule, /^-+ +-+/);
+    assert.match(first, /^ethereum\s+Ethereum\s+evm\s+ETH/);
+  });
+
+  it("exits 2 on invalid input and 1 when the tool fails", async () => {
+    const invalid = await cli("call", "defi_describe_tool", "--input", '{"name":1}');
+    assert.equal(invalid.code, 2);
+    assert.match(invalid.stderr, /^defi-mcp-cli: Invalid input for defi_describe_tool:\n {2}name: Expected string/);
+
+    const failed = await cli("call", "defi_describe_tool", "--input", '{"name":"defi_nope"}');
+    assert.equal(failed.code, 1);
+    assert.equal(JSON.parse(failed.stderr).error.code, "TOOL_NOT_FOUND");
+  });
+});
@@ -0,0 +1,67 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadConfig } from "../src/config.js";
+
+const ENV_NAMES = [
+  "DEFI_MCP_CONFIG",
+  "DEFI_MCP_HTTP_PORT",
+  "DEFI_MCP_TOOL_LOADING",
+  "DEFI_MCP_REST",
+  "DEFI_MCP_TRANSPORT",
+];
+
+/** Run loadConfig with `env` set and a config file holding `file` */
+function load(env: Record<string, string>, file: unknown = {}) {
+  const dir = mkdtempSync(join(tmpdir(), "defi-mcp-config-"));
+  const path = join(dir, "defi-mcp.config.json");
+  writeFileSync(path, JSON.stringify(file));
+  Object.assign(process.env, { DEFI_MCP_CONFIG: path, ...env });
+  try {
+    return loadConfig();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe("loadConfig", () => {
+  afterEach(() => {
+    for (const name of ENV_NAMES) delete process.env[name];
+  });
+
+  it("lets environment variables override the file", () => {
+    const config = load(
+      { DEFI_MCP_HTTP_PORT: "8080", DEFI_MCP_REST: "true", DEFI_MCP_TOOL_LOADING: "lazy" },
+      { transport: { type: "http", port: 3001 } }
+    );
+    assert.deepEqual(config.transport, {
+      type: "http",
+      host: "127.0.0.1",
+      port: 8080,
+      rest: true,
+    });
+    assert.equal(config.toolLoading.mode, "lazy");
+  });
+
+  it("rejects invalid config file fields", () => {
+    assert.throws(
+      () => load({}, { transport: { port: "3000" } }),
+      /Invalid config file .*: transport\.port: Expected number, received string/
+    );
+    assert.throws(() => load({}, { transport: { tls: true } }), /Unrecognized key.*tls/);
+  });
+
+  it("rejects invalid environment variables, naming them", () => {
+    assert.throws(
+      () => load({ DEFI_MCP_HTTP_PORT: "abc" }),
+      /Invalid environment variables: DEFI_MCP_HTTP_PORT: Expected number, received nan/
+    );
+    assert.throws(
+      () => load({ DEFI_MCP_TOOL_LOADING: "sometimes" }),
+      /DEFI_MCP_TOOL_LOADING: Invalid enum value/
+    );
+    assert.throws(() => load({ DEFI_MCP_REST: "yes" }), /DEFI_MCP_REST: Expected boolean/);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { DefiPlugin } from "../src/core/types.js";
+import { createTestHarness, expectJson, expectToolError } from "../src/testing/index.js";
+
+/** A plugin named `name` whose tools are described by `tools` */
+function plugin(name: string, tags: string[], tools: Record<string, string>): DefiPlugin {
+  return {
+    name,
+    description: name,
+    version: "1.0.0",
+    metadata: { tags },
+    async initialize() {},
+    getTools: () =>
+      Object.entries(tools).map(([toolName, description]) => ({
+        name: toolName,
+        description,
+        capabilities: ["read"],
+        inputSchema: z.object({ chainId: z.string().describe("Chain ID") }),
+        handler: async () => ({ content: [{ type: "text" as const, text: "{}" }] }),
+      })),
+  };
+}
+
+const PLUGINS = [
+  plugin("test-prices", ["market-data"], {
+    defi_test_price: "Get a token's USD price. Uses an oracle.",
+  }),
+  plugin("test-lending", ["lending"], {
+    defi_test_borrow_rate: "Get the borrow rate of a lending market.",
+    defi_test_supply_rate: "Get the supply rate of a lending market.",
+  }),
+];
+
+describe("tool discovery", () => {
+  it("searches names, descriptions and tags", async () => {
+    const harness = await createTestHarness({ plugins: PLUGINS });
+    const { results } = expectJson<{ results: { name: string; description: string }[] }>(
+      await harness.callTool("defi_search_tools", { query: "borrow lending" })
+    );
+    assert.deepEqual(
+      results.map((r) => r.name),
+      ["defi_test_borrow_rate", "defi_test_supply_rate"]
+    );
+    const price = expectJson<{ results: { description: string }[] }>(
+      await harness.callTool("defi_search_tools", { query: "price" })
+    );
+    assert.equal(price.results[0].description, "Get a token's USD price.");
+    await harness.shutdown();
+  });
+
+  it("describes a tool with its input schema", async () => {
+    const harness = await createTestHarness({ plugins: PLUGINS });
+    const described = expectJson<{ toolset: string; inputSchema: { required: string[] } }>(
+      await harness.callTool("defi_describe_tool", { name: "defi_test_price" })
+    );
+    assert.equal(described.toolset, "test-prices");
+    assert.deepEqual(described.inputSchema.required, ["chainId"]);
+    expectToolError(
+      await harness.callTool("defi_describe_tool", { name: "defi_test_nope" }),
+      "TOOL_NOT_FOUND"
+    );
+    await harness.shutdown();
+  });
+
+  it("advertises only core toolsets in lazy mode until more are enabled", async () => {
+    const harness = await createTestHarness({
+      plugins: PLUGINS,
+      config: { toolLoading: { mode: "lazy", coreToolsets: ["test-prices"] } },
+    });
+    const client = await harness.connect();
+    const listed = async () =>
+      (await client.listTools()).tools.map((t) => t.name).filter((n) => n.startsWith("defi_test_"));
+    assert.deepEqual(await listed(), ["defi_test_price"]);
+
+    const changed = new Promise<void>((resolve) =>
+      client.setNotificationHandler(ToolListChangedNotificationSchema, () => resolve())
+    );
+    await client.callTool({ name: "defi_enable_toolsets", arguments: { toolsets: ["test-lending"] } });
+    await changed;
+    assert.deepEqual(await listed(), [
+      "defi_test_price",
+      "defi_test_borrow_rate",
+      "defi_test_supply_rate",
+    ]);
+    await harness.shutdown();
+  });
+});
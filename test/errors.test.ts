@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import {
+  ChainNotSupportedError,
+  DefiMcpError,
+  errorResult,
+  getErrorCode,
+  toDefiMcpError,
+  type ErrorEnvelope,
+} from "../src/core/errors.js";
+import type { DefiPlugin } from "../src/core/types.js";
+import { createTestHarness } from "../src/testing/index.js";
+
+function named(name: string, message: string, cause?: unknown): Error {
+  return Object.assign(new Error(message, { cause }), { name });
+}
+
+describe("toDefiMcpError", () => {
+  it("unwraps typed errors that a client library wrapped", () => {
+    const typed = new ChainNotSupportedError("fantom");
+    const wrapped = new Error("HTTP request failed", { cause: typed });
+    assert.equal(toDefiMcpError(wrapped), typed);
+  });
+
+  it("classifies rate limits, timeouts and aborts", () => {
+    assert.equal(toDefiMcpError(new Error("429 Too Many Requests")).code, "UPSTREAM_RATE_LIMITED");
+    const timeout = toDefiMcpError(
+      new Error("call failed", { cause: named("TimeoutError", "took too long") })
+    );
+    assert.equal(timeout.code, "RPC_TIMEOUT");
+    assert.equal(timeout.retryable, true);
+    assert.equal(toDefiMcpError(named("AbortError", "aborted")).code, "CANCELLED");
+    assert.equal(toDefiMcpError("boom").code, "TOOL_ERROR");
+  });
+});
+
+describe("errorResult", () => {
+  it("carries the envelope as JSON with an optional context prefix", () => {
+    const result = errorResult(new ChainNotSupportedError("fantom"), "Quote failed");
+    assert.equal(result.isError, true);
+    assert.equal(getErrorCode(result), "CHAIN_NOT_SUPPORTED");
+    const { error } = JSON.parse(result.content[0].text) as { error: ErrorEnvelope };
+    assert.deepEqual(error, {
+      code: "CHAIN_NOT_SUPPORTED",
+      message: 'Quote failed: Chain "fantom" is not supported',
+      retryable: false,
+      details: { chainId: "fantom" },
+      suggestedTool: "defi_get_chains",
+    });
+  });
+
+  it("gives plain-text and thrown plugin errors the same envelope", async () => {
+    const plugin: DefiPlugin = {
+      name: "test-errors",
+      description: "Fails in different ways",
+      version: "1.0.0",
+      async initialize() {},
+      getTools: () => [
+        {
+          name: "defi_test_fail",
+          description: "Fail",
+          capabilities: ["read"],
+          inputSchema: z.object({ mode: z.enum(["text", "throw"]) }),
+          handler: async ({ mode }) => {
+            if (mode === "throw") {
+              throw new DefiMcpError("Pool is paused", "POOL_PAUSED", undefined, {
+                retryable: true,
+              });
+            }
+            return { content: [{ type: "text", text: "Pool is paused" }], isError: true };
+          },
+        },
+      ],
+    };
+    const harness = await createTestHarness({ plugins: [plugin] });
+    const text = await harness.callTool("defi_test_fail", { mode: "text" });
+    const thrown = await harness.callTool("defi_test_fail", { mode: "throw" });
+    assert.equal(text.isError, true);
+    assert.deepEqual(JSON.parse(text.content[0].text), {
+      error: { code: "TOOL_ERROR", message: "Pool is paused", retryable: false },
+    });
+    assert.deepEqual(JSON.parse(thrown.content[0].text), {
+      error: { code: "POOL_PAUSED", message: "Pool is paused", retryable: true },
+    });
+    await harness.shutdown();
+  });
+});
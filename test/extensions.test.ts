@@ -0,0 +1,84 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Registry } from "../src/core/registry.js";
+import { loadExtension, loadExtensions } from "../src/plugins/external.js";
+import { testConfig } from "../src/testing/index.js";
+
+const dirs: string[] = [];
+
+/** Write an extension package whose index.mjs default-exports `source` */
+function extensionDir(source: string, manifest: unknown = { apiVersion: "^1.0.0" }): string {
+  const dir = mkdtempSync(join(tmpdir(), "defi-mcp-extension-"));
+  dirs.push(dir);
+  writeFileSync(
+    join(dir, "package.json"),
+    JSON.stringify({ name: "defi-mcp-test-ext", version: "2.1.0", main: "index.mjs", defiMcp: manifest })
+  );
+  writeFileSync(join(dir, "index.mjs"), `export default ${source};\n`);
+  return dir;
+}
+
+/** A plugin with one tool named `toolName`, as extension source */
+function pluginSource(toolName: string): string {
+  return `{
+    name: "test-ext",
+    description: "Extension plugin",
+    version: "2.1.0",
+    async initialize() {},
+    getTools: () => [{ name: "${toolName}", description: "", capabilities: ["read"], handler: async () => ({ content: [] }) }],
+  }`;
+}
+
+describe("extension loading", () => {
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads the components a package exports, built from the config", async () => {
+    const dir = extensionDir(
+      `(config) => ({ plugins: [{ ...${pluginSource("defi_ext_tool")}, description: config.transport.type }] })`
+    );
+    const extension = await loadExtension(dir, testConfig());
+    assert.equal(extension.name, "defi-mcp-test-ext");
+    assert.equal(extension.version, "2.1.0");
+    assert.equal(extension.components.plugins?.[0].description, "stdio");
+  });
+
+  it("rejects extensions built for another plugin API", async () => {
+    await assert.rejects(
+      loadExtension(extensionDir("{}", { apiVersion: "^2.0.0" }), testConfig()),
+      /requires plugin API \^2\.0\.0/
+    );
+    await assert.rejects(
+      loadExtension(extensionDir("{}", {}), testConfig()),
+      /must declare a semver range/
+    );
+  });
+
+  it("rejects malformed components and duplicate packages", async () => {
+    await assert.rejects(
+      loadExtension(extensionDir(`{ scanners: [{ protocolName: "x" }] }`), testConfig()),
+      /scanners\[0\] is missing supportedChains, scanPositions/
+    );
+    const dir = extensionDir("{}");
+    await assert.rejects(
+      loadExtensions([dir, dir], testConfig()),
+      /configured more than once/
+    );
+  });
+
+  it("applies the registry's tool name checks to extension plugins", async () => {
+    const extension = await loadExtension(
+      extensionDir(`{ plugins: [${pluginSource("ext_tool")}] }`),
+      testConfig()
+    );
+    const registry = new Registry(testConfig());
+    await assert.rejects(
+      registry.registerPlugin(extension.components.plugins![0]),
+      /must start with "defi_" prefix/
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import type { DefiPlugin, TenantConfig } from "../src/core/types.js";
+import {
+  createTestHarness,
+  expectJson,
+  expectToolError,
+} from "../src/testing/index.js";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+
+/** A plugin whose one tool echoes its input */
+const echoPlugin: DefiPlugin = {
+  name: "test-echo",
+  description: "Echoes tool input",
+  version: "1.0.0",
+  async initialize() {},
+  getTools: () => [
+    {
+      name: "defi_test_echo",
+      description: "Echo the input",
+      capabilities: ["read"],
+      inputSchema: z.object({
+        chainId: z.string(),
+        userAddress: z.string(),
+        amount: z.string().regex(/^\d+$/),
+      }),
+      handler: async (input) => ({
+        content: [{ type: "text", text: JSON.stringify(input) }],
+      }),
+    },
+  ],
+};
+
+describe("TestHarness.callTool", () => {
+  it("fills omitted fields from the session like an MCP call", async () => {
+    const harness = await createTestHarness({ plugins: [echoPlugin] });
+    expectJson(
+      await harness.callTool("defi_set_context", { wallets: [WALLET], chainId: "base" })
+    );
+    assert.deepEqual(expectJson(await harness.callTool("defi_test_echo", { amount: "1" })), {
+      chainId: "base",
+      userAddress: WALLET,
+      amount: "1",
+    });
+    await harness.shutdown();
+  });
+
+  it("returns an INVALID_INPUT envelope for bad arguments", async () => {
+    const harness = await createTestHarness({ plugins: [echoPlugin] });
+    const result = await harness.callTool("defi_test_echo", {
+      chainId: "base",
+      userAddress: WALLET,
+      amount: "one",
+    });
+    expectToolError(result, "INVALID_INPUT");
+    const missing = await harness.callTool("defi_test_echo", { amount: "1" });
+    expectToolError(missing, "defi_test_echo needs chainId, userAddress");
+    await harness.shutdown();
+  });
+
+  it("applies tenant quotas and counts calls for defi_server_status", async () => {
+    const tenant: TenantConfig = { id: "t", keys: ["t-key-0123456789abcdef"], callsPerMinute: 1 };
+    const harness = await createTestHarness({
+      plugins: [echoPlugin],
+      config: { auth: { tenants: [tenant], serverKeyFallback: true } },
+    });
+    const input = { chainId: "base", userAddress: WALLET, amount: "1" };
+    expectJson(await harness.callTool("defi_test_echo", input, { tenant }));
+    expectToolError(await harness.callTool("defi_test_echo", input, { tenant }), "QUOTA_EXCEEDED");
+    const stats = harness.registry.getToolStats().getStats(tenant.id);
+    assert.deepEqual(
+      stats.map((s) => [s.tool, s.calls, s.errors]),
+      [["defi_test_echo", 2, 1]]
+    );
+    await harness.shutdown();
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { HttpClient } from "../src/core/http-client.js";
+import { HttpTimeoutError } from "../src/core/errors.js";
+
+const URL_A = "https://api.example.com/prices";
+
+/** A fetch that answers with `respond` after `delayMs`, counting calls */
+function fakeFetch(respond: (call: number) => Response, delayMs = 0) {
+  const calls: RequestInit[] = [];
+  const fetchFn = async (_input: string | URL | Request, init: RequestInit = {}) => {
+    calls.push(init);
+    const call = calls.length;
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, delayMs);
+      init.signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(init.signal?.reason);
+      });
+    });
+    return respond(call);
+  };
+  return { fetchFn, calls };
+}
+
+function client(
+  fetchFn: ReturnType<typeof fakeFetch>["fetchFn"],
+  policy: Record<string, number> = {}
+): HttpClient {
+  return new HttpClient({ "api.example.com": policy }, fetchFn);
+}
+
+describe("HttpClient", () => {
+  it("caches successful responses for the host's TTL", async () => {
+    const { fetchFn, calls } = fakeFetch(() => Response.json({ ok: true }));
+    const http = client(fetchFn, { cacheTtlMs: 60_000 });
+    assert.deepEqual(await (await http.fetch(URL_A)).json(), { ok: true });
+    assert.deepEqual(await (await http.fetch(URL_A)).json(), { ok: true });
+    assert.equal(calls.length, 1);
+    assert.equal(http.getStats()[0].cacheHits, 1);
+  });
+
+  it("retries server errors and 429s, and returns the last response", async () => {
+    const { fetchFn, calls } = fakeFetch((call) =>
+      call === 1
+        ? new Response("busy", { status: 503 })
+        : new Response("slow down", { status: 429, headers: { "retry-after": "0" } })
+    );
+    const http = client(fetchFn, { retries: 2 });
+    const res = await http.fetch(URL_A);
+    assert.equal(res.status, 429);
+    assert.equal(calls.length, 3);
+    assert.equal(http.getStats()[0].rateLimited, 2);
+  });
+
+  it("doesn't retry non-idempotent requests after a server error", async () => {
+    const { fetchFn, calls } = fakeFetch(() => new Response("", { status: 500 }));
+    const res = await client(fetchFn).fetch(URL_A, { method: "POST", body: "{}" });
+    assert.equal(res.status, 500);
+    assert.equal(calls.length, 1);
+  });
+
+  it("times out requests past their deadline", async () => {
+    const { fetchFn } = fakeFetch(() => Response.json({}), 200);
+    await assert.rejects(
+      client(fetchFn).fetch(URL_A, { timeoutMs: 20 }),
+      HttpTimeoutError
+    );
+  });
+
+  it("cancels a backoff wait when the caller aborts", async () => {
+    const { fetchFn } = fakeFetch(() => new Response("", { status: 429, headers: { "retry-after": "5" } }));
+    const controller = new AbortController();
+    const started = Date.now();
+    const request = client(fetchFn).fetch(URL_A, { signal: controller.signal });
+    setTimeout(() => controller.abort(new Error("cancelled")), 20);
+    await assert.rejects(request, /cancelled/);
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  it("shares one upstream call between identical requests", async () => {
+    const { fetchFn, calls } = fakeFetch(() => Response.json({ price: 1 }), 30);
+    const http = client(fetchFn, { cacheTtlMs: 60_000 });
+    const first = new AbortController();
+    const cancelled = http.fetch(URL_A, { signal: first.signal });
+    const other = http.fetch(URL_A);
+    first.abort(new Error("first caller left"));
+    await assert.rejects(cancelled, /first caller left/);
+    // The other caller still gets the shared response
+    assert.deepEqual(await (await other).json(), { price: 1 });
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].signal?.aborted, false);
+  });
+
+  it("limits concurrent requests per host", async () => {
+    let active = 0;
+    let peak = 0;
+    const fetchFn = async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      active--;
+      return Response.json({});
+    };
+    const http = client(fetchFn, { maxConcurrent: 2 });
+    await Promise.all([1, 2, 3, 4, 5].map((i) => http.fetch(`${URL_A}?i=${i}`)));
+    assert.equal(peak, 2);
+  });
+});
@@ -0,0 +1,88 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { startHttpTransport } from "../src/transports/http.js";
+import { MAX_BODY_BYTES } from "../src/transports/body.js";
+import type { TenantConfig } from "../src/core/types.js";
+import { createTestHarness, type TestHarness } from "../src/testing/index.js";
+
+const alice: TenantConfig = { id: "alice", keys: ["alice-key-5d1e8c0f2a"] };
+const bob: TenantConfig = { id: "bob", keys: ["bob-key-93b7a4e6c1"] };
+
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+};
+
+describe("HTTP transport", () => {
+  let harness: TestHarness;
+  let server: Server;
+  let base: string;
+
+  before(async () => {
+    harness = await createTestHarness({
+      config: { auth: { tenants: [alice, bob], serverKeyFallback: true } },
+    });
+    server = await startHttpTransport(harness.registry, {
+      type: "http",
+      host: "127.0.0.1",
+      port: 0,
+      rest: false,
+    });
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await harness.shutdown();
+  });
+
+  function post(key: string | undefined, body: unknown, sessionId?: string) {
+    return fetch(`${base}/mcp`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        accept: "application/json, text/event-stream",
+        ...(key ? { authorization: `Bearer ${key}` } : {}),
+        ...(sessionId ? { "mcp-session-id": sessionId } : {}),
+      },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+  }
+
+  it("requires a tenant key", async () => {
+    const res = await post(undefined, INITIALIZE);
+    assert.equal(res.status, 401);
+    assert.equal(res.headers.get("www-authenticate"), 'Bearer realm="defi-mcp"');
+  });
+
+  it("keeps sessions to the tenant that opened them", async () => {
+    const opened = await post(alice.keys[0], INITIALIZE);
+    assert.equal(opened.status, 200);
+    await opened.text();
+    const sessionId = opened.headers.get("mcp-session-id");
+    assert.ok(sessionId);
+
+    const listTools = { jsonrpc: "2.0", id: 2, method: "tools/list" };
+    const own = await post(alice.keys[0], listTools, sessionId);
+    assert.equal(own.status, 200);
+    await own.text();
+    const other = await post(bob.keys[0], listTools, sessionId);
+    assert.equal(other.status, 404);
+    assert.match(await other.text(), /Session not found/);
+  });
+
+  it("rejects bodies over the size limit with 413", async () => {
+    const res = await post(alice.keys[0], `"${"x".repeat(MAX_BODY_BYTES)}"`);
+    assert.equal(res.status, 413);
+    assert.match(await res.text(), /larger than/);
+  });
+});
@@ -0,0 +1,98 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createNetworkFetch } from "../src/core/network.js";
+import { FixtureNotFoundError } from "../src/core/errors.js";
+
+const API_KEY = "k3y0f7h3u5er4c0unt";
+
+/** Every fixture file under `dir`, as text */
+function fixtureFiles(dir: string): string[] {
+  return readdirSync(dir, { recursive: true, withFileTypes: true })
+    .filter((entry) => entry.isFile())
+    .map((entry) => readFileSync(join(entry.parentPath, entry.name), "utf8"));
+}
+
+describe("network record/replay", () => {
+  let server: Server;
+  let base: string;
+  let dir: string;
+  let hits = 0;
+
+  before(async () => {
+    dir = mkdtempSync(join(tmpdir(), "defi-mcp-fixtures-"));
+    // Answers JSON-RPC with the call's params echoed back, and anything else with its path
+    server = createServer(async (req, res) => {
+      hits++;
+      let body = "";
+      for await (const chunk of req) body += chunk;
+      res.setHeader("content-type", "application/json");
+      if (!body) return res.end(JSON.stringify({ path: req.url?.split("?")[0] }));
+      const parsed = JSON.parse(body);
+      const reply = (call: { id: number; params: unknown }) => ({
+        jsonrpc: "2.0",
+        id: call.id,
+        result: call.params,
+      });
+      res.end(JSON.stringify(Array.isArray(parsed) ? parsed.map(reply) : reply(parsed)));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("replays recorded HTTP and JSON-RPC exchanges without the network", async () => {
+    const rpcUrls = { ethereum: [`${base}/v2/${API_KEY}`] };
+    const recorder = createNetworkFetch({ mode: "record", fixturesDir: dir }, rpcUrls);
+    await recorder(`${base}/prices?ids=eth&apiKey=${API_KEY}`);
+    await recorder(rpcUrls.ethereum[0], {
+      method: "POST",
+      body: JSON.stringify([
+        { jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] },
+        { jsonrpc: "2.0", id: 2, method: "eth_getCode", params: ["0xabc", "latest"] },
+      ]),
+    });
+    const recorded = hits;
+
+    const replayer = createNetworkFetch({ mode: "replay", fixturesDir: dir }, rpcUrls);
+    const http = await replayer(`${base}/prices?ids=eth&apiKey=${API_KEY}`);
+    assert.deepEqual(await http.json(), { path: "/prices" });
+
+    // Calls recorded in one batch replay singly, under a different id
+    const rpc = await replayer(rpcUrls.ethereum[0], {
+      method: "POST",
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 7,
+        method: "eth_getCode",
+        params: ["0xabc", "latest"],
+      }),
+    });
+    assert.deepEqual(await rpc.json(), {
+      jsonrpc: "2.0",
+      id: 7,
+      result: ["0xabc", "latest"],
+    });
+    assert.equal(hits, recorded);
+  });
+
+  it("keeps API keys out of fixtures", () => {
+    const files = fixtureFiles(dir);
+    assert.equal(files.length, 3);
+    assert.ok(files.every((file) => !file.includes(API_KEY)));
+    assert.ok(files.every((file) => file.includes("REDACTED")));
+  });
+
+  it("fails replay for requests that were never recorded", async () => {
+    const replayer = createNetworkFetch({ mode: "replay", fixturesDir: dir });
+    await assert.rejects(replayer(`${base}/unrecorded`), FixtureNotFoundError);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import type { DefiPlugin, ToolResult } from "../src/core/types.js";
+import {
+  createTestHarness,
+  expectJson,
+  expectToolError,
+} from "../src/testing/index.js";
+
+/** A plugin whose tool declares an outputSchema and returns `result` */
+function pricePlugin(result: ToolResult): DefiPlugin {
+  return {
+    name: "test-price",
+    description: "Returns a fixed price",
+    version: "1.0.0",
+    async initialize() {},
+    getTools: () => [
+      {
+        name: "defi_test_price",
+        description: "Get a price",
+        capabilities: ["read"],
+        inputSchema: z.object({}),
+        outputSchema: z.object({ symbol: z.string(), priceUsd: z.string() }),
+        handler: async () => result,
+      },
+    ],
+  };
+}
+
+function textResult(data: Record<string, unknown>, structured = data): ToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(data) }],
+    structuredContent: structured,
+  };
+}
+
+describe("tool output schemas", () => {
+  it("returns structuredContent alongside the text", async () => {
+    const price = { symbol: "ETH", priceUsd: "3000.00" };
+    const harness = await createTestHarness({ plugins: [pricePlugin(textResult(price))] });
+    const result = await harness.callTool("defi_test_price", {});
+    assert.deepEqual(expectJson(result), price);
+    assert.deepEqual(result.structuredContent, price);
+    await harness.shutdown();
+  });
+
+  it("fails results that don't match the schema", async () => {
+    const harness = await createTestHarness({
+      plugins: [pricePlugin(textResult({ symbol: "ETH", priceUsd: 3000 }))],
+    });
+    const result = await harness.callTool("defi_test_price", {});
+    expectToolError(result, "OUTPUT_VALIDATION_ERROR");
+    assert.equal(result.structuredContent, undefined);
+    await harness.shutdown();
+  });
+
+  it("fails results missing structuredContent", async () => {
+    const harness = await createTestHarness({
+      plugins: [pricePlugin({ content: [{ type: "text", text: "{}" }] })],
+    });
+    expectToolError(await harness.callTool("defi_test_price", {}), "OUTPUT_VALIDATION_ERROR");
+    await harness.shutdown();
+  });
+});
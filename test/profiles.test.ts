@@ -0,0 +1,98 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { loadConfig } from "../src/config.js";
+import type { DefiPlugin, ToolCapability } from "../src/core/types.js";
+import { getExposedTools } from "../src/tools/register.js";
+import { BUILTIN_PROFILES } from "../src/tools/profiles.js";
+import { createTestHarness } from "../src/testing/index.js";
+
+/** A plugin tagged `tags` with one tool per capability set */
+function plugin(name: string, tags: string[], tools: Record<string, ToolCapability[]>): DefiPlugin {
+  return {
+    name,
+    description: name,
+    version: "1.0.0",
+    metadata: { tags },
+    async initialize() {},
+    getTools: () =>
+      Object.entries(tools).map(([toolName, capabilities]) => ({
+        name: toolName,
+        description: toolName,
+        capabilities,
+        inputSchema: z.object({}),
+        handler: async () => ({ content: [{ type: "text" as const, text: "{}" }] }),
+      })),
+  };
+}
+
+const PLUGINS = [
+  plugin("test-prices", ["market-data"], {
+    defi_test_price: ["read", "external-api"],
+  }),
+  plugin("test-dex", ["trading", "market-data"], {
+    defi_test_quote: ["read"],
+    defi_test_build_swap: ["builds-tx"],
+  }),
+  plugin("test-lending", ["lending"], {
+    defi_test_positions: ["read"],
+    defi_test_build_borrow: ["builds-tx"],
+  }),
+];
+
+async function exposedPluginTools(profile: string): Promise<string[]> {
+  const harness = await createTestHarness({
+    plugins: PLUGINS,
+    config: { profile: { name: profile, ...BUILTIN_PROFILES[profile] } },
+  });
+  const names = getExposedTools(harness.registry)
+    .map((tool) => tool.name)
+    .filter((name) => name.startsWith("defi_test_"));
+  await harness.shutdown();
+  return names;
+}
+
+describe("tool profiles", () => {
+  afterEach(() => {
+    delete process.env.DEFI_MCP_PROFILE;
+  });
+
+  it("selects tools by plugin tag and capability", async () => {
+    assert.equal((await exposedPluginTools("full")).length, 5);
+    assert.deepEqual(await exposedPluginTools("read-only"), [
+      "defi_test_price",
+      "defi_test_quote",
+      "defi_test_positions",
+    ]);
+    assert.deepEqual(await exposedPluginTools("market-data"), [
+      "defi_test_price",
+      "defi_test_quote",
+    ]);
+    assert.deepEqual(await exposedPluginTools("trading"), [
+      "defi_test_quote",
+      "defi_test_build_swap",
+    ]);
+  });
+
+  it("keeps tools outside the profile from being called", async () => {
+    const harness = await createTestHarness({
+      plugins: PLUGINS,
+      config: { profile: { name: "read-only", ...BUILTIN_PROFILES["read-only"] } },
+    });
+    await assert.rejects(
+      harness.callTool("defi_test_build_swap", {}),
+      /"defi_test_build_swap" is not registered/
+    );
+    await harness.shutdown();
+  });
+
+  it("is chosen through the environment", () => {
+    process.env.DEFI_MCP_PROFILE = "read-only";
+    assert.deepEqual(loadConfig().profile, {
+      name: "read-only",
+      excludeCapabilities: ["builds-tx"],
+    });
+    process.env.DEFI_MCP_PROFILE = "everything";
+    assert.throws(() => loadConfig(), /Unknown profile "everything"/);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ProgressUpdate } from "../src/core/tool-call.js";
+import { WalletIntelligencePlugin } from "../src/plugins/index.js";
+import { StubScanner, createTestHarness, expectToolError } from "../src/testing/index.js";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const SCAN = { address: WALLET, chainIds: ["ethereum", "base"] };
+
+describe("progress and cancellation", () => {
+  it("reports progress per chain scanned", async () => {
+    const harness = await createTestHarness({
+      plugins: [new WalletIntelligencePlugin()],
+      scanners: [new StubScanner("Stub", ["ethereum", "base"])],
+    });
+    const updates: ProgressUpdate[] = [];
+    await harness.callTool("defi_wallet_scan", SCAN, {
+      onProgress: (update) => updates.push(update),
+    });
+    assert.deepEqual(
+      updates.map((u) => [u.progress, u.total]),
+      [[1, 2], [2, 2]]
+    );
+    assert.deepEqual(
+      updates.map((u) => u.message).sort(),
+      ["Stub on Base", "Stub on Ethereum"]
+    );
+    await harness.shutdown();
+  });
+
+  it("returns CANCELLED without waiting for unfinished chains", async () => {
+    const scanner = new StubScanner("Stub", ["ethereum", "base"], (chainId) =>
+      chainId === "base" ? new Promise(() => {}) : []
+    );
+    const harness = await createTestHarness({
+      plugins: [new WalletIntelligencePlugin()],
+      scanners: [scanner],
+    });
+    const controller = new AbortController();
+    const result = harness.callTool("defi_wallet_scan", SCAN, {
+      signal: controller.signal,
+      onProgress: () => controller.abort(),
+    });
+    expectToolError(await result, "CANCELLED");
+    await harness.shutdown();
+  });
+
+  it("sends MCP progress notifications to clients that ask for them", async () => {
+    const harness = await createTestHarness({
+      plugins: [new WalletIntelligencePlugin()],
+      scanners: [new StubScanner("Stub", ["ethereum", "base"])],
+    });
+    const client = await harness.connect();
+    const updates: number[] = [];
+    const result = await client.callTool(
+      { name: "defi_wallet_scan", arguments: SCAN },
+      undefined,
+      { onprogress: ({ progress }) => updates.push(progress) }
+    );
+    assert.ok(!result.isError);
+    assert.deepEqual(updates, [1, 2]);
+    await harness.shutdown();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AppConfig } from "../src/core/types.js";
+import { registerComponents } from "../src/plugins/builtin.js";
+import { WORKFLOW_PROMPTS } from "../src/prompts/workflows.js";
+import { getExposedTools } from "../src/tools/register.js";
+import { BUILTIN_PROFILES } from "../src/tools/profiles.js";
+import { createTestHarness } from "../src/testing/index.js";
+
+/** A harness with every built-in plugin registered */
+async function builtinHarness(config: Partial<AppConfig> = {}) {
+  const harness = await createTestHarness({ config });
+  await registerComponents(harness.registry, harness.context.config);
+  return harness;
+}
+
+const SWAP_ARGS = {
+  chainId: "base",
+  srcToken: "USDC",
+  dstToken: "WETH",
+  amount: "250",
+  address: "0x1111111111111111111111111111111111111111",
+};
+
+describe("workflow prompts", () => {
+  it("only name tools the built-in plugins register", async () => {
+    const harness = await builtinHarness();
+    const tools = new Set(getExposedTools(harness.registry).map((t) => t.name));
+    for (const prompt of WORKFLOW_PROMPTS) {
+      const missing = prompt.tools.filter((name) => !tools.has(name));
+      assert.deepEqual(missing, [], `${prompt.name} names unknown tools`);
+    }
+    const client = await harness.connect();
+    const { prompts } = await client.listPrompts();
+    assert.deepEqual(
+      prompts.map((p) => p.name),
+      WORKFLOW_PROMPTS.map((p) => p.name)
+    );
+    await harness.shutdown();
+  });
+
+  it("renders a plan from the arguments", async () => {
+    const harness = await builtinHarness();
+    const client = await harness.connect();
+    const { messages } = await client.getPrompt({ name: "safe-swap", arguments: SWAP_ARGS });
+    const text = String(messages[0].content.text);
+    assert.match(text, /Swap 250 USDC for WETH on base for 0x1111/);
+    assert.match(text, /defi_multi_quote \(chainId "base", srcToken "USDC"/);
+    assert.doesNotMatch(text, /defi_enable_toolsets/);
+    await harness.shutdown();
+  });
+
+  it("leaves out plans whose tools the profile hides", async () => {
+    const harness = await builtinHarness({
+      profile: { name: "read-only", ...BUILTIN_PROFILES["read-only"] },
+    });
+    const client = await harness.connect();
+    const names = (await client.listPrompts()).prompts.map((p) => p.name);
+    assert.ok(!names.includes("safe-swap"));
+    assert.ok(names.includes("audit-my-wallet"));
+    await harness.shutdown();
+  });
+
+  it("starts by enabling toolsets in lazy mode", async () => {
+    const harness = await builtinHarness({
+      toolLoading: { mode: "lazy", coreToolsets: ["token-info"] },
+    });
+    const client = await harness.connect();
+    const { messages } = await client.getPrompt({ name: "safe-swap", arguments: SWAP_ARGS });
+    const text = String(messages[0].content.text);
+    assert.match(text, /^First enable the toolsets this plan uses with defi_enable_toolsets/);
+    const preamble = text.split("\n")[0];
+    assert.match(preamble, /"swap"/);
+    assert.doesNotMatch(preamble, /"token-info"/);
+    await harness.shutdown();
+  });
+});
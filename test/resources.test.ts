@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { LendingPlugin } from "../src/plugins/index.js";
+import { AAVE_V3_ADDRESSES } from "../src/plugins/lending/aave-addresses.js";
+import { createTestHarness } from "../src/testing/index.js";
+
+const USDC = {
+  symbol: "USDC",
+  name: "USD Coin",
+  decimals: 6,
+  address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+  chainId: "base",
+};
+
+describe("MCP resources", () => {
+  it("serves chains, tokens and protocol address books", async () => {
+    const harness = await createTestHarness({ plugins: [new LendingPlugin()] });
+    harness.evm.addToken(USDC);
+    const client = await harness.connect();
+    const read = async (uri: string) => {
+      const { contents } = await client.readResource({ uri });
+      return JSON.parse(String(contents[0].text));
+    };
+
+    const chains = await read("defi://chains");
+    const base = chains.find((c: { id: string }) => c.id === "base");
+    assert.equal(base.nativeChainId, 8453);
+    assert.equal("rpcUrl" in base, false);
+
+    const tokens = await read("defi://tokens/base");
+    assert.equal(tokens.nativeToken.symbol, "ETH");
+    assert.deepEqual(tokens.tokens, [USDC]);
+
+    assert.deepEqual(await read("defi://protocols/aave-v3/arbitrum"), {
+      chainId: "arbitrum",
+      ...AAVE_V3_ADDRESSES.arbitrum,
+    });
+    await assert.rejects(read("defi://protocols/aave-v3/fantom"), /not found/);
+    await harness.shutdown();
+  });
+
+  it("lists templates and every URI they expand to", async () => {
+    const harness = await createTestHarness({ plugins: [new LendingPlugin()] });
+    const client = await harness.connect();
+    const { resourceTemplates } = await client.listResourceTemplates();
+    assert.deepEqual(resourceTemplates.map((t) => t.uriTemplate).sort(), [
+      "defi://protocols/aave-v3/{chainId}",
+      "defi://tokens/{chainId}",
+    ]);
+    const uris = (await client.listResources()).resources.map((r) => r.uri);
+    assert.ok(uris.includes("defi://chains"));
+    assert.ok(uris.includes("defi://tokens/solana-mainnet"));
+    assert.ok(uris.includes("defi://protocols/aave-v3/ethereum"));
+    await harness.shutdown();
+  });
+});
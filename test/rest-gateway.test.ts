@@ -0,0 +1,124 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { z } from "zod";
+import { startHttpTransport } from "../src/transports/http.js";
+import type { DefiPlugin, TenantConfig } from "../src/core/types.js";
+import { createTestHarness, type TestHarness } from "../src/testing/index.js";
+
+const ops: TenantConfig = { id: "ops", keys: ["ops-key-7f3a9c21d4"] };
+const viewer: TenantConfig = {
+  id: "viewer",
+  keys: ["viewer-key-b81e46d0a2"],
+  tools: ["defi_get_chains", "defi_test_*"],
+};
+
+/** A plugin whose tool adds two amounts */
+const addPlugin: DefiPlugin = {
+  name: "test-math",
+  description: "Adds numbers",
+  version: "1.0.0",
+  async initialize() {},
+  getTools: () => [
+    {
+      name: "defi_test_add",
+      description: "Add two amounts. Returns their sum.",
+      capabilities: ["read"],
+      inputSchema: z.object({ a: z.number(), b: z.number() }),
+      outputSchema: z.object({ sum: z.number() }),
+      handler: async ({ a, b }) => {
+        const data = { sum: a + b };
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+      },
+    },
+  ],
+};
+
+describe("REST gateway", () => {
+  let harness: TestHarness;
+  let server: Server;
+  let base: string;
+
+  before(async () => {
+    harness = await createTestHarness({
+      plugins: [addPlugin],
+      config: { auth: { tenants: [ops, viewer], serverKeyFallback: true } },
+    });
+    server = await startHttpTransport(harness.registry, {
+      type: "http",
+      host: "127.0.0.1",
+      port: 0,
+      rest: true,
+    });
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await harness.shutdown();
+  });
+
+  function request(tenant: TenantConfig | undefined, path: string, body?: unknown) {
+    return fetch(`${base}${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers: {
+        "content-type": "application/json",
+        ...(tenant ? { authorization: `Bearer ${tenant.keys[0]}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  it("serves each tool as POST /tools/{name}", async () => {
+    const res = await request(ops, "/tools/defi_test_add", { a: 2, b: 3 });
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { sum: 5 });
+  });
+
+  it("answers invalid input with 400 and the issues", async () => {
+    const res = await request(ops, "/tools/defi_test_add", { a: 2 });
+    assert.equal(res.status, 400);
+    const { error } = await res.json();
+    assert.equal(error.code, "INVALID_INPUT");
+    assert.deepEqual(error.details.issues.map((i: { path: string }) => i.path), ["b"]);
+  });
+
+  it("maps error codes to statuses", async () => {
+    const unknown = await request(ops, "/tools/defi_nope", {});
+    assert.equal(unknown.status, 404);
+    assert.equal((await unknown.json()).error.code, "TOOL_NOT_FOUND");
+    const get = await request(ops, "/tools/defi_test_add");
+    assert.equal(get.status, 405);
+    await get.text();
+    const anonymous = await request(undefined, "/tools/defi_test_add", { a: 1, b: 1 });
+    assert.equal(anonymous.status, 401);
+    await anonymous.text();
+  });
+
+  it("limits tenants to their allowlist", async () => {
+    const allowed = await request(viewer, "/tools/defi_test_add", { a: 1, b: 1 });
+    assert.equal(allowed.status, 200);
+    await allowed.text();
+    const hidden = await request(viewer, "/tools/defi_search_tools", { query: "add" });
+    assert.equal(hidden.status, 404);
+    await hidden.text();
+  });
+
+  it("describes the tenant's tools in an OpenAPI document", async () => {
+    const res = await request(viewer, "/openapi.json");
+    assert.equal(res.status, 200);
+    const doc = await res.json();
+    assert.equal(doc.openapi, "3.0.3");
+    assert.deepEqual(Object.keys(doc.paths).sort(), ["/tools/defi_get_chains", "/tools/defi_test_add"]);
+    const add = doc.paths["/tools/defi_test_add"].post;
+    assert.equal(add.summary, "Add two amounts.");
+    assert.deepEqual(add.tags, ["test-math"]);
+    assert.deepEqual(add.requestBody.content["application/json"].schema.required, ["a", "b"]);
+    assert.deepEqual(
+      Object.keys(add.responses["200"].content["application/json"].schema.properties),
+      ["sum"]
+    );
+  });
+});
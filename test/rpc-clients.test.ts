@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { EvmChainAdapter } from "../src/chains/evm/adapter.js";
+import { EVM_CHAINS } from "../src/chains/evm/chains.js";
+import { ChainNotSupportedError } from "../src/core/errors.js";
+import { RpcHealthTracker } from "../src/core/rpc-health.js";
+import { Registry } from "../src/core/registry.js";
+import { testConfig } from "../src/testing/index.js";
+
+const RPC = "https://rpc.example/eth";
+const WALLETS = [
+  "0x1111111111111111111111111111111111111111",
+  "0x2222222222222222222222222222222222222222",
+  "0x3333333333333333333333333333333333333333",
+];
+
+/** Answers every JSON-RPC call with 0x1, recording each HTTP request body */
+function rpcFetch(bodies: unknown[]) {
+  return async (_input: string | URL | Request, init: RequestInit = {}) => {
+    const body = JSON.parse(String(init.body));
+    bodies.push(body);
+    const answer = (req: { id: number }) => ({ jsonrpc: "2.0", id: req.id, result: "0x1" });
+    return Response.json(Array.isArray(body) ? body.map(answer) : answer(body));
+  };
+}
+
+describe("pooled EVM clients", () => {
+  const ethereum = EVM_CHAINS.find((c) => c.id === "ethereum")!;
+
+  it("hands every caller the same client for a chain", () => {
+    const adapter = new EvmChainAdapter([ethereum], { ethereum: [RPC] });
+    assert.equal(adapter.getClient("ethereum"), adapter.getClient("ethereum"));
+    assert.throws(() => adapter.getClient("base"), /No client for chain "base"/);
+  });
+
+  it("batches concurrent reads into one request", async () => {
+    const bodies: unknown[] = [];
+    const adapter = new EvmChainAdapter(
+      [ethereum],
+      { ethereum: [RPC] },
+      new RpcHealthTracker(),
+      rpcFetch(bodies)
+    );
+    const client = adapter.getClient("ethereum");
+    const nonces = await Promise.all(
+      WALLETS.map((address) =>
+        client.getTransactionCount({ address: address as `0x${string}` })
+      )
+    );
+    assert.deepEqual(nonces, [1, 1, 1]);
+    assert.equal(bodies.length, 1);
+    assert.equal((bodies[0] as unknown[]).length, WALLETS.length);
+  });
+
+  it("is exposed through the plugin context by chain", () => {
+    const registry = new Registry(testConfig());
+    const adapter = new EvmChainAdapter([ethereum], { ethereum: [RPC] });
+    registry.registerChainAdapter(adapter);
+    const context = registry.getPluginContext();
+    assert.equal(context.getEvmClient("ethereum"), adapter.getClient("ethereum"));
+    assert.throws(() => context.getSolanaConnection("ethereum"), ChainNotSupportedError);
+  });
+});
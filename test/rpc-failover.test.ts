@@ -0,0 +1,117 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { RpcHealthTracker, withFailover } from "../src/core/rpc-health.js";
+import { UpstreamRateLimitError } from "../src/core/errors.js";
+import { CosmosChainAdapter } from "../src/chains/cosmos/adapter.js";
+import { COSMOS_CHAINS } from "../src/chains/cosmos/chains.js";
+
+const A = "https://a.example/rpc";
+const B = "https://b.example/rpc";
+
+function rateLimited(): Error {
+  return Object.assign(new Error("Too Many Requests"), { status: 429 });
+}
+
+describe("withFailover", () => {
+  it("tries the next endpoint when one fails", async () => {
+    const health = new RpcHealthTracker();
+    const tried: string[] = [];
+    const result = await withFailover([A, B], health, async (url) => {
+      tried.push(url);
+      if (url === A) throw new Error("socket hang up");
+      return "ok";
+    });
+    assert.equal(result, "ok");
+    assert.deepEqual(tried, [A, B]);
+    assert.equal(health.getStats().find((s) => s.url === A)?.failures, 1);
+  });
+
+  it("rethrows errors that aren't the endpoint's fault without failing over", async () => {
+    const health = new RpcHealthTracker();
+    const tried: string[] = [];
+    await assert.rejects(
+      withFailover(
+        [A, B],
+        health,
+        async (url) => {
+          tried.push(url);
+          throw new Error("execution reverted");
+        },
+        () => false
+      ),
+      /execution reverted/
+    );
+    assert.deepEqual(tried, [A]);
+    assert.equal(health.getStats()[0].failures, 0);
+  });
+
+  it("moves rate-limited endpoints to the back and names the last one", async () => {
+    const health = new RpcHealthTracker();
+    await assert.rejects(
+      withFailover([A, B], health, async () => {
+        throw rateLimited();
+      }),
+      (err: unknown) =>
+        err instanceof UpstreamRateLimitError && /b\.example/.test(err.message)
+    );
+    const stats = health.getStats().find((s) => s.url === A);
+    assert.equal(stats?.rateLimited, 1);
+    assert.ok(stats?.cooldownUntil);
+
+    const fresh = new RpcHealthTracker();
+    fresh.recordFailure(A, rateLimited());
+    assert.deepEqual(fresh.rank([A, B]), [B, A]);
+  });
+
+  it("cools an endpoint down after repeated failures", async () => {
+    const health = new RpcHealthTracker({ maxConsecutiveFailures: 2 });
+    for (let i = 0; i < 2; i++) health.recordFailure(A, new Error("timeout"));
+    assert.deepEqual(health.rank([A, B]), [B, A]);
+  });
+});
+
+describe("CosmosChainAdapter failover", () => {
+  const chain = COSMOS_CHAINS[0];
+
+  /** A fetch where A is unreachable and B answers every call with a JSON-RPC error */
+  function fetchFn(calls: string[]) {
+    return async (input: string | URL | Request) => {
+      const url = String(input instanceof Request ? input.url : input);
+      calls.push(url);
+      if (url === A) throw new TypeError("fetch failed");
+      return Response.json({
+        jsonrpc: "2.0",
+        id: 1,
+        error: { code: -32603, message: "Internal error", data: "decoding bech32 failed" },
+      });
+    };
+  }
+
+  it("counts network errors against the endpoint", async () => {
+    const health = new RpcHealthTracker();
+    const calls: string[] = [];
+    const adapter = new CosmosChainAdapter(
+      [chain],
+      { [chain.id]: [A, B] },
+      health,
+      fetchFn(calls)
+    );
+    await assert.rejects(adapter.getLatestBlock(chain.id), /decoding bech32 failed/);
+    const stats = Object.fromEntries(health.getStats().map((s) => [s.url, s.failures]));
+    assert.deepEqual(stats, { [A]: 1, [B]: 0 });
+  });
+
+  it("doesn't fail over or mark endpoints unhealthy on query errors", async () => {
+    const health = new RpcHealthTracker();
+    const calls: string[] = [];
+    const adapter = new CosmosChainAdapter(
+      [chain],
+      { [chain.id]: [B, A] },
+      health,
+      fetchFn(calls)
+    );
+    await assert.rejects(adapter.getLatestBlock(chain.id), /decoding bech32 failed/);
+    assert.ok(calls.every((url) => url === B));
+    assert.equal(health.getStats()[0].failures, 0);
+  });
+});
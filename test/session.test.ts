@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { applySessionDefaults, getSessionFields } from "../src/tools/session.js";
+import type { SessionContext, ToolDefinition } from "../src/core/types.js";
+import { createTestContext } from "../src/testing/index.js";
+
+const EVM_WALLET = "0x1111111111111111111111111111111111111111";
+const SOLANA_WALLET = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU";
+
+const FIELDS = { chainId: "chain", userAddress: "wallet" } as const;
+
+describe("applySessionDefaults", () => {
+  it("fills omitted fields from the session", async () => {
+    const context = await createTestContext();
+    const session: SessionContext = { chainId: "base", wallets: [EVM_WALLET] };
+    assert.deepEqual(applySessionDefaults({ amount: "1" }, FIELDS, session, context), {
+      amount: "1",
+      chainId: "base",
+      userAddress: EVM_WALLET,
+    });
+  });
+
+  it("keeps values the caller passed", async () => {
+    const context = await createTestContext();
+    const session: SessionContext = { chainId: "base", wallets: [EVM_WALLET] };
+    const input = { chainId: "solana-mainnet", userAddress: SOLANA_WALLET };
+    assert.deepEqual(applySessionDefaults(input, FIELDS, session, context), input);
+  });
+
+  it("picks the first session wallet valid on the call's chain", async () => {
+    const context = await createTestContext();
+    const session: SessionContext = { wallets: [EVM_WALLET, SOLANA_WALLET] };
+    const onSolana = applySessionDefaults({ chainId: "solana-mainnet" }, FIELDS, session, context);
+    assert.equal(onSolana.userAddress, SOLANA_WALLET);
+    const onEthereum = applySessionDefaults({ chainId: "ethereum" }, FIELDS, session, context);
+    assert.equal(onEthereum.userAddress, EVM_WALLET);
+  });
+
+  it("leaves fields the session can't fill for validation to reject", async () => {
+    const context = await createTestContext();
+    const session: SessionContext = { wallets: [EVM_WALLET] };
+    const filled = applySessionDefaults({ chainId: "solana-mainnet" }, FIELDS, session, context);
+    assert.equal(filled.userAddress, undefined);
+    assert.deepEqual(applySessionDefaults({}, FIELDS, {}, context), {
+      chainId: undefined,
+      userAddress: undefined,
+    });
+  });
+});
+
+describe("getSessionFields", () => {
+  it("covers required conventional fields and declared defaults", () => {
+    const shape = {
+      chainId: z.string(),
+      userAddress: z.string().optional(),
+      owner: z.string(),
+      amount: z.string(),
+    };
+    const tool = { sessionDefaults: { owner: "wallet" } } as unknown as ToolDefinition;
+    assert.deepEqual(getSessionFields(tool, shape), { chainId: "chain", owner: "wallet" });
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { JsonFileStateStore, MemoryStateStore } from "../src/storage/state-store.js";
+import { createTestHarness } from "../src/testing/index.js";
+
+const dirs: string[] = [];
+
+function tempDir(): string {
+  const dir = mkdtempSync(join(tmpdir(), "defi-mcp-state-"));
+  dirs.push(dir);
+  return dir;
+}
+
+describe("MemoryStateStore", () => {
+  it("keeps namespaces apart and returns copies", async () => {
+    const store = new MemoryStateStore(100);
+    const labels = store.namespace("labels");
+    const label = { name: "cold wallet" };
+    await labels.set("0xabc", label);
+    label.name = "changed";
+    (await labels.get<{ name: string }>("0xabc"))!.name = "changed again";
+    assert.deepEqual(await labels.get("0xabc"), { name: "cold wallet" });
+    assert.equal(await store.namespace("other").get("0xabc"), undefined);
+    assert.deepEqual(await labels.keys("0x"), ["0xabc"]);
+    assert.equal(await labels.delete("0xabc"), true);
+    assert.equal(await labels.delete("0xabc"), false);
+    await assert.rejects(labels.set("fn", () => 1), /values must be JSON-serialisable/);
+  });
+
+  it("drops the oldest rows past the limit and filters rows", async () => {
+    const history = new MemoryStateStore(3).namespace("health");
+    for (let hf = 1; hf <= 5; hf++) await history.append("snapshots", { hf });
+    const all = await history.rows<{ hf: number }>("snapshots");
+    assert.deepEqual(all.map((r) => r.data.hf), [3, 4, 5]);
+    const low = await history.rows<{ hf: number }>("snapshots", {
+      where: (row) => row.hf < 5,
+      limit: 1,
+    });
+    assert.deepEqual(low.map((r) => r.data.hf), [4]);
+    assert.deepEqual(await history.rows("snapshots", { since: "2999-01-01T00:00:00Z" }), []);
+  });
+});
+
+describe("JsonFileStateStore", () => {
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("survives a restart", async () => {
+    const path = join(tempDir(), "nested", "state.json");
+    const first = new JsonFileStateStore(path, 100);
+    await first.namespace("watch").set("wallets", ["0xabc"]);
+    await first.namespace("watch").append("alerts", { hf: 1.1 });
+    await first.flush();
+    assert.deepEqual(readdirSync(join(path, "..")), ["state.json"]);
+
+    const second = new JsonFileStateStore(path, 100);
+    assert.deepEqual(await second.namespace("watch").get("wallets"), ["0xabc"]);
+    const [alert] = await second.namespace("watch").rows("alerts");
+    assert.deepEqual(alert.data, { hf: 1.1 });
+  });
+
+  it("moves a corrupt file aside and starts empty", async (t) => {
+    const dir = tempDir();
+    const path = join(dir, "state.json");
+    writeFileSync(path, "{ not json");
+    t.mock.method(console, "error", () => {});
+
+    const store = new JsonFileStateStore(path, 100);
+    assert.deepEqual(await store.namespace("watch").keys(), []);
+    const aside = readdirSync(dir).filter((f) => f.startsWith("state.json.corrupt-"));
+    assert.equal(aside.length, 1);
+
+    await store.namespace("watch").set("wallets", []);
+    await store.flush();
+    assert.ok(existsSync(path));
+    const reopened = new JsonFileStateStore(path, 100);
+    assert.deepEqual(await reopened.namespace("watch").get("wallets"), []);
+  });
+
+  it("is flushed when the registry shuts down", async () => {
+    const path = join(tempDir(), "state.json");
+    const harness = await createTestHarness({
+      config: { storage: { type: "file", path, maxTableRows: 100 } },
+    });
+    await harness.context.storage.namespace("token-lists").set("cached", { n: 1 });
+    await harness.shutdown();
+    const reopened = new JsonFileStateStore(path, 100);
+    assert.deepEqual(await reopened.namespace("token-lists").get("cached"), { n: 1 });
+  });
+});
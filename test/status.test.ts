@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import type { DefiPlugin, TenantConfig } from "../src/core/types.js";
+import { createTestHarness, expectJson, expectToolError } from "../src/testing/index.js";
+
+interface Status {
+  plugins: Array<{ name: string; tools: number }>;
+  tools: Array<{ tool: string; calls: number; errors: number; recentErrors: Record<string, number> }>;
+}
+
+/** A plugin whose one tool always fails */
+const failingPlugin: DefiPlugin = {
+  name: "test-failing",
+  description: "Always fails",
+  version: "1.0.0",
+  async initialize() {},
+  getTools: () => [
+    {
+      name: "defi_test_fail",
+      description: "Fail",
+      capabilities: ["read"],
+      inputSchema: z.object({}),
+      handler: async () => {
+        throw new Error("upstream exploded");
+      },
+    },
+  ],
+};
+
+const ops: TenantConfig = { id: "ops", keys: ["ops-key-0f3a9c2b7d41"] };
+const research: TenantConfig = {
+  id: "research",
+  keys: ["research-key-8e1d5b6a"],
+  tools: ["defi_server_status", "defi_get_chains"],
+};
+
+describe("defi_server_status", () => {
+  it("reports per-tool errors by code", async () => {
+    const harness = await createTestHarness({ plugins: [failingPlugin] });
+    expectToolError(await harness.callTool("defi_test_fail"), "TOOL_ERROR");
+    const status = expectJson<Status>(
+      await harness.callTool("defi_server_status", { probeRpc: false })
+    );
+    assert.deepEqual(
+      status.tools.map((t) => [t.tool, t.calls, t.errors, t.recentErrors]),
+      [["defi_test_fail", 1, 1, { TOOL_ERROR: 1 }]]
+    );
+    assert.ok(status.plugins.some((p) => p.name === "test-failing"));
+    await harness.shutdown();
+  });
+
+  it("shows a tenant only its own tool stats and allowed plugins", async () => {
+    const harness = await createTestHarness({
+      plugins: [failingPlugin],
+      config: { auth: { tenants: [ops, research], serverKeyFallback: true } },
+    });
+    expectToolError(await harness.callTool("defi_test_fail", {}, { tenant: ops }), "TOOL_ERROR");
+
+    const forOps = expectJson<Status>(
+      await harness.callTool("defi_server_status", { probeRpc: false }, { tenant: ops })
+    );
+    assert.deepEqual(forOps.tools.map((t) => t.tool), ["defi_test_fail"]);
+    assert.ok(forOps.plugins.some((p) => p.name === "test-failing"));
+
+    const forResearch = expectJson<Status>(
+      await harness.callTool("defi_server_status", { probeRpc: false }, { tenant: research })
+    );
+    assert.deepEqual(forResearch.tools, []);
+    assert.deepEqual(forResearch.plugins, []);
+    await harness.shutdown();
+  });
+});
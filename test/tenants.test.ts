@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TenantAuth, isToolAllowed } from "../src/auth/tenants.js";
+import { QuotaExceededError, ToolNotAllowedError } from "../src/core/errors.js";
+import { apiKeyFor, createToolCallContext } from "../src/core/tool-call.js";
+import type { TenantConfig } from "../src/core/types.js";
+import { createTestContext } from "../src/testing/index.js";
+
+const research: TenantConfig = {
+  id: "research",
+  keys: ["research-4f9c2d7e81b3a6", "research-rotated-0b1c2d"],
+  tools: ["defi_*_price", "defi_get_chains"],
+  callsPerMinute: 2,
+  apiKeys: { coingecko: "tenant-cg-key" },
+};
+const bot: TenantConfig = { id: "bot", keys: ["bot-0a7e55c19d2f48aa"] };
+
+function auth(): TenantAuth {
+  return new TenantAuth({ tenants: [research, bot], serverKeyFallback: true });
+}
+
+describe("TenantAuth", () => {
+  it("authenticates any of a tenant's keys", () => {
+    const tenants = auth();
+    assert.ok(tenants.enabled);
+    assert.equal(tenants.authenticate("research-rotated-0b1c2d"), research);
+    assert.equal(tenants.authenticate("bot-0a7e55c19d2f48aa"), bot);
+    assert.equal(tenants.authenticate("not-a-key"), undefined);
+    assert.equal(tenants.authenticate(undefined), undefined);
+  });
+
+  it("is disabled without tenants", () => {
+    assert.equal(new TenantAuth({ tenants: [], serverKeyFallback: true }).enabled, false);
+  });
+
+  it("limits tools to the tenant's allowlist", () => {
+    assert.ok(isToolAllowed(research, "defi_token_price"));
+    assert.ok(isToolAllowed(research, "defi_get_chains"));
+    assert.equal(isToolAllowed(research, "defi_swap_build"), false);
+    assert.ok(isToolAllowed(bot, "defi_swap_build"));
+    assert.ok(isToolAllowed(undefined, "defi_swap_build"));
+    assert.ok(auth().authorize(research, "defi_swap_build") instanceof ToolNotAllowedError);
+  });
+
+  it("enforces calls per minute over a rolling window", (t) => {
+    t.mock.timers.enable({ apis: ["Date"], now: 1_000_000 });
+    const tenants = auth();
+    assert.equal(tenants.authorize(research, "defi_get_chains"), undefined);
+    t.mock.timers.tick(30_000);
+    assert.equal(tenants.authorize(research, "defi_get_chains"), undefined);
+
+    const error = tenants.authorize(research, "defi_get_chains");
+    assert.ok(error instanceof QuotaExceededError);
+    assert.equal(error.details?.retryAfterMs, 30_000);
+    // Refused calls don't count, and other tenants are unaffected
+    assert.equal(tenants.authorize(bot, "defi_get_chains"), undefined);
+
+    t.mock.timers.tick(30_001);
+    assert.equal(tenants.authorize(research, "defi_get_chains"), undefined);
+    assert.ok(tenants.authorize(research, "defi_get_chains") instanceof QuotaExceededError);
+  });
+});
+
+describe("tenant API keys", () => {
+  async function serverContext(serverKeyFallback: boolean) {
+    return createTestContext({
+      config: {
+        apiKeys: { coingecko: "server-cg-key", zeroX: "server-0x-key" },
+        auth: { tenants: [research, bot], serverKeyFallback },
+      },
+    });
+  }
+
+  it("prefers the tenant's key over plugin and server keys", async () => {
+    const context = createToolCallContext(await serverContext(true), { tenant: research });
+    assert.equal(apiKeyFor(context, "coingecko", "plugin-cg-key"), "tenant-cg-key");
+    assert.equal(context.apiKeys.coingecko, "tenant-cg-key");
+  });
+
+  it("falls back to plugin, then server, keys when allowed", async () => {
+    const context = createToolCallContext(await serverContext(true), { tenant: bot });
+    assert.equal(apiKeyFor(context, "coingecko", "plugin-cg-key"), "plugin-cg-key");
+    assert.equal(apiKeyFor(context, "zeroX"), "server-0x-key");
+  });
+
+  it("withholds server keys from tenants when fallback is off", async () => {
+    const context = createToolCallContext(await serverContext(false), { tenant: bot });
+    assert.equal(apiKeyFor(context, "coingecko", "plugin-cg-key"), undefined);
+    assert.equal(context.apiKeys.zeroX, undefined);
+  });
+
+  it("uses server keys outside tenant calls", async () => {
+    const context = createToolCallContext(await serverContext(false));
+    assert.equal(apiKeyFor(context, "coingecko", "plugin-cg-key"), "plugin-cg-key");
+    assert.equal(context.apiKeys.zeroX, "server-0x-key");
+  });
+});
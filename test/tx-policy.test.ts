@@ -0,0 +1,239 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { encodeFunctionData, erc20Abi, maxUint256 } from "viem";
+import { HttpClient } from "../src/core/http-client.js";
+import { TxPolicyEngine } from "../src/policy/tx-policy.js";
+import type {
+  DefiPlugin,
+  PluginContext,
+  ToolResult,
+  TxPolicyConfig,
+  UnsignedTransaction,
+} from "../src/core/types.js";
+import {
+  createTestContext,
+  createTestHarness,
+  expectJson,
+  expectToolError,
+} from "../src/testing/index.js";
+
+const SENDER = "0x1111111111111111111111111111111111111111";
+const RECIPIENT = "0x2222222222222222222222222222222222222222";
+const SPENDER = "0x3333333333333333333333333333333333333333";
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const ETH_PRICE_USD = 2000;
+
+function ethTransfer(eth: number): UnsignedTransaction {
+  return {
+    chainId: "ethereum",
+    ecosystem: "evm",
+    raw: { to: RECIPIENT, data: "0x", value: `0x${(BigInt(eth * 1000) * 10n ** 15n).toString(16)}`, from: SENDER },
+    description: `Send ${eth} ETH`,
+  };
+}
+
+function approval(amount: bigint): UnsignedTransaction {
+  return {
+    chainId: "ethereum",
+    ecosystem: "evm",
+    raw: {
+      to: USDC,
+      data: encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [SPENDER, amount] }),
+      value: "0x0",
+      from: SENDER,
+    },
+    description: "Approve USDC",
+  };
+}
+
+function contractCall(outflows?: UnsignedTransaction["outflows"]): UnsignedTransaction {
+  return {
+    chainId: "ethereum",
+    ecosystem: "evm",
+    raw: { to: SPENDER, data: "0xd0e30db0", value: "0x0", from: SENDER },
+    description: "Deposit",
+    outflows,
+  };
+}
+
+function txResult(...txs: UnsignedTransaction[]): ToolResult {
+  const body = txs.length === 1 ? txs[0] : { transactions: txs };
+  return { content: [{ type: "text", text: JSON.stringify(body) }] };
+}
+
+/** A plugin whose one tool returns `tx`, to run the policy as tool calls do */
+function builderPlugin(tx: UnsignedTransaction): DefiPlugin {
+  return {
+    name: "test-builder",
+    description: "Returns a fixed transaction",
+    version: "1.0.0",
+    async initialize() {},
+    getTools: () => [
+      {
+        name: "defi_test_build_tx",
+        description: "Build the test transaction",
+        capabilities: ["builds-tx"],
+        inputSchema: z.object({}),
+        handler: async () => txResult(tx),
+      },
+    ],
+  };
+}
+
+/** A context whose CoinGecko lookups answer ETH_PRICE_USD after `delayMs` */
+async function pricedContext(delayMs = 0): Promise<PluginContext> {
+  const fetchFn = async (input: string | URL | Request) => {
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+    const url = String(input instanceof Request ? input.url : input);
+    if (!url.includes("/simple/price")) return new Response("{}", { status: 404 });
+    return Response.json({ ethereum: { usd: ETH_PRICE_USD } });
+  };
+  return createTestContext({ overrides: { http: new HttpClient({}, fetchFn) } });
+}
+
+async function enforce(
+  policy: TxPolicyConfig,
+  result: ToolResult,
+  context?: PluginContext
+): Promise<ToolResult> {
+  return new TxPolicyEngine(policy).enforce(result, context ?? (await pricedContext()));
+}
+
+describe("TxPolicyEngine", () => {
+  it("blocks tool results whose transactions break a rule", async () => {
+    const harness = await createTestHarness({
+      plugins: [builderPlugin(ethTransfer(1))],
+      config: { txPolicy: { allowedRecipients: [SPENDER] } },
+    });
+    const text = expectToolError(
+      await harness.callTool("defi_test_build_tx"),
+      "TX_POLICY_VIOLATION"
+    );
+    assert.match(text, new RegExp(`${RECIPIENT} is not an allowed recipient`));
+    await harness.shutdown();
+  });
+
+  it("returns the transaction with policyWarnings in warn mode", async () => {
+    const harness = await createTestHarness({
+      plugins: [builderPlugin(approval(maxUint256))],
+      config: { txPolicy: { onViolation: "warn", blockUnlimitedApprovals: true } },
+    });
+    const tx = expectJson<UnsignedTransaction>(await harness.callTool("defi_test_build_tx"));
+    assert.deepEqual(tx.policyWarnings, [`Unlimited approval for ${SPENDER}`]);
+    await harness.shutdown();
+  });
+
+  it("checks the spender of an approval against allowedContracts", async () => {
+    const policy = { allowedContracts: [SPENDER] };
+    const context = await pricedContext();
+    const allowed = await enforce(policy, txResult(approval(10n ** 6n)), context);
+    assert.equal(allowed.isError, undefined);
+    const blocked = await enforce(
+      { allowedContracts: [USDC] },
+      txResult(approval(10n ** 6n)),
+      context
+    );
+    expectToolError(blocked, `${SPENDER} is not an allowed contract`);
+  });
+
+  it("values native transfers against maxTxUsd", async () => {
+    const policy = { maxTxUsd: 3000 };
+    assert.equal((await enforce(policy, txResult(ethTransfer(1)))).isError, undefined);
+    expectToolError(
+      await enforce(policy, txResult(ethTransfer(2))),
+      "Value $4000.00 exceeds the per-transaction limit of $3000"
+    );
+  });
+
+  it("values declared outflows of contract calls", async () => {
+    const eth = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+    const result = txResult(contractCall([{ token: eth, amount: (2n * 10n ** 18n).toString() }]));
+    expectToolError(await enforce({ maxTxUsd: 3000 }, result), "exceeds the per-transaction limit");
+  });
+
+  it("treats a contract call that doesn't declare what it spends as a violation", async () => {
+    const message = "Could not tell what the transaction spends, so value limits can't be checked";
+    expectToolError(await enforce({ maxTxUsd: 3000 }, txResult(contractCall())), message);
+    const checked = await enforce(
+      { maxTxUsd: 3000, onViolation: "warn" },
+      txResult(contractCall())
+    );
+    const tx = expectJson<UnsignedTransaction>(checked);
+    assert.deepEqual(tx.policyWarnings, [message]);
+  });
+
+  it("checks transactions in every content item and in structuredContent", async () => {
+    const policy = { maxTxUsd: 3000 };
+    const secondItem: ToolResult = {
+      content: [
+        { type: "text", text: "Built one transaction" },
+        { type: "text", text: JSON.stringify(ethTransfer(2)) },
+      ],
+    };
+    expectToolError(await enforce(policy, secondItem), "exceeds the per-transaction limit");
+    const structuredOnly: ToolResult = {
+      content: [{ type: "text", text: "Built one transaction" }],
+      structuredContent: { tx: ethTransfer(2) },
+    };
+    expectToolError(await enforce(policy, structuredOnly), "exceeds the per-transaction limit");
+  });
+
+  it("counts a transaction in both text and structuredContent once", async () => {
+    const engine = new TxPolicyEngine({ maxDailyUsd: 5000 });
+    const tx = ethTransfer(2);
+    const result: ToolResult = { ...txResult(tx), structuredContent: { ...tx } };
+    assert.equal((await engine.enforce(result, await pricedContext())).isError, undefined);
+    assert.equal(
+      (await engine.enforce(txResult(ethTransfer(0.5)), await pricedContext())).isError,
+      undefined
+    );
+  });
+
+  it("counts transactions towards the daily limit", async () => {
+    const engine = new TxPolicyEngine({ maxDailyUsd: 5000 });
+    const context = await pricedContext();
+    assert.equal((await engine.enforce(txResult(ethTransfer(2)), context)).isError, undefined);
+    expectToolError(
+      await engine.enforce(txResult(ethTransfer(2)), context),
+      "over the daily limit of $5000"
+    );
+    // The blocked transaction didn't count, so a smaller one still fits
+    assert.equal((await engine.enforce(txResult(ethTransfer(0.5)), context)).isError, undefined);
+  });
+
+  it("doesn't count transactions blocked by another rule", async () => {
+    const engine = new TxPolicyEngine({ maxTxUsd: 3000, maxDailyUsd: 5000 });
+    const context = await pricedContext();
+    expectToolError(
+      await engine.enforce(txResult(ethTransfer(2)), context),
+      "exceeds the per-transaction limit"
+    );
+    assert.equal((await engine.enforce(txResult(ethTransfer(1)), context)).isError, undefined);
+    assert.equal((await engine.enforce(txResult(ethTransfer(1.5)), context)).isError, undefined);
+  });
+
+  it("releases the value of earlier transactions when a later one is blocked", async () => {
+    const engine = new TxPolicyEngine({ maxDailyUsd: 5000, allowedRecipients: [RECIPIENT] });
+    const context = await pricedContext();
+    const blocked = { ...ethTransfer(1), raw: { ...ethTransfer(1).raw, to: SPENDER } };
+    expectToolError(
+      await engine.enforce(txResult(ethTransfer(2), blocked), context),
+      "is not an allowed recipient"
+    );
+    assert.equal((await engine.enforce(txResult(ethTransfer(2.5)), context)).isError, undefined);
+  });
+
+  it("doesn't let concurrent calls spend the same daily headroom", async () => {
+    const engine = new TxPolicyEngine({ maxDailyUsd: 5000 });
+    const context = await pricedContext(20);
+    const results = await Promise.all([
+      engine.enforce(txResult(ethTransfer(2)), context),
+      engine.enforce(txResult(ethTransfer(2)), context),
+    ]);
+    assert.deepEqual(
+      results.map((r) => r.isError === true),
+      [false, true]
+    );
+  });
+});